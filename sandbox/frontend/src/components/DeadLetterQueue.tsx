@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Select } from './ui/select';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { useDeadLetters, useReplayDeadLetters, usePurgeDeadLetters } from '../hooks/useDeadLetters';
+import { generateSignature } from '../lib/signature';
+import {
+  formatDate,
+  formatRelativeTime,
+  getErrorMessage,
+  getSeverityColor,
+  formatFailureReason,
+  FAILURE_CATEGORIES,
+} from '../lib/utils';
+import { RotateCw, Trash2, AlertCircle, CheckCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import type { DeadLetterFilter } from '../types/api';
+
+const PAGE_SIZE = 25;
+
+export default function DeadLetterQueue() {
+  const [filter, setFilter] = useState<DeadLetterFilter>({});
+  const [offset, setOffset] = useState(0);
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data, isLoading, error: loadError } = useDeadLetters({ ...filter, limit: PAGE_SIZE, offset });
+  const replayMutation = useReplayDeadLetters();
+  const purgeMutation = usePurgeDeadLetters();
+
+  const sign = (payload: DeadLetterFilter & { all?: boolean }) =>
+    webhookSecret ? generateSignature(payload, webhookSecret) : undefined;
+
+  const handleFilterChange = (key: keyof DeadLetterFilter, value: string) => {
+    setFilter((prev) => ({ ...prev, [key]: value || undefined }));
+    setOffset(0);
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Request failed'));
+    }
+  };
+
+  const handleReplay = () =>
+    run(async () => {
+      const result = await replayMutation.mutateAsync({ filter, signature: sign(filter) });
+      setMessage(`Replaying ${result.replayed} notification(s)`);
+    });
+
+  const handlePurge = () =>
+    run(async () => {
+      const hasFilter = Object.values(filter).some(Boolean);
+      const scope = hasFilter ? 'every failed notification matching the filters' : 'EVERY failed notification';
+      if (!confirm(`Permanently delete ${scope}?`)) return;
+
+      const body = hasFilter ? filter : { all: true };
+      const result = await purgeMutation.mutateAsync({ filter: body, signature: sign(body) });
+      setMessage(`Purged ${result.purged} notification(s)`);
+    });
+
+  const hasNext = data && offset + PAGE_SIZE < data.total;
+  const hasPrev = offset > 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Dead-Letter Queue</h2>
+        <p className="text-gray-600 mt-1">
+          Inspect notifications that failed for good, then replay or purge them in bulk
+        </p>
+      </div>
+
+      {/* Filters and bulk actions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filters</CardTitle>
+          <CardDescription>
+            Replay and purge act on every failed notification matching these filters
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="dead-letter-source">Source</Label>
+              <Input
+                id="dead-letter-source"
+                value={filter.source || ''}
+                onChange={(e) => handleFilterChange('source', e.target.value)}
+                placeholder="Any source"
+              />
+            </div>
+            <div>
+              <Label htmlFor="dead-letter-reason">Failure Reason</Label>
+              <Select
+                id="dead-letter-reason"
+                value={filter.reason || ''}
+                onChange={(e) => handleFilterChange('reason', e.target.value)}
+              >
+                <option value="">Any reason</option>
+                {FAILURE_CATEGORIES.map((category) => (
+                  <option key={category} value={category}>
+                    {formatFailureReason(category)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="dead-letter-since">Failed Since</Label>
+              <Input
+                id="dead-letter-since"
+                value={filter.since || ''}
+                onChange={(e) => handleFilterChange('since', e.target.value)}
+                placeholder='e.g. "24h" or "2024-12-25"'
+              />
+            </div>
+            <div>
+              <Label htmlFor="dead-letter-until">Failed Before</Label>
+              <Input
+                id="dead-letter-until"
+                value={filter.until || ''}
+                onChange={(e) => handleFilterChange('until', e.target.value)}
+                placeholder='e.g. "1h"'
+              />
+            </div>
+          </div>
+
+          <div className="flex items-end gap-4">
+            <div className="flex-1">
+              <Label htmlFor="dead-letter-secret">Webhook Secret</Label>
+              <Input
+                id="dead-letter-secret"
+                value={webhookSecret}
+                onChange={(e) => setWebhookSecret(e.target.value)}
+                placeholder="Only needed when WEBHOOK_SECRET is set"
+                type="password"
+              />
+            </div>
+            <Button type="button" onClick={handleReplay} disabled={replayMutation.isPending || !data?.total}>
+              <RotateCw className="w-4 h-4 mr-2" />
+              Replay {data?.total ?? 0}
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handlePurge}
+              disabled={purgeMutation.isPending || !data?.total}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Purge {data?.total ?? 0}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {message && (
+        <Card className="border-green-200 bg-green-50">
+          <CardContent className="pt-6 flex items-center gap-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-sm text-green-900">{message}</span>
+          </CardContent>
+        </Card>
+      )}
+
+      {(error || loadError) && (
+        <Card className="border-red-200 bg-red-50">
+          <CardContent className="pt-6 flex items-center gap-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-sm text-red-800">
+              {error || getErrorMessage(loadError, 'Failed to load dead letters')}
+            </span>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Failed notifications */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Failed Notifications</CardTitle>
+          <CardDescription>{data ? `${data.total} total` : 'Loading...'}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : data?.notifications.length ? (
+            <div className="space-y-4">
+              {data.notifications.map((notification) => (
+                <div key={notification.id} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono text-sm text-gray-500">#{notification.id}</span>
+                        <span className="font-medium">{notification.source}</span>
+                        <Badge className={getSeverityColor(notification.severity)}>{notification.severity}</Badge>
+                      </div>
+                      {notification.title && <p className="text-sm font-semibold mt-1">{notification.title}</p>}
+                      <p className="text-sm text-gray-700 line-clamp-2">{notification.message}</p>
+                    </div>
+                    <div className="text-right text-xs text-gray-500 whitespace-nowrap">
+                      <div>Failed {formatRelativeTime(notification.failed_at || notification.created_at)}</div>
+                      {notification.failure_reason && (
+                        <div className="text-red-700">{formatFailureReason(notification.failure_reason)}</div>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Attempt history */}
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 pr-2">#</th>
+                        <th className="py-1 pr-2">Time</th>
+                        <th className="py-1 pr-2">Outcome</th>
+                        <th className="py-1 pr-2">HTTP</th>
+                        <th className="py-1">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {notification.attempts.map((attempt) => (
+                        <tr key={attempt.attempt} className="border-b last:border-0">
+                          <td className="py-1 pr-2 font-mono">{attempt.attempt}</td>
+                          <td className="py-1 pr-2 whitespace-nowrap">{formatDate(attempt.attempted_at)}</td>
+                          <td className={`py-1 pr-2 ${attempt.outcome === 'sent' ? 'text-green-700' : 'text-red-700'}`}>
+                            {attempt.outcome}
+                          </td>
+                          <td className="py-1 pr-2 font-mono">{attempt.http_status ?? '—'}</td>
+                          <td className="py-1 text-gray-700">
+                            {attempt.error || '—'}
+                            {attempt.failure_reason && (
+                              <span className="text-gray-500"> ({attempt.failure_reason})</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                      {notification.attempts.length === 0 && (
+                        <tr>
+                          <td colSpan={5} className="py-1 text-gray-500">
+                            No attempts recorded. Last error: {notification.last_error || 'Unknown'}
+                          </td>
+                        </tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No failed notifications</p>
+          )}
+
+          {data && data.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                disabled={!hasPrev}
+              >
+                <ChevronLeft className="w-4 h-4 mr-1" />
+                Previous
+              </Button>
+              <span className="text-sm text-gray-600">
+                {offset + 1}-{Math.min(offset + PAGE_SIZE, data.total)} of {data.total}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+                disabled={!hasNext}
+              >
+                Next
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,21 +1,25 @@
 import { useState } from 'react';
-import { Send, Search, BarChart3, History, FlaskConical } from 'lucide-react';
+import { Send, Search, BarChart3, History, FlaskConical, FileText, Inbox } from 'lucide-react';
 import NotificationTester from './NotificationTester';
 import NotificationManager from './NotificationManager';
 import QueueMonitor from './QueueMonitor';
 import NotificationBrowser from './NotificationBrowser';
 import TestingTools from './TestingTools';
+import TemplateEditor from './TemplateEditor';
+import DeadLetterQueue from './DeadLetterQueue';
 
-type View = 'tester' | 'manager' | 'monitor' | 'browser' | 'tools';
+type View = 'tester' | 'templates' | 'manager' | 'monitor' | 'browser' | 'dead-letters' | 'tools';
 
 export default function Layout() {
   const [currentView, setCurrentView] = useState<View>('tester');
 
   const menuItems = [
     { id: 'tester' as View, label: 'Notification Tester', icon: Send },
+    { id: 'templates' as View, label: 'Templates', icon: FileText },
     { id: 'manager' as View, label: 'Manager', icon: Search },
     { id: 'monitor' as View, label: 'Queue Monitor', icon: BarChart3 },
     { id: 'browser' as View, label: 'Browser', icon: History },
+    { id: 'dead-letters' as View, label: 'Dead Letters', icon: Inbox },
     { id: 'tools' as View, label: 'Testing Tools', icon: FlaskConical },
   ];
 
@@ -23,12 +27,16 @@ export default function Layout() {
     switch (currentView) {
       case 'tester':
         return <NotificationTester />;
+      case 'templates':
+        return <TemplateEditor />;
       case 'manager':
         return <NotificationManager />;
       case 'monitor':
         return <QueueMonitor />;
       case 'browser':
         return <NotificationBrowser />;
+      case 'dead-letters':
+        return <DeadLetterQueue />;
       case 'tools':
         return <TestingTools />;
       default:
@@ -6,7 +6,7 @@ import { Select } from './ui/select';
 import { Badge } from './ui/badge';
 import { Label } from './ui/label';
 import { useNotificationsList } from '../hooks/useNotifications';
-import { formatDate, formatRelativeTime, getStatusColor, getSeverityColor } from '../lib/utils';
+import { formatDate, formatRelativeTime, getStatusColor, getSeverityColor, formatFailureReason } from '../lib/utils';
 import { Search, ChevronLeft, ChevronRight, ExternalLink } from 'lucide-react';
 import type { NotificationQueryParams } from '../types/api';
 
@@ -14,6 +14,7 @@ export default function NotificationBrowser() {
   const [filters, setFilters] = useState<NotificationQueryParams>({
     status: '',
     source: '',
+    severity: '',
     search: '',
     limit: 25,
     offset: 0,
@@ -60,7 +61,7 @@ export default function NotificationBrowser() {
           <CardDescription>Narrow down your search</CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
             <div>
               <Label htmlFor="status">Status</Label>
               <Select
@@ -77,6 +78,23 @@ export default function NotificationBrowser() {
               </Select>
             </div>
 
+            <div>
+              <Label htmlFor="severity">Severity</Label>
+              <Select
+                id="severity"
+                value={filters.severity || ''}
+                onChange={(e) => handleFilterChange('severity', e.target.value)}
+              >
+                <option value="">All Severities</option>
+                <option value="debug">Debug</option>
+                <option value="info">Info</option>
+                <option value="success">Success</option>
+                <option value="warning">Warning</option>
+                <option value="error">Error</option>
+                <option value="critical">Critical</option>
+              </Select>
+            </div>
+
             <div>
               <Label htmlFor="source">Source</Label>
               <Input
@@ -131,6 +149,7 @@ export default function NotificationBrowser() {
                   setFilters({
                     status: '',
                     source: '',
+                    severity: '',
                     search: '',
                     limit: 25,
                     offset: 0,
@@ -208,6 +227,11 @@ export default function NotificationBrowser() {
                         <Badge className={getStatusColor(notification.status)}>
                           {notification.status}
                         </Badge>
+                        {notification.failure_reason && (
+                          <div className="text-xs text-red-600 mt-1">
+                            {formatFailureReason(notification.failure_reason)}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         {notification.source}
@@ -266,6 +290,7 @@ export default function NotificationBrowser() {
                 setFilters({
                   status: '',
                   source: '',
+                  severity: '',
                   search: '',
                   limit: 25,
                   offset: 0,
@@ -5,7 +5,7 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { useNotification, useCancelNotification, useRetryNotification } from '../hooks/useNotifications';
-import { formatDate, formatRelativeTime, getStatusColor, getSeverityColor } from '../lib/utils';
+import { formatDate, formatRelativeTime, getStatusColor, getSeverityColor, formatFailureReason } from '../lib/utils';
 import { Search, X, RotateCcw, ExternalLink, AlertCircle } from 'lucide-react';
 
 export default function NotificationManager() {
@@ -170,8 +170,50 @@ export default function NotificationManager() {
                 </div>
               </div>
 
+              {/* Delivery Attempts */}
+              {notification.attempts && notification.attempts.length > 0 && (
+                <div className="border-t pt-4">
+                  <Label className="text-gray-600 mb-2 block">Delivery Attempts</Label>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-1 pr-2">#</th>
+                        <th className="py-1 pr-2">Started</th>
+                        <th className="py-1 pr-2">Duration</th>
+                        <th className="py-1 pr-2">Outcome</th>
+                        <th className="py-1 pr-2">HTTP</th>
+                        <th className="py-1">Error</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {notification.attempts.map((attempt) => (
+                        <tr key={attempt.attempt} className="border-b last:border-0">
+                          <td className="py-1 pr-2 font-mono">{attempt.attempt}</td>
+                          <td className="py-1 pr-2 whitespace-nowrap">
+                            {formatDate(attempt.started_at || attempt.attempted_at)}
+                          </td>
+                          <td className="py-1 pr-2 whitespace-nowrap">
+                            {attempt.duration_ms != null ? `${attempt.duration_ms} ms` : '—'}
+                          </td>
+                          <td className={`py-1 pr-2 ${attempt.outcome === 'sent' ? 'text-green-700' : 'text-red-700'}`}>
+                            {attempt.outcome}
+                          </td>
+                          <td className="py-1 pr-2 font-mono">{attempt.http_status ?? '—'}</td>
+                          <td className="py-1 text-gray-700">
+                            {attempt.error || '—'}
+                            {attempt.failure_reason && (
+                              <span className="text-gray-500"> ({formatFailureReason(attempt.failure_reason)})</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
               {/* Retry Info */}
-              {notification.retry_count > 0 && (
+              {(notification.retry_count > 0 || notification.failure_reason) && (
                 <div className="border-t pt-4">
                   <Label className="text-gray-600 mb-2 block">Retry Information</Label>
                   <div className="space-y-2 text-sm">
@@ -181,6 +223,22 @@ export default function NotificationManager() {
                         {notification.retry_count} / {notification.max_retries}
                       </span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Priority:</span>
+                      <span className="font-medium">{notification.priority}</span>
+                    </div>
+                    {notification.status === 'pending' && notification.next_attempt_at && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Next Retry:</span>
+                        <span className="font-medium">{formatRelativeTime(notification.next_attempt_at)}</span>
+                      </div>
+                    )}
+                    {notification.failure_reason && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Failure Reason:</span>
+                        <span className="font-medium">{formatFailureReason(notification.failure_reason)}</span>
+                      </div>
+                    )}
                     {notification.last_error && (
                       <div>
                         <span className="text-gray-600">Last Error:</span>
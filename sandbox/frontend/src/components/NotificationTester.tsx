@@ -186,9 +186,12 @@ export default function NotificationTester() {
                   value={formData.severity || 'info'}
                   onChange={(e) => setFormData({ ...formData, severity: e.target.value as any })}
                 >
+                  <option value="debug">Debug</option>
                   <option value="info">Info</option>
+                  <option value="success">Success</option>
                   <option value="warning">Warning</option>
                   <option value="error">Error</option>
+                  <option value="critical">Critical</option>
                 </Select>
               </div>
 
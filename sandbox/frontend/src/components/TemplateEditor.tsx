@@ -0,0 +1,368 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Label } from './ui/label';
+import { Select } from './ui/select';
+import { Badge } from './ui/badge';
+import { useTemplates, useSaveTemplate, useDeleteTemplate, usePreviewTemplate } from '../hooks/useTemplates';
+import { useCreateNotification } from '../hooks/useNotifications';
+import { generateSignature } from '../lib/signature';
+import { getErrorMessage } from '../lib/utils';
+import { Eye, Save, Send, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+import type {
+  NotificationCreateRequest,
+  NotificationSeverity,
+  NotificationTemplate,
+  NotificationTemplateInput,
+  TemplatePreviewResponse,
+} from '../types/api';
+
+interface TemplateForm {
+  name: string;
+  source: string;
+  title: string;
+  message: string;
+  severity: NotificationSeverity;
+  channel: string;
+  embed: string; // JSON of the embed options
+}
+
+const EMPTY_FORM: TemplateForm = {
+  name: 'door-open',
+  source: '',
+  title: '{{door}} opened',
+  message: 'Opened at {{time}}{{#if person}} by {{person}}{{/if}}',
+  severity: 'warning',
+  channel: '',
+  embed: '',
+};
+
+const SAMPLE_DATA = '{\n  "door": "Front door",\n  "time": "18:30",\n  "person": "Alex"\n}';
+
+export default function TemplateEditor() {
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [sampleData, setSampleData] = useState(SAMPLE_DATA);
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [preview, setPreview] = useState<TemplatePreviewResponse | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: templateList, isLoading } = useTemplates();
+  const saveMutation = useSaveTemplate();
+  const deleteMutation = useDeleteTemplate();
+  const previewMutation = usePreviewTemplate();
+  const createMutation = useCreateNotification();
+
+  const sign = (payload: NotificationTemplateInput | NotificationCreateRequest | Record<string, never>) =>
+    webhookSecret ? generateSignature(payload, webhookSecret) : undefined;
+
+  // Parse a JSON textarea, reporting which one is invalid
+  const parseJson = <T = Record<string, unknown>,>(text: string, label: string): T | undefined => {
+    if (!text.trim()) return undefined;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new Error(`${label} is not valid JSON`);
+    }
+  };
+
+  const buildTemplate = (): NotificationTemplateInput => ({
+    message: form.message,
+    severity: form.severity,
+    ...(form.source && { source: form.source }),
+    ...(form.title && { title: form.title }),
+    ...(form.channel && { channel: form.channel }),
+    ...(form.embed.trim() && { embed: parseJson<NotificationTemplateInput['embed']>(form.embed, 'Embed options') }),
+  });
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(getErrorMessage(err, 'Request failed'));
+    }
+  };
+
+  const handlePreview = () =>
+    run(async () => {
+      const result = await previewMutation.mutateAsync({
+        template: { name: form.name, ...buildTemplate() },
+        data: parseJson(sampleData, 'Sample data'),
+      });
+      setPreview(result);
+    });
+
+  const handleSave = () =>
+    run(async () => {
+      const data = buildTemplate();
+      await saveMutation.mutateAsync({ name: form.name, data, signature: sign(data) });
+      setMessage(`Template "${form.name}" saved`);
+    });
+
+  const handleSend = () =>
+    run(async () => {
+      const data: NotificationCreateRequest = { template: form.name, data: parseJson(sampleData, 'Sample data') ?? {} };
+      const result = await createMutation.mutateAsync({ data, signature: sign(data) });
+      setMessage(`Notification #${result.notification_id} ${result.status}`);
+    });
+
+  const handleDelete = (name: string) =>
+    run(async () => {
+      if (!confirm(`Delete template "${name}"?`)) return;
+      await deleteMutation.mutateAsync({ name, signature: sign({}) });
+      setMessage(`Template "${name}" deleted`);
+    });
+
+  const loadTemplate = (template: NotificationTemplate) => {
+    setForm({
+      name: template.name,
+      source: template.source || '',
+      title: template.title || '',
+      message: template.message,
+      severity: template.severity || 'info',
+      channel: template.channel || '',
+      embed: template.embed ? JSON.stringify(template.embed, null, 2) : '',
+    });
+    setPreview(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold text-gray-900">Template Editor</h2>
+        <p className="text-gray-600 mt-1">
+          Build notification templates with {'{{placeholders}}'} and preview them with sample data
+        </p>
+      </div>
+
+      {/* Saved templates */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Saved Templates</CardTitle>
+          <CardDescription>Click a template to edit it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading...</p>
+          ) : templateList?.templates.length ? (
+            <div className="space-y-2">
+              {templateList.templates.map((template) => (
+                <div
+                  key={template.name}
+                  className="flex items-center justify-between p-3 border rounded-lg hover:bg-gray-50 cursor-pointer"
+                  onClick={() => loadTemplate(template)}
+                >
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{template.name}</span>
+                    {template.variables.map((variable) => (
+                      <Badge key={variable} variant="outline">{variable}</Badge>
+                    ))}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(template.name);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">No templates yet</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Form */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Template</CardTitle>
+            <CardDescription>
+              Use {'{{name}}'}, dotted paths like {'{{sensor.state}}'} and {'{{#if x}}...{{else}}...{{/if}}'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="template-name">Name *</Label>
+              <Input
+                id="template-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="door-open"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="template-title">Title</Label>
+              <Input
+                id="template-title"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="template-message">Message *</Label>
+              <Textarea
+                id="template-message"
+                value={form.message}
+                onChange={(e) => setForm({ ...form, message: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="template-source">Source</Label>
+                <Input
+                  id="template-source"
+                  value={form.source}
+                  onChange={(e) => setForm({ ...form, source: e.target.value })}
+                  placeholder="Defaults to the name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="template-channel">Channel</Label>
+                <Input
+                  id="template-channel"
+                  value={form.channel}
+                  onChange={(e) => setForm({ ...form, channel: e.target.value })}
+                  placeholder="Channel ID or route"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="template-severity">Severity</Label>
+              <Select
+                id="template-severity"
+                value={form.severity}
+                onChange={(e) => setForm({ ...form, severity: e.target.value as NotificationSeverity })}
+              >
+                <option value="debug">Debug</option>
+                <option value="info">Info</option>
+                <option value="success">Success</option>
+                <option value="warning">Warning</option>
+                <option value="error">Error</option>
+                <option value="critical">Critical</option>
+              </Select>
+            </div>
+
+            <div>
+              <Label htmlFor="template-embed">Embed Options (JSON)</Label>
+              <Textarea
+                id="template-embed"
+                value={form.embed}
+                onChange={(e) => setForm({ ...form, embed: e.target.value })}
+                placeholder={'{ "fields": [{ "name": "Battery", "value": "{{battery}}%" }] }'}
+                rows={4}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="template-data">Sample Data (JSON)</Label>
+              <Textarea
+                id="template-data"
+                value={sampleData}
+                onChange={(e) => setSampleData(e.target.value)}
+                rows={5}
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="template-secret">Webhook Secret</Label>
+              <Input
+                id="template-secret"
+                value={webhookSecret}
+                onChange={(e) => setWebhookSecret(e.target.value)}
+                placeholder="Only needed when WEBHOOK_SECRET is set"
+                type="password"
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={handlePreview} disabled={previewMutation.isPending}>
+                <Eye className="w-4 h-4 mr-2" />
+                Preview
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={saveMutation.isPending}>
+                <Save className="w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button type="button" variant="secondary" onClick={handleSend} disabled={createMutation.isPending}>
+                <Send className="w-4 h-4 mr-2" />
+                Send with Data
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Results */}
+        <div className="space-y-6">
+          {message && (
+            <Card className="border-green-200 bg-green-50">
+              <CardContent className="pt-6 flex items-center gap-2">
+                <CheckCircle className="w-5 h-5 text-green-600" />
+                <span className="text-sm text-green-900">{message}</span>
+              </CardContent>
+            </Card>
+          )}
+
+          {error && (
+            <Card className="border-red-200 bg-red-50">
+              <CardContent className="pt-6 flex items-center gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600" />
+                <span className="text-sm text-red-800">{error}</span>
+              </CardContent>
+            </Card>
+          )}
+
+          {preview && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Preview</CardTitle>
+                <CardDescription>
+                  Variables: {preview.variables.length ? preview.variables.join(', ') : 'none'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {preview.errors.length > 0 && (
+                  <ul className="text-sm text-red-700 list-disc pl-5">
+                    {preview.errors.map((previewError) => (
+                      <li key={previewError}>{previewError}</li>
+                    ))}
+                  </ul>
+                )}
+                {preview.notification && (
+                  <div className="border-l-4 border-blue-500 bg-gray-50 p-3 rounded">
+                    {preview.notification.title && (
+                      <p className="font-semibold">{preview.notification.title}</p>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap">{preview.notification.message}</p>
+                    <p className="text-xs text-gray-500 mt-2">Source: {preview.notification.source}</p>
+                  </div>
+                )}
+                {preview.notification && (
+                  <pre className="bg-gray-100 p-3 rounded text-xs overflow-x-auto">
+                    {JSON.stringify(preview.notification, null, 2)}
+                  </pre>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
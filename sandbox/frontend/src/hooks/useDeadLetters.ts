@@ -0,0 +1,41 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../lib/api';
+import type { DeadLetterFilter, DeadLetterQueryParams } from '../types/api';
+
+// Get failed notifications with their delivery attempts
+export function useDeadLetters(params?: DeadLetterQueryParams) {
+  return useQuery({
+    queryKey: ['dead-letters', params],
+    queryFn: () => apiClient.getDeadLetters(params),
+  });
+}
+
+// Replay dead letters mutation
+export function useReplayDeadLetters() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ filter, signature }: { filter: DeadLetterFilter; signature?: string }) =>
+      apiClient.replayDeadLetters(filter, signature),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dead-letters'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['queueStats'] });
+    },
+  });
+}
+
+// Purge dead letters mutation
+export function usePurgeDeadLetters() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ filter, signature }: { filter: DeadLetterFilter & { all?: boolean }; signature?: string }) =>
+      apiClient.purgeDeadLetters(filter, signature),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['dead-letters'] });
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['queueStats'] });
+    },
+  });
+}
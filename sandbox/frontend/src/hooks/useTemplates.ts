@@ -0,0 +1,51 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../lib/api';
+import type { NotificationTemplateInput, TemplatePreviewRequest } from '../types/api';
+
+// Get templates list
+export function useTemplates() {
+  return useQuery({
+    queryKey: ['templates'],
+    queryFn: () => apiClient.listTemplates(),
+  });
+}
+
+// Create or replace template mutation
+export function useSaveTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      name,
+      data,
+      signature,
+    }: {
+      name: string;
+      data: NotificationTemplateInput;
+      signature?: string;
+    }) => apiClient.saveTemplate(name, data, signature),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+  });
+}
+
+// Delete template mutation
+export function useDeleteTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ name, signature }: { name: string; signature?: string }) =>
+      apiClient.deleteTemplate(name, signature),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['templates'] });
+    },
+  });
+}
+
+// Preview template mutation
+export function usePreviewTemplate() {
+  return useMutation({
+    mutationFn: (data: TemplatePreviewRequest) => apiClient.previewTemplate(data),
+  });
+}
@@ -9,6 +9,16 @@ import type {
   CancelNotificationResponse,
   RetryNotificationResponse,
   HealthResponse,
+  NotificationTemplate,
+  NotificationTemplateInput,
+  TemplateListResponse,
+  TemplatePreviewRequest,
+  TemplatePreviewResponse,
+  DeadLetterFilter,
+  DeadLetterListResponse,
+  DeadLetterQueryParams,
+  ReplayDeadLettersResponse,
+  PurgeDeadLettersResponse,
 } from '../types/api';
 
 class APIClient {
@@ -74,6 +84,73 @@ class APIClient {
     return response.data;
   }
 
+  // List notification templates
+  async listTemplates(): Promise<TemplateListResponse> {
+    const response = await this.client.get<TemplateListResponse>('/webhook/templates');
+    return response.data;
+  }
+
+  // Create or replace a notification template
+  async saveTemplate(
+    name: string,
+    data: NotificationTemplateInput,
+    signature?: string
+  ): Promise<NotificationTemplate> {
+    const headers = signature ? { 'X-Webhook-Signature': signature } : {};
+    const response = await this.client.put<NotificationTemplate>(
+      `/webhook/templates/${encodeURIComponent(name)}`,
+      data,
+      { headers }
+    );
+    return response.data;
+  }
+
+  // Delete a notification template
+  async deleteTemplate(name: string, signature?: string): Promise<void> {
+    const headers = signature ? { 'X-Webhook-Signature': signature } : {};
+    await this.client.delete(`/webhook/templates/${encodeURIComponent(name)}`, { headers });
+  }
+
+  // Render a template with sample data without sending it
+  async previewTemplate(data: TemplatePreviewRequest): Promise<TemplatePreviewResponse> {
+    const response = await this.client.post<TemplatePreviewResponse>('/webhook/templates/preview', data);
+    return response.data;
+  }
+
+  // List failed notifications in the dead-letter queue
+  async getDeadLetters(params?: DeadLetterQueryParams): Promise<DeadLetterListResponse> {
+    const response = await this.client.get<DeadLetterListResponse>('/webhook/dead-letters', { params });
+    return response.data;
+  }
+
+  // Replay failed notifications matching a filter
+  async replayDeadLetters(
+    filter: DeadLetterFilter,
+    signature?: string
+  ): Promise<ReplayDeadLettersResponse> {
+    const headers = signature ? { 'X-Webhook-Signature': signature } : {};
+    const response = await this.client.post<ReplayDeadLettersResponse>(
+      '/webhook/dead-letters/replay',
+      filter,
+      { headers }
+    );
+    return response.data;
+  }
+
+  // Delete failed notifications matching a filter ("all" is needed without one)
+  async purgeDeadLetters(
+    filter: DeadLetterFilter & { all?: boolean },
+    signature?: string
+  ): Promise<PurgeDeadLettersResponse> {
+    const headers = signature ? { 'X-Webhook-Signature': signature } : {};
+    const response = await this.client.post<PurgeDeadLettersResponse>(
+      '/webhook/dead-letters/purge',
+      filter,
+      { headers }
+    );
+    return response.data;
+  }
+
   // Health check
   async healthCheck(): Promise<HealthResponse> {
     const response = await this.client.get<HealthResponse>('/health');
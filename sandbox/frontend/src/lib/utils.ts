@@ -1,4 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
+import axios from "axios";
+import type { FailureCategory } from "../types/api";
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs);
@@ -57,17 +59,56 @@ export function getStatusColor(status: string): string {
 
 export function getSeverityColor(severity: string): string {
   switch (severity) {
+    case 'debug':
+      return 'bg-gray-400 text-white';
     case 'info':
       return 'bg-blue-500 text-white';
+    case 'success':
+      return 'bg-green-500 text-white';
     case 'warning':
       return 'bg-amber-500 text-white';
     case 'error':
       return 'bg-red-500 text-white';
+    case 'critical':
+      return 'bg-red-800 text-white';
     default:
       return 'bg-blue-500 text-white';
   }
 }
 
+const FAILURE_REASONS: Record<FailureCategory, { label: string; permanent: boolean }> = {
+  missing_access: { label: 'Missing access', permanent: true },
+  missing_permissions: { label: 'Missing permissions', permanent: true },
+  unknown_channel: { label: 'Unknown channel', permanent: true },
+  unknown_user: { label: 'Unknown user', permanent: true },
+  invalid_channel: { label: 'Not a text channel', permanent: true },
+  invalid_payload: { label: 'Invalid message or embed', permanent: true },
+  payload_too_large: { label: 'Message too large', permanent: true },
+  missing_attachment: { label: 'Attachment missing', permanent: true },
+  rejected: { label: 'Rejected by Discord', permanent: true },
+  rate_limited: { label: 'Rate limited', permanent: false },
+  server_error: { label: 'Discord server error', permanent: false },
+  timeout: { label: 'Timed out', permanent: false },
+  network: { label: 'Network error', permanent: false },
+  unknown: { label: 'Unknown error', permanent: false },
+};
+
+export const FAILURE_CATEGORIES = Object.keys(FAILURE_REASONS) as FailureCategory[];
+
+export function formatFailureReason(reason: FailureCategory): string {
+  const known = FAILURE_REASONS[reason];
+  if (!known) return reason;
+  return `${known.label} (${known.permanent ? 'permanent' : 'transient'})`;
+}
+
+// Error message from the API response if there is one, else the error's own message
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ error?: string }>(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
 export function getHealthColor(health: string): string {
   switch (health) {
     case 'healthy':
@@ -1,4 +1,32 @@
 // Shared TypeScript types for API interactions
+export type NotificationSeverity = 'debug' | 'info' | 'success' | 'warning' | 'error' | 'critical';
+
+// Why the last delivery attempt failed
+export type FailureCategory =
+  | 'missing_access'
+  | 'missing_permissions'
+  | 'unknown_channel'
+  | 'unknown_user'
+  | 'invalid_channel'
+  | 'invalid_payload'
+  | 'payload_too_large'
+  | 'missing_attachment'
+  | 'rejected'
+  | 'rate_limited'
+  | 'server_error'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+export interface NotificationAction {
+  label: string;
+  style?: 'primary' | 'secondary' | 'success' | 'danger';
+  automation?: string; // Home Assistant automation to trigger
+  service?: string; // Home Assistant service to call, e.g. "cover.close_cover"
+  data?: Record<string, unknown>; // Service data
+  url?: string; // Webhook callback URL
+}
+
 export interface Notification {
   id: number;
   created_at: string;
@@ -7,27 +35,138 @@ export interface Notification {
   source: string;
   title: string | null;
   message: string;
-  severity: 'info' | 'warning' | 'error';
+  severity: NotificationSeverity;
   discord_message_id: string | null;
   status: 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled';
   retry_count: number;
   max_retries: number;
   last_error: string | null;
+  failure_reason: FailureCategory | null;
+  failed_at: string | null; // When the notification gave up for good
+  next_attempt_at: string | null; // When the next retry is due while backing off
+  held_until?: string; // When a quiet-hours or digest hold ends
+  retry_policy?: string; // Name of the retry policy picked for this notification
+  priority: number; // Queue priority, 0-10; higher is sent first
   metadata: Record<string, any> | null;
+  channel_id: string | null;
+  mentions: { users?: string[]; roles?: string[] } | null;
+  delivery_mode: 'channel' | 'dm';
+  recipient_user_id: string | null;
+  series_id: number | null;
+  dedupe_key: string | null;
+  repeat_count: number;
+  last_seen_at: string | null;
+  resolved_at: string | null;
+  actions: NotificationAction[] | null;
+  ack_required: boolean;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  escalation_level: number;
+  digest: boolean;
+  digest_id: number | null;
+  fields: NotificationEmbedField[] | null;
+  url: string | null;
+  image_url: string | null;
+  thumbnail_url: string | null;
+  author: NotificationEmbedAuthor | null;
+  footer: string | null;
+  color: number | null;
+  attachments: NotificationAttachment[] | null;
+  template: string | null; // Template the notification was rendered from
+  attempts?: NotificationAttempt[]; // Delivery attempts, oldest first (single notification lookups only)
+}
+
+export interface NotificationAttachment {
+  name: string; // Usable as attachment://<name> in image_url and thumbnail_url
+  content_type: string;
+  size: number; // Bytes
+}
+
+export interface NotificationEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface NotificationEmbedAuthor {
+  name: string;
+  url?: string;
+  icon_url?: string;
 }
 
 export interface NotificationCreateRequest {
-  source: string;
-  message: string;
+  source?: string; // Required unless a template is used
+  message?: string; // Required unless a template is used
   title?: string;
-  severity?: 'info' | 'warning' | 'error';
+  severity?: NotificationSeverity;
   scheduled_for?: string;
+  channel?: string; // Channel ID or named route
+  retry_policy?: string; // Named retry policy for failed deliveries
+  priority?: number; // 0-10, higher is sent first (default: from severity)
+  delivery?: 'channel' | 'dm';
+  recipient_user_id?: string; // Required when delivery is 'dm'
+  recurrence?: string; // e.g. "every 1d at 08:00" or a cron expression
+  timezone?: string; // IANA timezone for scheduled_for and recurrence
+  dedupe_key?: string; // Repeats with the same key are coalesced
+  dedupe_window?: number; // Seconds since the last repeat (default 300)
+  dedupe_action?: 'drop' | 'count';
+  actions?: NotificationAction[]; // Buttons shown on the Discord message
+  ack_required?: boolean; // Add an Acknowledge button and escalate if nobody clicks it
+  digest?: boolean; // Hold for the next periodic digest instead of sending on its own
+  mentions?: { users?: string[]; roles?: string[]; groups?: string[] }; // Users must be on the mention allowlist
+  fields?: NotificationEmbedField[]; // Up to 22 embed fields
+  url?: string; // Link on the embed title
+  image_url?: string; // http(s) URL or attachment://<uploaded file name>
+  thumbnail_url?: string;
+  author?: NotificationEmbedAuthor;
+  footer?: string; // Replaces the default "Source: ..." footer
+  color?: string | number; // "#rrggbb" or a number
+  template?: string; // Saved template to render; other fields override it
+  data?: Record<string, unknown>; // Values for the template's {{placeholders}}
+}
+
+export interface NotificationTemplateInput {
+  source?: string; // Defaults to the template name
+  title?: string;
+  message: string;
+  severity?: NotificationSeverity;
+  channel?: string; // Channel ID or named route
+  embed?: Pick<NotificationCreateRequest, 'fields' | 'url' | 'image_url' | 'thumbnail_url' | 'author' | 'footer' | 'color'>;
+}
+
+export interface NotificationTemplate extends NotificationTemplateInput {
+  name: string;
+  variables: string[]; // Data paths used by the placeholders
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateListResponse {
+  templates: NotificationTemplate[];
+}
+
+export interface TemplatePreviewRequest {
+  template: NotificationTemplateInput & { name?: string };
+  data?: Record<string, unknown>;
+}
+
+export interface TemplatePreviewResponse {
+  notification?: NotificationCreateRequest; // Absent when data is missing
+  variables: string[];
+  errors: string[];
 }
 
 export interface NotificationCreateResponse {
-  status: 'queued';
+  status: 'queued' | 'dropped' | 'coalesced';
+  coalesced?: boolean; // True if folded into an earlier notification with the same dedupe key
+  repeat_count?: number; // Present when coalesced
   notification_id: number;
-  queue_size: number;
+  notification_ids?: number[]; // Present when routing fans out to several channels
+  rule?: string; // Routing rule that dropped the notification
+  series_id?: number; // Present for recurring notifications
+  recurrence?: string;
+  queue_size?: number;
   scheduled_for?: string;
   scheduled_in?: string;
 }
@@ -51,6 +190,7 @@ export interface NotificationListResponse {
 export interface NotificationQueryParams {
   status?: string;
   source?: string;
+  severity?: string;
   search?: string;
   limit?: number;
   offset?: number;
@@ -58,6 +198,68 @@ export interface NotificationQueryParams {
   order?: 'ASC' | 'DESC';
 }
 
+export interface NotificationAttempt {
+  attempt: number; // 1 for the first attempt
+  started_at: string | null; // Not recorded for attempts made before timings were kept
+  attempted_at: string; // When the attempt finished
+  duration_ms: number | null;
+  outcome: 'sent' | 'failed';
+  error: string | null;
+  failure_reason: FailureCategory | null;
+  http_status: number | null; // Status of Discord's error response
+}
+
+export interface DeadLetter
+  extends Pick<
+    Notification,
+    | 'id'
+    | 'source'
+    | 'title'
+    | 'message'
+    | 'severity'
+    | 'status'
+    | 'created_at'
+    | 'failed_at'
+    | 'retry_count'
+    | 'max_retries'
+    | 'last_error'
+    | 'failure_reason'
+    | 'channel_id'
+    | 'delivery_mode'
+    | 'recipient_user_id'
+  > {
+  attempts: NotificationAttempt[];
+}
+
+// Selects failed notifications; since and until take durations ("24h") or dates
+export interface DeadLetterFilter {
+  source?: string;
+  reason?: FailureCategory;
+  since?: string;
+  until?: string;
+}
+
+export interface DeadLetterQueryParams extends DeadLetterFilter {
+  limit?: number;
+  offset?: number;
+}
+
+export interface DeadLetterListResponse {
+  notifications: DeadLetter[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ReplayDeadLettersResponse {
+  replayed: number;
+  notification_ids: number[];
+}
+
+export interface PurgeDeadLettersResponse {
+  purged: number;
+}
+
 export interface CancelNotificationResponse {
   status: 'cancelled';
   notification_id: number;
@@ -2,7 +2,13 @@ import { jest } from '@jest/globals';
 import { WebhookServer } from '../../webhook.js';
 import { PersistentNotificationQueue } from '../../queue/persistentQueue.js';
 import { Database } from '../../database.js';
-import { Client, TextChannel } from 'discord.js';
+import { NotificationScheduler } from '../../queue/scheduler.js';
+import { MentionManager } from '../../mentions/mentionManager.js';
+import { SeverityConfigManager } from '../../severity/severityManager.js';
+import { ChannelRouter } from '../../routing/channelRouter.js';
+import { RoutingRulesManager } from '../../routing/rulesManager.js';
+import { EscalationPolicyManager } from '../../escalation/policyManager.js';
+import { Client, ChannelType, TextChannel, DiscordAPIError, RateLimitError } from 'discord.js';
 import request from 'supertest';
 import crypto from 'crypto';
 import path from 'path';
@@ -17,6 +23,7 @@ describe('Webhook Integration Tests', () => {
   let database: Database;
   let mockClient: jest.Mocked<Client>;
   let mockChannel: jest.Mocked<TextChannel>;
+  let mockUser: { send: jest.Mock };
   let app: any;
   const testDbPath = path.join(__dirname, 'integration-test.db');
   const testChannelId = '123456789';
@@ -26,12 +33,24 @@ describe('Webhook Integration Tests', () => {
     mockClient = {
       channels: {
         fetch: jest.fn(),
+        cache: new Map(),
+      },
+      users: {
+        fetch: jest.fn(),
       },
     } as any;
 
+    mockUser = {
+      send: jest.fn<any>().mockResolvedValue({ id: 'dm-message-id-456' }),
+    };
+    (mockClient.users.fetch as any).mockResolvedValue(mockUser);
+
     mockChannel = {
       isTextBased: jest.fn().mockReturnValue(true),
       send: jest.fn().mockResolvedValue({ id: 'message-id-123' }),
+      messages: {
+        edit: jest.fn<any>().mockResolvedValue({}),
+      },
     } as any;
 
     (mockClient.channels.fetch as any).mockResolvedValue(mockChannel as any);
@@ -57,6 +76,7 @@ describe('Webhook Integration Tests', () => {
     } catch (err) {
       // Ignore error if file doesn't exist
     }
+    await fs.rm(database.getAttachmentsDir(), { recursive: true, force: true });
   });
 
   beforeEach(() => {
@@ -122,6 +142,1087 @@ describe('Webhook Integration Tests', () => {
     });
   });
 
+  describe('Direct message delivery', () => {
+    it('should DM the recipient instead of posting in the channel', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'DM Test',
+          message: 'Your laundry is done',
+          delivery: 'dm',
+          recipient_user_id: '111222333',
+        });
+
+      expect(response.status).toBe(202);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(mockClient.users.fetch).toHaveBeenCalledWith('111222333');
+      expect(mockUser.send).toHaveBeenCalled();
+      expect(mockChannel.send).not.toHaveBeenCalled();
+
+      const saved = await database.getNotificationById(response.body.notification_id);
+      expect(saved?.deliveryMode).toBe('dm');
+      expect(saved?.discordMessageId).toBe('dm-message-id-456');
+    });
+
+    it('should fall back to the channel with a mention when DMs are closed', async () => {
+      mockUser.send.mockRejectedValueOnce(
+        new DiscordAPIError(
+          { code: 50007, message: 'Cannot send messages to this user' },
+          50007,
+          403,
+          'POST',
+          '/channels/dm/messages',
+          { body: undefined, files: undefined }
+        )
+      );
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'DM Fallback Test',
+          message: 'Your laundry is done',
+          delivery: 'dm',
+          recipient_user_id: '111222333',
+        });
+
+      expect(response.status).toBe(202);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      const sentMessage: any = mockChannel.send.mock.calls[0][0];
+      expect(sentMessage.content).toBe('<@111222333>');
+      expect(sentMessage.allowedMentions.users).toEqual(['111222333']);
+
+      const saved = await database.getNotificationById(response.body.notification_id);
+      expect(saved?.status).toBe('sent');
+    });
+  });
+
+  describe('Recurring notifications', () => {
+    it('should schedule the next occurrence after each send', async () => {
+      const scheduler = new NotificationScheduler(queue, database);
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Household',
+          message: 'Take out the bins',
+          scheduled_for: 'now',
+          recurrence: 'every 1h',
+        });
+
+      expect(response.status).toBe(202);
+      const seriesId = response.body.series_id;
+      expect(seriesId).toBeDefined();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const first = await database.getNotificationById(response.body.notification_id);
+      expect(first?.status).toBe('sent');
+
+      expect(await scheduler.checkRecurringSeries()).toBe(1);
+      // Nothing more to do until the pending occurrence is sent
+      expect(await scheduler.checkRecurringSeries()).toBe(0);
+
+      const [next] = await database.getLatestSeriesOccurrence(seriesId);
+      expect(next.status).toBe('pending');
+      expect(next.message).toBe('Take out the bins');
+      expect(next.scheduledFor.getTime() - first!.scheduledFor.getTime()).toBe(60 * 60 * 1000);
+
+      // Pausing cancels the pending occurrence and stops rescheduling
+      expect(await queue.pauseSeries(seriesId)).toBe(true);
+      expect((await database.getNotificationById(next.id))?.status).toBe('cancelled');
+      expect(await scheduler.checkRecurringSeries()).toBe(0);
+
+      // Resuming restores the cancelled occurrence; ending stops the series for good
+      expect(await queue.resumeSeries(seriesId)).toBe(true);
+      const [restored] = await database.getLatestSeriesOccurrence(seriesId).then((rows) =>
+        rows.filter((n) => n.status === 'pending')
+      );
+      expect(restored.scheduledFor).toEqual(next.scheduledFor);
+      expect(await scheduler.checkRecurringSeries()).toBe(0);
+
+      expect(await queue.endSeries(seriesId)).toBe(true);
+      expect((await database.getNotificationById(restored.id))?.status).toBe('cancelled');
+      expect(await scheduler.checkRecurringSeries()).toBe(0);
+      expect((await database.getNotificationSeries(seriesId))?.status).toBe('ended');
+    });
+  });
+
+  describe('Quiet hours', () => {
+    const clock = (offsetMinutes: number) =>
+      new Date(Date.now() + offsetMinutes * 60 * 1000).toISOString().substring(11, 16);
+
+    afterEach(async () => {
+      await database.clearQuietHours(null);
+    });
+
+    it('should hold info and warning notifications and send errors immediately', async () => {
+      await database.setQuietHours({
+        channelId: null,
+        start: clock(-60),
+        end: clock(60),
+        mode: 'defer',
+        timezone: 'UTC',
+      });
+
+      const info = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Washer', message: 'Washer finished', severity: 'info' });
+      const error = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Smoke', message: 'Smoke detected', severity: 'error' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const held = await database.getNotificationById(info.body.notification_id);
+      expect(held?.status).toBe('pending');
+      expect(held!.heldUntil!.getTime()).toBeGreaterThan(Date.now());
+      expect(held!.scheduledFor.getTime()).toBeLessThanOrEqual(Date.now());
+      expect((await database.getNotificationById(error.body.notification_id))?.status).toBe('sent');
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+
+      // Once the window is over the held notification goes out on its own
+      await database.clearQuietHours(null);
+      await database.deferNotification(held!.id, new Date(Date.now() - 1000), false);
+      await queue.processNotification(held!.id);
+
+      expect((await database.getNotificationById(held!.id))?.status).toBe('sent');
+      expect(mockChannel.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fold held notifications into a single digest', async () => {
+      await database.setQuietHours({
+        channelId: testChannelId,
+        start: clock(-60),
+        end: clock(60),
+        mode: 'digest',
+        timezone: 'UTC',
+      });
+
+      const ids: number[] = [];
+      for (const message of ['Washer finished', 'Dryer finished']) {
+        const response = await request(app)
+          .post('/webhook/notify')
+          .send({ source: 'Laundry', message, severity: 'warning' });
+        ids.push(response.body.notification_id);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(mockChannel.send).not.toHaveBeenCalled();
+
+      await database.clearQuietHours(testChannelId);
+      for (const id of ids) {
+        await database.deferNotification(id, new Date(Date.now() - 1000), true);
+      }
+      for (const id of ids) {
+        await queue.processNotification(id);
+      }
+
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      const embed = (mockChannel.send as jest.Mock).mock.calls[0][0] as any;
+      expect(embed.embeds[0].data.title).toBe('🌙 Quiet Hours Digest');
+      expect(embed.embeds[0].data.description).toContain('Dryer finished');
+
+      for (const id of ids) {
+        const notification = await database.getNotificationById(id);
+        expect(notification?.status).toBe('sent');
+        expect(notification?.discordMessageId).toBe('message-id-123');
+      }
+    });
+  });
+
+  describe('Delivery failures', () => {
+    it('should fail permanent errors right away with a failure reason', async () => {
+      mockChannel.send.mockRejectedValueOnce(
+        new DiscordAPIError(
+          { code: 50001, message: 'Missing Access' },
+          50001,
+          403,
+          'POST',
+          `/channels/${testChannelId}/messages`,
+          { body: undefined, files: undefined }
+        )
+      );
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Failure Test', message: 'Nobody will see this' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const status = await request(app).get(`/webhook/notify/${response.body.notification_id}`);
+      expect(status.body).toMatchObject({
+        status: 'failed',
+        retry_count: 0,
+        failure_reason: 'missing_access',
+        last_error: 'Missing Access',
+      });
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry transient errors and clear the reason once sent', async () => {
+      mockChannel.send.mockRejectedValueOnce(
+        new DiscordAPIError(
+          { code: 0, message: 'Bad Gateway' },
+          0,
+          502,
+          'POST',
+          `/channels/${testChannelId}/messages`,
+          { body: undefined, files: undefined }
+        )
+      );
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Failure Test', message: 'Try again later' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const pending = await database.getNotificationById(response.body.notification_id);
+      expect(pending?.status).toBe('pending');
+      expect(pending?.retryCount).toBe(1);
+      expect(pending?.failureReason).toBe('server_error');
+      expect(pending?.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now());
+
+      // The backoff is stored with the notification, so nothing picks it up early
+      const due = await database.getDueNotifications();
+      expect(due.map((n) => n.id)).not.toContain(pending!.id);
+      await queue.processNotification(pending!.id);
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+
+      const afterBackoff = pending!.nextAttemptAt!.getTime() + 1000;
+      const dueLater = await database.getDueNotifications(new Date(afterBackoff));
+      expect(dueLater.map((n) => n.id)).toContain(pending!.id);
+
+      const now = jest.spyOn(Date, 'now').mockReturnValue(afterBackoff);
+      try {
+        await queue.processNotification(pending!.id);
+      } finally {
+        now.mockRestore();
+      }
+      const sent = await database.getNotificationById(pending!.id);
+      expect(sent?.status).toBe('sent');
+      expect(sent?.failureReason).toBeUndefined();
+
+      const status = await request(app).get(`/webhook/notify/${pending!.id}`);
+      expect(status.body.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, outcome: 'failed', failure_reason: 'server_error', http_status: 502 }),
+        expect.objectContaining({ attempt: 2, outcome: 'sent', started_at: expect.any(String), duration_ms: expect.any(Number) }),
+      ]);
+    });
+  });
+
+  describe('Dead-letter queue', () => {
+    it('should record attempts and replay or purge failures over HTTP', async () => {
+      mockChannel.send.mockRejectedValueOnce(
+        new DiscordAPIError(
+          { code: 50001, message: 'Missing Access' },
+          50001,
+          403,
+          'POST',
+          `/channels/${testChannelId}/messages`,
+          { body: undefined, files: undefined }
+        )
+      );
+
+      const first = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Dead Letter Test', message: 'Replay me' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const listed = await request(app).get('/webhook/dead-letters?source=Dead Letter Test&since=1h');
+      expect(listed.status).toBe(200);
+      expect(listed.body.total).toBe(1);
+      expect(listed.body.notifications[0]).toMatchObject({
+        id: first.body.notification_id,
+        failure_reason: 'missing_access',
+        failed_at: expect.any(String),
+        attempts: [{ attempt: 1, outcome: 'failed', error: 'Missing Access', failure_reason: 'missing_access' }],
+      });
+
+      const replayed = await request(app)
+        .post('/webhook/dead-letters/replay')
+        .send({ source: 'Dead Letter Test', reason: 'missing_access' });
+      expect(replayed.body).toEqual({ replayed: 1, notification_ids: [first.body.notification_id] });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect((await database.getNotificationById(first.body.notification_id))?.status).toBe('sent');
+      expect((await database.getNotificationAttempts(first.body.notification_id)).map((a) => a.outcome)).toEqual([
+        'failed',
+        'sent',
+      ]);
+
+      mockChannel.send.mockRejectedValueOnce(new Error('Something odd'));
+      const second = await database.saveNotificationToQueue({
+        source: 'Dead Letter Test',
+        message: 'Purge me',
+        maxRetries: 0,
+      });
+      await queue.processNotification(second);
+
+      const purged = await request(app).post('/webhook/dead-letters/purge').send({ source: 'Dead Letter Test' });
+      expect(purged.body).toEqual({ purged: 1 });
+      expect(await database.getNotificationById(second)).toBeNull();
+      expect(await database.getNotificationById(first.body.notification_id)).not.toBeNull();
+    });
+  });
+
+  describe('Rate limits', () => {
+    it('should send a rate-limited notification again after retry-after without using a retry', async () => {
+      mockChannel.send.mockRejectedValueOnce(
+        new RateLimitError({
+          timeToReset: 100,
+          limit: 5,
+          method: 'POST',
+          hash: 'hash',
+          url: `https://discord.com/api/v10/channels/${testChannelId}/messages`,
+          route: `/channels/${testChannelId}/messages`,
+          majorParameter: testChannelId,
+          global: false,
+          retryAfter: 100,
+          sublimitTimeout: 0,
+          scope: 'user',
+        })
+      );
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Rate Limit Test', message: 'Slow down' });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((await database.getNotificationById(response.body.notification_id))?.status).toBe('pending');
+      expect(queue.getChannelQueueDepths()).toEqual([
+        { key: testChannelId, waiting: 1, inFlight: 0, pausedUntil: expect.any(Date) },
+      ]);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const saved = await database.getNotificationById(response.body.notification_id);
+      expect(saved?.status).toBe('sent');
+      expect(saved?.retryCount).toBe(0);
+      expect(mockChannel.send).toHaveBeenCalledTimes(2);
+    });
+
+    it("should pause a recipient's DMs when their DM channel is rate limited", async () => {
+      const dmChannels = mockClient.channels.cache as unknown as Map<string, unknown>;
+      dmChannels.set('dm-channel-1', { id: 'dm-channel-1', type: ChannelType.DM, recipientId: '111222333' });
+      (queue as any).pauseForRateLimit({
+        global: false,
+        route: '/channels/:id/messages',
+        majorParameter: 'dm-channel-1',
+        retryAfter: 300,
+      });
+
+      const pending = request(app)
+        .post('/webhook/notify')
+        .send({ source: 'DM Rate Limit', message: 'Wait for it', delivery: 'dm', recipient_user_id: '111222333' })
+        .then();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(mockUser.send).not.toHaveBeenCalled();
+      expect(queue.getChannelQueueDepths()).toEqual([
+        { key: 'dm:111222333', waiting: 1, inFlight: 0, pausedUntil: expect.any(Date) },
+      ]);
+
+      const response = await pending;
+      expect(mockUser.send).toHaveBeenCalledTimes(1);
+      expect((await database.getNotificationById(response.body.notification_id))?.status).toBe('sent');
+      dmChannels.delete('dm-channel-1');
+    });
+
+    it('should keep delivering due notifications to other channels while one is paused', async () => {
+      const pausedChannelId = '555000111';
+      const held = await database.saveNotificationToQueue({
+        source: 'Scheduler Test',
+        message: 'Held back',
+        channel: pausedChannelId,
+        scheduledFor: new Date(Date.now() - 2000),
+      });
+      const free = await database.saveNotificationToQueue({
+        source: 'Scheduler Test',
+        message: 'Goes out',
+        channel: '555000222',
+        scheduledFor: new Date(Date.now() - 1000),
+      });
+      (queue as any).pauseForRateLimit({
+        global: false,
+        route: '/channels/:id/messages',
+        majorParameter: pausedChannelId,
+        retryAfter: 300,
+      });
+
+      const scheduler = new NotificationScheduler(queue, database);
+      const checking = scheduler.checkDueNotifications();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect((await database.getNotificationById(free))?.status).toBe('sent');
+      expect((await database.getNotificationById(held))?.status).toBe('pending');
+
+      expect(await checking).toBeGreaterThanOrEqual(2);
+      expect((await database.getNotificationById(held))?.status).toBe('sent');
+    });
+  });
+
+  describe('Priority', () => {
+    // Wait until the channel's queue holds this many notifications behind the one being sent
+    const waitForWaiting = async (count: number) => {
+      while ((queue.getChannelQueueDepths().find((depth) => depth.key === testChannelId)?.waiting ?? 0) < count) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+    };
+
+    it('should send an error before info notifications waiting for the same channel', async () => {
+      // Hold the channel with a slow send so the next notifications have to wait
+      let release!: () => void;
+      mockChannel.send.mockImplementationOnce(
+        () => new Promise((resolve) => (release = () => resolve({ id: 'slow-message' } as any))) as any
+      );
+      const slow = request(app).post('/webhook/notify').send({ source: 'Automation', message: 'Slow' }).then();
+      while (mockChannel.send.mock.calls.length === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+
+      const burst = [1, 2, 3].map((n) =>
+        request(app).post('/webhook/notify').send({ source: 'Automation', message: `Burst ${n}` }).then()
+      );
+      await waitForWaiting(3);
+      const alert = request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Intruder', severity: 'error' })
+        .then();
+      await waitForWaiting(4);
+
+      release();
+      const [, , , , alertResponse] = await Promise.all([slow, ...burst, alert]);
+
+      // Concurrent requests of the same priority have no set order among themselves
+      const sentMessages = mockChannel.send.mock.calls.map((call: any) => call[0].embeds[0].data.description);
+      expect(sentMessages.slice(0, 2)).toEqual(['Slow', 'Intruder']);
+      expect([...sentMessages.slice(2)].sort()).toEqual(['Burst 1', 'Burst 2', 'Burst 3']);
+      expect((await database.getNotificationById(alertResponse.body.notification_id))?.priority).toBe(3);
+    });
+  });
+
+  describe('Routing rules', () => {
+    const rulesConfigPath = path.join(__dirname, 'routing-test.json');
+    const garageChannelId = '777000111';
+    const porchChannelId = '777000222';
+    let routedQueue: PersistentNotificationQueue;
+    let routedApp: any;
+
+    beforeAll(async () => {
+      await fs.writeFile(
+        rulesConfigPath,
+        JSON.stringify({
+          rules: [
+            { name: 'garage', match: { metadata: { area: 'garage' } }, channels: ['garage'] },
+            { name: 'outside', match: { metadata: { area: 'outside' } }, channels: ['garage', 'porch'] },
+          ],
+        })
+      );
+      routedQueue = new PersistentNotificationQueue(
+        mockClient,
+        database,
+        testChannelId,
+        new ChannelRouter(testChannelId, { garage: garageChannelId, porch: porchChannelId }),
+        new RoutingRulesManager(rulesConfigPath, false)
+      );
+      routedApp = (new WebhookServer(routedQueue, database, '') as any).app;
+    });
+
+    afterAll(async () => {
+      await routedQueue.shutdown();
+      await fs.unlink(rulesConfigPath);
+    });
+
+    it('should route notifications by the metadata sent with them', async () => {
+      const garage = await request(routedApp)
+        .post('/webhook/notify')
+        .send({ source: 'Door Sensor', message: 'Door open', metadata: { area: 'garage', door: 'left' } });
+      const attic = await request(routedApp)
+        .post('/webhook/notify')
+        .send({ source: 'Door Sensor', message: 'Hatch open', metadata: { area: 'attic' } });
+
+      const routed = await database.getNotificationById(garage.body.notification_id);
+      expect(routed?.channelId).toBe(garageChannelId);
+      expect(routed?.metadata).toEqual({ area: 'garage', door: 'left' });
+      expect(mockClient.channels.fetch).toHaveBeenCalledWith(garageChannelId);
+      expect((await database.getNotificationById(attic.body.notification_id))?.channelId).toBe(testChannelId);
+    });
+
+    it('should keep every channel of a series when quiet hours hold one of them', async () => {
+      const clock = (offsetMinutes: number) =>
+        new Date(Date.now() + offsetMinutes * 60 * 1000).toISOString().substring(11, 16);
+      await database.setQuietHours({
+        channelId: garageChannelId,
+        start: clock(-60),
+        end: clock(60),
+        mode: 'defer',
+        timezone: 'UTC',
+      });
+
+      const response = await request(routedApp)
+        .post('/webhook/notify')
+        .send({
+          source: 'Lights',
+          message: 'Turn on the outside lights',
+          scheduled_for: 'now',
+          recurrence: 'every 1h',
+          metadata: { area: 'outside' },
+        });
+      const seriesId = response.body.series_id;
+      await database.clearQuietHours(garageChannelId);
+
+      const first = await database.getLatestSeriesOccurrence(seriesId);
+      const garage = first.find((n) => n.channelId === garageChannelId)!;
+      const porch = first.find((n) => n.channelId === porchChannelId)!;
+      expect(porch.status).toBe('sent');
+      expect(garage.status).toBe('pending');
+      expect(garage.heldUntil!.getTime()).toBeGreaterThan(Date.now());
+      expect(garage.scheduledFor).toEqual(porch.scheduledFor);
+
+      // Once the window is over the held occurrence goes out and the series carries on
+      await database.deferNotification(garage.id, new Date(Date.now() - 1000), false);
+      await routedQueue.processNotification(garage.id);
+      await new NotificationScheduler(routedQueue, database).checkRecurringSeries();
+
+      const next = await database.getLatestSeriesOccurrence(seriesId);
+      expect(next.map((n) => n.channelId).sort()).toEqual([garageChannelId, porchChannelId]);
+      for (const occurrence of next) {
+        expect(occurrence.status).toBe('pending');
+        expect(occurrence.scheduledFor.getTime() - porch.scheduledFor.getTime()).toBe(60 * 60 * 1000);
+      }
+
+      await routedQueue.endSeries(seriesId);
+    });
+
+    it('should reject metadata that is not an object', async () => {
+      for (const metadata of ['garage', ['garage'], 42]) {
+        const response = await request(routedApp)
+          .post('/webhook/notify')
+          .send({ source: 'Door Sensor', message: 'Door open', metadata });
+
+        expect(response.status).toBe(400);
+        expect(response.body.error).toBe('Invalid metadata: must be an object');
+      }
+    });
+  });
+
+  describe('Severity levels', () => {
+    const severityConfigPath = path.join(__dirname, 'severity-test.json');
+    const clock = (offsetMinutes: number) =>
+      new Date(Date.now() + offsetMinutes * 60 * 1000).toISOString().substring(11, 16);
+    let severityQueue: PersistentNotificationQueue;
+    let severityApp: any;
+
+    beforeAll(async () => {
+      await fs.writeFile(
+        severityConfigPath,
+        JSON.stringify({
+          levels: {
+            success: { color: '#00ff00', mentions: { roles: ['444444444444444444'] }, maxRetries: 0 },
+            warning: { bypassQuietHours: true },
+          },
+        })
+      );
+      const severities = new SeverityConfigManager(severityConfigPath, false);
+      severityQueue = new PersistentNotificationQueue(
+        mockClient, database, testChannelId, undefined, undefined, undefined, undefined, severities
+      );
+      severityApp = (new WebhookServer(severityQueue, database, '') as any).app;
+    });
+
+    afterAll(async () => {
+      await severityQueue.shutdown();
+      await fs.unlink(severityConfigPath);
+      await database.clearQuietHours(null);
+    });
+
+    it('should send critical alerts and configured levels through quiet hours', async () => {
+      await database.setQuietHours({ channelId: null, start: clock(-60), end: clock(60), mode: 'defer', timezone: 'UTC' });
+
+      const debug = await request(severityApp)
+        .post('/webhook/notify')
+        .send({ source: 'Sensor', message: 'Heartbeat', severity: 'debug' });
+      const warning = await request(severityApp)
+        .post('/webhook/notify')
+        .send({ source: 'Freezer', message: 'Door open', severity: 'warning' });
+      const critical = await request(severityApp)
+        .post('/webhook/notify')
+        .send({ source: 'Smoke', message: 'Fire detected', severity: 'critical' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect((await database.getNotificationById(debug.body.notification_id))?.status).toBe('pending');
+      expect((await database.getNotificationById(warning.body.notification_id))?.status).toBe('sent');
+      const sentCritical = await database.getNotificationById(critical.body.notification_id);
+      expect(sentCritical?.status).toBe('sent');
+      expect(sentCritical?.maxRetries).toBe(5);
+      expect((mockChannel.send.mock.calls[1][0] as any).embeds[0].data.color).toBe(0x992d22);
+
+      await database.clearQuietHours(null);
+    });
+
+    it('should apply the configured color, mentions and retry budget', async () => {
+      const response = await request(severityApp)
+        .post('/webhook/notify')
+        .send({ source: 'Backup', message: 'Backup completed', severity: 'success' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const sent: any = mockChannel.send.mock.calls[0][0];
+      expect(sent.embeds[0].data.color).toBe(0x00ff00);
+      expect(sent.content).toBe('<@&444444444444444444>');
+      expect((await database.getNotificationById(response.body.notification_id))?.maxRetries).toBe(0);
+    });
+
+    it('should reject unknown severities', async () => {
+      const response = await request(severityApp)
+        .post('/webhook/notify')
+        .send({ source: 'Backup', message: 'Backup completed', severity: 'fatal' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid severity: must be one of debug, info, success, warning, error, critical');
+    });
+  });
+
+  describe('Mentions', () => {
+    const mentionConfigPath = path.join(__dirname, 'mentions-test.json');
+    let mentionQueue: PersistentNotificationQueue;
+    let mentionApp: any;
+
+    beforeAll(async () => {
+      await fs.writeFile(
+        mentionConfigPath,
+        JSON.stringify({
+          groups: { oncall: { users: ['222222222222222222'] } },
+          allowlist: { users: ['111111111111111111'] },
+          errorRole: '333333333333333333',
+        })
+      );
+      const mentions = new MentionManager(mentionConfigPath, false);
+      mentionQueue = new PersistentNotificationQueue(
+        mockClient, database, testChannelId, undefined, undefined, undefined, mentions
+      );
+      mentionApp = (new WebhookServer(mentionQueue, database, '') as any).app;
+    });
+
+    afterAll(async () => {
+      await mentionQueue.shutdown();
+      await fs.unlink(mentionConfigPath);
+    });
+
+    it('should ping allowlisted users, groups and the error role next to the embed', async () => {
+      const response = await request(mentionApp)
+        .post('/webhook/notify')
+        .send({
+          source: 'Alarm',
+          message: 'Intrusion',
+          severity: 'error',
+          mentions: { users: ['111111111111111111'], groups: ['oncall'] },
+        });
+      expect(response.status).toBe(202);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const sent: any = mockChannel.send.mock.calls[0][0];
+      expect(sent.content).toBe('<@111111111111111111> <@222222222222222222> <@&333333333333333333>');
+      expect(sent.allowedMentions).toEqual({
+        users: ['111111111111111111', '222222222222222222'],
+        roles: ['333333333333333333'],
+      });
+    });
+
+    it('should reject users that are not on the allowlist', async () => {
+      const response = await request(mentionApp)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Intrusion', mentions: { users: ['222222222222222222'] } });
+
+      expect(response.status).toBe(400);
+      expect(mockChannel.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Periodic digest', () => {
+    it('should hold digest notifications and send them as one summary grouped by source', async () => {
+      const ids: number[] = [];
+      for (const body of [
+        { source: 'Backup', message: 'Nightly backup done' },
+        { source: 'Backup', message: 'Offsite sync done' },
+        { source: 'Printer', message: 'Toner low', severity: 'warning' },
+      ]) {
+        const response = await request(app)
+          .post('/webhook/notify')
+          .send({ ...body, digest: true });
+        ids.push(response.body.notification_id);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(mockChannel.send).not.toHaveBeenCalled();
+
+      // Every notification waits for the same digest
+      const held = await Promise.all(ids.map((id) => database.getNotificationById(id)));
+      expect(new Set(held.map((n) => n!.heldUntil!.getTime())).size).toBe(1);
+      expect(held[0]!.heldUntil!.getTime()).toBeGreaterThan(Date.now());
+
+      for (const id of ids) {
+        await database.deferNotification(id, new Date(Date.now() - 1000), true);
+      }
+      for (const id of ids) {
+        await queue.processNotification(id);
+      }
+
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      const embed = (mockChannel.send as jest.Mock).mock.calls[0][0] as any;
+      expect(embed.embeds[0].data.title).toBe('📋 Notification Digest');
+      expect(embed.embeds[0].data.description).toContain('**Backup** (2)');
+      expect(embed.embeds[0].data.description).toContain('**Printer** (1)');
+
+      const sent = await database.getNotificationById(ids[0]);
+      expect(sent?.status).toBe('sent');
+      const digest = await database.getNotificationDigest(sent!.digestId!);
+      expect(digest).toMatchObject({ kind: 'periodic', discordMessageId: 'message-id-123', notificationCount: 3 });
+
+      const status = await request(app).get(`/webhook/notify/${ids[2]}`);
+      expect(status.body).toMatchObject({ status: 'sent', digest: true, digest_id: digest!.id });
+    });
+
+    it('should keep the schedule of a recurring notification sent through the digest', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Backup',
+          message: 'Snapshot taken',
+          scheduled_for: 'now',
+          recurrence: 'every 15m',
+          digest: true,
+        });
+      const seriesId = response.body.series_id;
+
+      const [held] = await database.getLatestSeriesOccurrence(seriesId);
+      expect(held.heldUntil!.getTime()).toBeGreaterThan(Date.now());
+      expect(held.scheduledFor.getTime()).toBeLessThanOrEqual(Date.now());
+
+      await database.deferNotification(held.id, new Date(Date.now() - 1000), true);
+      await queue.processNotification(held.id);
+      expect((await database.getNotificationById(held.id))?.status).toBe('sent');
+
+      await new NotificationScheduler(queue, database).checkRecurringSeries();
+      const [next] = await database.getLatestSeriesOccurrence(seriesId);
+      expect(next.status).toBe('pending');
+      expect(next.scheduledFor.getTime() - held.scheduledFor.getTime()).toBe(15 * 60 * 1000);
+
+      await queue.endSeries(seriesId);
+    });
+  });
+
+  describe('Deduplication', () => {
+    it('should count repeats on the existing Discord message', async () => {
+      const payload = { source: 'Door', message: 'Front door opened', dedupe_key: 'front-door' };
+
+      const first = await request(app).post('/webhook/notify').send(payload);
+      expect(first.status).toBe(202);
+      expect(first.body.coalesced).toBe(false);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const repeat = await request(app).post('/webhook/notify').send(payload);
+      expect(repeat.status).toBe(200);
+      expect(repeat.body).toMatchObject({
+        status: 'coalesced',
+        coalesced: true,
+        notification_id: first.body.notification_id,
+        repeat_count: 1,
+      });
+
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      expect(mockChannel.messages.edit).toHaveBeenCalledTimes(1);
+      const [messageId, edit] = (mockChannel.messages.edit as jest.Mock).mock.calls[0] as any[];
+      expect(messageId).toBe('message-id-123');
+      expect(edit.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([expect.objectContaining({ name: 'Repeats', value: expect.stringContaining('Seen 2 times') })])
+      );
+    });
+
+    it('should drop repeats without touching the message', async () => {
+      const payload = { source: 'Motion', message: 'Motion in hallway', dedupe_key: 'hallway', dedupe_action: 'drop' };
+
+      const first = await request(app).post('/webhook/notify').send(payload);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const repeat = await request(app).post('/webhook/notify').send(payload);
+
+      expect(repeat.body).toMatchObject({ coalesced: true, notification_id: first.body.notification_id, repeat_count: 0 });
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      expect(mockChannel.messages.edit).not.toHaveBeenCalled();
+    });
+
+    it('should send one message for repeats that arrive at the same time', async () => {
+      const input = { source: 'Door', message: 'Back door opened', dedupeKey: 'back-door' };
+
+      const [first, second] = await Promise.all([queue.submit(input), queue.submit({ ...input })]);
+
+      expect(first.coalesced).toBe(false);
+      expect(second).toMatchObject({ coalesced: true, notificationId: first.notificationId, repeatCount: 1 });
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      expect((await database.getNotificationById(first.notificationId))?.repeatCount).toBe(1);
+    });
+  });
+
+  describe('Editing sent notifications', () => {
+    it('should edit the Discord message and turn it green when resolved', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Laundry', title: 'Washer', message: 'Washer running', severity: 'warning' });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const id = created.body.notification_id;
+
+      const updated = await request(app).patch(`/webhook/notify/${id}`).send({ message: 'Washer spinning' });
+      expect(updated.status).toBe(200);
+
+      const resolved = await request(app).post(`/webhook/notify/${id}/resolve`).send({ message: 'Washer finished' });
+      expect(resolved.status).toBe(200);
+      expect(resolved.body.resolved_at).toBeDefined();
+
+      expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      expect(mockChannel.messages.edit).toHaveBeenCalledTimes(2);
+      const [messageId, edit] = (mockChannel.messages.edit as jest.Mock).mock.calls[1] as any[];
+      expect(messageId).toBe('message-id-123');
+      expect(edit.embeds[0].data.description).toBe('Washer finished');
+      expect(edit.embeds[0].data.color).toBe(0x2ecc71);
+      expect(edit.embeds[0].data.fields).toEqual(
+        expect.arrayContaining([expect.objectContaining({ name: '✅ Resolved' })])
+      );
+
+      const notification = await database.getNotificationById(id);
+      expect(notification?.message).toBe('Washer finished');
+      expect(notification?.resolvedAt).toBeDefined();
+    });
+
+    it('should not edit cancelled notifications', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Test', message: 'Later', scheduled_for: '1h' });
+      await request(app).delete(`/webhook/notify/${created.body.notification_id}`);
+
+      const response = await request(app)
+        .post(`/webhook/notify/${created.body.notification_id}/resolve`);
+
+      expect(response.status).toBe(404);
+      expect(mockChannel.messages.edit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Attachments', () => {
+    it('should store uploaded files and attach them to the Discord message', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .field(
+          'payload_json',
+          JSON.stringify({ source: 'Camera', message: 'Person detected', image_url: 'attachment://snapshot.jpg' })
+        )
+        .attach('files', Buffer.from('jpeg-bytes'), { filename: 'snapshot.jpg', contentType: 'image/jpeg' })
+        .attach('files', Buffer.from('time,event'), { filename: 'events.csv', contentType: 'text/csv' });
+      expect(created.status).toBe(202);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const notification = await database.getNotificationById(created.body.notification_id);
+      expect(notification?.status).toBe('sent');
+      const [snapshot, events] = notification!.attachments!;
+      expect(await fs.readFile(snapshot.path, 'utf-8')).toBe('jpeg-bytes');
+
+      const sent = mockChannel.send.mock.calls[0][0] as any;
+      expect(sent.files).toEqual([
+        { attachment: snapshot.path, name: 'snapshot.jpg' },
+        { attachment: events.path, name: 'events.csv' },
+      ]);
+      expect(sent.embeds[0].data.image).toEqual({ url: 'attachment://snapshot.jpg' });
+
+      const status = await request(app).get(`/webhook/notify/${created.body.notification_id}`);
+      expect(status.body.attachments).toEqual([
+        { name: 'snapshot.jpg', content_type: 'image/jpeg', size: 10 },
+        { name: 'events.csv', content_type: 'text/csv', size: 10 },
+      ]);
+    });
+
+    it('should fail the send when a stored file has disappeared', async () => {
+      const [attachment] = await database.storeAttachments([
+        { name: 'snapshot.jpg', contentType: 'image/jpeg', data: Buffer.from('jpeg-bytes') },
+      ]);
+      const id = await database.saveNotificationToQueue({
+        source: 'Camera',
+        message: 'Person detected',
+        attachments: [attachment],
+      });
+      await fs.rm(attachment.path);
+
+      await queue.processNotification(id);
+
+      const notification = await database.getNotificationById(id);
+      expect(notification?.lastError).toContain('Attachment "snapshot.jpg" is missing');
+      expect(mockChannel.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rich embeds', () => {
+    it('should render fields, image, author, footer and color', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Camera',
+          title: 'Front door',
+          message: 'Person detected',
+          url: 'https://ha.local/camera',
+          image_url: 'https://ha.local/api/camera_proxy/camera.front_door',
+          author: { name: 'Frigate' },
+          footer: 'Camera 1',
+          color: '#ff8800',
+          fields: [{ name: 'Confidence', value: '92%', inline: true }],
+        });
+      expect(created.status).toBe(202);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const embed = (mockChannel.send.mock.calls[0][0] as any).embeds[0].data;
+      expect(embed).toMatchObject({
+        title: 'Front door',
+        url: 'https://ha.local/camera',
+        image: { url: 'https://ha.local/api/camera_proxy/camera.front_door' },
+        author: { name: 'Frigate' },
+        footer: { text: 'Camera 1' },
+        color: 0xff8800,
+        fields: [{ name: 'Confidence', value: '92%', inline: true }],
+      });
+
+      const status = await request(app).get(`/webhook/notify/${created.body.notification_id}`);
+      expect(status.body).toMatchObject({ image_url: 'https://ha.local/api/camera_proxy/camera.front_door', color: 0xff8800 });
+    });
+  });
+
+  describe('Templates', () => {
+    it('should send notifications rendered from a saved template', async () => {
+      const saved = await request(app)
+        .put('/webhook/templates/washer-done')
+        .send({
+          title: '{{appliance}} finished',
+          message: 'Cycle took {{minutes}} minutes{{#if energy}}, using {{energy}} kWh{{/if}}',
+          embed: { fields: [{ name: 'Room', value: '{{room}}' }] },
+        });
+      expect(saved.status).toBe(201);
+
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({ template: 'washer-done', data: { appliance: 'Washer', minutes: 95, room: 'Laundry' } });
+      expect(created.status).toBe(202);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      const embed = (mockChannel.send.mock.calls[0][0] as any).embeds[0].data;
+      expect(embed).toMatchObject({
+        title: 'Washer finished',
+        description: 'Cycle took 95 minutes',
+        fields: [{ name: 'Room', value: 'Laundry' }],
+      });
+
+      const status = await request(app).get(`/webhook/notify/${created.body.notification_id}`);
+      expect(status.body).toMatchObject({ source: 'washer-done', template: 'washer-done' });
+    });
+  });
+
+  describe('Action buttons', () => {
+    it('should render actions as buttons and disable them once resolved', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Garage',
+          message: 'Garage open',
+          actions: [{ label: 'Close garage', style: 'danger', service: 'cover.close_cover' }],
+        });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const id = created.body.notification_id;
+
+      const sent: any = mockChannel.send.mock.calls[0][0];
+      const button = sent.components[0].components[0].data;
+      expect(button).toMatchObject({ label: 'Close garage', custom_id: `notif-action:${id}:0`, style: 4 });
+
+      await request(app).post(`/webhook/notify/${id}/resolve`);
+
+      const [, edit] = (mockChannel.messages.edit as jest.Mock).mock.calls[0] as any[];
+      expect(edit.components[0].components[0].data.disabled).toBe(true);
+    });
+  });
+
+  describe('Acknowledgement and escalation', () => {
+    it('should escalate until the notification is acknowledged', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Intrusion', severity: 'error', ack_required: true });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const id = created.body.notification_id;
+
+      const sent: any = mockChannel.send.mock.calls[0][0];
+      expect(sent.components[0].components[0].data).toMatchObject({ label: 'Acknowledge', custom_id: `notif-ack:${id}` });
+      expect((await database.getNotificationById(id))?.escalateAt).toBeInstanceOf(Date);
+
+      // Pretend the timeout has passed
+      await database.scheduleEscalation(id, new Date(Date.now() - 1000));
+      const scheduler = new NotificationScheduler(queue, database);
+      expect(await scheduler.checkEscalations()).toBe(1);
+
+      expect(mockChannel.send).toHaveBeenCalledTimes(2);
+      const repost: any = mockChannel.send.mock.calls[1][0];
+      expect(repost.content).toContain('Not acknowledged');
+      expect((await database.getNotificationById(id))?.escalationLevel).toBe(1);
+
+      expect(await queue.acknowledge(id, '555')).toBe(true);
+      await database.scheduleEscalation(id, new Date(Date.now() - 1000));
+      await scheduler.checkEscalations();
+      expect(mockChannel.send).toHaveBeenCalledTimes(2);
+
+      const status = await request(app).get(`/webhook/notify/${id}`);
+      expect(status.body).toMatchObject({ ack_required: true, acknowledged_by: '555', escalation_level: 1 });
+    });
+
+    it('should send digest notifications right away when a policy requires acknowledgement', async () => {
+      const policiesConfigPath = path.join(__dirname, 'escalation-test.json');
+      await fs.writeFile(
+        policiesConfigPath,
+        JSON.stringify({ policies: [{ name: 'security', match: { source: 'Alarm' }, requireAck: true }] })
+      );
+      const escalationQueue = new PersistentNotificationQueue(
+        mockClient,
+        database,
+        testChannelId,
+        undefined,
+        undefined,
+        new EscalationPolicyManager(policiesConfigPath, false)
+      );
+
+      try {
+        const result = await escalationQueue.submit({ source: 'Alarm', message: 'Garage open', digest: true });
+
+        const notification = await database.getNotificationById(result.notificationId);
+        expect(notification).toMatchObject({ status: 'sent', ackRequired: true, digest: false, escalationPolicy: 'security' });
+        expect(mockChannel.send).toHaveBeenCalledTimes(1);
+      } finally {
+        await escalationQueue.shutdown();
+        await fs.unlink(policiesConfigPath);
+      }
+    });
+
+    it('should stop escalating a notification removed while it escalates', async () => {
+      const created = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Window open', severity: 'warning', ack_required: true });
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const id = created.body.notification_id;
+
+      // The row is gone by the time the escalation is recorded
+      const getNotificationById = database.getNotificationById.bind(database);
+      let lookups = 0;
+      const spy = jest
+        .spyOn(database, 'getNotificationById')
+        .mockImplementation(async (notificationId) => (++lookups > 2 ? null : getNotificationById(notificationId)));
+
+      try {
+        await expect(queue.escalate(id)).resolves.toBeUndefined();
+        expect(mockChannel.send).toHaveBeenCalledTimes(1);
+        expect(mockChannel.messages.edit).not.toHaveBeenCalled();
+      } finally {
+        spy.mockRestore();
+      }
+    });
+  });
+
   describe('Webhook signature verification integration', () => {
     let webhookServerWithSecret: WebhookServer;
     let appWithSecret: any;
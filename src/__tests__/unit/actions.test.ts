@@ -0,0 +1,110 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  parseNotificationActions,
+  buildActionCustomId,
+  parseActionCustomId,
+  runNotificationAction,
+} from '../../queue/actions.js';
+
+describe('actions', () => {
+  describe('parseNotificationActions', () => {
+    it('should accept automation, service and url actions', () => {
+      const actions = parseNotificationActions([
+        { label: 'Close garage', style: 'danger', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } },
+        { label: 'Lights off', automation: 'automation.lights_off' },
+        { label: 'Snooze', style: 'primary', url: 'https://example.com/snooze' },
+      ]);
+
+      expect(actions).toEqual([
+        { label: 'Close garage', style: 'danger', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } },
+        { label: 'Lights off', style: 'secondary', automation: 'automation.lights_off' },
+        { label: 'Snooze', style: 'primary', url: 'https://example.com/snooze' },
+      ]);
+    });
+
+    it('should reject invalid actions', () => {
+      expect(() => parseNotificationActions({})).toThrow('must be an array');
+      expect(() => parseNotificationActions([{ automation: 'automation.x' }])).toThrow('needs a label');
+      expect(() => parseNotificationActions([{ label: 'X' }])).toThrow('exactly one of');
+      expect(() =>
+        parseNotificationActions([{ label: 'X', automation: 'automation.x', url: 'https://example.com' }])
+      ).toThrow('exactly one of');
+      expect(() => parseNotificationActions([{ label: 'X', style: 'link', automation: 'automation.x' }])).toThrow(
+        'invalid style'
+      );
+      expect(() => parseNotificationActions([{ label: 'X', automation: 'light.kitchen' }])).toThrow(
+        'invalid automation'
+      );
+      expect(() => parseNotificationActions([{ label: 'X', service: 'close_cover' }])).toThrow('invalid service');
+      expect(() => parseNotificationActions([{ label: 'X', url: 'ftp://example.com' }])).toThrow('invalid url');
+      expect(() =>
+        parseNotificationActions(Array(6).fill({ label: 'X', automation: 'automation.x' }))
+      ).toThrow('at most 5');
+    });
+  });
+
+  describe('custom IDs', () => {
+    it('should round-trip notification ID and action index', () => {
+      expect(parseActionCustomId(buildActionCustomId(42, 1))).toEqual({ notificationId: 42, index: 1 });
+    });
+
+    it('should ignore other buttons', () => {
+      expect(parseActionCustomId('something-else:42:1')).toBeNull();
+      expect(parseActionCustomId('notif-action:abc:1')).toBeNull();
+    });
+  });
+
+  describe('runNotificationAction', () => {
+    const payload = { notificationId: 42, action: 'Snooze', userId: '123', username: 'tester' };
+    const originalFetch = global.fetch;
+
+    beforeEach(() => {
+      global.fetch = jest.fn<any>() as any;
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should run Home Assistant actions through the client', async () => {
+      const haClient = {
+        triggerAutomation: jest.fn<any>().mockResolvedValue(undefined),
+        callService: jest.fn<any>().mockResolvedValue(undefined),
+      };
+
+      await runNotificationAction({ label: 'Lights off', automation: 'automation.lights_off' }, haClient as any, payload);
+      await runNotificationAction({ label: 'Close', service: 'cover.close_cover' }, haClient as any, payload);
+
+      expect(haClient.triggerAutomation).toHaveBeenCalledWith('automation.lights_off');
+      expect(haClient.callService).toHaveBeenCalledWith('cover', 'close_cover', undefined);
+    });
+
+    it('should fail Home Assistant actions without a client', async () => {
+      await expect(
+        runNotificationAction({ label: 'Lights off', automation: 'automation.lights_off' }, null, payload)
+      ).rejects.toThrow('not configured');
+    });
+
+    it('should post clicks to webhook callbacks', async () => {
+      (global.fetch as jest.Mock<any>).mockResolvedValue({ ok: true, status: 200 });
+
+      await runNotificationAction({ label: 'Snooze', url: 'https://example.com/snooze' }, null, payload);
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://example.com/snooze',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ notification_id: 42, action: 'Snooze', user_id: '123', username: 'tester' }),
+        })
+      );
+    });
+
+    it('should fail when the callback returns an error', async () => {
+      (global.fetch as jest.Mock<any>).mockResolvedValue({ ok: false, status: 500, statusText: 'Server Error' });
+
+      await expect(
+        runNotificationAction({ label: 'Snooze', url: 'https://example.com/snooze' }, null, payload)
+      ).rejects.toThrow('Callback returned 500');
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseMultipartNotification, sanitizeFileName, DEFAULT_ATTACHMENT_LIMITS } from '../../queue/attachments.js';
+
+/**
+ * Encode form data as a raw multipart body, as express.raw() hands it to the webhook
+ */
+async function encode(form: FormData): Promise<{ raw: Buffer; contentType: string }> {
+  const request = new Request('http://localhost/webhook/notify', { method: 'POST', body: form });
+  return {
+    raw: Buffer.from(await request.arrayBuffer()),
+    contentType: request.headers.get('content-type')!,
+  };
+}
+
+describe('attachments', () => {
+  describe('parseMultipartNotification', () => {
+    it('should read the payload from payload_json and every file part', async () => {
+      const form = new FormData();
+      form.append('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion', ack_required: true }));
+      form.append('files', new Blob(['jpeg-bytes'], { type: 'image/jpeg' }), 'front door.jpg');
+      form.append('report', new Blob(['a,b'], { type: 'text/csv' }), 'report.csv');
+      const { raw, contentType } = await encode(form);
+
+      const { body, uploads } = await parseMultipartNotification(raw, contentType, DEFAULT_ATTACHMENT_LIMITS);
+
+      expect(body).toEqual({ source: 'Camera', message: 'Motion', ack_required: true });
+      expect(uploads).toEqual([
+        { name: 'front_door.jpg', contentType: 'image/jpeg', data: Buffer.from('jpeg-bytes') },
+        { name: 'report.csv', contentType: 'text/csv', data: Buffer.from('a,b') },
+      ]);
+    });
+
+    it('should fall back to plain form fields', async () => {
+      const form = new FormData();
+      form.append('source', 'Camera');
+      form.append('message', 'Motion');
+      const { raw, contentType } = await encode(form);
+
+      const { body, uploads } = await parseMultipartNotification(raw, contentType, DEFAULT_ATTACHMENT_LIMITS);
+
+      expect(body).toEqual({ source: 'Camera', message: 'Motion' });
+      expect(uploads).toEqual([]);
+    });
+
+    it('should enforce the count, size and type limits', async () => {
+      const limits = { maxFiles: 1, maxFileBytes: 4, allowedTypes: ['image/*'] };
+      const parse = async (...files: [string, string, string][]) => {
+        const form = new FormData();
+        form.append('payload_json', JSON.stringify({ source: 'Test', message: 'Files' }));
+        for (const [content, type, name] of files) {
+          form.append('files', new Blob([content], { type }), name);
+        }
+        const { raw, contentType } = await encode(form);
+        return parseMultipartNotification(raw, contentType, limits);
+      };
+
+      await expect(parse(['a', 'image/png', 'a.png'], ['b', 'image/png', 'b.png'])).rejects.toThrow(
+        '2 files given (max 1)'
+      );
+      await expect(parse(['too large', 'image/png', 'big.png'])).rejects.toThrow('is 9 bytes (max 4)');
+      await expect(parse(['MZ', 'application/x-msdownload', 'setup.exe'])).rejects.toThrow('not allowed');
+      await expect(parse(['', 'image/png', 'empty.png'])).rejects.toThrow('is empty');
+    });
+
+    it('should reject invalid payload_json', async () => {
+      const form = new FormData();
+      form.append('payload_json', '{not json');
+      const { raw, contentType } = await encode(form);
+
+      await expect(parseMultipartNotification(raw, contentType, DEFAULT_ATTACHMENT_LIMITS)).rejects.toThrow(
+        'payload_json is not valid JSON'
+      );
+    });
+  });
+
+  describe('sanitizeFileName', () => {
+    it('should keep names safe for disk and attachment:// URLs', () => {
+      expect(sanitizeFileName('../../etc/passwd')).toBe('passwd');
+      expect(sanitizeFileName('Front Door (1).jpg')).toBe('Front_Door__1_.jpg');
+      expect(sanitizeFileName('.hidden')).toBe('hidden');
+      expect(sanitizeFileName('')).toBe('file');
+    });
+  });
+});
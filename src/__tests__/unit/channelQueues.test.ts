@@ -0,0 +1,123 @@
+import { describe, it, expect } from '@jest/globals';
+import { ChannelQueues } from '../../queue/channelQueues.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('ChannelQueues', () => {
+  it('should keep tasks of a channel in order', async () => {
+    const queues = new ChannelQueues();
+    const order: string[] = [];
+
+    await Promise.all([
+      queues.add('a', async () => {
+        await sleep(30);
+        order.push('a1');
+      }),
+      queues.add('a', async () => {
+        order.push('a2');
+      }),
+    ]);
+
+    expect(order).toEqual(['a1', 'a2']);
+  });
+
+  it('should not hold up other channels behind a slow one', async () => {
+    const queues = new ChannelQueues();
+    const order: string[] = [];
+
+    await Promise.all([
+      queues.add('slow', async () => {
+        await sleep(50);
+        order.push('slow');
+      }),
+      queues.add('fast', async () => {
+        order.push('fast');
+      }),
+    ]);
+
+    expect(order).toEqual(['fast', 'slow']);
+  });
+
+  it('should pause only the rate-limited channel until retry-after passes', async () => {
+    const queues = new ChannelQueues();
+    const order: string[] = [];
+
+    queues.pause('limited', 60);
+    const limited = queues.add('limited', async () => {
+      order.push('limited');
+    });
+    const other = queues.add('other', async () => {
+      order.push('other');
+    });
+
+    await other;
+    expect(order).toEqual(['other']);
+    expect(queues.getDepths()).toEqual([
+      { key: 'limited', waiting: 1, inFlight: 0, pausedUntil: expect.any(Date) },
+    ]);
+
+    await limited;
+    expect(order).toEqual(['other', 'limited']);
+  });
+
+  it('should run higher priority tasks before waiting ones', async () => {
+    const queues = new ChannelQueues();
+    const order: string[] = [];
+
+    queues.pause('a', 20);
+    const tasks = [
+      queues.add('a', async () => {
+        order.push('normal');
+      }),
+      queues.add('a', async () => {
+        order.push('retry');
+      }, 1),
+    ];
+    await Promise.all(tasks);
+
+    expect(order).toEqual(['retry', 'normal']);
+  });
+
+  it('should report depths and size, deepest channel first', async () => {
+    const queues = new ChannelQueues();
+    let release!: () => void;
+    const blocker = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    const tasks = [
+      queues.add('a', () => blocker),
+      queues.add('b', () => blocker),
+      queues.add('b', async () => {}),
+      queues.add('b', async () => {}),
+    ];
+    await sleep(0);
+
+    expect(queues.getSize()).toBe(4);
+    expect(queues.getDepths()).toEqual([
+      { key: 'b', waiting: 2, inFlight: 1, pausedUntil: undefined },
+      { key: 'a', waiting: 0, inFlight: 1, pausedUntil: undefined },
+    ]);
+
+    release();
+    await Promise.all(tasks);
+    await queues.onIdle();
+
+    expect(queues.getSize()).toBe(0);
+    expect(queues.getDepths()).toEqual([]);
+  });
+
+  it('should start paused channels again on resumeAll', async () => {
+    const queues = new ChannelQueues();
+    const order: string[] = [];
+
+    queues.pause('a', 60000);
+    const task = queues.add('a', async () => {
+      order.push('a');
+    });
+    queues.resumeAll();
+    await task;
+
+    expect(order).toEqual(['a']);
+  });
+});
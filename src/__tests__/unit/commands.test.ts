@@ -34,13 +34,28 @@ describe('CommandHandler', () => {
         sent24h: 0,
       }),
       getNotificationById: jest.fn<any>(),
+      listNotificationSeries: jest.fn<any>().mockResolvedValue([]),
+      getUserTimezone: jest.fn<any>().mockResolvedValue(null),
+      setUserTimezone: jest.fn<any>().mockResolvedValue(undefined),
+      getQuietHours: jest.fn<any>().mockResolvedValue([]),
+      setQuietHours: jest.fn<any>().mockResolvedValue(undefined),
+      clearQuietHours: jest.fn<any>().mockResolvedValue(true),
       cancelNotification: jest.fn<any>(),
       retryFailedNotification: jest.fn<any>(),
+      logNotificationAction: jest.fn<any>().mockResolvedValue(1),
+      listTemplates: jest.fn<any>().mockResolvedValue([]),
+      getTemplate: jest.fn<any>().mockResolvedValue(null),
+      saveTemplate: jest.fn<any>().mockResolvedValue(true),
+      deleteTemplate: jest.fn<any>().mockResolvedValue(true),
+      getDeadLetters: jest.fn<any>().mockResolvedValue({ notifications: [], total: 0 }),
+      getNotificationAttempts: jest.fn<any>().mockResolvedValue([]),
+      purgeDeadLetters: jest.fn<any>().mockResolvedValue(0),
     } as any;
 
     // @ts-ignore - Mock setup for testing
     mockQueue = {
       getQueueSize: jest.fn<any>().mockReturnValue(0),
+      getChannelQueueDepths: jest.fn<any>().mockReturnValue([]),
       enqueue: jest.fn<any>().mockResolvedValue(1),
       getStats: jest.fn<any>().mockResolvedValue({
         pending: 0,
@@ -51,12 +66,22 @@ describe('CommandHandler', () => {
       }),
       cancel: jest.fn<any>().mockResolvedValue(true),
       retry: jest.fn<any>().mockResolvedValue(true),
+      pauseSeries: jest.fn<any>().mockResolvedValue(true),
+      resumeSeries: jest.fn<any>().mockResolvedValue(true),
+      endSeries: jest.fn<any>().mockResolvedValue(true),
+      getActiveQuietHours: jest.fn<any>().mockResolvedValue(null),
+      acknowledge: jest.fn<any>().mockResolvedValue(true),
+      resolveMentions: jest.fn<any>().mockReturnValue(undefined),
+      resolveChannel: jest.fn<any>().mockReturnValue('123456789'),
+      buildPreviewEmbed: jest.fn<any>().mockReturnValue({ data: {} }),
+      replayDeadLetters: jest.fn<any>().mockResolvedValue([]),
     } as any;
 
     // @ts-ignore - Mock setup for testing
     mockInteraction = {
       isCommand: jest.fn<any>().mockReturnValue(true),
       isAutocomplete: jest.fn<any>().mockReturnValue(false),
+      isButton: jest.fn<any>().mockReturnValue(false),
       commandName: '',
       reply: jest.fn<any>().mockResolvedValue({} as InteractionResponse),
       editReply: jest.fn<any>().mockResolvedValue({} as InteractionResponse),
@@ -64,7 +89,13 @@ describe('CommandHandler', () => {
       options: {
         getInteger: jest.fn<any>(),
         getString: jest.fn<any>(),
+        getBoolean: jest.fn<any>().mockReturnValue(null),
+        getSubcommand: jest.fn<any>(),
+        getChannel: jest.fn<any>().mockReturnValue(null),
+        getUser: jest.fn<any>().mockReturnValue(null),
+        getRole: jest.fn<any>().mockReturnValue(null),
       },
+      user: { id: '123', username: 'tester' },
       replied: false,
       deferred: false,
     } as any;
@@ -83,7 +114,7 @@ describe('CommandHandler', () => {
       expect(mockClient.application?.commands.set).toHaveBeenCalled();
       const commandData = (mockClient.application?.commands.set as jest.Mock).mock
         .calls[0][0];
-      expect(commandData).toHaveLength(11); // ping, status, history, test, schedule, scheduled, cancel, retry, failed, queue-stats, remind
+      expect(commandData).toHaveLength(17); // ping, status, history, test, schedule, scheduled, notification, cancel, retry, failed, dead-letter, queue-stats, remind, series, timezone, quiet-hours, template
     });
   });
 
@@ -121,6 +152,20 @@ describe('CommandHandler', () => {
         })
       );
     });
+
+    it('should show when quiet hours are active', async () => {
+      mockInteraction.commandName = 'status';
+      mockQueue.getActiveQuietHours.mockResolvedValue({
+        window: { channelId: null, start: '23:00', end: '07:00', mode: 'digest', timezone: 'UTC' },
+        endsAt: new Date(Date.now() + 3600000),
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const embed = ((mockInteraction.editReply as jest.Mock).mock.calls[0][0] as any).embeds[0];
+      const field = embed.data.fields.find((f: any) => f.name === 'Quiet Hours');
+      expect(field.value).toMatch(/^🌙 Active until .* \(digest\)$/);
+    });
   });
 
   describe('handleInteraction - history command', () => {
@@ -228,6 +273,128 @@ describe('CommandHandler', () => {
         expect.stringContaining('Notification scheduled')
       );
     });
+
+    it('should schedule a recurring notification', async () => {
+      mockInteraction.commandName = 'schedule';
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = {
+          time: '1d',
+          source: 'Household',
+          message: 'Take out the bins',
+          repeat: 'every 1w at 19:00',
+        };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduledFor: expect.any(Date), recurrence: 'every 1w at 19:00' })
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('Repeats every week at 19:00')
+      );
+    });
+
+    it('should ping the chosen role and mention group', async () => {
+      mockInteraction.commandName = 'schedule';
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = {
+          time: '2h',
+          source: 'Household',
+          message: 'Dinner is ready',
+          mention_group: 'family',
+        };
+        return values[name] || null;
+      });
+      (mockInteraction.options.getRole as any).mockReturnValue({ id: '333' });
+      mockQueue.resolveMentions.mockReturnValue({ users: ['111'], roles: ['333'] });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.resolveMentions).toHaveBeenCalledWith({ users: undefined, roles: ['333'], groups: ['family'] });
+      expect(mockQueue.enqueue).toHaveBeenCalledWith(
+        expect.objectContaining({ mentions: { users: ['111'], roles: ['333'] } })
+      );
+    });
+
+    it('should report unknown mention groups', async () => {
+      mockInteraction.commandName = 'schedule';
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { time: '2h', source: 'Household', message: 'Hi', mention_group: 'nope' };
+        return values[name] || null;
+      });
+      mockQueue.resolveMentions.mockImplementation(() => {
+        throw new Error('unknown mention group "nope"');
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        'Failed to schedule notification: unknown mention group "nope"'
+      );
+    });
+  });
+
+  describe('handleInteraction - series command', () => {
+    beforeEach(() => {
+      mockInteraction.commandName = 'series';
+    });
+
+    it('should list series', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('list');
+      mockDatabase.listNotificationSeries.mockResolvedValue([
+        {
+          id: 3,
+          createdAt: new Date(),
+          recurrence: 'every 1w at 19:00',
+          status: 'active',
+          title: 'Bins',
+          nextRunAt: new Date(Date.now() + 60 * 60 * 1000),
+        },
+      ]);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.listNotificationSeries).toHaveBeenCalledWith(undefined);
+      const reply = (mockInteraction.editReply as jest.Mock).mock.calls[0][0] as any;
+      expect(reply.content).toContain('**[Series 3]** Bins - every week at 19:00 (active)');
+    });
+
+    it('should show message when no series exist', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('list');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith('No recurring notifications found.');
+    });
+
+    it('should pause, resume and end a series', async () => {
+      (mockInteraction.options.getInteger as any).mockReturnValue(3);
+
+      for (const subcommand of ['pause', 'resume', 'end']) {
+        (mockInteraction.options.getSubcommand as any).mockReturnValue(subcommand);
+        await commandHandler.handleInteraction(mockInteraction as any);
+      }
+
+      expect(mockQueue.pauseSeries).toHaveBeenCalledWith(3);
+      expect(mockQueue.resumeSeries).toHaveBeenCalledWith(3);
+      expect(mockQueue.endSeries).toHaveBeenCalledWith(3);
+      expect(mockInteraction.editReply).toHaveBeenCalledWith('Series 3 has been ended.');
+    });
+
+    it('should report series that cannot be updated', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('resume');
+      (mockInteraction.options.getInteger as any).mockReturnValue(4);
+      mockQueue.resumeSeries.mockResolvedValue(false);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        'Could not update series 4. It may not exist or is not paused.'
+      );
+    });
   });
 
   describe('handleInteraction - scheduled command', () => {
@@ -256,6 +423,256 @@ describe('CommandHandler', () => {
       expect(mockDatabase.getScheduledNotifications).toHaveBeenCalled();
       expect(mockInteraction.editReply).toHaveBeenCalled();
     });
+
+    it('should show absolute times in the user timezone', async () => {
+      mockInteraction.commandName = 'scheduled';
+      (mockInteraction.options.getInteger as any).mockReturnValue(null);
+      mockDatabase.getUserTimezone.mockResolvedValue('Asia/Tokyo');
+      mockDatabase.getScheduledNotifications.mockResolvedValue([
+        {
+          id: 1,
+          source: 'Test',
+          message: 'Future notification',
+          createdAt: new Date(),
+          scheduledFor: new Date(Date.now() + 90 * 60 * 1000),
+          status: 'pending',
+          severity: 'info',
+          retryCount: 0,
+          maxRetries: 3,
+        },
+      ] as any);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.getUserTimezone).toHaveBeenCalledWith('123');
+      const reply = (mockInteraction.editReply as jest.Mock).mock.calls[0][0] as any;
+      expect(reply.content).toMatch(/in 1 hour \(\w{3},? \d{1,2} \w{3}(?: \d{4})?, \d{2}:\d{2} GMT\+9\)/);
+    });
+  });
+
+  describe('handleInteraction - template command', () => {
+    const template = {
+      name: 'door-open',
+      title: '{{door}} opened',
+      message: 'Opened at {{time}}{{#if person}} by {{person}}{{/if}}',
+      severity: 'warning' as const,
+    };
+
+    beforeEach(() => {
+      mockInteraction.commandName = 'template';
+      (mockInteraction as any).memberPermissions = { has: jest.fn<any>().mockReturnValue(true) };
+    });
+
+    it('should create a template and list its variables', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('create');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { name: 'Door-Open', message: template.message, title: template.title };
+        return values[name] ?? null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.saveTemplate).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'door-open', message: template.message, title: template.title, createdBy: '123' })
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('Template **door-open** created.\n**Variables:** `door`, `time`, `person`')
+      );
+    });
+
+    it('should reject templates with invalid placeholders', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('create');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { name: 'broken', message: '{{#if door}}Open' };
+        return values[name] ?? null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.saveTemplate).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('message: {{#if door}} is not closed with {{/if}}')
+      );
+    });
+
+    it('should require the Manage Server permission to change templates', async () => {
+      (mockInteraction as any).memberPermissions = { has: jest.fn<any>().mockReturnValue(false) };
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('delete');
+      (mockInteraction.options.getString as any).mockReturnValue('door-open');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.deleteTemplate).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('Manage Server'));
+    });
+
+    it('should preview a template with sample data', async () => {
+      mockDatabase.getTemplate.mockResolvedValue(template);
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('preview');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { name: 'door-open', data: '{"door": "Front door", "time": "18:30"}' };
+        return values[name] ?? null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.buildPreviewEmbed).toHaveBeenCalledWith({
+        source: 'door-open',
+        title: 'Front door opened',
+        message: 'Opened at 18:30',
+        severity: 'warning',
+        embed: undefined,
+      });
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.objectContaining({ content: 'Preview of **door-open**' })
+      );
+    });
+
+    it('should report missing data in previews', async () => {
+      mockDatabase.getTemplate.mockResolvedValue(template);
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('preview');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) =>
+        name === 'name' ? 'door-open' : null
+      );
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('missing data for {{door}}, {{time}}')
+      );
+    });
+  });
+
+  describe('handleInteraction - quiet-hours command', () => {
+    beforeEach(() => {
+      mockInteraction.commandName = 'quiet-hours';
+      (mockInteraction as any).memberPermissions = { has: jest.fn<any>().mockReturnValue(true) };
+    });
+
+    it('should set global quiet hours in the admin timezone', async () => {
+      mockDatabase.getUserTimezone.mockResolvedValue('Europe/Berlin');
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('set');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { start: '23:00', end: '7:00', mode: 'digest' };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.setQuietHours).toHaveBeenCalledWith({
+        channelId: null,
+        start: '23:00',
+        end: '07:00',
+        mode: 'digest',
+        timezone: 'Europe/Berlin',
+        updatedBy: '123',
+      });
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('**All channels:** 23:00-07:00 Europe/Berlin (sent as a digest)')
+      );
+    });
+
+    it('should set per-channel quiet hours', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('set');
+      (mockInteraction.options.getChannel as any).mockReturnValue({ id: '999' });
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { start: '22:00', end: '06:30' };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.setQuietHours).toHaveBeenCalledWith(
+        expect.objectContaining({ channelId: '999', mode: 'defer' })
+      );
+    });
+
+    it('should reject invalid times', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('set');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = { start: '11pm', end: '07:00' };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.setQuietHours).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('Invalid time "11pm"'));
+    });
+
+    it('should require the Manage Server permission to change quiet hours', async () => {
+      (mockInteraction as any).memberPermissions = { has: jest.fn<any>().mockReturnValue(false) };
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('clear');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.clearQuietHours).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('Manage Server'));
+    });
+
+    it('should clear the global window', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('clear');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.clearQuietHours).toHaveBeenCalledWith(null);
+      expect(mockInteraction.editReply).toHaveBeenCalledWith('Quiet hours for all channels have been removed.');
+    });
+
+    it('should show configured windows and whether they are active', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('show');
+      const window = { channelId: null, start: '23:00', end: '07:00', mode: 'defer', timezone: 'UTC' };
+      mockDatabase.getQuietHours.mockResolvedValue([window]);
+      mockQueue.getActiveQuietHours.mockResolvedValue({ window, endsAt: new Date(Date.now() + 3600000) });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const reply = (mockInteraction.editReply as jest.Mock).mock.calls[0][0] as string;
+      expect(reply).toContain('23:00-07:00 UTC (deferred)');
+      expect(reply).toContain('Quiet hours are active until');
+    });
+  });
+
+  describe('handleInteraction - timezone command', () => {
+    beforeEach(() => {
+      mockInteraction.commandName = 'timezone';
+    });
+
+    it('should show the bot default when no preference is set', async () => {
+      (mockInteraction.options.getString as any).mockReturnValue(null);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('(bot default)'));
+    });
+
+    it('should save a valid timezone', async () => {
+      (mockInteraction.options.getString as any).mockReturnValue('Europe/Berlin');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.setUserTimezone).toHaveBeenCalledWith('123', 'Europe/Berlin');
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('Your timezone is now **Europe/Berlin**')
+      );
+    });
+
+    it('should reset to the bot default', async () => {
+      (mockInteraction.options.getString as any).mockReturnValue('default');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.setUserTimezone).toHaveBeenCalledWith('123', null);
+    });
+
+    it('should reject unknown timezones', async () => {
+      (mockInteraction.options.getString as any).mockReturnValue('Mars/Base');
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.setUserTimezone).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('Unknown timezone "Mars/Base"'));
+    });
   });
 
   describe('handleInteraction - cancel command', () => {
@@ -290,6 +707,62 @@ describe('CommandHandler', () => {
     });
   });
 
+  describe('handleInteraction - notification command', () => {
+    it('should show the notification with its attempt timeline', async () => {
+      mockInteraction.commandName = 'notification';
+      (mockInteraction.options.getInteger as any).mockReturnValue(7);
+      mockDatabase.getNotificationById.mockResolvedValue({
+        id: 7,
+        source: 'Garage',
+        message: 'Door left open',
+        status: 'sent',
+        retryCount: 1,
+        maxRetries: 3,
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        scheduledFor: new Date('2024-01-01T10:00:00Z'),
+        sentAt: new Date('2024-01-01T10:01:00Z'),
+      } as any);
+      mockDatabase.getNotificationAttempts.mockResolvedValue([
+        {
+          notificationId: 7,
+          attempt: 1,
+          startedAt: new Date('2024-01-01T10:00:00.000Z'),
+          attemptedAt: new Date('2024-01-01T10:00:00.830Z'),
+          outcome: 'failed',
+          error: 'Bad Gateway',
+          failureReason: 'server_error',
+          httpStatus: 502,
+        },
+        {
+          notificationId: 7,
+          attempt: 2,
+          startedAt: new Date('2024-01-01T10:01:00.000Z'),
+          attemptedAt: new Date('2024-01-01T10:01:00.120Z'),
+          outcome: 'sent',
+        },
+      ]);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const { embeds } = (mockInteraction.editReply as jest.Mock).mock.calls[0][0] as any;
+      const timeline = embeds[0].data.fields.find((field: any) => field.name === 'Delivery Attempts (2)');
+      expect(timeline.value).toBe(
+        '1. ❌ <t:1704103200:T> (830 ms) - HTTP 502 server_error: Bad Gateway\n' +
+          '2. ✅ <t:1704103260:T> (120 ms)'
+      );
+    });
+
+    it('should report unknown notifications', async () => {
+      mockInteraction.commandName = 'notification';
+      (mockInteraction.options.getInteger as any).mockReturnValue(999);
+      mockDatabase.getNotificationById.mockResolvedValue(null);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith('Notification 999 not found.');
+    });
+  });
+
   describe('handleInteraction - failed command', () => {
     it('should list failed notifications', async () => {
       mockInteraction.commandName = 'failed';
@@ -312,6 +785,118 @@ describe('CommandHandler', () => {
       expect(mockDatabase.getFailedNotifications).toHaveBeenCalled();
       expect(mockInteraction.editReply).toHaveBeenCalled();
     });
+
+    it('should show the failure category', async () => {
+      mockInteraction.commandName = 'failed';
+      (mockInteraction.options.getInteger as any).mockReturnValue(null);
+      mockDatabase.getFailedNotifications.mockResolvedValue([
+        {
+          id: 2,
+          source: 'Garage',
+          message: 'Door left open',
+          retryCount: 0,
+          maxRetries: 3,
+          lastError: 'Missing Access',
+          failureReason: 'missing_access',
+        },
+      ]);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: expect.stringContaining('Error (missing_access): Missing Access'),
+      });
+    });
+  });
+
+  describe('handleInteraction - dead-letter command', () => {
+    const options = (values: Record<string, string>) =>
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => values[name] ?? null);
+
+    beforeEach(() => {
+      mockInteraction.commandName = 'dead-letter';
+      (mockInteraction as any).memberPermissions = { has: jest.fn<any>().mockReturnValue(true) };
+    });
+
+    it('should list failed notifications with their attempts', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('list');
+      options({ reason: 'missing_access' });
+      mockDatabase.getDeadLetters.mockResolvedValue({
+        notifications: [
+          {
+            id: 4,
+            source: 'Garage',
+            message: 'Door left open',
+            lastError: 'Missing Access',
+            failureReason: 'missing_access',
+            failedAt: new Date('2024-12-25T10:00:00Z'),
+          },
+        ],
+        total: 1,
+      } as any);
+      mockDatabase.getNotificationAttempts.mockResolvedValue([
+        { notificationId: 4, attempt: 1, outcome: 'failed', error: 'Missing Access' },
+      ]);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.getDeadLetters).toHaveBeenCalledWith({ failureReason: 'missing_access' }, 10);
+      const reply = (mockInteraction.editReply as jest.Mock).mock.calls[0][0] as string;
+      expect(reply).toContain('**[ID: 4]** Garage - missing_access, 1 attempt(s)');
+      expect(reply).toContain('Error: Missing Access');
+    });
+
+    it('should replay failures in a time range', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('replay');
+      options({ source: 'Garage', since: '24h' });
+      mockQueue.replayDeadLetters.mockResolvedValue([4, 5]);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const filter = mockQueue.replayDeadLetters.mock.calls[0][0] as any;
+      expect(filter.source).toBe('Garage');
+      expect(Date.now() - filter.since.getTime()).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+      expect(mockInteraction.editReply).toHaveBeenCalledWith('🔄 Replaying 2 failed notification(s).');
+    });
+
+    it('should require a filter or "all" to purge', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('purge');
+      options({});
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.purgeDeadLetters).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('Add a filter'));
+
+      (mockInteraction.options.getBoolean as any).mockReturnValue(true);
+      mockDatabase.purgeDeadLetters.mockResolvedValue(3);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.purgeDeadLetters).toHaveBeenCalledWith({});
+      expect(mockInteraction.editReply).toHaveBeenCalledWith('🗑️ Purged 3 failed notification(s).');
+    });
+
+    it('should require Manage Server to replay or purge', async () => {
+      (mockInteraction as any).memberPermissions = { has: jest.fn<any>().mockReturnValue(false) };
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('replay');
+      options({});
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.replayDeadLetters).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('Manage Server'));
+    });
+
+    it('should reject an invalid time', async () => {
+      (mockInteraction.options.getSubcommand as any).mockReturnValue('list');
+      options({ since: 'whenever' });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.getDeadLetters).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('❌'));
+    });
   });
 
   describe('handleInteraction - queue-stats command', () => {
@@ -335,11 +920,37 @@ describe('CommandHandler', () => {
         })
       );
     });
+
+    it('should show the depth of each channel queue', async () => {
+      mockInteraction.commandName = 'queue-stats';
+      mockQueue.getStats.mockResolvedValue({
+        pending: 4,
+        processing: 2,
+        scheduled: 0,
+        failed: 0,
+        sent24h: 10,
+      });
+      mockQueue.getChannelQueueDepths.mockReturnValue([
+        { key: '111111111', waiting: 3, inFlight: 1 },
+        { key: 'dm:555', waiting: 0, inFlight: 1 },
+        { key: '222222222', waiting: 1, inFlight: 0, pausedUntil: new Date('2026-01-01T00:00:30Z') },
+      ]);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const embed = (mockInteraction.editReply as any).mock.calls[0][0].embeds[0];
+      const field = embed.data.fields.find((f: any) => f.name === 'Channel Queues');
+      expect(field.value).toBe(
+        '**<#111111111>:** 3 waiting, sending\n' +
+          '**DM <@555>:** 0 waiting, sending\n' +
+          '**<#222222222>:** 1 waiting, rate limited until <t:1767225630:T>'
+      );
+    });
   });
 
   describe('handleInteraction - remind command', () => {
     beforeEach(() => {
-      mockInteraction.user = { username: 'testuser' } as any;
+      mockInteraction.user = { id: '555', username: 'testuser' } as any;
     });
 
     it('should set a reminder', async () => {
@@ -361,7 +972,10 @@ describe('CommandHandler', () => {
         title: 'Reminder for testuser',
         message: 'Take out the trash',
         severity: 'info',
-        scheduledFor: '2h',
+        scheduledFor: expect.any(Date),
+        timezone: expect.any(String),
+        delivery: 'dm',
+        recipientUserId: '555',
       });
       expect(mockInteraction.editReply).toHaveBeenCalledWith(
         expect.stringContaining('✅ Reminder set!')
@@ -387,6 +1001,67 @@ describe('CommandHandler', () => {
       );
     });
 
+    it('should confirm the parsed time for natural-language input', async () => {
+      mockInteraction.commandName = 'remind';
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = {
+          time: 'in 1h30m',
+          message: 'Check the laundry',
+        };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const scheduledFor = (mockQueue.enqueue.mock.calls[0][0] as any).scheduledFor as Date;
+      expect(scheduledFor.getTime() - Date.now()).toBeGreaterThan(89 * 60 * 1000);
+      expect(scheduledFor.getTime() - Date.now()).toBeLessThanOrEqual(90 * 60 * 1000);
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(expect.stringContaining('in 1 hour'));
+    });
+
+    it('should resolve wall-clock times in the user timezone', async () => {
+      mockInteraction.commandName = 'remind';
+      mockDatabase.getUserTimezone.mockResolvedValue('America/New_York');
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = {
+          time: 'tomorrow 7am',
+          message: 'Water the plants',
+        };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      const input = (mockQueue.enqueue as jest.Mock).mock.calls[0][0] as any;
+      expect(input.timezone).toBe('America/New_York');
+      expect(
+        new Intl.DateTimeFormat('en-GB', {
+          timeZone: 'America/New_York',
+          hour: '2-digit',
+          minute: '2-digit',
+          hourCycle: 'h23',
+        }).format(input.scheduledFor)
+      ).toBe('07:00');
+    });
+
+    it('should reject ambiguous times without enqueueing', async () => {
+      mockInteraction.commandName = 'remind';
+      (mockInteraction.options.getString as any).mockImplementation((name: string) => {
+        const values: Record<string, string> = {
+          time: 'at 7',
+          message: 'Wake up',
+        };
+        return values[name] || null;
+      });
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith(
+        expect.stringContaining('Ambiguous time "at 7"')
+      );
+    });
+
     it('should work with different time units', async () => {
       mockInteraction.commandName = 'remind';
       (mockInteraction.options.getString as any).mockImplementation((name: string) => {
@@ -405,7 +1080,10 @@ describe('CommandHandler', () => {
         title: 'Reminder for testuser',
         message: 'Meeting in 30 minutes',
         severity: 'info',
-        scheduledFor: '30m',
+        scheduledFor: expect.any(Date),
+        timezone: expect.any(String),
+        delivery: 'dm',
+        recipientUserId: '555',
       });
       expect(mockInteraction.editReply).toHaveBeenCalledWith(
         expect.stringContaining('✅ Reminder set!')
@@ -413,6 +1091,111 @@ describe('CommandHandler', () => {
     });
   });
 
+  describe('handleInteraction - action buttons', () => {
+    let mockHAClient: any;
+
+    beforeEach(() => {
+      mockHAClient = {
+        triggerAutomation: jest.fn<any>().mockResolvedValue(undefined),
+        callService: jest.fn<any>().mockResolvedValue(undefined),
+      };
+      (mockInteraction.isButton as any).mockReturnValue(true);
+      (mockInteraction as any).customId = 'notif-action:42:0';
+      mockDatabase.getNotificationById.mockResolvedValue({
+        id: 42,
+        actions: [{ label: 'Close garage', style: 'danger', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } }],
+      } as any);
+    });
+
+    it('should run the action and record who clicked it', async () => {
+      const permissionManager = { isUserAllowed: jest.fn<any>().mockReturnValue(true) };
+      commandHandler = new CommandHandler(
+        mockClient, mockDatabase, mockQueue, mockHAClient, undefined, permissionManager as any
+      );
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockHAClient.callService).toHaveBeenCalledWith('cover', 'close_cover', { entity_id: 'cover.garage' });
+      expect(mockDatabase.logNotificationAction).toHaveBeenCalledWith({
+        notificationId: 42,
+        actionIndex: 0,
+        label: 'Close garage',
+        userId: '123',
+        username: 'tester',
+        result: 'succeeded',
+      });
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({ content: '✅ Close garage: done' });
+    });
+
+    it('should deny users without Home Assistant permission', async () => {
+      const permissionManager = { isUserAllowed: jest.fn<any>().mockReturnValue(false) };
+      commandHandler = new CommandHandler(
+        mockClient, mockDatabase, mockQueue, mockHAClient, undefined, permissionManager as any
+      );
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockHAClient.callService).not.toHaveBeenCalled();
+      expect(mockDatabase.logNotificationAction).toHaveBeenCalledWith(
+        expect.objectContaining({ result: 'denied' })
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: '❌ You do not have permission to use this action.',
+      });
+    });
+
+    it('should report and record failed actions', async () => {
+      mockHAClient.callService.mockRejectedValue(new Error('Service not found'));
+      commandHandler = new CommandHandler(mockClient, mockDatabase, mockQueue, mockHAClient);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.logNotificationAction).toHaveBeenCalledWith(
+        expect.objectContaining({ result: 'failed', error: 'Service not found' })
+      );
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: '❌ Close garage failed: Service not found',
+      });
+    });
+
+    it('should reject actions that no longer exist', async () => {
+      (mockInteraction as any).customId = 'notif-action:42:3';
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockDatabase.logNotificationAction).not.toHaveBeenCalled();
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: '❌ This action is no longer available.',
+      });
+    });
+  });
+
+  describe('handleInteraction - acknowledge button', () => {
+    beforeEach(() => {
+      (mockInteraction.isButton as any).mockReturnValue(true);
+      (mockInteraction as any).customId = 'notif-ack:42';
+    });
+
+    it('should acknowledge the notification', async () => {
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockQueue.acknowledge).toHaveBeenCalledWith(42, '123');
+      expect(mockInteraction.deferReply).toHaveBeenCalledWith({ flags: 1 << 6 });
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({ content: '✅ Notification #42 acknowledged' });
+    });
+
+    it('should report who already acknowledged it', async () => {
+      mockQueue.acknowledge.mockResolvedValue(false);
+      mockDatabase.getNotificationById.mockResolvedValue({ id: 42, acknowledgedBy: '555' } as any);
+
+      await commandHandler.handleInteraction(mockInteraction as any);
+
+      expect(mockInteraction.editReply).toHaveBeenCalledWith({
+        content: 'Notification #42 was already acknowledged by <@555>',
+      });
+    });
+  });
+
   describe('handleInteraction - error handling', () => {
     it('should handle command execution errors', async () => {
       mockInteraction.commandName = 'history';
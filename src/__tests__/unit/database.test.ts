@@ -66,6 +66,27 @@ describe('Database', () => {
       expect(id).toBeGreaterThan(0);
     });
 
+    it('should persist target channel', async () => {
+      const id = await database.saveNotificationToQueue({
+        source: 'Security',
+        message: 'Motion detected',
+        channel: '123456789',
+      });
+
+      const notification = await database.getNotificationById(id);
+      expect(notification?.channelId).toBe('123456789');
+    });
+
+    it('should return due notifications with the highest priority first', async () => {
+      const past = new Date(Date.now() - 60000);
+      const burst = await database.saveNotificationToQueue({ source: 'Automation', message: 'Spam', scheduledFor: past, priority: 1 });
+      const later = await database.saveNotificationToQueue({ source: 'Automation', message: 'Spam', priority: 1 });
+      const alert = await database.saveNotificationToQueue({ source: 'Alarm', message: 'Intruder', priority: 3 });
+
+      expect((await database.getDueNotifications()).map((n) => n.id)).toEqual([alert, burst, later]);
+      expect((await database.getNotificationById(alert))?.priority).toBe(3);
+    });
+
     it('should throw error if database not initialized', async () => {
       const uninitializedDb = new Database(':memory:');
       await expect(
@@ -130,6 +151,514 @@ describe('Database', () => {
     });
   });
 
+  describe('notification series', () => {
+    it('should report active series without a pending occurrence', async () => {
+      const seriesId = await database.createNotificationSeries('every 1d at 08:00');
+      const id = await database.saveNotificationToQueue({
+        source: 'Bins',
+        title: 'Take out the bins',
+        message: 'Bins go out tonight',
+        scheduledFor: new Date('2025-01-06T08:00:00Z'),
+        seriesId,
+      });
+
+      expect(await database.getSeriesAwaitingNextOccurrence()).toEqual([]);
+
+      await database.updateNotificationStatus(id, 'sent');
+      const awaiting = await database.getSeriesAwaitingNextOccurrence();
+
+      expect(awaiting).toHaveLength(1);
+      expect(awaiting[0]).toMatchObject({
+        id: seriesId,
+        recurrence: 'every 1d at 08:00',
+        status: 'active',
+        title: 'Take out the bins',
+      });
+    });
+
+    it('should return all rows of the latest occurrence', async () => {
+      const seriesId = await database.createNotificationSeries('every 1h');
+      await database.saveNotificationToQueue({
+        source: 'Test', message: 'old', scheduledFor: new Date('2025-01-06T08:00:00Z'), seriesId,
+      });
+      await database.saveNotificationToQueue({
+        source: 'Test', message: 'new', channel: '1', scheduledFor: new Date('2025-01-06T09:00:00Z'), seriesId,
+      });
+      await database.saveNotificationToQueue({
+        source: 'Test', message: 'new', channel: '2', scheduledFor: new Date('2025-01-06T09:00:00Z'), seriesId,
+      });
+
+      const latest = await database.getLatestSeriesOccurrence(seriesId);
+
+      expect(latest.map((n) => n.channelId)).toEqual(['1', '2']);
+      expect(latest.every((n) => n.seriesId === seriesId)).toBe(true);
+    });
+
+    it('should not reopen an ended series', async () => {
+      const seriesId = await database.createNotificationSeries('every 1h');
+
+      expect(await database.updateNotificationSeriesStatus(seriesId, 'ended')).toBe(true);
+      expect(await database.updateNotificationSeriesStatus(seriesId, 'active')).toBe(false);
+
+      const series = await database.getNotificationSeries(seriesId);
+      expect(series?.status).toBe('ended');
+      expect(series?.endedAt).toBeInstanceOf(Date);
+    });
+
+    it('should store the series timezone', async () => {
+      const seriesId = await database.createNotificationSeries('0 8 * * *', 'Europe/Berlin');
+      const legacyId = await database.createNotificationSeries('0 8 * * *');
+
+      expect((await database.getNotificationSeries(seriesId))?.timezone).toBe('Europe/Berlin');
+      expect((await database.getNotificationSeries(legacyId))?.timezone).toBeUndefined();
+    });
+  });
+
+  describe('automation trigger series', () => {
+    it('should track occurrences and report series awaiting their next trigger', async () => {
+      const seriesId = await database.createAutomationTriggerSeries({
+        automationId: 'automation.plants',
+        automationName: null,
+        triggeredBy: 'user123',
+        recurrence: 'every 1d at 07:00',
+        notifyOnComplete: false,
+        maxRetries: 3,
+        endsAt: new Date('2030-01-01T00:00:00Z'),
+        maxOccurrences: 5,
+        timezone: 'Europe/Berlin',
+      });
+      await database.incrementAutomationSeriesOccurrences(seriesId);
+      const triggerId = await database.saveAutomationTrigger({
+        automationId: 'automation.plants',
+        triggeredBy: 'user123',
+        scheduledFor: new Date('2025-01-06T07:00:00Z'),
+        seriesId,
+      });
+
+      expect(await database.getAutomationSeriesAwaitingNextTrigger()).toEqual([]);
+
+      await database.updateAutomationTriggerStatus(triggerId, 'triggered');
+      const [series] = await database.getAutomationSeriesAwaitingNextTrigger();
+
+      expect(series).toMatchObject({
+        id: seriesId,
+        occurrences: 1,
+        maxOccurrences: 5,
+        timezone: 'Europe/Berlin',
+        status: 'active',
+      });
+      expect(series.endsAt).toEqual(new Date('2030-01-01T00:00:00Z'));
+      expect((await database.getLatestAutomationSeriesTrigger(seriesId))?.id).toBe(triggerId);
+    });
+  });
+
+  describe('automation trigger attempts', () => {
+    it('should record each attempt with its timing, error and HTTP status', async () => {
+      const triggerId = await database.saveAutomationTrigger({ automationId: 'automation.lights', triggeredBy: 'user123' });
+
+      await database.recordAutomationTriggerAttempt({
+        triggerId,
+        startedAt: new Date('2024-01-01T10:00:00.000Z'),
+        attemptedAt: new Date('2024-01-01T10:00:10.000Z'),
+        outcome: 'failed',
+        error: 'Request to Home Assistant timed out after 10000ms',
+      });
+      await database.recordAutomationTriggerAttempt({
+        triggerId,
+        startedAt: new Date('2024-01-01T10:01:00.000Z'),
+        attemptedAt: new Date('2024-01-01T10:01:00.200Z'),
+        outcome: 'failed',
+        error: 'Bad Gateway',
+        httpStatus: 502,
+      });
+      await database.recordAutomationTriggerAttempt({ triggerId, startedAt: new Date(), outcome: 'triggered' });
+
+      const attempts = await database.getAutomationTriggerAttempts(triggerId);
+      expect(attempts.map((attempt) => [attempt.attempt, attempt.outcome, attempt.httpStatus])).toEqual([
+        [1, 'failed', undefined],
+        [2, 'failed', 502],
+        [3, 'triggered', undefined],
+      ]);
+      expect(attempts[1]).toMatchObject({
+        triggerId,
+        startedAt: new Date('2024-01-01T10:01:00.000Z'),
+        attemptedAt: new Date('2024-01-01T10:01:00.200Z'),
+        error: 'Bad Gateway',
+      });
+      expect(await database.getAutomationTriggerAttempts(triggerId + 1)).toEqual([]);
+    });
+  });
+
+  describe('retry backoff', () => {
+    it('should hold a notification back until its next attempt is due', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'Test', message: 'Flaky', severity: 'info' });
+      const nextAttemptAt = new Date(Date.now() + 60000);
+
+      // Only a notification being delivered can be rescheduled
+      expect(await database.scheduleNotificationRetry(id, nextAttemptAt, 'Bad Gateway', 'server_error')).toBe(false);
+
+      await database.updateNotificationStatus(id, 'processing');
+      expect(await database.scheduleNotificationRetry(id, nextAttemptAt, 'Bad Gateway', 'server_error')).toBe(true);
+
+      const pending = await database.getNotificationById(id);
+      expect(pending).toMatchObject({ status: 'pending', retryCount: 1, lastError: 'Bad Gateway', nextAttemptAt });
+      expect((await database.getDueNotifications()).map((n) => n.id)).not.toContain(id);
+      expect((await database.getDueNotifications(new Date(Date.now() + 61000))).map((n) => n.id)).toContain(id);
+
+      // Starting the retry clears the backoff
+      await database.updateNotificationStatus(id, 'processing');
+      expect((await database.getNotificationById(id))?.nextAttemptAt).toBeUndefined();
+    });
+
+    it('should hold an automation trigger back until its next attempt is due', async () => {
+      const id = await database.saveAutomationTrigger({
+        automationId: 'automation.lights',
+        triggeredBy: 'user123',
+        scheduledFor: new Date(Date.now() - 1000),
+      });
+      await database.updateAutomationTriggerStatus(id, 'processing');
+      expect(await database.scheduleAutomationTriggerRetry(id, new Date(Date.now() + 60000), 'Bad Gateway')).toBe(true);
+
+      const trigger = await database.getAutomationTrigger(id);
+      expect(trigger).toMatchObject({ status: 'pending', lastError: 'Bad Gateway' });
+      expect(trigger?.nextAttemptAt).toBeInstanceOf(Date);
+      expect((await database.getDueAutomationTriggers()).map((t) => t.id)).not.toContain(id);
+
+      await database.updateAutomationTriggerStatus(id, 'processing');
+      expect((await database.getAutomationTrigger(id))?.nextAttemptAt).toBeNull();
+    });
+
+    it('should store the retry policy with notifications and triggers', async () => {
+      const retryPolicy = { name: 'patient', baseDelaySeconds: 300, multiplier: 3, jitter: 0.2, maxAttempts: 6 };
+
+      const notificationId = await database.saveNotificationToQueue({
+        source: 'Backup',
+        message: 'Failed',
+        severity: 'error',
+        retryPolicy,
+      });
+      const triggerId = await database.saveAutomationTrigger({
+        automationId: 'automation.lights',
+        triggeredBy: 'user123',
+        scheduledFor: new Date(),
+        retryPolicy,
+      });
+
+      expect((await database.getNotificationById(notificationId))?.retryPolicy).toEqual(retryPolicy);
+      expect((await database.getAutomationTrigger(triggerId))?.retryPolicy).toEqual(retryPolicy);
+    });
+  });
+
+  describe('quiet hours', () => {
+    it('should store global and per-channel windows', async () => {
+      await database.setQuietHours({ channelId: '42', start: '22:00', end: '06:00', mode: 'digest', timezone: 'UTC' });
+      await database.setQuietHours({ channelId: null, start: '23:00', end: '07:00', mode: 'defer', timezone: 'UTC' });
+      await database.setQuietHours({
+        channelId: null, start: '23:30', end: '07:00', mode: 'defer', timezone: 'Europe/Berlin', updatedBy: '555',
+      });
+
+      const windows = await database.getQuietHours();
+
+      expect(windows).toHaveLength(2);
+      expect(windows[0]).toMatchObject({ channelId: null, start: '23:30', timezone: 'Europe/Berlin', updatedBy: '555' });
+      expect(windows[1]).toMatchObject({ channelId: '42', mode: 'digest' });
+
+      expect(await database.clearQuietHours('42')).toBe(true);
+      expect(await database.clearQuietHours('42')).toBe(false);
+    });
+
+    it('should defer notifications and find those held for a digest', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'Test', message: 'Held', channel: '42' });
+      const { scheduledFor } = (await database.getNotificationById(id))!;
+      const until = new Date(Date.now() - 1000);
+
+      await database.deferNotification(id, until, true);
+
+      const notification = await database.getNotificationById(id);
+      expect(notification?.heldUntil).toEqual(until);
+      expect(notification?.scheduledFor).toEqual(scheduledFor);
+      expect(notification?.quietDigest).toBe(true);
+      expect((await database.getDueDigestNotifications('42')).map((n) => n.id)).toEqual([id]);
+      expect(await database.getDueDigestNotifications('43')).toEqual([]);
+    });
+  });
+
+  describe('digests', () => {
+    it('should record a digest and link the notifications it delivered', async () => {
+      const first = await database.saveNotificationToQueue({ source: 'Backup', message: 'Done', digest: true });
+      const second = await database.saveNotificationToQueue({ source: 'Backup', message: 'Done again', digest: true });
+
+      const digestId = await database.recordDigest(
+        { kind: 'periodic', channelId: '42', discordMessageId: 'digest-message', discordChannelId: '42' },
+        [first, second]
+      );
+
+      const digest = await database.getNotificationDigest(digestId);
+      expect(digest).toMatchObject({ kind: 'periodic', channelId: '42', discordMessageId: 'digest-message', notificationCount: 2 });
+
+      for (const id of [first, second]) {
+        const notification = await database.getNotificationById(id);
+        expect(notification).toMatchObject({ digest: true, digestId, discordMessageId: 'digest-message' });
+      }
+      expect(await database.getNotificationDigest(digestId + 1)).toBeNull();
+    });
+  });
+
+  describe('deduplication', () => {
+    it('should find recent notifications by dedupe key and count repeats', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'Test', message: 'Door', dedupeKey: 'door' });
+      await database.saveNotificationToQueue({ source: 'Test', message: 'Window', dedupeKey: 'window' });
+
+      const duplicates = await database.findDuplicateNotifications('door', new Date(Date.now() - 60000));
+      expect(duplicates.map((n) => n.id)).toEqual([id]);
+      expect(duplicates[0].repeatCount).toBe(0);
+
+      const seenAt = new Date(Date.now() + 30000);
+      await database.recordNotificationRepeat(id, seenAt);
+
+      const notification = await database.getNotificationById(id);
+      expect(notification?.repeatCount).toBe(1);
+      expect(notification?.lastSeenAt).toEqual(seenAt);
+      expect(await database.findDuplicateNotifications('door', new Date(Date.now() + 60000))).toEqual([]);
+    });
+
+    it('should ignore cancelled notifications', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'Test', message: 'Door', dedupeKey: 'door' });
+      await database.cancelNotification(id);
+
+      expect(await database.findDuplicateNotifications('door', new Date(Date.now() - 60000))).toEqual([]);
+    });
+  });
+
+  describe('dead letters', () => {
+    const fail = async (source: string, reason: 'missing_access' | 'server_error') => {
+      const id = await database.saveNotificationToQueue({ source, message: `${source} failed` });
+      await database.recordNotificationAttempt({ notificationId: id, outcome: 'failed', error: 'Boom', failureReason: reason });
+      await database.updateNotificationStatus(id, 'failed', 'Boom', reason);
+      return id;
+    };
+
+    it('should number delivery attempts per notification', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'Test', message: 'Door' });
+      const startedAt = new Date('2024-01-01T10:00:00.000Z');
+      await database.recordNotificationAttempt({
+        notificationId: id,
+        outcome: 'failed',
+        startedAt,
+        attemptedAt: new Date('2024-01-01T10:00:00.830Z'),
+        error: 'Bad Gateway',
+        failureReason: 'server_error',
+        httpStatus: 502,
+      });
+      await database.recordNotificationAttempt({ notificationId: id, outcome: 'sent' });
+
+      const attempts = await database.getNotificationAttempts(id);
+      expect(attempts).toMatchObject([
+        {
+          notificationId: id,
+          attempt: 1,
+          startedAt,
+          attemptedAt: new Date('2024-01-01T10:00:00.830Z'),
+          outcome: 'failed',
+          error: 'Bad Gateway',
+          failureReason: 'server_error',
+          httpStatus: 502,
+        },
+        { notificationId: id, attempt: 2, startedAt: undefined, outcome: 'sent', error: undefined, httpStatus: undefined },
+      ]);
+      expect(attempts[1].attemptedAt).toBeInstanceOf(Date);
+    });
+
+    it('should filter failed notifications by source, reason and time', async () => {
+      const garage = await fail('Garage', 'missing_access');
+      const backup = await fail('Backup', 'server_error');
+      await database.saveNotificationToQueue({ source: 'Garage', message: 'Still pending' });
+
+      const all = await database.getDeadLetters();
+      expect(all.total).toBe(2);
+      expect(all.notifications[0].failedAt).toBeInstanceOf(Date);
+
+      expect((await database.getDeadLetters({ source: 'Garage' })).notifications.map((n) => n.id)).toEqual([garage]);
+      expect(await database.getDeadLetterIds({ failureReason: 'server_error' })).toEqual([backup]);
+      expect(await database.getDeadLetterIds({ since: new Date(Date.now() - 60000) })).toEqual([garage, backup]);
+      expect(await database.getDeadLetterIds({ until: new Date(Date.now() - 60000) })).toEqual([]);
+    });
+
+    it('should purge matching failures with their attempts', async () => {
+      const garage = await fail('Garage', 'missing_access');
+      const backup = await fail('Backup', 'server_error');
+
+      expect(await database.purgeDeadLetters({ failureReason: 'missing_access' })).toBe(1);
+
+      expect(await database.getNotificationById(garage)).toBeNull();
+      expect(await database.getNotificationAttempts(garage)).toEqual([]);
+      expect(await database.getDeadLetterIds()).toEqual([backup]);
+    });
+
+    it('should clear failed_at when a notification is retried', async () => {
+      const id = await fail('Garage', 'missing_access');
+
+      await database.retryFailedNotification(id);
+
+      const notification = await database.getNotificationById(id);
+      expect(notification?.failedAt).toBeUndefined();
+      expect(await database.getDeadLetterIds()).toEqual([]);
+    });
+  });
+
+  describe('notification actions', () => {
+    it('should store actions and log clicks', async () => {
+      const id = await database.saveNotificationToQueue({
+        source: 'Garage',
+        message: 'Garage open',
+        actions: [{ label: 'Close garage', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } }],
+      });
+
+      expect((await database.getNotificationById(id))?.actions).toEqual([
+        { label: 'Close garage', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } },
+      ]);
+
+      await database.logNotificationAction({
+        notificationId: id, actionIndex: 0, label: 'Close garage', userId: '555', username: 'alex', result: 'denied',
+      });
+      await database.logNotificationAction({
+        notificationId: id, actionIndex: 0, label: 'Close garage', userId: '556', result: 'failed', error: 'timeout',
+      });
+
+      const log = await database.getNotificationActionLog(id);
+      expect(log).toHaveLength(2);
+      expect(log[0]).toMatchObject({ userId: '555', username: 'alex', result: 'denied' });
+      expect(log[1]).toMatchObject({ userId: '556', result: 'failed', error: 'timeout' });
+    });
+  });
+
+  describe('acknowledgement and escalation', () => {
+    it('should return sent notifications whose escalation is due until acknowledged', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'Alarm', message: 'Intrusion', ackRequired: true });
+      const plain = await database.saveNotificationToQueue({ source: 'Alarm', message: 'Armed' });
+      await database.updateNotificationStatus(id, 'sent');
+      await database.updateNotificationStatus(plain, 'sent');
+      await database.scheduleEscalation(id, new Date(Date.now() - 1000));
+
+      expect((await database.getDueEscalations()).map((n) => n.id)).toEqual([id]);
+
+      const next = new Date(Date.now() + 60000);
+      await database.recordEscalation(id, 1, next);
+      expect(await database.getDueEscalations()).toEqual([]);
+
+      const escalated = await database.getNotificationById(id);
+      expect(escalated).toMatchObject({ ackRequired: true, escalationLevel: 1, escalateAt: next });
+
+      expect(await database.acknowledgeNotification(id, '555')).toBe(true);
+      expect(await database.acknowledgeNotification(id, '556')).toBe(false);
+      expect(await database.acknowledgeNotification(plain, '555')).toBe(false);
+
+      const acknowledged = await database.getNotificationById(id);
+      expect(acknowledged?.acknowledgedBy).toBe('555');
+      expect(acknowledged?.acknowledgedAt).toBeInstanceOf(Date);
+      expect(acknowledged?.escalateAt).toBeUndefined();
+      expect(await database.getDueEscalations(new Date(Date.now() + 120000))).toEqual([]);
+    });
+  });
+
+  describe('attachments', () => {
+    afterEach(async () => {
+      await fs.rm(database.getAttachmentsDir(), { recursive: true, force: true });
+    });
+
+    it('should store files under the data directory', async () => {
+      const [attachment] = await database.storeAttachments([
+        { name: 'snapshot.jpg', contentType: 'image/jpeg', data: Buffer.from('jpeg-bytes') },
+      ]);
+
+      expect(attachment).toMatchObject({ name: 'snapshot.jpg', contentType: 'image/jpeg', size: 10 });
+      expect(path.dirname(attachment.path)).toBe(database.getAttachmentsDir());
+      expect(await fs.readFile(attachment.path, 'utf-8')).toBe('jpeg-bytes');
+
+      const id = await database.saveNotificationToQueue({ source: 'Camera', message: 'Motion', attachments: [attachment] });
+      expect((await database.getNotificationById(id))?.attachments).toEqual([attachment]);
+    });
+
+    it('should delete files with old notifications unless another notification uses them', async () => {
+      const [shared, own] = await database.storeAttachments([
+        { name: 'shared.png', contentType: 'image/png', data: Buffer.from('a') },
+        { name: 'own.png', contentType: 'image/png', data: Buffer.from('b') },
+      ]);
+      const oldId = await database.saveNotificationToQueue({ source: 'Test', message: 'Old', attachments: [shared, own] });
+      await database.saveNotificationToQueue({ source: 'Test', message: 'Pending', attachments: [shared] });
+      await database.updateNotificationStatus(oldId, 'sent');
+
+      // A negative age puts the cutoff in the future, so everything sent counts as old
+      expect(await database.cleanupOldNotifications(-1)).toBe(1);
+
+      const exists = (file: string) => fs.access(file).then(() => true, () => false);
+      expect(await exists(shared.path)).toBe(true);
+      expect(await exists(own.path)).toBe(false);
+    });
+  });
+
+  describe('embed content', () => {
+    it('should store and load rich embed content', async () => {
+      const embed = {
+        fields: [{ name: 'Solar', value: '12.4 kWh', inline: true }],
+        imageUrl: 'https://ha.local/chart.png',
+        author: { name: 'Home Assistant' },
+        color: 0x2ecc71,
+      };
+      const id = await database.saveNotificationToQueue({ source: 'Energy', message: 'Daily report', embed });
+
+      expect((await database.getNotificationById(id))?.embed).toEqual(embed);
+    });
+  });
+
+  describe('templates', () => {
+    it('should create, replace, list and delete templates', async () => {
+      const template = {
+        name: 'door-open',
+        title: '{{door}} opened',
+        message: 'Opened at {{time}}',
+        severity: 'warning' as const,
+        embed: { footer: 'Security' },
+        createdBy: '123',
+      };
+
+      expect(await database.saveTemplate(template)).toBe(true);
+      expect(await database.saveTemplate({ ...template, message: 'Opened', channel: 'security' })).toBe(false);
+      await database.saveTemplate({ name: 'arrival', message: '{{person}} arrived' });
+
+      expect(await database.getTemplate('door-open')).toMatchObject({
+        ...template,
+        message: 'Opened',
+        channel: 'security',
+      });
+      expect((await database.listTemplates()).map((t) => t.name)).toEqual(['arrival', 'door-open']);
+
+      expect(await database.deleteTemplate('door-open')).toBe(true);
+      expect(await database.deleteTemplate('door-open')).toBe(false);
+      expect(await database.getTemplate('door-open')).toBeNull();
+    });
+
+    it('should store the template a notification was rendered from', async () => {
+      const id = await database.saveNotificationToQueue({ source: 'door-open', message: 'Opened', template: 'door-open' });
+
+      expect((await database.getNotificationById(id))?.template).toBe('door-open');
+    });
+  });
+
+  describe('user preferences', () => {
+    it('should save, update and clear a user timezone', async () => {
+      expect(await database.getUserTimezone('555')).toBeNull();
+
+      await database.setUserTimezone('555', 'Europe/Berlin');
+      await database.setUserTimezone('555', 'Asia/Tokyo');
+      expect(await database.getUserTimezone('555')).toBe('Asia/Tokyo');
+      expect(await database.getUserTimezone('556')).toBeNull();
+
+      await database.setUserTimezone('555', null);
+      expect(await database.getUserTimezone('555')).toBeNull();
+    });
+  });
+
   describe('setState and getState', () => {
     it('should save and retrieve state', async () => {
       await database.setState('test_key', 'test_value');
@@ -1,5 +1,11 @@
 import { describe, it, expect } from '@jest/globals';
-import { parseScheduledTime, formatRelativeTime } from '../../utils/dateParser.js';
+import {
+  parseScheduledTime,
+  parsePastTime,
+  formatRelativeTime,
+  formatAbsoluteTime,
+  formatScheduledTime,
+} from '../../utils/dateParser.js';
 
 describe('dateParser', () => {
   describe('parseScheduledTime', () => {
@@ -113,6 +119,81 @@ describe('dateParser', () => {
       expect(result.toISOString()).toBe('2024-12-25T10:00:00.000Z');
     });
 
+    describe('natural-language input', () => {
+      // Monday 2025-01-06 10:00 in Berlin (09:00 UTC)
+      const now = new Date('2025-01-06T09:00:00Z');
+      const options = { timezone: 'Europe/Berlin', now };
+
+      it('should parse compound durations', () => {
+        expect(parseScheduledTime('1h30m', options)).toEqual(new Date('2025-01-06T10:30:00Z'));
+        expect(parseScheduledTime('in 1 hour and 30 minutes', options)).toEqual(new Date('2025-01-06T10:30:00Z'));
+        expect(parseScheduledTime('in 2 days, 3h', options)).toEqual(new Date('2025-01-08T12:00:00Z'));
+        expect(parseScheduledTime('1w', options)).toEqual(new Date('2025-01-13T09:00:00Z'));
+      });
+
+      it('should resolve times of day to the next occurrence', () => {
+        expect(parseScheduledTime('at 18:30', options)).toEqual(new Date('2025-01-06T17:30:00Z'));
+        expect(parseScheduledTime('7am', options)).toEqual(new Date('2025-01-07T06:00:00Z'));
+        expect(parseScheduledTime('7:15 PM', options)).toEqual(new Date('2025-01-06T18:15:00Z'));
+        expect(parseScheduledTime('noon', options)).toEqual(new Date('2025-01-06T11:00:00Z'));
+      });
+
+      it('should parse relative days with times', () => {
+        expect(parseScheduledTime('tomorrow 7am', options)).toEqual(new Date('2025-01-07T06:00:00Z'));
+        expect(parseScheduledTime('tomorrow at 18:00', options)).toEqual(new Date('2025-01-07T17:00:00Z'));
+        expect(parseScheduledTime('today 23:00', options)).toEqual(new Date('2025-01-06T22:00:00Z'));
+      });
+
+      it('should parse weekdays', () => {
+        // Friday defaults to 09:00
+        expect(parseScheduledTime('friday', options)).toEqual(new Date('2025-01-10T08:00:00Z'));
+        // Today (Monday) if the time is still ahead, otherwise next week
+        expect(parseScheduledTime('monday 18:00', options)).toEqual(new Date('2025-01-06T17:00:00Z'));
+        expect(parseScheduledTime('mon 8am', options)).toEqual(new Date('2025-01-13T07:00:00Z'));
+        // "next" always skips today
+        expect(parseScheduledTime('next monday 18:00', options)).toEqual(new Date('2025-01-13T17:00:00Z'));
+        expect(parseScheduledTime('next wed at 9:00', options)).toEqual(new Date('2025-01-08T08:00:00Z'));
+      });
+
+      it('should resolve wall-clock dates in the timezone', () => {
+        expect(parseScheduledTime('2025-07-01 08:00', options)).toEqual(new Date('2025-07-01T06:00:00Z'));
+        expect(parseScheduledTime('2025-01-20', options)).toEqual(new Date('2025-01-20T08:00:00Z'));
+      });
+
+      it('should reject days past the end of the month instead of rolling over', () => {
+        expect(() => parseScheduledTime('2024-02-30 10:00', options)).toThrow('is not a valid date and time');
+        expect(() => parseScheduledTime('2024-02-31 10:00', options)).toThrow('is not a valid date and time');
+        expect(() => parseScheduledTime('2025-04-31 08:00', options)).toThrow('is not a valid date and time');
+        expect(() => parseScheduledTime('2025-02-29', options)).toThrow('is not a valid date and time');
+        expect(() => parseScheduledTime('2025-04-31T08:00:00Z', options)).toThrow('is not a valid date and time');
+        expect(parseScheduledTime('2028-02-29 10:00', options)).toEqual(new Date('2028-02-29T09:00:00Z'));
+      });
+
+      it('should read date strings without an offset in the timezone', () => {
+        expect(parseScheduledTime('2025-07-01T08:00:00', options)).toEqual(new Date('2025-07-01T06:00:00Z'));
+        expect(parseScheduledTime('2025-07-01T08:00:00+02:00', options)).toEqual(new Date('2025-07-01T06:00:00Z'));
+      });
+
+      it('should resolve the same wall-clock time in other timezones', () => {
+        expect(parseScheduledTime('tomorrow 7am', { timezone: 'America/New_York', now })).toEqual(
+          new Date('2025-01-07T12:00:00Z')
+        );
+      });
+
+      it('should reject ambiguous input with a clear error', () => {
+        expect(() => parseScheduledTime('7', options)).toThrow('Ambiguous time "7"');
+        expect(() => parseScheduledTime('at 7', options)).toThrow('add am/pm');
+        expect(() => parseScheduledTime('tomorrow 9', options)).toThrow('Ambiguous time');
+      });
+
+      it('should reject invalid or past times', () => {
+        expect(() => parseScheduledTime('13pm', options)).toThrow('hours must be 1-12');
+        expect(() => parseScheduledTime('at 25:00', options)).toThrow('between 00:00 and 23:59');
+        expect(() => parseScheduledTime('today 8am', options)).toThrow('already in the past');
+        expect(() => parseScheduledTime('someday', options)).toThrow('Unable to parse date');
+      });
+    });
+
     it('should throw error for invalid format', () => {
       expect(() => parseScheduledTime('invalid')).toThrow('Unable to parse date');
     });
@@ -122,6 +203,24 @@ describe('dateParser', () => {
     });
   });
 
+  describe('parsePastTime', () => {
+    const now = new Date('2025-01-06T12:00:00Z');
+
+    it('should count durations back from now', () => {
+      expect(parsePastTime('24h', { now })).toEqual(new Date('2025-01-05T12:00:00Z'));
+      expect(parsePastTime('2 days ago', { now })).toEqual(new Date('2025-01-04T12:00:00Z'));
+    });
+
+    it('should read dates like scheduled times', () => {
+      expect(parsePastTime('2025-01-01 08:00', { now, timezone: 'UTC' })).toEqual(new Date('2025-01-01T08:00:00Z'));
+      expect(parsePastTime('2024-12-31T23:00:00Z', { now })).toEqual(new Date('2024-12-31T23:00:00Z'));
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => parsePastTime('whenever', { now })).toThrow('Unable to parse date');
+    });
+  });
+
   describe('formatRelativeTime', () => {
     it('should return "overdue" for past dates', () => {
       const pastDate = new Date(Date.now() - 1000);
@@ -169,4 +268,26 @@ describe('dateParser', () => {
       expect(formatRelativeTime(date)).toBe('in 1 day');
     });
   });
+
+  describe('formatAbsoluteTime', () => {
+    it('should format wall-clock time in the timezone', () => {
+      const date = new Date('2025-01-06T17:30:00Z');
+
+      expect(formatAbsoluteTime(date, 'Europe/Berlin')).toBe('Mon, 6 Jan 2025, 18:30 CET');
+      expect(formatAbsoluteTime(date, 'UTC')).toBe('Mon, 6 Jan 2025, 17:30 UTC');
+    });
+
+    it('should omit the year for dates in the current year', () => {
+      expect(formatAbsoluteTime(new Date(Date.UTC(new Date().getUTCFullYear(), 5, 15, 12)), 'UTC')).toMatch(
+        /^\w{3} 15 Jun, 12:00 UTC$/
+      );
+    });
+  });
+
+  describe('formatScheduledTime', () => {
+    it('should combine relative and absolute time', () => {
+      const date = new Date(Date.now() + 2 * 60 * 60 * 1000 + 500);
+      expect(formatScheduledTime(date, 'UTC')).toBe(`in 2 hours (${formatAbsoluteTime(date, 'UTC')})`);
+    });
+  });
 });
@@ -0,0 +1,88 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseEmbedRequest, checkEmbedLimits } from '../../queue/embeds.js';
+
+describe('embeds', () => {
+  describe('parseEmbedRequest', () => {
+    it('should accept fields, links, images, author, footer and color', () => {
+      const { embed, errors } = parseEmbedRequest({
+        source: 'Energy',
+        message: 'Daily report',
+        fields: [
+          { name: 'Solar', value: '12.4 kWh', inline: true },
+          { name: 'Grid', value: '3.1 kWh' },
+        ],
+        url: 'https://ha.local/energy',
+        image_url: 'https://ha.local/api/camera_proxy/camera.front_door',
+        thumbnail_url: 'https://ha.local/icon.png',
+        author: { name: 'Home Assistant', icon_url: 'https://ha.local/logo.png' },
+        footer: 'Energy dashboard',
+        color: '#2ecc71',
+      });
+
+      expect(errors).toEqual([]);
+      expect(embed).toEqual({
+        fields: [
+          { name: 'Solar', value: '12.4 kWh', inline: true },
+          { name: 'Grid', value: '3.1 kWh' },
+        ],
+        url: 'https://ha.local/energy',
+        imageUrl: 'https://ha.local/api/camera_proxy/camera.front_door',
+        thumbnailUrl: 'https://ha.local/icon.png',
+        author: { name: 'Home Assistant', iconUrl: 'https://ha.local/logo.png' },
+        footer: 'Energy dashboard',
+        color: 0x2ecc71,
+      });
+    });
+
+    it('should return no embed without embed options', () => {
+      expect(parseEmbedRequest({ source: 'Test', message: 'Hi' })).toEqual({ embed: undefined, errors: [] });
+    });
+
+    it('should report every invalid option', () => {
+      const { errors } = parseEmbedRequest({
+        source: 'Test',
+        message: 'Hi',
+        fields: [{ name: 'Only a name' }],
+        image_url: 'ftp://example.com/snapshot.jpg',
+        author: {},
+        color: 'green',
+      });
+
+      expect(errors).toEqual([
+        'field 1 needs a non-empty name and value',
+        'image_url must be an http(s) URL',
+        'author needs a non-empty name',
+        'color must be a hex color like "#ff8800" or a number from 0 to 16777215',
+      ]);
+    });
+  });
+
+  describe('checkEmbedLimits', () => {
+    it('should accept notifications within the limits', () => {
+      expect(checkEmbedLimits({ source: 'Test', title: 'Title', message: 'Message' })).toEqual([]);
+    });
+
+    it('should report texts that are too long', () => {
+      const errors = checkEmbedLimits({
+        source: 'Test',
+        title: 'x'.repeat(300),
+        message: 'Message',
+        embed: { fields: [{ name: 'Snapshot', value: 'y'.repeat(1100) }] },
+      });
+
+      expect(errors).toEqual([
+        'title is 300 characters (max 256)',
+        'field 1 value is 1100 characters (max 1024)',
+      ]);
+    });
+
+    it('should enforce the field count and total size', () => {
+      const fields = Array.from({ length: 23 }, (_, i) => ({ name: `Field ${i}`, value: 'z'.repeat(300) }));
+
+      const errors = checkEmbedLimits({ source: 'Test', message: 'Message', embed: { fields } });
+
+      expect(errors).toContain('23 fields given (max 22)');
+      expect(errors.some((error) => error.startsWith('embed text totals'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { EscalationPolicyManager } from '../../../escalation/policyManager.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('EscalationPolicyManager', () => {
+  let tempDir: string;
+  let tempConfigPath: string;
+
+  const writeConfig = (config: any) => {
+    fs.writeFileSync(tempConfigPath, JSON.stringify(config));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'escalation-test-'));
+    tempConfigPath = path.join(tempDir, 'escalation-policies.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('loadConfig', () => {
+    it('should load valid policies', () => {
+      writeConfig({
+        policies: [
+          { name: 'security', match: { source: 'Alarm' }, requireAck: true, timeoutMinutes: 5 },
+          { name: 'errors', match: { severity: 'error' } },
+        ],
+      });
+
+      const manager = new EscalationPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicyNames()).toEqual(['security', 'errors']);
+    });
+
+    it('should handle missing config file gracefully', () => {
+      const manager = new EscalationPolicyManager(path.join(tempDir, 'missing.json'), false);
+
+      expect(manager.getPolicyNames()).toEqual([]);
+      expect(manager.evaluate({ source: 'Test' })).toBeNull();
+    });
+
+    it('should handle malformed JSON gracefully', () => {
+      fs.writeFileSync(tempConfigPath, '{ invalid json }');
+
+      const manager = new EscalationPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicyNames()).toEqual([]);
+    });
+
+    it('should skip invalid policies', () => {
+      writeConfig({
+        policies: [
+          { match: { source: 'Alarm' } },
+          { name: 'bad-timeout', timeoutMinutes: 0 },
+          { name: 'bad-max', maxEscalations: 1.5 },
+          { name: 'bad-dm', dmUsers: '123' },
+          { name: 'ok' },
+        ],
+      });
+
+      const manager = new EscalationPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicyNames()).toEqual(['ok']);
+    });
+  });
+
+  describe('evaluate', () => {
+    beforeEach(() => {
+      writeConfig({
+        policies: [
+          { name: 'security', match: { source: ['Front Door', 'Alarm'], severity: 'error' }, requireAck: true },
+          { name: 'errors', match: { severity: 'error' } },
+          { name: 'catch-all' },
+        ],
+      });
+    });
+
+    it('should return the first matching policy', () => {
+      const manager = new EscalationPolicyManager(tempConfigPath, false);
+
+      expect(manager.evaluate({ source: 'alarm', severity: 'error' })?.name).toBe('security');
+      expect(manager.evaluate({ source: 'Server', severity: 'error' })?.name).toBe('errors');
+      expect(manager.evaluate({ source: 'Alarm', severity: 'warning' })?.name).toBe('catch-all');
+    });
+
+    it('should treat a missing severity as info', () => {
+      writeConfig({ policies: [{ name: 'info-only', match: { severity: 'info' } }] });
+
+      const manager = new EscalationPolicyManager(tempConfigPath, false);
+
+      expect(manager.evaluate({ source: 'Server' })?.name).toBe('info-only');
+    });
+
+    it('should look policies up by name', () => {
+      const manager = new EscalationPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicy('errors')?.match).toEqual({ severity: 'error' });
+      expect(manager.getPolicy('removed')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import { DiscordAPIError, HTTPError, RateLimitError } from 'discord.js';
+import { classifyDeliveryError, getHttpStatus, isPermanentFailure, INVALID_CHANNEL_ERROR } from '../../queue/failures.js';
+
+const URL = 'https://discord.com/api/v10/channels/123/messages';
+
+const discordError = (code: number, status: number, message = 'Discord error') =>
+  new DiscordAPIError({ code, message }, code, status, 'POST', URL, { body: undefined, files: undefined });
+
+describe('failures', () => {
+  describe('classifyDeliveryError', () => {
+    it('should treat access, unknown channel and invalid embed errors as permanent', () => {
+      expect(classifyDeliveryError(discordError(50001, 403, 'Missing Access'))).toEqual({
+        category: 'missing_access',
+        permanent: true,
+      });
+      expect(classifyDeliveryError(discordError(50013, 403)).category).toBe('missing_permissions');
+      expect(classifyDeliveryError(discordError(10003, 404)).category).toBe('unknown_channel');
+      expect(classifyDeliveryError(discordError(10013, 404)).category).toBe('unknown_user');
+      expect(classifyDeliveryError(discordError(50035, 400, 'Invalid Form Body')).category).toBe('invalid_payload');
+      expect(classifyDeliveryError(discordError(40005, 413)).category).toBe('payload_too_large');
+    });
+
+    it('should treat other client errors as permanent', () => {
+      expect(classifyDeliveryError(discordError(50109, 400))).toEqual({ category: 'rejected', permanent: true });
+    });
+
+    it('should treat server errors and rate limits as transient', () => {
+      expect(classifyDeliveryError(discordError(0, 502))).toEqual({ category: 'server_error', permanent: false });
+      expect(
+        classifyDeliveryError(new HTTPError(503, 'Service Unavailable', 'POST', URL, { body: undefined, files: undefined }))
+      ).toEqual({ category: 'server_error', permanent: false });
+      expect(
+        classifyDeliveryError(
+          new RateLimitError({
+            timeToReset: 1000,
+            limit: 5,
+            method: 'POST',
+            hash: 'hash',
+            url: URL,
+            route: '/channels/123/messages',
+            majorParameter: '123',
+            global: false,
+            retryAfter: 1000,
+            sublimitTimeout: 0,
+            scope: 'user',
+          })
+        )
+      ).toEqual({ category: 'rate_limited', permanent: false });
+    });
+
+    it('should treat timeouts and network errors as transient', () => {
+      const abort = new Error('This operation was aborted');
+      abort.name = 'AbortError';
+      expect(classifyDeliveryError(abort)).toEqual({ category: 'timeout', permanent: false });
+
+      const reset = Object.assign(new Error('read ECONNRESET'), { code: 'ECONNRESET' });
+      expect(classifyDeliveryError(reset).category).toBe('network');
+
+      const fetchFailed = new TypeError('fetch failed', { cause: Object.assign(new Error('connect'), { code: 'UND_ERR_CONNECT_TIMEOUT' }) });
+      expect(classifyDeliveryError(fetchFailed).category).toBe('timeout');
+    });
+
+    it('should classify queue errors', () => {
+      expect(classifyDeliveryError(new Error(INVALID_CHANNEL_ERROR)).category).toBe('invalid_channel');
+      expect(
+        classifyDeliveryError(new Error('Attachment "photo.jpg" is missing from /data/attachments/1/photo.jpg')).category
+      ).toBe('missing_attachment');
+    });
+
+    it('should retry unrecognized errors', () => {
+      expect(classifyDeliveryError(new Error('Something odd'))).toEqual({ category: 'unknown', permanent: false });
+      expect(classifyDeliveryError('not an error')).toEqual({ category: 'unknown', permanent: false });
+    });
+  });
+
+  describe('getHttpStatus', () => {
+    it('should return the status of Discord responses only', () => {
+      expect(getHttpStatus(discordError(50001, 403))).toBe(403);
+      expect(
+        getHttpStatus(new HTTPError(502, 'Bad Gateway', 'POST', URL, { body: undefined, files: undefined }))
+      ).toBe(502);
+      expect(getHttpStatus(new Error('read ECONNRESET'))).toBeUndefined();
+      expect(getHttpStatus(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isPermanentFailure', () => {
+    it('should tell permanent and transient categories apart', () => {
+      expect(isPermanentFailure('unknown_channel')).toBe(true);
+      expect(isPermanentFailure('timeout')).toBe(false);
+    });
+  });
+});
@@ -3,7 +3,7 @@ import { AutomationTriggerQueue } from '../../../homeAssistant/automationQueue.j
 import { Database } from '../../../database.js';
 import { HomeAssistantClient } from '../../../homeAssistant/client.js';
 import { Client } from 'discord.js';
-import type { AutomationTrigger } from '../../../homeAssistant/types.js';
+import type { AutomationTrigger, AutomationTriggerSeries } from '../../../homeAssistant/types.js';
 
 describe('AutomationTriggerQueue', () => {
   let queue: AutomationTriggerQueue;
@@ -27,6 +27,14 @@ describe('AutomationTriggerQueue', () => {
     mockDatabase.getAutomationTrigger = jest.fn();
     mockDatabase.updateAutomationTriggerStatus = jest.fn().mockResolvedValue(undefined);
     mockDatabase.incrementAutomationTriggerRetry = jest.fn().mockResolvedValue(undefined);
+    mockDatabase.scheduleAutomationTriggerRetry = jest.fn().mockResolvedValue(true);
+    mockDatabase.recordAutomationTriggerAttempt = jest.fn().mockResolvedValue(1);
+    mockDatabase.createAutomationTriggerSeries = jest.fn().mockResolvedValue(5);
+    mockDatabase.getAutomationTriggerSeries = jest.fn();
+    mockDatabase.getLatestAutomationSeriesTrigger = jest.fn();
+    mockDatabase.incrementAutomationSeriesOccurrences = jest.fn().mockResolvedValue(undefined);
+    mockDatabase.updateAutomationTriggerSeriesStatus = jest.fn().mockResolvedValue(true);
+    mockDatabase.cancelPendingAutomationSeriesTriggers = jest.fn().mockResolvedValue(1);
 
     mockHAClient.triggerAutomation = jest.fn().mockResolvedValue(undefined);
 
@@ -144,6 +152,136 @@ describe('AutomationTriggerQueue', () => {
     });
   });
 
+  describe('recurring triggers', () => {
+    const baseSeries: AutomationTriggerSeries = {
+      id: 5,
+      createdAt: new Date(),
+      automationId: 'automation.plants',
+      automationName: 'Water Plants',
+      triggeredBy: 'user123',
+      recurrence: 'every 1d at 07:00',
+      notifyOnComplete: true,
+      maxRetries: 3,
+      endsAt: null,
+      maxOccurrences: null,
+      occurrences: 1,
+      status: 'active',
+    };
+
+    const lastRun = (scheduledFor: Date): AutomationTrigger => ({
+      id: 10,
+      createdAt: new Date(),
+      scheduledFor,
+      triggeredAt: scheduledFor,
+      automationId: 'automation.plants',
+      automationName: 'Water Plants',
+      status: 'triggered',
+      triggeredBy: 'user123',
+      retryCount: 0,
+      maxRetries: 3,
+      lastError: null,
+      notificationId: null,
+      notifyOnComplete: true,
+      seriesId: 5,
+    });
+
+    it('should create a series and link the first trigger to it', async () => {
+      await queue.enqueue({
+        automationId: 'automation.plants',
+        triggeredBy: 'user123',
+        recurrence: 'every 1d at 07:00',
+        maxOccurrences: 10,
+      });
+
+      expect(mockDatabase.createAutomationTriggerSeries).toHaveBeenCalledWith(
+        expect.objectContaining({
+          automationId: 'automation.plants',
+          recurrence: 'every 1d at 07:00',
+          maxOccurrences: 10,
+          endsAt: null,
+        })
+      );
+      expect(mockDatabase.incrementAutomationSeriesOccurrences).toHaveBeenCalledWith(5);
+
+      const saved = (mockDatabase.saveAutomationTrigger as jest.Mock).mock.calls[0][0] as any;
+      expect(saved.seriesId).toBe(5);
+      // No time given: first run is the next 07:00
+      expect(saved.scheduledFor.getHours()).toBe(7);
+      expect(saved.scheduledFor.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should reject invalid recurrence and end dates before the first run', async () => {
+      await expect(
+        queue.enqueue({ automationId: 'automation.test', triggeredBy: 'user123', recurrence: 'hourly-ish' })
+      ).rejects.toThrow('Invalid recurrence');
+
+      await expect(
+        queue.enqueue({
+          automationId: 'automation.test',
+          triggeredBy: 'user123',
+          scheduledFor: '2h',
+          recurrence: 'every 1h',
+          endsAt: '1h',
+        })
+      ).rejects.toThrow('End date must be after the first run');
+
+      expect(mockDatabase.saveAutomationTrigger).not.toHaveBeenCalled();
+    });
+
+    it('should schedule the next trigger after the last run', async () => {
+      const previous = new Date();
+      previous.setHours(7, 0, 0, 0);
+      mockDatabase.getLatestAutomationSeriesTrigger.mockResolvedValueOnce(lastRun(previous));
+      mockDatabase.saveAutomationTrigger.mockResolvedValueOnce(11);
+
+      const triggerId = await queue.scheduleNextTrigger(baseSeries);
+
+      expect(triggerId).toBe(11);
+      const saved = (mockDatabase.saveAutomationTrigger as jest.Mock).mock.calls[0][0] as any;
+      expect(saved).toMatchObject({ automationId: 'automation.plants', seriesId: 5, notifyOnComplete: true });
+      expect(saved.scheduledFor.getHours()).toBe(7);
+      expect(saved.scheduledFor.getTime()).toBeGreaterThan(Date.now());
+      expect(mockDatabase.incrementAutomationSeriesOccurrences).toHaveBeenCalledWith(5);
+    });
+
+    it('should end the series when max occurrences is reached', async () => {
+      mockDatabase.getLatestAutomationSeriesTrigger.mockResolvedValueOnce(lastRun(new Date()));
+
+      const triggerId = await queue.scheduleNextTrigger({ ...baseSeries, maxOccurrences: 3, occurrences: 3 });
+
+      expect(triggerId).toBeNull();
+      expect(mockDatabase.saveAutomationTrigger).not.toHaveBeenCalled();
+      expect(mockDatabase.updateAutomationTriggerSeriesStatus).toHaveBeenCalledWith(5, 'ended');
+    });
+
+    it('should end the series when the next run is past the end date', async () => {
+      mockDatabase.getLatestAutomationSeriesTrigger.mockResolvedValueOnce(lastRun(new Date()));
+
+      const triggerId = await queue.scheduleNextTrigger({
+        ...baseSeries,
+        endsAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      expect(triggerId).toBeNull();
+      expect(mockDatabase.updateAutomationTriggerSeriesStatus).toHaveBeenCalledWith(5, 'ended');
+    });
+
+    it('should cancel a series and its pending trigger', async () => {
+      mockDatabase.getAutomationTriggerSeries.mockResolvedValueOnce(baseSeries);
+
+      await queue.cancelSeries(5);
+
+      expect(mockDatabase.cancelPendingAutomationSeriesTriggers).toHaveBeenCalledWith(5);
+      expect(mockDatabase.updateAutomationTriggerSeriesStatus).toHaveBeenCalledWith(5, 'ended');
+    });
+
+    it('should not cancel a series that has ended', async () => {
+      mockDatabase.getAutomationTriggerSeries.mockResolvedValueOnce({ ...baseSeries, status: 'ended' });
+
+      await expect(queue.cancelSeries(5)).rejects.toThrow('Series 5 has already ended');
+    });
+  });
+
   describe('processTrigger', () => {
     it('should successfully trigger automation', async () => {
       const mockTrigger: AutomationTrigger = {
@@ -172,6 +310,13 @@ describe('AutomationTriggerQueue', () => {
       expect(mockDatabase.updateAutomationTriggerStatus).toHaveBeenCalledWith(1, 'processing');
       expect(mockHAClient.triggerAutomation).toHaveBeenCalledWith('automation.test');
       expect(mockDatabase.updateAutomationTriggerStatus).toHaveBeenCalledWith(1, 'triggered');
+      expect(mockDatabase.recordAutomationTriggerAttempt).toHaveBeenCalledWith({
+        triggerId: 1,
+        startedAt: expect.any(Date),
+        outcome: 'triggered',
+        error: undefined,
+        httpStatus: undefined,
+      });
     });
 
     it('should retry on failure', async () => {
@@ -197,19 +342,97 @@ describe('AutomationTriggerQueue', () => {
         .mockResolvedValueOnce(mockTrigger)
         .mockResolvedValueOnce(updatedTrigger);
 
-      mockHAClient.triggerAutomation.mockRejectedValueOnce(new Error('Connection failed'));
+      mockHAClient.triggerAutomation.mockRejectedValueOnce(
+        Object.assign(new Error('Bad Gateway'), { statusCode: 502 })
+      );
 
       await queue.processTrigger(1);
 
       // Wait for async processing
       await new Promise((resolve) => setTimeout(resolve, 100));
 
+      expect(mockDatabase.recordAutomationTriggerAttempt).toHaveBeenCalledWith({
+        triggerId: 1,
+        startedAt: expect.any(Date),
+        outcome: 'failed',
+        error: 'Bad Gateway',
+        httpStatus: 502,
+      });
       expect(mockDatabase.incrementAutomationTriggerRetry).toHaveBeenCalledWith(1);
-      expect(mockDatabase.updateAutomationTriggerStatus).toHaveBeenCalledWith(
-        1,
-        'pending',
-        'Connection failed'
-      );
+
+      // Second retry waits 120s, persisted rather than held in a timer
+      const [, nextAttemptAt, error] = (mockDatabase.scheduleAutomationTriggerRetry as jest.Mock).mock.calls[0] as [
+        number,
+        Date,
+        string,
+      ];
+      expect(error).toBe('Bad Gateway');
+      expect(nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(110_000);
+      expect(nextAttemptAt.getTime() - Date.now()).toBeLessThanOrEqual(120_000);
+      expect(mockDatabase.updateAutomationTriggerStatus).not.toHaveBeenCalledWith(1, 'pending', expect.anything());
+    });
+
+    it("should back off by the trigger's stored retry policy", async () => {
+      const mockTrigger: AutomationTrigger = {
+        id: 1,
+        createdAt: new Date(),
+        scheduledFor: new Date(),
+        triggeredAt: null,
+        automationId: 'automation.test',
+        automationName: null,
+        status: 'pending',
+        triggeredBy: 'user123',
+        retryCount: 1,
+        maxRetries: 5,
+        lastError: null,
+        notificationId: null,
+        notifyOnComplete: false,
+        nextAttemptAt: null,
+        retryPolicy: { name: 'quick', baseDelaySeconds: 5, multiplier: 3, jitter: 0, maxAttempts: 5 },
+      } as AutomationTrigger;
+
+      mockDatabase.getAutomationTrigger
+        .mockResolvedValueOnce(mockTrigger)
+        .mockResolvedValueOnce({ ...mockTrigger, retryCount: 2 });
+      mockHAClient.triggerAutomation.mockRejectedValueOnce(new Error('Bad Gateway'));
+
+      await queue.processTrigger(1);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      // Second retry: 5s * 3
+      const [, nextAttemptAt] = (mockDatabase.scheduleAutomationTriggerRetry as jest.Mock).mock.calls[0] as [
+        number,
+        Date,
+      ];
+      expect(nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(14_000);
+      expect(nextAttemptAt.getTime() - Date.now()).toBeLessThanOrEqual(15_000);
+    });
+
+    it('should skip triggers still backing off from a failed attempt', async () => {
+      const mockTrigger: AutomationTrigger = {
+        id: 1,
+        createdAt: new Date(),
+        scheduledFor: new Date(),
+        triggeredAt: null,
+        automationId: 'automation.test',
+        automationName: null,
+        status: 'pending',
+        triggeredBy: 'user123',
+        retryCount: 1,
+        maxRetries: 3,
+        lastError: 'Bad Gateway',
+        notificationId: null,
+        notifyOnComplete: false,
+        seriesId: null,
+        nextAttemptAt: new Date(Date.now() + 60000),
+      };
+
+      mockDatabase.getAutomationTrigger.mockResolvedValueOnce(mockTrigger);
+
+      await queue.processTrigger(1);
+
+      expect(mockHAClient.triggerAutomation).not.toHaveBeenCalled();
+      expect(mockDatabase.updateAutomationTriggerStatus).not.toHaveBeenCalled();
     });
 
     it('should mark as failed after max retries', async () => {
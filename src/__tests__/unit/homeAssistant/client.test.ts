@@ -127,6 +127,38 @@ describe('HomeAssistantClient', () => {
     });
   });
 
+  describe('callService', () => {
+    it('should post service data to the service endpoint', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ([]),
+      });
+
+      await client.callService('cover', 'close_cover', { entity_id: 'cover.garage' });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        `${mockUrl}/api/services/cover/close_cover`,
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ entity_id: 'cover.garage' }),
+        })
+      );
+    });
+
+    it('should throw error on failed service call', async () => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+        json: async () => ({ message: 'Service not found' }),
+      });
+
+      await expect(client.callService('cover', 'open_sesame')).rejects.toThrow(
+        'Failed to call service cover.open_sesame: Service not found'
+      );
+    });
+  });
+
   describe('listAutomations', () => {
     const mockAutomations: HAAutomation[] = [
       {
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { MentionManager, parseMentionRequest } from '../../../mentions/mentionManager.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const ALICE = '111111111111111111';
+const BOB = '222222222222222222';
+const ONCALL_ROLE = '333333333333333333';
+const ADMIN_ROLE = '444444444444444444';
+
+describe('MentionManager', () => {
+  let tempDir: string;
+  let tempConfigPath: string;
+
+  const writeConfig = (config: any) => {
+    fs.writeFileSync(tempConfigPath, JSON.stringify(config));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mentions-test-'));
+    tempConfigPath = path.join(tempDir, 'mentions.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('parseMentionRequest', () => {
+    it('should accept users, roles and groups', () => {
+      expect(parseMentionRequest({ users: [ALICE], roles: [ONCALL_ROLE], groups: ['oncall'] })).toEqual({
+        users: [ALICE],
+        roles: [ONCALL_ROLE],
+        groups: ['oncall'],
+      });
+    });
+
+    it('should reject invalid mentions', () => {
+      expect(() => parseMentionRequest([ALICE])).toThrow('must be an object');
+      expect(() => parseMentionRequest({ users: ['alice'] })).toThrow('mentions.users must be a list of Discord IDs');
+      expect(() => parseMentionRequest({ roles: ONCALL_ROLE })).toThrow('mentions.roles must be a list of Discord IDs');
+      expect(() => parseMentionRequest({ groups: [''] })).toThrow('mentions.groups must be a list of group names');
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should handle missing config file gracefully', () => {
+      const manager = new MentionManager(path.join(tempDir, 'missing.json'), false);
+
+      expect(manager.getGroupNames()).toEqual([]);
+      expect(manager.getErrorMentions()).toBeUndefined();
+    });
+
+    it('should ignore invalid configs', () => {
+      writeConfig({ groups: { oncall: { users: ['alice'] } } });
+
+      const manager = new MentionManager(tempConfigPath, false);
+
+      expect(manager.getGroupNames()).toEqual([]);
+    });
+  });
+
+  describe('resolve', () => {
+    beforeEach(() => {
+      writeConfig({
+        groups: { oncall: { users: [BOB], roles: [ONCALL_ROLE] } },
+        allowlist: { users: [ALICE] },
+        errorRole: ADMIN_ROLE,
+      });
+    });
+
+    it('should expand groups and combine them with users and roles', () => {
+      const manager = new MentionManager(tempConfigPath, false);
+
+      expect(manager.resolve({ users: [ALICE, BOB], groups: ['oncall'] })).toEqual({
+        users: [ALICE, BOB],
+        roles: [ONCALL_ROLE],
+      });
+      expect(manager.resolve({})).toBeUndefined();
+      expect(() => manager.resolve({ groups: ['unknown'] })).toThrow('unknown mention group "unknown"');
+    });
+
+    it('should only allow allowlisted users and roles when enforcing the allowlist', () => {
+      const manager = new MentionManager(tempConfigPath, false);
+
+      expect(manager.resolve({ users: [ALICE], groups: ['oncall'] }, true)).toEqual({
+        users: [ALICE, BOB],
+        roles: [ONCALL_ROLE],
+      });
+      expect(() => manager.resolve({ users: [BOB] }, true)).toThrow('not on the mention allowlist');
+      expect(() => manager.resolve({ roles: [ADMIN_ROLE] }, true)).toThrow('not on the mention allowlist');
+    });
+
+    it('should return the error role', () => {
+      const manager = new MentionManager(tempConfigPath, false);
+
+      expect(manager.getErrorMentions()).toEqual({ roles: [ADMIN_ROLE] });
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseClockTime,
+  formatClockTime,
+  getQuietHoursEnd,
+  selectQuietHours,
+} from '../../queue/quietHours.js';
+import type { QuietHours } from '../../database.js';
+
+describe('quietHours', () => {
+  const overnight: QuietHours = {
+    channelId: null,
+    start: '23:00',
+    end: '07:00',
+    mode: 'defer',
+    timezone: 'Europe/Berlin',
+  };
+
+  describe('parseClockTime', () => {
+    it('should parse 24-hour times', () => {
+      expect(parseClockTime('23:00')).toEqual({ hour: 23, minute: 0 });
+      expect(formatClockTime(parseClockTime('7:05'))).toBe('07:05');
+    });
+
+    it('should reject invalid times', () => {
+      expect(() => parseClockTime('24:00')).toThrow('Invalid time');
+      expect(() => parseClockTime('11pm')).toThrow('Invalid time');
+    });
+  });
+
+  describe('getQuietHoursEnd', () => {
+    it('should end overnight windows the next morning', () => {
+      // 23:30 in Berlin
+      expect(getQuietHoursEnd(overnight, new Date('2025-01-06T22:30:00Z'))).toEqual(
+        new Date('2025-01-07T06:00:00Z')
+      );
+    });
+
+    it('should end overnight windows the same morning after midnight', () => {
+      // 02:00 in Berlin
+      expect(getQuietHoursEnd(overnight, new Date('2025-01-07T01:00:00Z'))).toEqual(
+        new Date('2025-01-07T06:00:00Z')
+      );
+    });
+
+    it('should return null outside the window', () => {
+      expect(getQuietHoursEnd(overnight, new Date('2025-01-07T06:00:00Z'))).toBeNull();
+      expect(getQuietHoursEnd(overnight, new Date('2025-01-07T12:00:00Z'))).toBeNull();
+    });
+
+    it('should handle windows within a single day', () => {
+      const afternoon: QuietHours = { ...overnight, start: '13:00', end: '15:00' };
+
+      expect(getQuietHoursEnd(afternoon, new Date('2025-01-07T12:30:00Z'))).toEqual(
+        new Date('2025-01-07T14:00:00Z')
+      );
+      expect(getQuietHoursEnd(afternoon, new Date('2025-01-07T14:00:00Z'))).toBeNull();
+    });
+  });
+
+  describe('selectQuietHours', () => {
+    it('should prefer the channel window over the global one', () => {
+      const channel: QuietHours = { ...overnight, channelId: '123', mode: 'digest' };
+
+      expect(selectQuietHours([overnight, channel], '123')).toBe(channel);
+      expect(selectQuietHours([overnight, channel], '456')).toBe(overnight);
+      expect(selectQuietHours([channel], '456')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseRecurrence,
+  getFirstOccurrence,
+  getNextOccurrence,
+  describeRecurrence,
+} from '../../utils/recurrence.js';
+
+describe('recurrence', () => {
+  describe('parseRecurrence', () => {
+    it('should parse fixed intervals', () => {
+      expect(parseRecurrence('every 30m')).toMatchObject({ kind: 'interval', amount: 30, unit: 'minute' });
+      expect(parseRecurrence('every 2 hours')).toMatchObject({ kind: 'interval', amount: 2, unit: 'hour' });
+    });
+
+    it('should parse day and week intervals with a time of day', () => {
+      expect(parseRecurrence('every 1d at 08:00')).toMatchObject({
+        kind: 'interval',
+        amount: 1,
+        unit: 'day',
+        at: { hour: 8, minute: 0 },
+      });
+      expect(parseRecurrence('Every week at 19:30')).toMatchObject({
+        amount: 1,
+        unit: 'week',
+        at: { hour: 19, minute: 30 },
+      });
+    });
+
+    it('should parse cron expressions with names, ranges and steps', () => {
+      const cron = parseRecurrence('*/15 8-10 * jan mon-fri');
+
+      expect(cron).toMatchObject({
+        kind: 'cron',
+        minutes: [0, 15, 30, 45],
+        hours: [8, 9, 10],
+        months: [1],
+        daysOfWeek: [1, 2, 3, 4, 5],
+      });
+    });
+
+    it('should treat day-of-week 7 as Sunday', () => {
+      expect(parseRecurrence('0 9 * * 7')).toMatchObject({ daysOfWeek: [0] });
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => parseRecurrence('sometimes')).toThrow('Invalid recurrence');
+      expect(() => parseRecurrence('every 2h at 08:00')).toThrow('only applies to day or week');
+      expect(() => parseRecurrence('every 1d at 25:00')).toThrow('between 00:00 and 23:59');
+      expect(() => parseRecurrence('every 0m')).toThrow('at least 1');
+      expect(() => parseRecurrence('60 * * * *')).toThrow('Invalid cron expression');
+      expect(() => parseRecurrence('* * * * funday')).toThrow('Invalid cron expression');
+    });
+  });
+
+  describe('getFirstOccurrence', () => {
+    it('should use today when the time of day is still ahead', () => {
+      const now = new Date(2025, 0, 6, 7, 0);
+      expect(getFirstOccurrence(parseRecurrence('every 1d at 08:00'), now)).toEqual(new Date(2025, 0, 6, 8, 0));
+    });
+
+    it('should use tomorrow when the time of day has passed', () => {
+      const now = new Date(2025, 0, 6, 9, 0);
+      expect(getFirstOccurrence(parseRecurrence('every 1d at 08:00'), now)).toEqual(new Date(2025, 0, 7, 8, 0));
+    });
+
+    it('should wait one interval for fixed intervals', () => {
+      const now = new Date(2025, 0, 6, 9, 0);
+      expect(getFirstOccurrence(parseRecurrence('every 2h'), now)).toEqual(new Date(2025, 0, 6, 11, 0));
+    });
+
+    it('should find the next cron match', () => {
+      // 2025-01-06 is a Monday
+      const now = new Date(2025, 0, 6, 9, 0);
+      expect(getFirstOccurrence(parseRecurrence('0 8 * * mon'), now)).toEqual(new Date(2025, 0, 13, 8, 0));
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should add the interval to the previous occurrence', () => {
+      const previous = new Date(2025, 0, 6, 8, 0);
+      const now = new Date(2025, 0, 6, 8, 1);
+
+      expect(getNextOccurrence(parseRecurrence('every 30m'), previous, now)).toEqual(new Date(2025, 0, 6, 8, 30));
+      expect(getNextOccurrence(parseRecurrence('every 1w at 08:00'), previous, now)).toEqual(
+        new Date(2025, 0, 13, 8, 0)
+      );
+    });
+
+    it('should skip occurrences missed while offline', () => {
+      const previous = new Date(2025, 0, 1, 8, 0);
+      const now = new Date(2025, 0, 6, 12, 0);
+
+      expect(getNextOccurrence(parseRecurrence('every 1d at 08:00'), previous, now)).toEqual(
+        new Date(2025, 0, 7, 8, 0)
+      );
+      expect(getNextOccurrence(parseRecurrence('every 1h'), previous, now)).toEqual(new Date(2025, 0, 6, 13, 0));
+    });
+
+    it('should accept either day when both cron day fields are restricted', () => {
+      // 1st of the month or any Friday; 2025-01-03 is a Friday
+      const recurrence = parseRecurrence('0 9 1 * fri');
+      const previous = new Date(2025, 0, 1, 9, 0);
+
+      expect(getNextOccurrence(recurrence, previous, previous)).toEqual(new Date(2025, 0, 3, 9, 0));
+    });
+
+    it('should throw for cron expressions that never match', () => {
+      expect(() => getNextOccurrence(parseRecurrence('0 0 30 feb *'), new Date(2025, 0, 1))).toThrow('never matches');
+    });
+  });
+
+  describe('timezones', () => {
+    it('should evaluate times of day in the given timezone', () => {
+      const now = new Date('2025-01-06T09:00:00Z'); // 18:00 in Tokyo
+
+      expect(getFirstOccurrence(parseRecurrence('every 1d at 08:00'), now, 'Asia/Tokyo')).toEqual(
+        new Date('2025-01-06T23:00:00Z')
+      );
+      expect(getFirstOccurrence(parseRecurrence('0 8 * * *'), now, 'America/New_York')).toEqual(
+        new Date('2025-01-06T13:00:00Z')
+      );
+    });
+
+    it('should keep the wall-clock time across DST transitions', () => {
+      // Berlin springs forward on 2025-03-30, New York falls back on 2025-11-02
+      const beforeSpring = new Date('2025-03-29T07:00:00Z'); // 08:00 CET
+      const beforeFall = new Date('2025-11-01T12:00:00Z'); // 08:00 EDT
+
+      expect(
+        getNextOccurrence(parseRecurrence('every 1d at 08:00'), beforeSpring, beforeSpring, 'Europe/Berlin')
+      ).toEqual(new Date('2025-03-30T06:00:00Z')); // 08:00 CEST
+      expect(getNextOccurrence(parseRecurrence('every 1d'), beforeSpring, beforeSpring, 'Europe/Berlin')).toEqual(
+        new Date('2025-03-30T06:00:00Z')
+      );
+      expect(getNextOccurrence(parseRecurrence('0 8 * * *'), beforeFall, beforeFall, 'America/New_York')).toEqual(
+        new Date('2025-11-02T13:00:00Z') // 08:00 EST
+      );
+    });
+
+    it('should fire cron times skipped by spring-forward once, after the gap', () => {
+      const previous = new Date('2025-03-29T01:30:00Z'); // 02:30 CET
+      const recurrence = parseRecurrence('30 2 * * *');
+
+      const skipped = getNextOccurrence(recurrence, previous, previous, 'Europe/Berlin');
+      expect(skipped).toEqual(new Date('2025-03-30T01:30:00Z')); // 03:30 CEST
+      expect(getNextOccurrence(recurrence, skipped, skipped, 'Europe/Berlin')).toEqual(
+        new Date('2025-03-31T00:30:00Z')
+      );
+    });
+
+    it('should fire cron times repeated by fall-back once', () => {
+      const previous = new Date('2025-10-25T00:30:00Z'); // 02:30 CEST
+      const recurrence = parseRecurrence('30 2 * * *');
+
+      const repeated = getNextOccurrence(recurrence, previous, previous, 'Europe/Berlin');
+      expect(repeated).toEqual(new Date('2025-10-26T01:30:00Z')); // 02:30 CET
+      expect(getNextOccurrence(recurrence, repeated, repeated, 'Europe/Berlin')).toEqual(
+        new Date('2025-10-27T01:30:00Z')
+      );
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe intervals and cron expressions', () => {
+      expect(describeRecurrence('every 1d at 08:00')).toBe('every day at 08:00');
+      expect(describeRecurrence('every 3 weeks at 9:05')).toBe('every 3 weeks at 09:05');
+      expect(describeRecurrence('0 8 * * 1')).toBe('cron `0 8 * * 1`');
+    });
+  });
+});
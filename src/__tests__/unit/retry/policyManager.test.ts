@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RetryPolicyManager, getDefaultRetryPolicy, getRetryDelay } from '../../../retry/policyManager.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RetryPolicyManager', () => {
+  let tempDir: string;
+  let tempConfigPath: string;
+
+  const writeConfig = (config: any) => {
+    fs.writeFileSync(tempConfigPath, JSON.stringify(config));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'retry-test-'));
+    tempConfigPath = path.join(tempDir, 'retry-policies.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('loadConfig', () => {
+    it('should load valid policies', () => {
+      writeConfig({
+        policies: [
+          { name: 'patient', baseDelaySeconds: 300, multiplier: 3, maxDelaySeconds: 3600, maxAttempts: 6 },
+          { name: 'quick', baseDelaySeconds: 5, jitter: 0 },
+        ],
+      });
+
+      const manager = new RetryPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicyNames()).toEqual(['patient', 'quick']);
+      expect(manager.getPolicy('patient')).toEqual({
+        name: 'patient',
+        baseDelaySeconds: 300,
+        multiplier: 3,
+        maxDelaySeconds: 3600,
+        jitter: 0.2,
+        maxAttempts: 6,
+      });
+    });
+
+    it('should fill omitted settings from the default policy', () => {
+      writeConfig({ policies: [{ name: 'quick', baseDelaySeconds: 5 }] });
+
+      const manager = new RetryPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicy('quick')).toEqual({
+        name: 'quick',
+        baseDelaySeconds: 5,
+        multiplier: 2,
+        maxDelaySeconds: undefined,
+        jitter: 0.2,
+        maxAttempts: undefined,
+      });
+    });
+
+    it('should handle missing config file gracefully', () => {
+      const manager = new RetryPolicyManager(path.join(tempDir, 'missing.json'), false);
+
+      expect(manager.getPolicyNames()).toEqual([]);
+      expect(manager.getPolicy('quick')).toBeNull();
+    });
+
+    it('should handle malformed JSON gracefully', () => {
+      fs.writeFileSync(tempConfigPath, '{ invalid json }');
+
+      const manager = new RetryPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicyNames()).toEqual([]);
+    });
+
+    it('should skip invalid policies', () => {
+      writeConfig({
+        policies: [
+          { baseDelaySeconds: 5 },
+          { name: 'bad-base', baseDelaySeconds: 0 },
+          { name: 'bad-multiplier', multiplier: 0.5 },
+          { name: 'bad-max-delay', maxDelaySeconds: -1 },
+          { name: 'bad-jitter', jitter: 1.5 },
+          { name: 'bad-attempts', maxAttempts: 12 },
+          { name: 'ok' },
+        ],
+      });
+
+      const manager = new RetryPolicyManager(tempConfigPath, false);
+
+      expect(manager.getPolicyNames()).toEqual(['ok']);
+    });
+  });
+
+  describe('getPolicy', () => {
+    it('should return a copy so callers cannot change the loaded policy', () => {
+      writeConfig({ policies: [{ name: 'quick', baseDelaySeconds: 5 }] });
+      const manager = new RetryPolicyManager(tempConfigPath, false);
+
+      manager.getPolicy('quick')!.baseDelaySeconds = 999;
+
+      expect(manager.getPolicy('quick')!.baseDelaySeconds).toBe(5);
+    });
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should grow the delay by the multiplier with each retry', () => {
+    const policy = { name: 'test', baseDelaySeconds: 10, multiplier: 3, jitter: 0 };
+
+    expect(getRetryDelay(policy, 0)).toBe(10);
+    expect(getRetryDelay(policy, 1)).toBe(30);
+    expect(getRetryDelay(policy, 2)).toBe(90);
+  });
+
+  it('should cap the delay at maxDelaySeconds', () => {
+    const policy = { name: 'test', baseDelaySeconds: 10, multiplier: 2, maxDelaySeconds: 25, jitter: 0 };
+
+    expect(getRetryDelay(policy, 5)).toBe(25);
+  });
+
+  it('should vary the delay by up to the jitter fraction', () => {
+    const policy = { name: 'test', baseDelaySeconds: 100, multiplier: 2, jitter: 0.2 };
+
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(policy, 0)).toBe(80);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(getRetryDelay(policy, 0)).toBeCloseTo(120, 2);
+  });
+
+  it('should default to doubling from QUEUE_RETRY_BASE_DELAY', () => {
+    const original = process.env.QUEUE_RETRY_BASE_DELAY;
+    process.env.QUEUE_RETRY_BASE_DELAY = '30';
+
+    try {
+      expect(getDefaultRetryPolicy()).toEqual({ name: 'default', baseDelaySeconds: 30, multiplier: 2, jitter: 0.2 });
+    } finally {
+      if (original === undefined) {
+        delete process.env.QUEUE_RETRY_BASE_DELAY;
+      } else {
+        process.env.QUEUE_RETRY_BASE_DELAY = original;
+      }
+    }
+  });
+});
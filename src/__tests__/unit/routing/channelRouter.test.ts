@@ -0,0 +1,65 @@
+import { describe, it, expect } from '@jest/globals';
+import { ChannelRouter, parseChannelRoutes } from '../../../routing/channelRouter.js';
+
+describe('ChannelRouter', () => {
+  const router = new ChannelRouter('100', { security: '200', Garage: '300' });
+
+  describe('resolve', () => {
+    it('should return default channel when no target is given', () => {
+      expect(router.resolve()).toBe('100');
+      expect(router.resolve(null)).toBe('100');
+      expect(router.resolve('  ')).toBe('100');
+    });
+
+    it('should resolve named routes case-insensitively', () => {
+      expect(router.resolve('security')).toBe('200');
+      expect(router.resolve('GARAGE')).toBe('300');
+    });
+
+    it('should accept raw IDs of configured channels', () => {
+      expect(router.resolve('100')).toBe('100');
+      expect(router.resolve('300')).toBe('300');
+    });
+
+    it('should reject unknown routes', () => {
+      expect(() => router.resolve('kitchen')).toThrow('Unknown or unauthorized channel "kitchen"');
+    });
+
+    it('should reject channel IDs that are not configured', () => {
+      expect(() => router.resolve('999')).toThrow('Unknown or unauthorized channel');
+    });
+  });
+
+  describe('isAllowed', () => {
+    it('should report whether a target resolves', () => {
+      expect(router.isAllowed('security')).toBe(true);
+      expect(router.isAllowed('999')).toBe(false);
+    });
+  });
+
+  describe('getAllowedChannelIds', () => {
+    it('should include default and routed channels without duplicates', () => {
+      const withDuplicate = new ChannelRouter('100', { main: '100', security: '200' });
+      expect(withDuplicate.getAllowedChannelIds()).toEqual(['100', '200']);
+    });
+  });
+});
+
+describe('parseChannelRoutes', () => {
+  it('should return empty routes for empty input', () => {
+    expect(parseChannelRoutes(undefined)).toEqual({});
+    expect(parseChannelRoutes('')).toEqual({});
+  });
+
+  it('should parse name:id pairs', () => {
+    expect(parseChannelRoutes('security:123, garage:456')).toEqual({
+      security: '123',
+      garage: '456',
+    });
+  });
+
+  it('should throw on malformed entries', () => {
+    expect(() => parseChannelRoutes('security')).toThrow('Invalid channel route "security"');
+    expect(() => parseChannelRoutes('security:abc')).toThrow('Invalid channel route');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { RoutingRulesManager } from '../../../routing/rulesManager.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RoutingRulesManager', () => {
+  let tempDir: string;
+  let tempConfigPath: string;
+
+  const writeConfig = (config: any) => {
+    fs.writeFileSync(tempConfigPath, JSON.stringify(config));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'routing-test-'));
+    tempConfigPath = path.join(tempDir, 'notification-routing.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('loadConfig', () => {
+    it('should load valid rules', () => {
+      writeConfig({
+        rules: [
+          { name: 'security', match: { source: 'Alarm' }, channels: ['security'] },
+          { name: 'drop-debug', match: { severity: 'info' }, drop: true },
+        ],
+      });
+
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.getRuleCount()).toBe(2);
+      expect(manager.getRuleNames()).toEqual(['security', 'drop-debug']);
+    });
+
+    it('should handle missing config file gracefully', () => {
+      const manager = new RoutingRulesManager(path.join(tempDir, 'missing.json'), false);
+
+      expect(manager.getRuleCount()).toBe(0);
+      expect(manager.evaluate({ source: 'Test', message: 'Hi' })).toBeNull();
+    });
+
+    it('should handle malformed JSON gracefully', () => {
+      fs.writeFileSync(tempConfigPath, '{ invalid json }');
+
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.getRuleCount()).toBe(0);
+    });
+
+    it('should reject config without rules array', () => {
+      writeConfig({ rules: 'nope' });
+
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.getRuleCount()).toBe(0);
+    });
+
+    it('should skip rules with invalid title patterns or missing names', () => {
+      writeConfig({
+        rules: [
+          { name: 'broken', match: { titlePattern: '([' } },
+          { match: { source: 'Alarm' } },
+          { name: 'bad-retry', retryPolicy: { baseDelaySeconds: 5 } },
+          { name: 'valid', match: { source: 'Alarm' } },
+        ],
+      });
+
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.getRuleNames()).toEqual(['valid']);
+    });
+
+    it('should reload config when called again', () => {
+      writeConfig({ rules: [{ name: 'first' }] });
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+      expect(manager.getRuleNames()).toEqual(['first']);
+
+      writeConfig({ rules: [{ name: 'first' }, { name: 'second' }] });
+      manager.loadConfig();
+
+      expect(manager.getRuleNames()).toEqual(['first', 'second']);
+    });
+  });
+
+  describe('evaluate', () => {
+    beforeEach(() => {
+      writeConfig({
+        rules: [
+          {
+            name: 'drop-motion',
+            match: { source: 'Motion Sensor', severity: 'info' },
+            drop: true,
+          },
+          {
+            name: 'security',
+            match: { source: ['Front Door', 'Alarm'], severity: ['warning', 'error'] },
+            channels: ['security'],
+            mentions: { roles: ['999'] },
+          },
+          {
+            name: 'garage',
+            match: { titlePattern: '^garage', metadataKeys: ['door'] },
+            channels: ['garage', 'security'],
+          },
+          {
+            name: 'upstairs',
+            match: { metadata: { floor: 2 } },
+            channels: ['upstairs'],
+          },
+        ],
+      });
+    });
+
+    it('should return null when no rule matches', () => {
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.evaluate({ source: 'Server', message: 'Backup done' })).toBeNull();
+    });
+
+    it('should match on source and severity case-insensitively', () => {
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      const decision = manager.evaluate({ source: 'alarm', message: 'Intruder', severity: 'error' });
+
+      expect(decision).toEqual({
+        ruleName: 'security',
+        channels: ['security'],
+        mentions: { roles: ['999'] },
+        drop: false,
+        digest: false,
+      });
+    });
+
+    it('should default severity to info when matching', () => {
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      const decision = manager.evaluate({ source: 'Motion Sensor', message: 'Motion' });
+
+      expect(decision?.ruleName).toBe('drop-motion');
+      expect(decision?.drop).toBe(true);
+    });
+
+    it('should match title pattern and metadata keys together', () => {
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(
+        manager.evaluate({ source: 'HA', title: 'Garage Door', message: 'Open', metadata: { door: 'left' } })
+          ?.ruleName
+      ).toBe('garage');
+      expect(
+        manager.evaluate({ source: 'HA', title: 'Garage Door', message: 'Open' })
+      ).toBeNull();
+    });
+
+    it('should match exact metadata values', () => {
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(
+        manager.evaluate({ source: 'HA', message: 'Window open', metadata: { floor: 2 } })?.ruleName
+      ).toBe('upstairs');
+      expect(
+        manager.evaluate({ source: 'HA', message: 'Window open', metadata: { floor: 1 } })
+      ).toBeNull();
+    });
+
+    it('should use the first matching rule', () => {
+      writeConfig({
+        rules: [
+          { name: 'first', match: { source: 'Alarm' }, channels: ['a'] },
+          { name: 'second', match: { source: 'Alarm' }, channels: ['b'] },
+        ],
+      });
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.evaluate({ source: 'Alarm', message: 'x' })?.ruleName).toBe('first');
+    });
+
+    it('should return the digest action', () => {
+      writeConfig({ rules: [{ name: 'batch-backups', match: { source: 'Backup', severity: 'info' }, digest: true }] });
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.evaluate({ source: 'Backup', message: 'Done' })?.digest).toBe(true);
+      expect(manager.evaluate({ source: 'Backup', message: 'Failed', severity: 'error' })).toBeNull();
+    });
+
+    it('should return the retry policy name', () => {
+      writeConfig({ rules: [{ name: 'backups', match: { source: 'Backup' }, retryPolicy: 'patient' }] });
+      const manager = new RoutingRulesManager(tempConfigPath, false);
+
+      expect(manager.evaluate({ source: 'Backup', message: 'Failed' })?.retryPolicy).toBe('patient');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  SeverityConfigManager,
+  DEFAULT_SEVERITY_LEVELS,
+  getSeverityRank,
+  isSeverity,
+} from '../../../severity/severityManager.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('SeverityConfigManager', () => {
+  let tempDir: string;
+  let tempConfigPath: string;
+
+  const writeConfig = (config: any) => {
+    fs.writeFileSync(tempConfigPath, JSON.stringify(config));
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'severity-test-'));
+    tempConfigPath = path.join(tempDir, 'severity-levels.json');
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(tempDir)) {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('loadConfig', () => {
+    it('should use the default levels without a config file', () => {
+      const manager = new SeverityConfigManager(tempConfigPath, false);
+
+      expect(manager.getLevel('critical')).toEqual(DEFAULT_SEVERITY_LEVELS.critical);
+      expect(manager.getLevel('error').bypassQuietHours).toBe(true);
+      expect(manager.getLevel('info').bypassQuietHours).toBe(false);
+    });
+
+    it('should merge configured behavior with the defaults', () => {
+      writeConfig({
+        levels: {
+          debug: { color: '#123456', channel: 'debug-log', maxRetries: 0 },
+          warning: { emoji: '🔔', mentions: { roles: ['345678901234567890'] }, bypassQuietHours: true },
+        },
+      });
+
+      const manager = new SeverityConfigManager(tempConfigPath, false);
+
+      expect(manager.getLevel('debug')).toEqual({
+        ...DEFAULT_SEVERITY_LEVELS.debug,
+        color: 0x123456,
+        channel: 'debug-log',
+        maxRetries: 0,
+      });
+      expect(manager.getLevel('warning')).toEqual({
+        ...DEFAULT_SEVERITY_LEVELS.warning,
+        emoji: '🔔',
+        mentions: { roles: ['345678901234567890'] },
+        bypassQuietHours: true,
+      });
+    });
+
+    it('should keep the defaults of invalid or unknown levels', () => {
+      writeConfig({
+        levels: {
+          info: { color: 'blue' },
+          error: { maxRetries: -1 },
+          success: { mentions: { users: ['not-an-id'] } },
+          warning: { priority: 11 },
+          fatal: { color: '#000000' },
+        },
+      });
+
+      const manager = new SeverityConfigManager(tempConfigPath, false);
+
+      expect(manager.getLevel('info')).toEqual(DEFAULT_SEVERITY_LEVELS.info);
+      expect(manager.getLevel('error')).toEqual(DEFAULT_SEVERITY_LEVELS.error);
+      expect(manager.getLevel('success')).toEqual(DEFAULT_SEVERITY_LEVELS.success);
+      expect(manager.getLevel('warning')).toEqual(DEFAULT_SEVERITY_LEVELS.warning);
+    });
+
+    it('should handle invalid JSON gracefully', () => {
+      fs.writeFileSync(tempConfigPath, '{ levels: ');
+
+      const manager = new SeverityConfigManager(tempConfigPath, false);
+
+      expect(manager.getLevel('warning')).toEqual(DEFAULT_SEVERITY_LEVELS.warning);
+    });
+
+    it('should treat unknown and missing severities as info', () => {
+      const manager = new SeverityConfigManager(tempConfigPath, false);
+
+      expect(manager.getLevel(undefined).name).toBe('info');
+      expect(manager.getLevel('loud').name).toBe('info');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should recognize severity levels', () => {
+      expect(isSeverity('critical')).toBe(true);
+      expect(isSeverity('Critical')).toBe(false);
+      expect(isSeverity(undefined)).toBe(false);
+    });
+
+    it('should rank levels from debug to critical', () => {
+      expect(getSeverityRank('debug')).toBeLessThan(getSeverityRank('info'));
+      expect(getSeverityRank('warning')).toBeLessThan(getSeverityRank('error'));
+      expect(getSeverityRank('error')).toBeLessThan(getSeverityRank('critical'));
+      expect(getSeverityRank('unknown')).toBe(getSeverityRank('info'));
+    });
+  });
+});
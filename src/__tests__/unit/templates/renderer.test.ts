@@ -0,0 +1,105 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateTemplate, renderTemplate, getTemplateVariables } from '../../../templates/renderer.js';
+
+describe('template renderer', () => {
+  describe('renderTemplate', () => {
+    it('should fill placeholders and dotted paths', () => {
+      const body = renderTemplate(
+        {
+          name: 'door-open',
+          title: '{{door}} opened',
+          message: '{{ sensor.name }} reported {{sensor.state}}',
+          severity: 'warning',
+          channel: 'security',
+        },
+        { door: 'Front door', sensor: { name: 'Contact', state: 'on' } }
+      );
+
+      expect(body).toEqual({
+        source: 'door-open',
+        title: 'Front door opened',
+        message: 'Contact reported on',
+        severity: 'warning',
+        channel: 'security',
+      });
+    });
+
+    it('should render {{#if}} and {{else}} blocks', () => {
+      const template = {
+        name: 'arrival',
+        message: '{{#if person}}{{person}} arrived{{else}}Someone arrived{{/if}}{{#if guests}} with guests{{/if}}',
+      };
+
+      expect(renderTemplate(template, { person: 'Alex', guests: ['Sam'] }).message).toBe('Alex arrived with guests');
+      expect(renderTemplate(template, { person: '', guests: [] }).message).toBe('Someone arrived');
+    });
+
+    it('should render placeholders inside embed options', () => {
+      const body = renderTemplate(
+        {
+          name: 'energy',
+          message: 'Daily report',
+          embed: {
+            fields: [{ name: 'Solar', value: '{{solar}} kWh', inline: true }],
+            footer: 'Updated {{time}}',
+            color: 3066993,
+          },
+        },
+        { solar: 12.4, time: '18:00' }
+      );
+
+      expect(body.fields).toEqual([{ name: 'Solar', value: '12.4 kWh', inline: true }]);
+      expect(body.footer).toBe('Updated 18:00');
+      expect(body.color).toBe(3066993);
+    });
+
+    it('should list every placeholder without data', () => {
+      expect(() =>
+        renderTemplate({ name: 'door-open', title: '{{door}}', message: '{{door}} at {{time}}' }, { door: null })
+      ).toThrow('missing data for {{door}}, {{time}}');
+    });
+  });
+
+  describe('validateTemplate', () => {
+    it('should accept a valid template', () => {
+      expect(() =>
+        validateTemplate({ name: 'door_open-2', message: '{{#if a.b}}x{{else}}y{{/if}}', severity: 'info' })
+      ).not.toThrow();
+    });
+
+    it('should reject invalid names, severities and embed options', () => {
+      expect(() => validateTemplate({ name: 'Door Open', message: 'x' })).toThrow('name must be');
+      expect(() => validateTemplate({ name: 'door', message: 'x', severity: 'loud' as any })).toThrow(
+        'severity must be one of debug, info, success, warning, error, critical'
+      );
+      expect(() => validateTemplate({ name: 'door', message: 'x', embed: { colour: 1 } })).toThrow(
+        'embed has an unknown option "colour"'
+      );
+    });
+
+    it('should report placeholder syntax errors with their location', () => {
+      expect(() => validateTemplate({ name: 'door', message: '{{#if door}}open' })).toThrow(
+        'message: {{#if door}} is not closed with {{/if}}'
+      );
+      expect(() => validateTemplate({ name: 'door', message: 'x', title: '{{/if}}' })).toThrow(
+        'title: {{/if}} without a matching {{#if}}'
+      );
+      expect(() =>
+        validateTemplate({ name: 'door', message: 'x', embed: { fields: [{ name: '{{}}', value: 'v' }] } })
+      ).toThrow('fields[0].name: invalid placeholder {{}}');
+    });
+  });
+
+  describe('getTemplateVariables', () => {
+    it('should list data paths in order of first use', () => {
+      expect(
+        getTemplateVariables({
+          name: 'door',
+          title: '{{door}}',
+          message: '{{#if person}}{{person}}{{/if}} {{door}} {{sensor.state}}',
+          embed: { footer: '{{time}}' },
+        })
+      ).toEqual(['door', 'person', 'sensor.state', 'time']);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  getDefaultTimezone,
+  isValidTimezone,
+  getZonedParts,
+  zonedTimeToUtc,
+  addDays,
+} from '../../utils/timezone.js';
+
+describe('timezone', () => {
+  const originalTimezone = process.env.BOT_TIMEZONE;
+
+  afterEach(() => {
+    if (originalTimezone === undefined) {
+      delete process.env.BOT_TIMEZONE;
+    } else {
+      process.env.BOT_TIMEZONE = originalTimezone;
+    }
+  });
+
+  describe('getDefaultTimezone', () => {
+    it('should use BOT_TIMEZONE when set', () => {
+      process.env.BOT_TIMEZONE = 'Europe/Berlin';
+      expect(getDefaultTimezone()).toBe('Europe/Berlin');
+    });
+
+    it('should fall back to the server timezone', () => {
+      delete process.env.BOT_TIMEZONE;
+      expect(isValidTimezone(getDefaultTimezone())).toBe(true);
+    });
+
+    it('should reject invalid timezones', () => {
+      process.env.BOT_TIMEZONE = 'Mars/Olympus_Mons';
+      expect(() => getDefaultTimezone()).toThrow('Invalid BOT_TIMEZONE');
+    });
+  });
+
+  describe('getZonedParts', () => {
+    it('should return wall-clock parts in the timezone', () => {
+      expect(getZonedParts(new Date('2025-01-06T23:30:00Z'), 'Asia/Tokyo')).toEqual({
+        year: 2025,
+        month: 1,
+        day: 7,
+        hour: 8,
+        minute: 30,
+        second: 0,
+        weekday: 2,
+      });
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert wall-clock time in and out of daylight saving time', () => {
+      const winter = zonedTimeToUtc({ year: 2025, month: 1, day: 6, hour: 8, minute: 0 }, 'Europe/Berlin');
+      const summer = zonedTimeToUtc({ year: 2025, month: 7, day: 6, hour: 8, minute: 0 }, 'Europe/Berlin');
+
+      expect(winter).toEqual(new Date('2025-01-06T07:00:00Z'));
+      expect(summer).toEqual(new Date('2025-07-06T06:00:00Z'));
+    });
+
+    it('should move times skipped by spring-forward past the gap', () => {
+      expect(zonedTimeToUtc({ year: 2025, month: 3, day: 30, hour: 2, minute: 30 }, 'Europe/Berlin')).toEqual(
+        new Date('2025-03-30T01:30:00Z') // 03:30 CEST
+      );
+    });
+
+    it('should resolve repeated fall-back times to the later instant', () => {
+      expect(zonedTimeToUtc({ year: 2025, month: 10, day: 26, hour: 2, minute: 30 }, 'Europe/Berlin')).toEqual(
+        new Date('2025-10-26T01:30:00Z') // 02:30 CET
+      );
+    });
+  });
+
+  describe('addDays', () => {
+    it('should roll over months and years', () => {
+      expect(addDays({ year: 2024, month: 12, day: 31 }, 1)).toEqual({ year: 2025, month: 1, day: 1 });
+      expect(addDays({ year: 2024, month: 3, day: 1 }, -1)).toEqual({ year: 2024, month: 2, day: 29 });
+    });
+  });
+});
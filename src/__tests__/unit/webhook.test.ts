@@ -16,9 +16,20 @@ describe('WebhookServer', () => {
     // @ts-ignore - Mock setup for testing
     mockQueue = {
       enqueue: jest.fn<any>().mockResolvedValue(1),
+      submit: jest.fn<any>().mockResolvedValue({ notificationId: 1, notificationIds: [1], dropped: false }),
       getQueueSize: jest.fn<any>().mockReturnValue(0),
       cancel: jest.fn<any>().mockResolvedValue(true),
       retry: jest.fn<any>().mockResolvedValue(true),
+      update: jest.fn<any>().mockResolvedValue({ id: 1, status: 'sent', discordMessageId: 'msg-1' }),
+      resolve: jest.fn<any>().mockResolvedValue({
+        id: 1,
+        status: 'sent',
+        discordMessageId: 'msg-1',
+        resolvedAt: new Date('2024-01-01T01:00:00Z'),
+      }),
+      resolveChannel: jest.fn<any>().mockReturnValue('123456789'),
+      resolveMentions: jest.fn<any>().mockReturnValue({ users: ['111111111111111111'], roles: [] }),
+      resolveRetryPolicy: jest.fn<any>().mockReturnValue({ name: 'quick', baseDelaySeconds: 5, multiplier: 2, jitter: 0 }),
     } as any;
 
     // @ts-ignore - Mock setup for testing
@@ -39,6 +50,7 @@ describe('WebhookServer', () => {
         lastError: null,
         metadata: null,
       }),
+      getNotificationAttempts: jest.fn<any>().mockResolvedValue([]),
     } as any;
 
     webhookServer = new WebhookServer(mockQueue, mockDatabase, '');
@@ -62,7 +74,7 @@ describe('WebhookServer', () => {
   describe('POST /webhook/notify', () => {
     it('should accept valid notification', async () => {
       mockQueue.getQueueSize.mockReturnValue(1);
-      mockQueue.enqueue.mockResolvedValue(42);
+      mockQueue.submit.mockResolvedValue({ notificationId: 42, notificationIds: [42], dropped: false });
 
       const response = await request(app)
         .post('/webhook/notify')
@@ -74,10 +86,11 @@ describe('WebhookServer', () => {
       expect(response.status).toBe(202);
       expect(response.body).toEqual({
         status: 'queued',
+        coalesced: false,
         notification_id: 42,
         queue_size: 1,
       });
-      expect(mockQueue.enqueue).toHaveBeenCalledWith({
+      expect(mockQueue.submit).toHaveBeenCalledWith({
         source: 'Test',
         title: undefined,
         message: 'Test message',
@@ -87,7 +100,7 @@ describe('WebhookServer', () => {
     });
 
     it('should accept notification with all fields', async () => {
-      mockQueue.enqueue.mockResolvedValue(43);
+      mockQueue.submit.mockResolvedValue({ notificationId: 43, notificationIds: [43], dropped: false });
 
       const response = await request(app)
         .post('/webhook/notify')
@@ -100,7 +113,7 @@ describe('WebhookServer', () => {
 
       expect(response.status).toBe(202);
       expect(response.body.notification_id).toBe(43);
-      expect(mockQueue.enqueue).toHaveBeenCalledWith({
+      expect(mockQueue.submit).toHaveBeenCalledWith({
         source: 'Home Assistant',
         title: 'Door Alert',
         message: 'Front door opened',
@@ -110,7 +123,7 @@ describe('WebhookServer', () => {
     });
 
     it('should accept notification with scheduled_for', async () => {
-      mockQueue.enqueue.mockResolvedValue(44);
+      mockQueue.submit.mockResolvedValue({ notificationId: 44, notificationIds: [44], dropped: false });
 
       const response = await request(app)
         .post('/webhook/notify')
@@ -124,7 +137,7 @@ describe('WebhookServer', () => {
       expect(response.body.notification_id).toBe(44);
       expect(response.body.scheduled_for).toBeDefined();
       expect(response.body.scheduled_in).toBeDefined();
-      expect(mockQueue.enqueue).toHaveBeenCalled();
+      expect(mockQueue.submit).toHaveBeenCalled();
     });
 
     it('should reject notification with invalid scheduled_for format', async () => {
@@ -138,7 +151,7 @@ describe('WebhookServer', () => {
 
       expect(response.status).toBe(400);
       expect(response.body.error).toContain('Invalid scheduled_for format');
-      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockQueue.submit).not.toHaveBeenCalled();
     });
 
     it('should reject notification without source', async () => {
@@ -152,7 +165,7 @@ describe('WebhookServer', () => {
       expect(response.body).toEqual({
         error: 'Missing required fields: source and message',
       });
-      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockQueue.submit).not.toHaveBeenCalled();
     });
 
     it('should reject notification without message', async () => {
@@ -166,7 +179,491 @@ describe('WebhookServer', () => {
       expect(response.body).toEqual({
         error: 'Missing required fields: source and message',
       });
-      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should list all notification IDs when routing fans out', async () => {
+      mockQueue.submit.mockResolvedValue({
+        notificationId: 45,
+        notificationIds: [45, 46],
+        dropped: false,
+        ruleName: 'security-alerts',
+      });
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Alarm',
+          message: 'Alarm triggered',
+        });
+
+      expect(response.status).toBe(202);
+      expect(response.body.notification_id).toBe(45);
+      expect(response.body.notification_ids).toEqual([45, 46]);
+    });
+
+    it('should report notifications dropped by a routing rule', async () => {
+      mockQueue.submit.mockResolvedValue({
+        notificationId: 47,
+        notificationIds: [47],
+        dropped: true,
+        ruleName: 'drop-chatty-sensors',
+      });
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Motion Sensor',
+          message: 'Motion in hallway',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        status: 'dropped',
+        notification_id: 47,
+        rule: 'drop-chatty-sensors',
+      });
+    });
+
+    it('should accept notification with a channel route', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Garage door open',
+          channel: 'garage',
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.resolveChannel).toHaveBeenCalledWith('garage');
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'garage',
+        })
+      );
+    });
+
+    it('should reject notification with unknown channel', async () => {
+      mockQueue.resolveChannel.mockImplementation(() => {
+        throw new Error('Unknown or unauthorized channel "kitchen"');
+      });
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          channel: 'kitchen',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid channel: Unknown or unauthorized channel "kitchen"');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject notification with non-string channel', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          channel: 123,
+        });
+
+      expect(response.status).toBe(400);
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should accept DM delivery with a recipient', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Just for you',
+          delivery: 'dm',
+          recipient_user_id: '123456789012345678',
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delivery: 'dm',
+          recipientUserId: '123456789012345678',
+        })
+      );
+    });
+
+    it('should reject DM delivery without a recipient', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Just for you',
+          delivery: 'dm',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('recipient_user_id');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown delivery modes', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          delivery: 'carrier-pigeon',
+        });
+
+      expect(response.status).toBe(400);
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should create a recurring series', async () => {
+      const firstRun = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      mockQueue.submit.mockResolvedValue({
+        notificationId: 7,
+        notificationIds: [7],
+        dropped: false,
+        scheduledFor: firstRun,
+        seriesId: 2,
+      });
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Household',
+          message: 'Take out the bins',
+          recurrence: 'every 1w at 19:00',
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({ recurrence: 'every 1w at 19:00' })
+      );
+      expect(response.body.series_id).toBe(2);
+      expect(response.body.recurrence).toBe('every 1w at 19:00');
+      expect(response.body.scheduled_for).toBe(firstRun.toISOString());
+    });
+
+    it('should reject invalid recurrence', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          recurrence: 'every now and then',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid recurrence');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject cron recurrences that never fire', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          recurrence: '0 0 31 2 *',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid recurrence: Cron expression "0 0 31 2 *" never matches');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should resolve wall-clock times in the given timezone', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          scheduled_for: '2030-07-01 08:00',
+          timezone: 'Europe/Berlin',
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          scheduledFor: new Date('2030-07-01T06:00:00Z'),
+          timezone: 'Europe/Berlin',
+        })
+      );
+    });
+
+    it('should reject invalid timezones', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Test',
+          message: 'Test message',
+          timezone: 'Mars/Base',
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid timezone');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should report coalesced repeats of a dedupe key', async () => {
+      mockQueue.submit.mockResolvedValue({
+        notificationId: 7,
+        notificationIds: [7],
+        dropped: false,
+        coalesced: true,
+        repeatCount: 3,
+      });
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Home Assistant',
+          message: 'Front door opened',
+          dedupe_key: 'front-door',
+          dedupe_window: 600,
+          dedupe_action: 'count',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        status: 'coalesced',
+        coalesced: true,
+        notification_id: 7,
+        repeat_count: 3,
+      });
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          dedupeKey: 'front-door',
+          dedupeWindowSeconds: 600,
+          dedupeAction: 'count',
+        })
+      );
+    });
+
+    it('should pass validated actions to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Garage',
+          message: 'Garage open',
+          actions: [{ label: 'Close garage', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } }],
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          actions: [
+            { label: 'Close garage', style: 'secondary', service: 'cover.close_cover', data: { entity_id: 'cover.garage' } },
+          ],
+        })
+      );
+    });
+
+    it('should reject invalid actions', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Garage', message: 'Garage open', actions: [{ label: 'Close garage' }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid actions');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should pass ack_required to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Intrusion', severity: 'error', ack_required: true });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(expect.objectContaining({ ackRequired: true }));
+    });
+
+    it('should reject a non-boolean ack_required', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Intrusion', ack_required: 'yes' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Invalid ack_required');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should resolve mentions against the allowlist and pass them to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Alarm',
+          message: 'Door open',
+          mentions: { users: ['111111111111111111'], groups: ['oncall'] },
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.resolveMentions).toHaveBeenCalledWith(
+        { users: ['111111111111111111'], groups: ['oncall'] },
+        true
+      );
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({ mentions: { users: ['111111111111111111'], roles: [] } })
+      );
+    });
+
+    it('should reject mentions that are invalid or not allowed', async () => {
+      mockQueue.resolveMentions.mockImplementation(() => {
+        throw new Error('user 222222222222222222 is not on the mention allowlist');
+      });
+
+      const notAllowed = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Door open', mentions: { users: ['222222222222222222'] } });
+      const malformed = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Door open', mentions: { users: ['@everyone'] } });
+
+      expect(notAllowed.status).toBe(400);
+      expect(notAllowed.body.error).toBe('Invalid mentions: user 222222222222222222 is not on the mention allowlist');
+      expect(malformed.status).toBe(400);
+      expect(malformed.body.error).toContain('mentions.users must be a list of Discord IDs');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should pass the priority to the queue and reject invalid ones', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Alarm', message: 'Door forced', severity: 'warning', priority: 8 });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(expect.objectContaining({ severity: 'warning', priority: 8 }));
+
+      for (const priority of [11, -1, 2.5, 'high']) {
+        const invalid = await request(app).post('/webhook/notify').send({ source: 'Alarm', message: 'Door', priority });
+
+        expect(invalid.status).toBe(400);
+        expect(invalid.body.error).toBe('Invalid priority: must be an integer from 0 to 10');
+      }
+      expect(mockQueue.submit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the named retry policy to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Backup', message: 'Nightly backup failed', retry_policy: 'quick' });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.resolveRetryPolicy).toHaveBeenCalledWith('quick');
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          retryPolicy: { name: 'quick', baseDelaySeconds: 5, multiplier: 2, jitter: 0 },
+        })
+      );
+    });
+
+    it('should reject unknown or malformed retry policies', async () => {
+      mockQueue.resolveRetryPolicy.mockImplementation(() => {
+        throw new Error('unknown retry policy "slow"');
+      });
+
+      const unknown = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Backup', message: 'Done', retry_policy: 'slow' });
+      const malformed = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Backup', message: 'Done', retry_policy: { baseDelaySeconds: 5 } });
+
+      expect(unknown.status).toBe(400);
+      expect(unknown.body.error).toBe('Invalid retry_policy: unknown retry policy "slow"');
+      expect(malformed.status).toBe(400);
+      expect(malformed.body.error).toBe('Invalid retry_policy: must be a policy name');
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should pass rich embed content to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Camera',
+          message: 'Motion at the front door',
+          image_url: 'https://ha.local/api/camera_proxy/camera.front_door',
+          fields: [{ name: 'Zone', value: 'Porch', inline: true }],
+          color: 16744448,
+        });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          embed: {
+            imageUrl: 'https://ha.local/api/camera_proxy/camera.front_door',
+            fields: [{ name: 'Zone', value: 'Porch', inline: true }],
+            color: 16744448,
+          },
+        })
+      );
+    });
+
+    it('should reject embeds that exceed Discord limits with details', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({
+          source: 'Energy',
+          title: 'x'.repeat(300),
+          message: 'Daily report',
+          fields: [{ name: 'Usage', value: 'y'.repeat(2000) }],
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid embed: title is 300 characters (max 256)');
+      expect(response.body.details).toEqual([
+        'title is 300 characters (max 256)',
+        'field 1 value is 2000 characters (max 1024)',
+      ]);
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should pass digest to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Backup', message: 'Backup done', digest: true });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(expect.objectContaining({ digest: true }));
+    });
+
+    it('should reject invalid digest options', async () => {
+      const invalid = [
+        { digest: 'yes' },
+        { digest: true, ack_required: true },
+        { digest: true, delivery: 'dm', recipient_user_id: '123' },
+      ];
+
+      for (const body of invalid) {
+        const response = await request(app)
+          .post('/webhook/notify')
+          .send({ source: 'Backup', message: 'Backup done', ...body });
+
+        expect(response.status).toBe(400);
+      }
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dedupe options', async () => {
+      const invalid = [
+        { dedupe_key: '' },
+        { dedupe_key: 'door', dedupe_window: 0 },
+        { dedupe_key: 'door', dedupe_window: '5m' },
+        { dedupe_key: 'door', dedupe_action: 'merge' },
+        { dedupe_key: 'door', recurrence: 'every 1h' },
+      ];
+
+      for (const fields of invalid) {
+        const response = await request(app)
+          .post('/webhook/notify')
+          .send({ source: 'Test', message: 'Test message', ...fields });
+
+        expect(response.status).toBe(400);
+      }
+      expect(mockQueue.submit).not.toHaveBeenCalled();
     });
 
     it('should default severity to info if not provided', async () => {
@@ -177,7 +674,7 @@ describe('WebhookServer', () => {
           message: 'Test message',
         });
 
-      expect(mockQueue.enqueue).toHaveBeenCalledWith(
+      expect(mockQueue.submit).toHaveBeenCalledWith(
         expect.objectContaining({
           severity: 'info',
         })
@@ -204,9 +701,55 @@ describe('WebhookServer', () => {
         max_retries: 3,
         last_error: null,
         discord_message_id: 'discord-123',
+        attempts: [],
       });
     });
 
+    it('should return the timeline of delivery attempts', async () => {
+      mockDatabase.getNotificationAttempts.mockResolvedValue([
+        {
+          notificationId: 1,
+          attempt: 1,
+          startedAt: new Date('2024-01-01T00:00:00.000Z'),
+          attemptedAt: new Date('2024-01-01T00:00:00.830Z'),
+          outcome: 'failed',
+          error: 'Bad Gateway',
+          failureReason: 'server_error',
+          httpStatus: 502,
+        },
+        {
+          notificationId: 1,
+          attempt: 2,
+          startedAt: new Date('2024-01-01T00:01:00.000Z'),
+          attemptedAt: new Date('2024-01-01T00:01:00.120Z'),
+          outcome: 'sent',
+        },
+      ]);
+
+      const response = await request(app).get('/webhook/notify/1');
+
+      expect(mockDatabase.getNotificationAttempts).toHaveBeenCalledWith(1);
+      expect(response.body.attempts).toEqual([
+        {
+          attempt: 1,
+          started_at: '2024-01-01T00:00:00.000Z',
+          attempted_at: '2024-01-01T00:00:00.830Z',
+          duration_ms: 830,
+          outcome: 'failed',
+          error: 'Bad Gateway',
+          failure_reason: 'server_error',
+          http_status: 502,
+        },
+        {
+          attempt: 2,
+          started_at: '2024-01-01T00:01:00.000Z',
+          attempted_at: '2024-01-01T00:01:00.120Z',
+          duration_ms: 120,
+          outcome: 'sent',
+        },
+      ]);
+    });
+
     it('should return 404 if notification not found', async () => {
       mockDatabase.getNotificationById.mockResolvedValue(null);
 
@@ -290,6 +833,69 @@ describe('WebhookServer', () => {
     });
   });
 
+  describe('PATCH /webhook/notify/:id', () => {
+    it('should update a notification', async () => {
+      const response = await request(app)
+        .patch('/webhook/notify/1')
+        .send({ title: 'Washer', message: 'Washer finished', severity: 'info' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        status: 'updated',
+        notification_id: 1,
+        notification_status: 'sent',
+        discord_message_id: 'msg-1',
+      });
+      expect(mockQueue.update).toHaveBeenCalledWith(1, {
+        title: 'Washer',
+        message: 'Washer finished',
+        severity: 'info',
+      });
+    });
+
+    it('should reject empty or invalid updates', async () => {
+      for (const body of [{}, { message: '' }, { severity: 'fatal' }]) {
+        const response = await request(app).patch('/webhook/notify/1').send(body);
+        expect(response.status).toBe(400);
+      }
+      expect(mockQueue.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 if notification cannot be updated', async () => {
+      mockQueue.update.mockResolvedValue(null);
+
+      const response = await request(app).patch('/webhook/notify/999').send({ message: 'Done' });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('POST /webhook/notify/:id/resolve', () => {
+    it('should resolve a notification', async () => {
+      const response = await request(app)
+        .post('/webhook/notify/1/resolve')
+        .send({ message: 'Washer finished' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        status: 'resolved',
+        notification_id: 1,
+        resolved_at: '2024-01-01T01:00:00.000Z',
+        discord_message_id: 'msg-1',
+      });
+      expect(mockQueue.resolve).toHaveBeenCalledWith(1, { message: 'Washer finished' });
+    });
+
+    it('should return 404 if notification cannot be resolved', async () => {
+      mockQueue.resolve.mockResolvedValue(null);
+
+      const response = await request(app).post('/webhook/notify/999/resolve');
+
+      expect(response.status).toBe(404);
+      expect(mockQueue.resolve).toHaveBeenCalledWith(999, {});
+    });
+  });
+
   describe('POST /webhook/notify with signature verification', () => {
     let webhookServerWithSecret: WebhookServer;
     let appWithSecret: express.Application;
@@ -320,7 +926,7 @@ describe('WebhookServer', () => {
         .send(body);
 
       expect(response.status).toBe(202);
-      expect(mockQueue.enqueue).toHaveBeenCalled();
+      expect(mockQueue.submit).toHaveBeenCalled();
     });
 
     it('should reject request with invalid signature', async () => {
@@ -336,7 +942,7 @@ describe('WebhookServer', () => {
 
       expect(response.status).toBe(401);
       expect(response.body).toEqual({ error: 'Unauthorized' });
-      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockQueue.submit).not.toHaveBeenCalled();
     });
 
     it('should reject request without signature', async () => {
@@ -351,7 +957,279 @@ describe('WebhookServer', () => {
 
       expect(response.status).toBe(401);
       expect(response.body).toEqual({ error: 'Unauthorized' });
-      expect(mockQueue.enqueue).not.toHaveBeenCalled();
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /webhook/notify with attachments', () => {
+    const stored = {
+      name: 'snapshot.jpg',
+      path: '/data/attachments/abc-snapshot.jpg',
+      contentType: 'image/jpeg',
+      size: 10,
+    };
+
+    beforeEach(() => {
+      (mockDatabase as any).storeAttachments = jest.fn<any>().mockResolvedValue([stored]);
+      (mockDatabase as any).deleteUnusedAttachments = jest.fn<any>().mockResolvedValue(undefined);
+    });
+
+    it('should store uploaded files and pass them to the queue', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .field('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion', image_url: 'attachment://snapshot.jpg' }))
+        .attach('files', Buffer.from('jpeg-bytes'), { filename: 'snapshot.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(202);
+      expect(mockDatabase.storeAttachments).toHaveBeenCalledWith([
+        { name: 'snapshot.jpg', contentType: 'image/jpeg', data: Buffer.from('jpeg-bytes') },
+      ]);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'Camera',
+          attachments: [stored],
+          embed: { imageUrl: 'attachment://snapshot.jpg' },
+        })
+      );
+    });
+
+    it('should reject files over the configured limits', async () => {
+      const limitedApp = (new WebhookServer(mockQueue, mockDatabase, '', {
+        maxFiles: 2,
+        maxFileBytes: 4,
+        allowedTypes: ['image/*'],
+      }) as any).app;
+
+      const tooLarge = await request(limitedApp)
+        .post('/webhook/notify')
+        .field('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion' }))
+        .attach('files', Buffer.from('jpeg-bytes'), { filename: 'snapshot.jpg', contentType: 'image/jpeg' });
+      const wrongType = await request(limitedApp)
+        .post('/webhook/notify')
+        .field('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion' }))
+        .attach('files', Buffer.from('MZ'), { filename: 'setup.exe', contentType: 'application/x-msdownload' });
+
+      expect(tooLarge.status).toBe(400);
+      expect(tooLarge.body.error).toBe('Invalid attachments: file "snapshot.jpg" is 10 bytes (max 4)');
+      expect(wrongType.status).toBe(400);
+      expect(wrongType.body.error).toContain('has type application/x-msdownload, which is not allowed');
+      expect(mockDatabase.storeAttachments).not.toHaveBeenCalled();
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should reject embed images that refer to files that were not uploaded', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ source: 'Camera', message: 'Motion', image_url: 'attachment://snapshot.jpg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('Invalid embed: image_url refers to attachment "snapshot.jpg", which was not uploaded');
+    });
+
+    it('should reject digest notifications with files', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .field('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion', digest: true }))
+        .attach('files', Buffer.from('jpeg-bytes'), { filename: 'snapshot.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('digest cannot be combined with attachments');
+    });
+
+    it('should delete the files of coalesced notifications', async () => {
+      mockQueue.submit.mockResolvedValue({
+        notificationId: 7,
+        notificationIds: [7],
+        dropped: false,
+        coalesced: true,
+        repeatCount: 2,
+      });
+
+      const response = await request(app)
+        .post('/webhook/notify')
+        .field('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion', dedupe_key: 'front-door' }))
+        .attach('files', Buffer.from('jpeg-bytes'), { filename: 'snapshot.jpg', contentType: 'image/jpeg' });
+
+      expect(response.status).toBe(200);
+      expect(mockDatabase.deleteUnusedAttachments).toHaveBeenCalledWith([stored]);
+    });
+
+    it('should verify signatures over the raw multipart body', async () => {
+      const secret = 'test-secret-key';
+      const signedApp = (new WebhookServer(mockQueue, mockDatabase, secret) as any).app;
+      const form = new FormData();
+      form.append('payload_json', JSON.stringify({ source: 'Camera', message: 'Motion' }));
+      form.append('files', new Blob(['jpeg-bytes'], { type: 'image/jpeg' }), 'snapshot.jpg');
+      const encoded = new Request('http://localhost/webhook/notify', { method: 'POST', body: form });
+      const contentType = encoded.headers.get('content-type')!;
+      const body = Buffer.from(await encoded.arrayBuffer());
+      const signature = crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+      const signed = await request(signedApp)
+        .post('/webhook/notify')
+        .set('content-type', contentType)
+        .set('x-webhook-signature', signature)
+        .send(body);
+      const unsigned = await request(signedApp)
+        .post('/webhook/notify')
+        .set('content-type', contentType)
+        .set('x-webhook-signature', 'invalid-signature')
+        .send(body);
+
+      expect(signed.status).toBe(202);
+      expect(unsigned.status).toBe(401);
+    });
+  });
+
+  describe('notification templates', () => {
+    const template = {
+      name: 'door-open',
+      title: '{{door}} opened',
+      message: 'Opened at {{time}}',
+      severity: 'warning' as const,
+      embed: { footer: 'Sensor {{sensor.id}}' },
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-02T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      mockDatabase.getTemplate = jest.fn<any>().mockResolvedValue(template);
+      mockDatabase.listTemplates = jest.fn<any>().mockResolvedValue([template]);
+      mockDatabase.saveTemplate = jest.fn<any>().mockResolvedValue(true);
+      mockDatabase.deleteTemplate = jest.fn<any>().mockResolvedValue(true);
+    });
+
+    it('should render the template into the notification', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ template: 'door-open', data: { door: 'Front door', time: '18:30', sensor: { id: 7 } } });
+
+      expect(response.status).toBe(202);
+      expect(mockDatabase.getTemplate).toHaveBeenCalledWith('door-open');
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'door-open',
+          title: 'Front door opened',
+          message: 'Opened at 18:30',
+          severity: 'warning',
+          embed: { footer: 'Sensor 7' },
+          template: 'door-open',
+        })
+      );
+    });
+
+    it('should let request fields override the template', async () => {
+      const response = await request(app)
+        .post('/webhook/notify')
+        .send({ template: 'door-open', data: { door: 'Back door', time: '07:00', sensor: { id: 2 } }, severity: 'error' });
+
+      expect(response.status).toBe(202);
+      expect(mockQueue.submit).toHaveBeenCalledWith(
+        expect.objectContaining({ title: 'Back door opened', severity: 'error' })
+      );
+    });
+
+    it('should reject unknown templates and missing data', async () => {
+      mockDatabase.getTemplate.mockResolvedValueOnce(null);
+
+      const unknown = await request(app).post('/webhook/notify').send({ template: 'nope' });
+      const missing = await request(app)
+        .post('/webhook/notify')
+        .send({ template: 'door-open', data: { door: 'Front door' } });
+
+      expect(unknown.status).toBe(400);
+      expect(unknown.body).toEqual({ error: 'Invalid template: template "nope" does not exist' });
+      expect(missing.status).toBe(400);
+      expect(missing.body).toEqual({ error: 'Invalid template: missing data for {{time}}, {{sensor.id}}' });
+      expect(mockQueue.submit).not.toHaveBeenCalled();
+    });
+
+    it('should list templates with their variables', async () => {
+      const response = await request(app).get('/webhook/templates');
+
+      expect(response.status).toBe(200);
+      expect(response.body.templates).toEqual([
+        expect.objectContaining({
+          name: 'door-open',
+          title: '{{door}} opened',
+          variables: ['door', 'time', 'sensor.id'],
+          created_at: '2024-01-01T00:00:00.000Z',
+        }),
+      ]);
+    });
+
+    it('should return 404 for an unknown template', async () => {
+      mockDatabase.getTemplate.mockResolvedValueOnce(null);
+
+      const response = await request(app).get('/webhook/templates/nope');
+
+      expect(response.status).toBe(404);
+      expect(response.body).toEqual({ error: 'Template not found' });
+    });
+
+    it('should create a template with PUT', async () => {
+      const response = await request(app)
+        .put('/webhook/templates/door-open')
+        .send({ title: '{{door}} opened', message: 'Opened at {{time}}', severity: 'warning', embed: template.embed });
+
+      expect(response.status).toBe(201);
+      expect(mockDatabase.saveTemplate).toHaveBeenCalledWith({
+        name: 'door-open',
+        source: undefined,
+        title: '{{door}} opened',
+        message: 'Opened at {{time}}',
+        severity: 'warning',
+        embed: { footer: 'Sensor {{sensor.id}}' },
+        channel: undefined,
+      });
+    });
+
+    it('should reject invalid templates', async () => {
+      const response = await request(app)
+        .put('/webhook/templates/door-open')
+        .send({ message: 'Opened {{#if time}}at {{time}}' });
+
+      expect(response.status).toBe(400);
+      expect(response.body).toEqual({ error: 'Invalid template: message: {{#if time}} is not closed with {{/if}}' });
+      expect(mockDatabase.saveTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should require a signature to change templates', async () => {
+      const signedApp = (new WebhookServer(mockQueue, mockDatabase, 'test-secret-key') as any).app;
+
+      const put = await request(signedApp).put('/webhook/templates/door-open').send({ message: 'x' });
+      const del = await request(signedApp).delete('/webhook/templates/door-open');
+
+      expect(put.status).toBe(401);
+      expect(del.status).toBe(401);
+      expect(mockDatabase.saveTemplate).not.toHaveBeenCalled();
+      expect(mockDatabase.deleteTemplate).not.toHaveBeenCalled();
+    });
+
+    it('should delete a template', async () => {
+      const response = await request(app).delete('/webhook/templates/door-open');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ status: 'deleted', name: 'door-open' });
+    });
+
+    it('should preview a template with sample data', async () => {
+      const rendered = await request(app)
+        .post('/webhook/templates/preview')
+        .send({ template: { message: '{{door}} opened' }, data: { door: 'Front door' } });
+      const missing = await request(app)
+        .post('/webhook/templates/preview')
+        .send({ template: { message: '{{door}} opened' } });
+
+      expect(rendered.status).toBe(200);
+      expect(rendered.body).toEqual({
+        notification: { source: 'preview', message: 'Front door opened' },
+        variables: ['door'],
+        errors: [],
+      });
+      expect(missing.status).toBe(200);
+      expect(missing.body).toEqual({ variables: ['door'], errors: ['missing data for {{door}}'] });
+      expect(mockQueue.submit).not.toHaveBeenCalled();
     });
   });
 
@@ -401,6 +1279,104 @@ describe('WebhookServer', () => {
     });
   });
 
+  describe('dead-letter queue', () => {
+    beforeEach(() => {
+      (mockDatabase as any).getDeadLetters = jest.fn<any>().mockResolvedValue({
+        notifications: [
+          {
+            id: 7,
+            source: 'Garage',
+            message: 'Door left open',
+            severity: 'warning',
+            status: 'failed',
+            createdAt: new Date('2024-01-01T00:00:00Z'),
+            failedAt: new Date('2024-01-01T00:00:05Z'),
+            retryCount: 0,
+            maxRetries: 3,
+            lastError: 'Missing Access',
+            failureReason: 'missing_access',
+          },
+        ],
+        total: 1,
+      });
+      (mockDatabase as any).getNotificationAttempts = jest.fn<any>().mockResolvedValue([
+        {
+          notificationId: 7,
+          attempt: 1,
+          attemptedAt: new Date('2024-01-01T00:00:05Z'),
+          outcome: 'failed',
+          error: 'Missing Access',
+          failureReason: 'missing_access',
+        },
+      ]);
+      (mockDatabase as any).purgeDeadLetters = jest.fn<any>().mockResolvedValue(2);
+      (mockQueue as any).replayDeadLetters = jest.fn<any>().mockResolvedValue([7, 8]);
+    });
+
+    it('should list failed notifications with their attempts', async () => {
+      const response = await request(app).get('/webhook/dead-letters?source=Garage&reason=missing_access&limit=10');
+
+      expect(response.status).toBe(200);
+      expect(mockDatabase.getDeadLetters).toHaveBeenCalledWith({ source: 'Garage', failureReason: 'missing_access' }, 10, 0);
+      expect(response.body.total).toBe(1);
+      expect(response.body.notifications[0]).toMatchObject({
+        id: 7,
+        failure_reason: 'missing_access',
+        failed_at: '2024-01-01T00:00:05.000Z',
+        attempts: [
+          {
+            attempt: 1,
+            attempted_at: '2024-01-01T00:00:05.000Z',
+            outcome: 'failed',
+            error: 'Missing Access',
+            failure_reason: 'missing_access',
+          },
+        ],
+      });
+    });
+
+    it('should reject invalid filters', async () => {
+      for (const query of ['reason=broken', 'since=whenever', 'since=1h&until=2h', 'limit=0']) {
+        const response = await request(app).get(`/webhook/dead-letters?${query}`);
+        expect(response.status).toBe(400);
+      }
+      expect(mockDatabase.getDeadLetters).not.toHaveBeenCalled();
+    });
+
+    it('should replay failed notifications in a time range', async () => {
+      const response = await request(app).post('/webhook/dead-letters/replay').send({ since: '24h' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ replayed: 2, notification_ids: [7, 8] });
+      const filter = (mockQueue as any).replayDeadLetters.mock.calls[0][0];
+      expect(Date.now() - filter.since.getTime()).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+    });
+
+    it('should only purge everything when asked to', async () => {
+      const refused = await request(app).post('/webhook/dead-letters/purge').send({});
+      expect(refused.status).toBe(400);
+      expect(mockDatabase.purgeDeadLetters).not.toHaveBeenCalled();
+
+      const filtered = await request(app).post('/webhook/dead-letters/purge').send({ reason: 'missing_access' });
+      expect(filtered.body).toEqual({ purged: 2 });
+      expect(mockDatabase.purgeDeadLetters).toHaveBeenCalledWith({ failureReason: 'missing_access' });
+
+      const all = await request(app).post('/webhook/dead-letters/purge').send({ all: true });
+      expect(all.status).toBe(200);
+      expect(mockDatabase.purgeDeadLetters).toHaveBeenLastCalledWith({});
+    });
+
+    it('should require a valid signature to replay or purge', async () => {
+      webhookServer = new WebhookServer(mockQueue, mockDatabase, 'secret');
+      app = (webhookServer as any).app;
+
+      for (const route of ['/webhook/dead-letters/replay', '/webhook/dead-letters/purge']) {
+        const response = await request(app).post(route).send({ all: true });
+        expect(response.status).toBe(401);
+      }
+    });
+  });
+
   describe('404 handler', () => {
     it('should return 404 for unknown routes', async () => {
       const response = await request(app).get('/unknown-route');
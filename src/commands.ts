@@ -3,14 +3,39 @@ import {
   Collection,
   Interaction,
   SlashCommandBuilder,
+  SlashCommandSubcommandBuilder,
   CommandInteraction,
   ChatInputCommandInteraction,
   AutocompleteInteraction,
+  ButtonInteraction,
   EmbedBuilder,
+  PermissionFlagsBits,
+  ChannelType,
 } from 'discord.js';
-import { Database, NotificationStatus, QueuedNotification } from './database.js';
+import {
+  Database,
+  NotificationStatus,
+  QueuedNotification,
+  SeriesStatus,
+  QuietHours,
+  QuietHoursMode,
+  NotificationTemplate,
+  NotificationSeverity,
+  DeadLetterFilter,
+  FailureCategory,
+  NotificationAttempt,
+} from './database.js';
 import { PersistentNotificationQueue } from './queue/persistentQueue.js';
-import { formatRelativeTime } from './utils/dateParser.js';
+import { parseScheduledTime, parsePastTime, formatScheduledTime, formatAbsoluteTime } from './utils/dateParser.js';
+import { getDefaultTimezone, isValidTimezone } from './utils/timezone.js';
+import { describeRecurrence } from './utils/recurrence.js';
+import { parseClockTime, formatClockTime } from './queue/quietHours.js';
+import { parseActionCustomId, parseAckCustomId, runNotificationAction } from './queue/actions.js';
+import { parseEmbedRequest } from './queue/embeds.js';
+import { validateTemplate, renderTemplate, getTemplateVariables } from './templates/renderer.js';
+import { SEVERITY_LEVELS } from './severity/severityManager.js';
+import { FAILURE_CATEGORIES } from './queue/failures.js';
+import type { ChannelQueueDepth } from './queue/types.js';
 import type { HomeAssistantClient } from './homeAssistant/client.js';
 import type { AutomationTriggerQueue } from './homeAssistant/automationQueue.js';
 import { PermissionManager } from './permissions.js';
@@ -26,6 +51,15 @@ const DISCORD_COLORS = {
   SUCCESS: 0x2ecc71,
 } as const;
 
+// Choices of the severity options, e.g. { name: 'Critical', value: 'critical' }
+const SEVERITY_CHOICES = SEVERITY_LEVELS.map((level) => ({
+  name: level.charAt(0).toUpperCase() + level.slice(1),
+  value: level,
+}));
+
+// Choices of the failure reason options, e.g. { name: 'missing_access', value: 'missing_access' }
+const FAILURE_REASON_CHOICES = FAILURE_CATEGORIES.map((category) => ({ name: category, value: category }));
+
 // Health monitoring thresholds
 const HEALTH_THRESHOLDS = {
   FAILED_WARNING: 5,
@@ -33,6 +67,15 @@ const HEALTH_THRESHOLDS = {
   QUEUE_DEPTH_WARNING: 100,
 } as const;
 
+// Most channels listed under "Channel Queues" in /queue-stats
+const MAX_CHANNEL_QUEUE_LINES = 10;
+
+// Most notifications listed by /dead-letter list
+const MAX_DEAD_LETTER_LINES = 10;
+
+// Most attempts listed by /notification; older ones are summarized to stay within an embed field
+const MAX_ATTEMPT_LINES = 8;
+
 export class CommandHandler {
   private commands: Collection<string, Command>;
   private client: Client;
@@ -71,6 +114,13 @@ export class CommandHandler {
     return `${title}${preview}${ellipsis}`;
   }
 
+  /**
+   * Resolve a user's timezone (their preference, or the bot-wide default)
+   */
+  private async getUserTimezone(userId: string): Promise<string> {
+    return (await this.database.getUserTimezone(userId)) ?? getDefaultTimezone();
+  }
+
   private registerCommands(): void {
     // Ping command
     this.commands.set('ping', {
@@ -96,10 +146,16 @@ export class CommandHandler {
         const stats = await this.queue.getStats();
 
         const scheduled = await this.database.getScheduledNotifications(1);
+        const timezone = await this.getUserTimezone(interaction.user.id);
         const nextScheduled = scheduled.length > 0
-          ? `${formatRelativeTime(scheduled[0].scheduledFor)}`
+          ? `${formatScheduledTime(scheduled[0].scheduledFor, timezone)}`
           : 'None';
 
+        const quietHours = await this.queue.getActiveQuietHours();
+        const quietHoursText = quietHours
+          ? `🌙 Active until ${formatAbsoluteTime(quietHours.endsAt, timezone)} (${quietHours.window.mode})`
+          : 'Inactive';
+
         const embed = new EmbedBuilder()
           .setColor(DISCORD_COLORS.INFO)
           .setTitle('Bot Status')
@@ -113,7 +169,8 @@ export class CommandHandler {
             { name: 'Failed', value: `${stats.failed}`, inline: true },
             { name: 'Sent (24h)', value: `${stats.sent24h}`, inline: true },
             { name: '\u200B', value: '\u200B', inline: true },
-            { name: 'Next Scheduled', value: nextScheduled, inline: false }
+            { name: 'Next Scheduled', value: nextScheduled, inline: false },
+            { name: 'Quiet Hours', value: quietHoursText, inline: false }
           )
           .setTimestamp();
 
@@ -159,10 +216,11 @@ export class CommandHandler {
           return;
         }
 
+        const timezone = await this.getUserTimezone(interaction.user.id);
         const historyText = history
           .map((n) => {
             const statusEmoji = this.getStatusEmoji(n.status);
-            const dateStr = n.createdAt.toLocaleString();
+            const dateStr = formatAbsoluteTime(n.createdAt, timezone);
             return `${statusEmoji} **${n.source}** [ID: ${n.id}] - ${dateStr}\n${this.formatNotificationPreview(n)}`;
           })
           .join('\n\n');
@@ -182,7 +240,7 @@ export class CommandHandler {
         .addStringOption((option) =>
           option
             .setName('time')
-            .setDescription('When to send (e.g., "5m", "2h", "1d")')
+            .setDescription('When to send (e.g., "5m", "in 1h30m", "tomorrow 7am", "friday 18:00")')
             .setRequired(true)
         )
         .addStringOption((option) =>
@@ -206,11 +264,22 @@ export class CommandHandler {
           option
             .setName('severity')
             .setDescription('Notification severity')
-            .addChoices(
-              { name: 'Info', value: 'info' },
-              { name: 'Warning', value: 'warning' },
-              { name: 'Error', value: 'error' }
-            )
+            .addChoices(...SEVERITY_CHOICES)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('repeat')
+            .setDescription('Repeat after the first delivery (e.g., "every 1d at 08:00", "0 8 * * 1")')
+        )
+        .addMentionableOption((option) =>
+          option
+            .setName('mention')
+            .setDescription('User or role to ping with the notification')
+        )
+        .addStringOption((option) =>
+          option
+            .setName('mention_group')
+            .setDescription('Mention group to ping (from the mention config)')
         ),
       execute: async (interaction: ChatInputCommandInteraction) => {
         await interaction.deferReply();
@@ -219,19 +288,34 @@ export class CommandHandler {
         const source = interaction.options.getString('source', true);
         const message = interaction.options.getString('message', true);
         const title = interaction.options.getString('title');
-        const severity = interaction.options.getString('severity') as 'info' | 'warning' | 'error' || 'info';
+        const severity = interaction.options.getString('severity') as NotificationSeverity || 'info';
+        const repeat = interaction.options.getString('repeat');
+        const mentionUser = interaction.options.getUser('mention');
+        const mentionRole = interaction.options.getRole('mention');
+        const mentionGroup = interaction.options.getString('mention_group');
 
         try {
+          const timezone = await this.getUserTimezone(interaction.user.id);
+          const scheduledFor = parseScheduledTime(time, { timezone });
+          const mentions = this.queue.resolveMentions({
+            users: mentionUser ? [mentionUser.id] : undefined,
+            roles: mentionRole ? [mentionRole.id] : undefined,
+            groups: mentionGroup ? [mentionGroup] : undefined,
+          });
           const notificationId = await this.queue.enqueue({
             source,
             title: title || undefined,
             message,
             severity,
-            scheduledFor: time,
+            scheduledFor,
+            recurrence: repeat || undefined,
+            timezone,
+            mentions,
           });
 
           await interaction.editReply(
-            `Notification scheduled! (ID: ${notificationId})\nWill be sent ${formatRelativeTime(new Date(Date.now() + this.parseTimeToMs(time)))}`
+            `Notification scheduled! (ID: ${notificationId})\nWill be sent ${formatScheduledTime(scheduledFor, timezone)}` +
+              (repeat ? `\nRepeats ${describeRecurrence(repeat)} (manage with \`/series\`)` : '')
           );
         } catch (error) {
           await interaction.editReply(
@@ -264,9 +348,10 @@ export class CommandHandler {
           return;
         }
 
+        const timezone = await this.getUserTimezone(interaction.user.id);
         const scheduledText = scheduled
           .map((n) => {
-            const timeStr = formatRelativeTime(n.scheduledFor);
+            const timeStr = formatScheduledTime(n.scheduledFor, timezone);
             return `**[ID: ${n.id}]** ${n.source} - ${timeStr}\n${this.formatNotificationPreview(n)}`;
           })
           .join('\n\n');
@@ -277,6 +362,62 @@ export class CommandHandler {
       },
     });
 
+    // Notification details command
+    this.commands.set('notification', {
+      data: new SlashCommandBuilder()
+        .setName('notification')
+        .setDescription('Show a notification and the timeline of its delivery attempts')
+        .addIntegerOption((option) =>
+          option
+            .setName('id')
+            .setDescription('Notification ID')
+            .setRequired(true)
+        ),
+      execute: async (interaction: ChatInputCommandInteraction) => {
+        await interaction.deferReply();
+
+        const id = interaction.options.getInteger('id', true);
+        const notification = await this.database.getNotificationById(id);
+
+        if (!notification) {
+          await interaction.editReply(`Notification ${id} not found.`);
+          return;
+        }
+
+        const timezone = await this.getUserTimezone(interaction.user.id);
+        const attempts = await this.database.getNotificationAttempts(id);
+
+        // Keep the most recent attempts when there are too many to list
+        const attemptLines = attempts.slice(-MAX_ATTEMPT_LINES).map((attempt) => this.formatAttempt(attempt));
+        if (attempts.length > MAX_ATTEMPT_LINES) {
+          attemptLines.unshift(`...${attempts.length - MAX_ATTEMPT_LINES} earlier attempt(s)`);
+        }
+
+        const embed = new EmbedBuilder()
+          .setColor(DISCORD_COLORS.INFO)
+          .setTitle(`${this.getStatusEmoji(notification.status)} Notification #${notification.id}`)
+          .setDescription(this.formatNotificationPreview(notification, 200))
+          .addFields(
+            { name: 'Status', value: notification.status, inline: true },
+            { name: 'Source', value: notification.source, inline: true },
+            { name: 'Retries', value: `${notification.retryCount}/${notification.maxRetries}`, inline: true },
+            { name: 'Created', value: formatAbsoluteTime(notification.createdAt, timezone), inline: true },
+            { name: 'Scheduled', value: formatAbsoluteTime(notification.scheduledFor, timezone), inline: true },
+            {
+              name: 'Sent',
+              value: notification.sentAt ? formatAbsoluteTime(notification.sentAt, timezone) : '—',
+              inline: true,
+            },
+            {
+              name: `Delivery Attempts (${attempts.length})`,
+              value: attemptLines.length > 0 ? attemptLines.join('\n') : 'No attempts yet',
+            }
+          );
+
+        await interaction.editReply({ embeds: [embed] });
+      },
+    });
+
     // Cancel notification command
     this.commands.set('cancel', {
       data: new SlashCommandBuilder()
@@ -356,7 +497,8 @@ export class CommandHandler {
 
         const failedText = failed
           .map((n) => {
-            return `**[ID: ${n.id}]** ${n.source} - Retries: ${n.retryCount}/${n.maxRetries}\n${this.formatNotificationPreview(n, 80)}\nError: ${n.lastError || 'Unknown'}`;
+            const reason = n.failureReason ? ` (${n.failureReason})` : '';
+            return `**[ID: ${n.id}]** ${n.source} - Retries: ${n.retryCount}/${n.maxRetries}\n${this.formatNotificationPreview(n, 80)}\nError${reason}: ${n.lastError || 'Unknown'}`;
           })
           .join('\n\n');
 
@@ -366,6 +508,109 @@ export class CommandHandler {
       },
     });
 
+    // Dead-letter queue command
+    const addDeadLetterFilters = (subcommand: SlashCommandSubcommandBuilder) =>
+      subcommand
+        .addStringOption((option) => option.setName('source').setDescription('Only notifications from this source'))
+        .addStringOption((option) =>
+          option
+            .setName('reason')
+            .setDescription('Only notifications that failed for this reason')
+            .addChoices(...FAILURE_REASON_CHOICES)
+        )
+        .addStringOption((option) =>
+          option.setName('since').setDescription('Failed after this time (e.g., "24h", "2024-12-25 10:00")')
+        )
+        .addStringOption((option) =>
+          option.setName('until').setDescription('Failed before this time (e.g., "1h", "2024-12-26")')
+        );
+
+    this.commands.set('dead-letter', {
+      data: new SlashCommandBuilder()
+        .setName('dead-letter')
+        .setDescription('Inspect, replay or purge notifications that failed for good')
+        .addSubcommand((subcommand) =>
+          addDeadLetterFilters(subcommand.setName('list').setDescription('List failed notifications and their attempts'))
+        )
+        .addSubcommand((subcommand) =>
+          addDeadLetterFilters(
+            subcommand.setName('replay').setDescription('Send matching failed notifications again with fresh retries')
+          )
+        )
+        .addSubcommand((subcommand) =>
+          addDeadLetterFilters(
+            subcommand.setName('purge').setDescription('Delete matching failed notifications')
+          ).addBooleanOption((option) =>
+            option.setName('all').setDescription('Purge every failed notification when no filter is given')
+          )
+        ),
+      execute: async (interaction: ChatInputCommandInteraction) => {
+        await interaction.deferReply();
+
+        const subcommand = interaction.options.getSubcommand();
+        const timezone = await this.getUserTimezone(interaction.user.id);
+
+        let filter: DeadLetterFilter;
+        try {
+          filter = this.getDeadLetterFilter(interaction, timezone);
+        } catch (error) {
+          await interaction.editReply(`❌ ${error instanceof Error ? error.message : 'Invalid filter'}`);
+          return;
+        }
+
+        if (subcommand === 'list') {
+          const { notifications, total } = await this.database.getDeadLetters(filter, MAX_DEAD_LETTER_LINES);
+          if (total === 0) {
+            await interaction.editReply('No failed notifications match.');
+            return;
+          }
+
+          const lines = await Promise.all(
+            notifications.map(async (n) => {
+              const attempts = await this.database.getNotificationAttempts(n.id);
+              const failedAt = n.failedAt ? `, failed ${formatAbsoluteTime(n.failedAt, timezone)}` : '';
+              return (
+                `**[ID: ${n.id}]** ${n.source} - ${n.failureReason ?? 'unknown'}, ` +
+                `${attempts.length} attempt(s)${failedAt}\n` +
+                `${this.formatNotificationPreview(n, 80)}\nError: ${(n.lastError || 'Unknown').substring(0, 100)}`
+              );
+            })
+          );
+          const more = total > notifications.length ? `\n\n...and ${total - notifications.length} more` : '';
+
+          await interaction.editReply(`**Dead-Letter Queue (${total}):**\n\n${lines.join('\n\n')}${more}`);
+          return;
+        }
+
+        // Replaying and purging act on many notifications at once, so they need Manage Server
+        if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+          await interaction.editReply(`❌ You need the Manage Server permission to ${subcommand} failed notifications.`);
+          return;
+        }
+
+        if (subcommand === 'replay') {
+          const replayed = await this.queue.replayDeadLetters(filter);
+          await interaction.editReply(
+            replayed.length > 0
+              ? `🔄 Replaying ${replayed.length} failed notification(s).`
+              : 'No failed notifications match.'
+          );
+          return;
+        }
+
+        // Purging is permanent, so emptying the whole queue has to be asked for
+        if (Object.keys(filter).length === 0 && !interaction.options.getBoolean('all')) {
+          await interaction.editReply('❌ Add a filter, or set `all` to purge every failed notification.');
+          return;
+        }
+
+        const purged = await this.database.purgeDeadLetters(filter);
+        await interaction.editReply(
+          purged > 0 ? `🗑️ Purged ${purged} failed notification(s).` : 'No failed notifications match.'
+        );
+      },
+    });
+
     // Queue stats command
     this.commands.set('queue-stats', {
       data: new SlashCommandBuilder()
@@ -404,7 +649,16 @@ export class CommandHandler {
           healthStatus = '🟡 Some Failures';
         }
 
-        embed.addFields({ name: 'Health Status', value: healthStatus, inline: false });
+        const depths = this.queue.getChannelQueueDepths();
+        const channelLines = depths.slice(0, MAX_CHANNEL_QUEUE_LINES).map((depth) => this.formatChannelQueue(depth));
+        if (depths.length > MAX_CHANNEL_QUEUE_LINES) {
+          channelLines.push(`...and ${depths.length - MAX_CHANNEL_QUEUE_LINES} more`);
+        }
+
+        embed.addFields(
+          { name: 'Channel Queues', value: channelLines.join('\n') || 'All idle', inline: false },
+          { name: 'Health Status', value: healthStatus, inline: false }
+        );
 
         await interaction.editReply({ embeds: [embed] });
       },
@@ -435,7 +689,7 @@ export class CommandHandler {
         .addStringOption((option) =>
           option
             .setName('time')
-            .setDescription('When to remind you (e.g., "5m", "2h", "1d")')
+            .setDescription('When to remind you (e.g., "5m", "at 18:30", "next monday 9:00")')
             .setRequired(true)
         )
         .addStringOption((option) =>
@@ -443,28 +697,40 @@ export class CommandHandler {
             .setName('message')
             .setDescription('What to remind you about')
             .setRequired(true)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('repeat')
+            .setDescription('Repeat the reminder (e.g., "every 1w at 19:00", "0 8 * * 1-5")')
         ),
       execute: async (interaction: ChatInputCommandInteraction) => {
         await interaction.deferReply();
 
         const time = interaction.options.getString('time', true);
         const message = interaction.options.getString('message', true);
+        const repeat = interaction.options.getString('repeat');
         const username = interaction.user.username;
 
         try {
+          const timezone = await this.getUserTimezone(interaction.user.id);
+          const scheduledFor = parseScheduledTime(time, { timezone });
+
+          // Reminders are DMed; the default channel (with a mention) is only used if DMs are closed
           const notificationId = await this.queue.enqueue({
             source: 'Reminder',
             title: `Reminder for ${username}`,
             message,
             severity: 'info',
-            scheduledFor: time,
+            scheduledFor,
+            delivery: 'dm',
+            recipientUserId: interaction.user.id,
+            recurrence: repeat || undefined,
+            timezone,
           });
 
-          const timeMs = this.parseTimeToMs(time);
-          const scheduledDate = new Date(Date.now() + timeMs);
-
           await interaction.editReply(
-            `✅ Reminder set! (ID: ${notificationId})\nI'll remind you ${formatRelativeTime(scheduledDate)}`
+            `✅ Reminder set! (ID: ${notificationId})\nI'll remind you ${formatScheduledTime(scheduledFor, timezone)}` +
+              (repeat ? `, then ${describeRecurrence(repeat)}` : '')
           );
         } catch (error) {
           await interaction.editReply(
@@ -474,6 +740,439 @@ export class CommandHandler {
       },
     });
 
+    // Recurring series command
+    this.commands.set('series', {
+      data: new SlashCommandBuilder()
+        .setName('series')
+        .setDescription('Manage recurring notifications')
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('list')
+            .setDescription('List recurring notification series')
+            .addStringOption((option) =>
+              option
+                .setName('status')
+                .setDescription('Only show series with this status')
+                .addChoices(
+                  { name: 'Active', value: 'active' },
+                  { name: 'Paused', value: 'paused' },
+                  { name: 'Ended', value: 'ended' }
+                )
+            )
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('pause')
+            .setDescription('Pause a series and cancel its next occurrence')
+            .addIntegerOption((option) =>
+              option.setName('id').setDescription('Series ID').setRequired(true)
+            )
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('resume')
+            .setDescription('Resume a paused series')
+            .addIntegerOption((option) =>
+              option.setName('id').setDescription('Series ID').setRequired(true)
+            )
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('end')
+            .setDescription('Stop a series permanently')
+            .addIntegerOption((option) =>
+              option.setName('id').setDescription('Series ID').setRequired(true)
+            )
+        ),
+      execute: async (interaction: ChatInputCommandInteraction) => {
+        await interaction.deferReply();
+
+        const subcommand = interaction.options.getSubcommand();
+
+        if (subcommand === 'list') {
+          const status = interaction.options.getString('status') as SeriesStatus | null;
+          const seriesList = await this.database.listNotificationSeries(status || undefined);
+
+          if (seriesList.length === 0) {
+            await interaction.editReply('No recurring notifications found.');
+            return;
+          }
+
+          const timezone = await this.getUserTimezone(interaction.user.id);
+          const seriesText = seriesList
+            .map((series) => {
+              const label = series.title || series.source || 'Untitled';
+              const next = series.nextRunAt ? ` - next ${formatScheduledTime(series.nextRunAt, timezone)}` : '';
+              return `**[Series ${series.id}]** ${label} - ${describeRecurrence(series.recurrence)} (${series.status})${next}`;
+            })
+            .join('\n');
+
+          await interaction.editReply({
+            content: `**Recurring Notifications (${seriesList.length}):**\n\n${seriesText}`,
+          });
+          return;
+        }
+
+        const id = interaction.options.getInteger('id', true);
+        const actions = {
+          pause: { run: () => this.queue.pauseSeries(id), done: 'paused', state: 'active' },
+          resume: { run: () => this.queue.resumeSeries(id), done: 'resumed', state: 'paused' },
+          end: { run: () => this.queue.endSeries(id), done: 'ended', state: 'active or paused' },
+        } as const;
+        const action = actions[subcommand as keyof typeof actions];
+
+        if (await action.run()) {
+          await interaction.editReply(`Series ${id} has been ${action.done}.`);
+        } else {
+          await interaction.editReply(
+            `Could not update series ${id}. It may not exist or is not ${action.state}.`
+          );
+        }
+      },
+    });
+
+    // Timezone preference command
+    this.commands.set('timezone', {
+      data: new SlashCommandBuilder()
+        .setName('timezone')
+        .setDescription('Show or set the timezone used for your times')
+        .addStringOption((option) =>
+          option
+            .setName('zone')
+            .setDescription('IANA timezone (e.g., "Europe/Berlin"), or "default" to use the bot default')
+        ),
+      execute: async (interaction: ChatInputCommandInteraction) => {
+        await interaction.deferReply();
+
+        const zone = interaction.options.getString('zone')?.trim();
+        const userId = interaction.user.id;
+
+        if (!zone) {
+          const preference = await this.database.getUserTimezone(userId);
+          const timezone = preference ?? getDefaultTimezone();
+          await interaction.editReply(
+            `Your timezone is **${timezone}**${preference ? '' : ' (bot default)'}. ` +
+              `It is now ${formatAbsoluteTime(new Date(), timezone)}.`
+          );
+          return;
+        }
+
+        if (zone.toLowerCase() === 'default') {
+          await this.database.setUserTimezone(userId, null);
+          await interaction.editReply(`Your timezone has been reset to the bot default (**${getDefaultTimezone()}**).`);
+          return;
+        }
+
+        if (!isValidTimezone(zone)) {
+          await interaction.editReply(
+            `Unknown timezone "${zone}". Use an IANA timezone name such as "Europe/Berlin" or "America/New_York".`
+          );
+          return;
+        }
+
+        await this.database.setUserTimezone(userId, zone);
+        await interaction.editReply(
+          `Your timezone is now **${zone}**. It is now ${formatAbsoluteTime(new Date(), zone)}.`
+        );
+      },
+    });
+
+    // Quiet hours command (admins only)
+    this.commands.set('quiet-hours', {
+      data: new SlashCommandBuilder()
+        .setName('quiet-hours')
+        .setDescription('Manage quiet hours (info and warning notifications are held; errors still go out)')
+        .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('show')
+            .setDescription('Show configured quiet hours')
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('set')
+            .setDescription('Set global or per-channel quiet hours')
+            .addStringOption((option) =>
+              option.setName('start').setDescription('Start time, 24-hour (e.g., "23:00")').setRequired(true)
+            )
+            .addStringOption((option) =>
+              option.setName('end').setDescription('End time, 24-hour (e.g., "07:00")').setRequired(true)
+            )
+            .addStringOption((option) =>
+              option
+                .setName('mode')
+                .setDescription('What happens to held notifications when the window ends')
+                .addChoices(
+                  { name: 'Defer (send each one)', value: 'defer' },
+                  { name: 'Digest (send one summary)', value: 'digest' }
+                )
+            )
+            .addChannelOption((option) =>
+              option
+                .setName('channel')
+                .setDescription('Only apply to this channel (default: all channels)')
+                .addChannelTypes(ChannelType.GuildText)
+            )
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('clear')
+            .setDescription('Remove global or per-channel quiet hours')
+            .addChannelOption((option) =>
+              option
+                .setName('channel')
+                .setDescription('Channel to clear (default: the global window)')
+                .addChannelTypes(ChannelType.GuildText)
+            )
+        ),
+      execute: async (interaction: ChatInputCommandInteraction) => {
+        await interaction.deferReply();
+
+        const subcommand = interaction.options.getSubcommand();
+        const timezone = await this.getUserTimezone(interaction.user.id);
+
+        if (subcommand === 'show') {
+          const windows = await this.database.getQuietHours();
+          if (windows.length === 0) {
+            await interaction.editReply('No quiet hours configured.');
+            return;
+          }
+
+          const windowText = windows.map((window) => this.formatQuietHours(window)).join('\n');
+          const active = await this.queue.getActiveQuietHours();
+          const status = active
+            ? `🌙 Quiet hours are active until ${formatAbsoluteTime(active.endsAt, timezone)}.`
+            : 'Quiet hours are not active right now.';
+
+          await interaction.editReply(`**Quiet Hours:**\n${windowText}\n\n${status}`);
+          return;
+        }
+
+        // Changing quiet hours affects every notification, so it needs Manage Server
+        if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+          await interaction.editReply('❌ You need the Manage Server permission to change quiet hours.');
+          return;
+        }
+
+        const channelId = interaction.options.getChannel('channel')?.id ?? null;
+        const scope = channelId ? `<#${channelId}>` : 'all channels';
+
+        if (subcommand === 'clear') {
+          const cleared = await this.database.clearQuietHours(channelId);
+          await interaction.editReply(
+            cleared ? `Quiet hours for ${scope} have been removed.` : `No quiet hours are set for ${scope}.`
+          );
+          return;
+        }
+
+        let start: string;
+        let end: string;
+        try {
+          start = formatClockTime(parseClockTime(interaction.options.getString('start', true)));
+          end = formatClockTime(parseClockTime(interaction.options.getString('end', true)));
+        } catch (error) {
+          await interaction.editReply(`❌ ${error instanceof Error ? error.message : 'Invalid time'}`);
+          return;
+        }
+
+        if (start === end) {
+          await interaction.editReply('❌ Quiet hours must start and end at different times.');
+          return;
+        }
+
+        const window: QuietHours = {
+          channelId,
+          start,
+          end,
+          mode: (interaction.options.getString('mode') as QuietHoursMode | null) || 'defer',
+          timezone,
+          updatedBy: interaction.user.id,
+        };
+        await this.database.setQuietHours(window);
+
+        await interaction.editReply(`✅ Quiet hours set: ${this.formatQuietHours(window)}`);
+      },
+    });
+
+    // Notification template command
+    this.commands.set('template', {
+      data: new SlashCommandBuilder()
+        .setName('template')
+        .setDescription('Manage notification templates used by the webhook')
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('create')
+            .setDescription('Create or replace a template (placeholders like {{name}} are filled from webhook data)')
+            .addStringOption((option) =>
+              option.setName('name').setDescription('Template name (e.g., "door-open")').setRequired(true)
+            )
+            .addStringOption((option) =>
+              option
+                .setName('message')
+                .setDescription('Message, e.g. "{{door}} opened at {{time}}"')
+                .setRequired(true)
+            )
+            .addStringOption((option) => option.setName('title').setDescription('Title'))
+            .addStringOption((option) =>
+              option
+                .setName('severity')
+                .setDescription('Default severity')
+                .addChoices(...SEVERITY_CHOICES)
+            )
+            .addStringOption((option) =>
+              option.setName('source').setDescription('Source shown in the footer (default: the template name)')
+            )
+            .addStringOption((option) =>
+              option.setName('channel').setDescription('Default channel ID or named route')
+            )
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('list')
+            .setDescription('List templates')
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('preview')
+            .setDescription('Show how a template renders')
+            .addStringOption((option) =>
+              option.setName('name').setDescription('Template name').setRequired(true).setAutocomplete(true)
+            )
+            .addStringOption((option) =>
+              option.setName('data').setDescription('Sample data as JSON, e.g. {"door": "Front door"}')
+            )
+        )
+        .addSubcommand((subcommand) =>
+          subcommand
+            .setName('delete')
+            .setDescription('Delete a template')
+            .addStringOption((option) =>
+              option.setName('name').setDescription('Template name').setRequired(true).setAutocomplete(true)
+            )
+        ),
+      execute: async (interaction: ChatInputCommandInteraction) => {
+        await interaction.deferReply();
+
+        const subcommand = interaction.options.getSubcommand();
+
+        if (subcommand === 'list') {
+          const templates = await this.database.listTemplates();
+          if (templates.length === 0) {
+            await interaction.editReply('No templates found. Create one with `/template create`.');
+            return;
+          }
+
+          const templateText = templates
+            .map((template) => {
+              const variables = getTemplateVariables(template);
+              const label = template.title || template.message;
+              const preview = label.length > 60 ? `${label.substring(0, 60)}...` : label;
+              return `**${template.name}** - ${preview}` + (variables.length > 0 ? ` (${variables.join(', ')})` : '');
+            })
+            .join('\n');
+
+          await interaction.editReply(`**Templates (${templates.length}):**\n\n${templateText}`);
+          return;
+        }
+
+        const name = interaction.options.getString('name', true).trim().toLowerCase();
+
+        if (subcommand === 'preview') {
+          const template = await this.database.getTemplate(name);
+          if (!template) {
+            await interaction.editReply(`❌ Template "${name}" does not exist.`);
+            return;
+          }
+
+          let data: unknown = {};
+          const rawData = interaction.options.getString('data');
+          if (rawData) {
+            try {
+              data = JSON.parse(rawData);
+            } catch {
+              data = undefined;
+            }
+          }
+          if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            await interaction.editReply('❌ `data` must be a JSON object, e.g. `{"door": "Front door"}`.');
+            return;
+          }
+
+          try {
+            const rendered = renderTemplate(template, data as Record<string, unknown>);
+            const { embed, errors } = parseEmbedRequest(rendered);
+            if (errors.length > 0) {
+              throw new Error(errors.join('; '));
+            }
+
+            const target = template.channel ? ` → ${template.channel}` : '';
+            await interaction.editReply({
+              content: `Preview of **${template.name}**${target}`,
+              embeds: [
+                this.queue.buildPreviewEmbed({
+                  source: rendered.source as string,
+                  title: rendered.title as string | undefined,
+                  message: rendered.message as string,
+                  severity: template.severity,
+                  embed,
+                }),
+              ],
+            });
+          } catch (error) {
+            await interaction.editReply(
+              `❌ Template "${template.name}" cannot be rendered: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+          }
+          return;
+        }
+
+        // Templates change what webhook callers send, so editing them needs Manage Server
+        if (!interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+          await interaction.editReply('❌ You need the Manage Server permission to change templates.');
+          return;
+        }
+
+        if (subcommand === 'delete') {
+          const deleted = await this.database.deleteTemplate(name);
+          await interaction.editReply(
+            deleted ? `Template "${name}" has been deleted.` : `❌ Template "${name}" does not exist.`
+          );
+          return;
+        }
+
+        // Layouts with embed options are edited through the webhook API; keep them when replacing text
+        const existing = await this.database.getTemplate(name);
+        const template: NotificationTemplate = {
+          name,
+          message: interaction.options.getString('message', true),
+          title: interaction.options.getString('title') ?? undefined,
+          severity: (interaction.options.getString('severity') as NotificationTemplate['severity']) ?? undefined,
+          source: interaction.options.getString('source') ?? undefined,
+          channel: interaction.options.getString('channel') ?? undefined,
+          embed: existing?.embed,
+          createdBy: interaction.user.id,
+        };
+
+        try {
+          validateTemplate(template);
+          if (template.channel) {
+            this.queue.resolveChannel(template.channel);
+          }
+        } catch (error) {
+          await interaction.editReply(`❌ Invalid template: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          return;
+        }
+
+        const created = await this.database.saveTemplate(template);
+        const variables = getTemplateVariables(template);
+        await interaction.editReply(
+          `✅ Template **${name}** ${created ? 'created' : 'updated'}.` +
+            (variables.length > 0 ? `\n**Variables:** ${variables.map((v) => `\`${v}\``).join(', ')}` : '') +
+            `\nSend it with \`{"template": "${name}", "data": {...}}\` to /webhook/notify.`
+        );
+      },
+    });
+
     // ========================================================================
     // Home Assistant Commands
     // ========================================================================
@@ -499,7 +1198,7 @@ export class CommandHandler {
         .addStringOption((option) =>
           option
             .setName('time')
-            .setDescription('When to trigger (e.g., "5m", "2h", "1d", "now")')
+            .setDescription('When to trigger (e.g., "now", "2h", "tomorrow 7am", "at 22:00")')
             .setRequired(false)
         )
         .addBooleanOption((option) =>
@@ -507,6 +1206,32 @@ export class CommandHandler {
             .setName('notify')
             .setDescription('Send Discord notification on completion')
             .setRequired(false)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('repeat')
+            .setDescription('Repeat the trigger (e.g., "every 1d at 07:00", "30 6 * * mon-fri")')
+            .setRequired(false)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('until')
+            .setDescription('Stop repeating after this time (e.g., "30d", "2025-12-31T23:59:00Z")')
+            .setRequired(false)
+        )
+        .addIntegerOption((option) =>
+          option
+            .setName('count')
+            .setDescription('Stop repeating after this many runs')
+            .setMinValue(1)
+            .setRequired(false)
+        )
+        .addStringOption((option) =>
+          option
+            .setName('retry_policy')
+            .setDescription('Retry policy for failed attempts (default backoff if omitted)')
+            .setRequired(false)
+            .setAutocomplete(true)
         ),
       execute: async (interaction: ChatInputCommandInteraction) => {
         await interaction.deferReply();
@@ -520,8 +1245,18 @@ export class CommandHandler {
         }
 
         const automationId = interaction.options.getString('automation_id', true);
-        const time = interaction.options.getString('time') || 'now';
+        const repeat = interaction.options.getString('repeat');
+        const until = interaction.options.getString('until');
+        const count = interaction.options.getInteger('count');
+        // Recurring triggers without a time start at their first occurrence
+        const time = interaction.options.getString('time') || (repeat ? undefined : 'now');
         const notify = interaction.options.getBoolean('notify') ?? false;
+        const retryPolicyName = interaction.options.getString('retry_policy');
+
+        if (!repeat && (until || count)) {
+          await interaction.editReply('The `until` and `count` options require `repeat`.');
+          return;
+        }
 
         try {
           // Get automation details (optional, for friendly name)
@@ -533,22 +1268,49 @@ export class CommandHandler {
             // Ignore - we'll proceed without friendly name
           }
 
+          const timezone = await this.getUserTimezone(interaction.user.id);
+          const scheduledFor = time ? parseScheduledTime(time, { timezone }) : undefined;
+          const retryPolicy = retryPolicyName ? this.haQueue!.resolveRetryPolicy(retryPolicyName) : undefined;
           const triggerId = await this.haQueue!.enqueue({
             automationId,
             automationName,
-            scheduledFor: time,
+            scheduledFor,
             triggeredBy: interaction.user.id,
             notifyOnComplete: notify,
+            recurrence: repeat || undefined,
+            endsAt: until || undefined,
+            maxOccurrences: count ?? undefined,
+            timezone,
+            retryPolicy,
           });
 
-          const scheduledDate = new Date(Date.now() + this.parseTimeToMs(time));
           const displayName = automationName || automationId;
+          const retryLine = retryPolicy ? `\n**Retry policy:** ${retryPolicy.name}` : '';
+
+          if (repeat) {
+            const trigger = await this.database.getAutomationTrigger(triggerId);
+            const limits = [
+              until ? `until ${until}` : null,
+              count ? `${count} run(s)` : null,
+            ].filter(Boolean);
+
+            await interaction.editReply(
+              `✅ Recurring automation trigger scheduled! (ID: ${triggerId}, series #${trigger?.seriesId})\n` +
+                `**Automation:** ${displayName}\n` +
+                `**First run:** ${trigger ? formatScheduledTime(trigger.scheduledFor, timezone) : 'Unknown'}\n` +
+                `**Repeats:** ${describeRecurrence(repeat)}${limits.length > 0 ? ` (${limits.join(', ')})` : ''}\n` +
+                `**Notify:** ${notify ? 'Yes' : 'No'}` +
+                retryLine
+            );
+            return;
+          }
 
           await interaction.editReply(
             `✅ Automation trigger scheduled! (ID: ${triggerId})\n` +
               `**Automation:** ${displayName}\n` +
-              `**When:** ${time === 'now' ? 'Immediately' : formatRelativeTime(scheduledDate)}\n` +
-              `**Notify:** ${notify ? 'Yes' : 'No'}`
+              `**When:** ${time === 'now' ? 'Immediately' : formatScheduledTime(scheduledFor!, timezone)}\n` +
+              `**Notify:** ${notify ? 'Yes' : 'No'}` +
+              retryLine
           );
         } catch (error) {
           await interaction.editReply(
@@ -587,6 +1349,15 @@ export class CommandHandler {
             return;
           }
 
+          // Look up the series of recurring triggers so they can be shown with their schedule
+          const seriesIds = Array.from(
+            new Set(triggers.map((t) => t.seriesId).filter((id): id is number => id !== null))
+          );
+          const seriesById = new Map(
+            (await this.database.getAutomationTriggerSeriesByIds(seriesIds)).map((series) => [series.id, series])
+          );
+
+          const timezone = await this.getUserTimezone(interaction.user.id);
           const embed = new EmbedBuilder()
             .setColor(DISCORD_COLORS.INFO)
             .setTitle('📅 Scheduled Automation Triggers')
@@ -595,12 +1366,25 @@ export class CommandHandler {
 
           for (const trigger of triggers) {
             const displayName = trigger.automationName || trigger.automationId;
+            const series = trigger.seriesId !== null ? seriesById.get(trigger.seriesId) : undefined;
+            let repeats = '';
+            if (series) {
+              const limits = [
+                series.maxOccurrences !== null ? `run ${series.occurrences}/${series.maxOccurrences}` : null,
+                series.endsAt ? `until ${formatAbsoluteTime(series.endsAt, timezone)}` : null,
+              ].filter(Boolean);
+              repeats =
+                `\n**Repeats:** ${describeRecurrence(series.recurrence)} (series #${series.id}` +
+                `${limits.length > 0 ? `, ${limits.join(', ')}` : ''})`;
+            }
+
             embed.addFields({
-              name: `#${trigger.id} - ${displayName}`,
+              name: `${series ? '🔁' : ''}#${trigger.id} - ${displayName}`,
               value:
                 `**Automation ID:** ${trigger.automationId}\n` +
-                `**Scheduled:** ${formatRelativeTime(trigger.scheduledFor)}\n` +
-                `**Triggered By:** <@${trigger.triggeredBy}>`,
+                `**Scheduled:** ${formatScheduledTime(trigger.scheduledFor, timezone)}\n` +
+                `**Triggered By:** <@${trigger.triggeredBy}>` +
+                repeats,
             });
           }
 
@@ -623,13 +1407,33 @@ export class CommandHandler {
             .setName('id')
             .setDescription('Trigger ID to cancel')
             .setRequired(true)
+        )
+        .addBooleanOption((option) =>
+          option
+            .setName('series')
+            .setDescription('Also stop the recurring series this trigger belongs to')
+            .setRequired(false)
         ),
       execute: async (interaction: ChatInputCommandInteraction) => {
         await interaction.deferReply();
 
         const id = interaction.options.getInteger('id', true);
+        const cancelSeries = interaction.options.getBoolean('series') ?? false;
 
         try {
+          if (cancelSeries) {
+            const trigger = await this.database.getAutomationTrigger(id);
+            if (!trigger || trigger.seriesId === null) {
+              throw new Error(`Trigger ${id} is not part of a recurring series`);
+            }
+
+            await this.haQueue!.cancelSeries(trigger.seriesId);
+            await interaction.editReply(
+              `✅ Recurring series #${trigger.seriesId} has been stopped and its pending trigger cancelled.`
+            );
+            return;
+          }
+
           await this.haQueue!.cancelTrigger(id);
           await interaction.editReply(`✅ Automation trigger #${id} has been cancelled.`);
         } catch (error) {
@@ -680,6 +1484,7 @@ export class CommandHandler {
             return;
           }
 
+          const timezone = await this.getUserTimezone(interaction.user.id);
           const embed = new EmbedBuilder()
             .setColor(DISCORD_COLORS.INFO)
             .setTitle('📜 Automation Trigger History')
@@ -691,11 +1496,11 @@ export class CommandHandler {
             const emoji = this.getStatusEmoji(trigger.status as any);
 
             let value = `**Status:** ${emoji} ${trigger.status}\n` +
-              `**Scheduled:** ${trigger.scheduledFor.toLocaleString()}\n` +
+              `**Scheduled:** ${formatAbsoluteTime(trigger.scheduledFor, timezone)}\n` +
               `**Triggered By:** <@${trigger.triggeredBy}>`;
 
             if (trigger.triggeredAt) {
-              value += `\n**Triggered At:** ${trigger.triggeredAt.toLocaleString()}`;
+              value += `\n**Triggered At:** ${formatAbsoluteTime(trigger.triggeredAt, timezone)}`;
             }
 
             if (trigger.lastError) {
@@ -765,6 +1570,77 @@ export class CommandHandler {
     });
   }
 
+  /**
+   * Format a quiet-hours window for display
+   */
+  private formatQuietHours(window: QuietHours): string {
+    const scope = window.channelId ? `<#${window.channelId}>` : 'All channels';
+    const mode = window.mode === 'digest' ? 'sent as a digest' : 'deferred';
+    return `**${scope}:** ${window.start}-${window.end} ${window.timezone} (${mode})`;
+  }
+
+  /**
+   * Read the source, reason, since and until options of a /dead-letter subcommand
+   *
+   * @throws Error if a time cannot be parsed or the range is empty
+   */
+  private getDeadLetterFilter(interaction: ChatInputCommandInteraction, timezone: string): DeadLetterFilter {
+    const filter: DeadLetterFilter = {};
+
+    const source = interaction.options.getString('source');
+    if (source) filter.source = source;
+
+    const reason = interaction.options.getString('reason');
+    if (reason) filter.failureReason = reason as FailureCategory;
+
+    const since = interaction.options.getString('since');
+    if (since) filter.since = parsePastTime(since, { timezone });
+
+    const until = interaction.options.getString('until');
+    if (until) filter.until = parsePastTime(until, { timezone });
+
+    if (filter.since && filter.until && filter.since >= filter.until) {
+      throw new Error('`since` must be before `until`.');
+    }
+
+    return filter;
+  }
+
+  /**
+   * Format a channel's delivery queue depth for display
+   */
+  private formatChannelQueue(depth: ChannelQueueDepth): string {
+    const target = depth.key.startsWith('dm:') ? `DM <@${depth.key.slice(3)}>` : `<#${depth.key}>`;
+    const state = depth.pausedUntil
+      ? `rate limited until <t:${Math.ceil(depth.pausedUntil.getTime() / 1000)}:T>`
+      : depth.inFlight > 0 ? 'sending' : 'idle';
+    return `**${target}:** ${depth.waiting} waiting, ${state}`;
+  }
+
+  /**
+   * Format one line of a notification's attempt timeline, e.g.
+   * "2. ❌ 14:05:10 (830 ms) - HTTP 502 server_error: Bad Gateway"
+   *
+   * Times are Discord timestamps, shown with seconds in the reader's own timezone.
+   */
+  private formatAttempt(attempt: NotificationAttempt): string {
+    const icon = attempt.outcome === 'sent' ? '✅' : '❌';
+    const when = attempt.attemptedAt ? `<t:${Math.floor(attempt.attemptedAt.getTime() / 1000)}:T>` : 'unknown time';
+    const duration =
+      attempt.startedAt && attempt.attemptedAt
+        ? ` (${attempt.attemptedAt.getTime() - attempt.startedAt.getTime()} ms)`
+        : '';
+
+    if (attempt.outcome === 'sent') {
+      return `${attempt.attempt}. ${icon} ${when}${duration}`;
+    }
+
+    const status = attempt.httpStatus ? `HTTP ${attempt.httpStatus} ` : '';
+    const reason = attempt.failureReason ? `${attempt.failureReason}: ` : '';
+    const error = (attempt.error || 'Unknown error').substring(0, 50);
+    return `${attempt.attempt}. ${icon} ${when}${duration} - ${status}${reason}${error}`;
+  }
+
   private getStatusEmoji(status: NotificationStatus): string {
     switch (status) {
       case 'sent':
@@ -782,25 +1658,6 @@ export class CommandHandler {
     }
   }
 
-  private parseTimeToMs(time: string): number {
-    const match = time.match(/^(\d+)(m|h|d)$/);
-    if (!match) return 0;
-
-    const value = parseInt(match[1], 10);
-    const unit = match[2];
-
-    switch (unit) {
-      case 'm':
-        return value * 60 * 1000;
-      case 'h':
-        return value * 60 * 60 * 1000;
-      case 'd':
-        return value * 24 * 60 * 60 * 1000;
-      default:
-        return 0;
-    }
-  }
-
   async handleInteraction(interaction: Interaction): Promise<void> {
     // Handle autocomplete interactions
     if (interaction.isAutocomplete()) {
@@ -808,6 +1665,16 @@ export class CommandHandler {
       return;
     }
 
+    // Handle notification action and Acknowledge buttons
+    if (interaction.isButton()) {
+      if (parseAckCustomId(interaction.customId) !== null) {
+        await this.handleAcknowledgeButton(interaction);
+      } else {
+        await this.handleActionButton(interaction);
+      }
+      return;
+    }
+
     // Handle command interactions
     if (!interaction.isCommand()) return;
 
@@ -831,6 +1698,83 @@ export class CommandHandler {
     }
   }
 
+  /**
+   * Handle a click on a notification's Acknowledge button
+   */
+  private async handleAcknowledgeButton(interaction: ButtonInteraction): Promise<void> {
+    const id = parseAckCustomId(interaction.customId)!;
+
+    await interaction.deferReply({ flags: 1 << 6 }); // Ephemeral
+
+    if (await this.queue.acknowledge(id, interaction.user.id)) {
+      await interaction.editReply({ content: `✅ Notification #${id} acknowledged` });
+      return;
+    }
+
+    const notification = await this.database.getNotificationById(id);
+    await interaction.editReply({
+      content: notification?.acknowledgedBy
+        ? `Notification #${id} was already acknowledged by <@${notification.acknowledgedBy}>`
+        : `❌ Notification #${id} cannot be acknowledged`,
+    });
+  }
+
+  /**
+   * Handle a click on a notification action button
+   *
+   * Runs the action if the user is allowed to use Home Assistant commands and
+   * records who clicked what.
+   */
+  private async handleActionButton(interaction: ButtonInteraction): Promise<void> {
+    const target = parseActionCustomId(interaction.customId);
+    if (!target) return;
+
+    await interaction.deferReply({ flags: 1 << 6 }); // Ephemeral
+
+    const notification = await this.database.getNotificationById(target.notificationId);
+    const action = notification?.actions?.[target.index];
+    if (!notification || !action) {
+      await interaction.editReply({ content: '❌ This action is no longer available.' });
+      return;
+    }
+
+    const entry = {
+      notificationId: notification.id,
+      actionIndex: target.index,
+      label: action.label,
+      userId: interaction.user.id,
+      username: interaction.user.username,
+    };
+
+    if (this.permissionManager && !this.permissionManager.isUserAllowed(interaction.user.id)) {
+      await this.database.logNotificationAction({ ...entry, result: 'denied' });
+      console.log(
+        `[Actions] ${interaction.user.username} was denied "${action.label}" on notification ${notification.id}`
+      );
+      await interaction.editReply({ content: '❌ You do not have permission to use this action.' });
+      return;
+    }
+
+    try {
+      await runNotificationAction(action, this.haClient, {
+        notificationId: notification.id,
+        action: action.label,
+        userId: interaction.user.id,
+        username: interaction.user.username,
+      });
+
+      await this.database.logNotificationAction({ ...entry, result: 'succeeded' });
+      console.log(`[Actions] ${interaction.user.username} ran "${action.label}" on notification ${notification.id}`);
+      await interaction.editReply({ content: `✅ ${action.label}: done` });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+
+      await this.database.logNotificationAction({ ...entry, result: 'failed', error: errorMessage });
+      console.error(`[Actions] "${action.label}" on notification ${notification.id} failed:`, error);
+      await interaction.editReply({ content: `❌ ${action.label} failed: ${errorMessage}` });
+    }
+  }
+
   /**
    * Handle autocomplete interactions for Home Assistant automation IDs
    */
@@ -838,6 +1782,32 @@ export class CommandHandler {
     try {
       const focusedOption = interaction.options.getFocused(true);
 
+      // Template names for /template preview and delete
+      if (interaction.commandName === 'template' && focusedOption.name === 'name') {
+        const userInput = focusedOption.value.toLowerCase();
+        const templates = await this.database.listTemplates();
+        await interaction.respond(
+          templates
+            .filter((template) => template.name.includes(userInput))
+            .slice(0, 25)
+            .map((template) => ({ name: template.name, value: template.name }))
+        );
+        return;
+      }
+
+      // Retry policy names for /ha-trigger
+      if (interaction.commandName === 'ha-trigger' && focusedOption.name === 'retry_policy') {
+        const userInput = focusedOption.value.toLowerCase();
+        const names = this.haQueue?.getRetryPolicyNames() ?? [];
+        await interaction.respond(
+          names
+            .filter((name) => name.toLowerCase().includes(userInput))
+            .slice(0, 25)
+            .map((name) => ({ name, value: name }))
+        );
+        return;
+      }
+
       // Only handle automation_id autocomplete
       if (focusedOption.name !== 'automation_id') {
         await interaction.respond([]);
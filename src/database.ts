@@ -3,25 +3,173 @@ import { promisify } from 'util';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs/promises';
+import crypto from 'crypto';
 import type {
   AutomationTrigger,
   AutomationTriggerInput,
   AutomationTriggerStatus,
   AutomationTriggerQueryOptions,
+  AutomationTriggerSeries,
+  AutomationTriggerSeriesStatus,
+  AutomationTriggerAttempt,
 } from './homeAssistant/types.js';
+import type { RetryPolicy } from './retry/types.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// When a dead letter failed; created_at (SQLite format) stands in for rows from before failed_at (ISO) existed
+const DEAD_LETTER_TIME = 'datetime(COALESCE(failed_at, created_at))';
+
 export type NotificationStatus = 'pending' | 'processing' | 'sent' | 'failed' | 'cancelled';
 
+export type NotificationSeverity = 'debug' | 'info' | 'success' | 'warning' | 'error' | 'critical';
+
+// Why a delivery attempt failed (see queue/failures.ts for which ones are retried)
+export type FailureCategory =
+  | 'missing_access'
+  | 'missing_permissions'
+  | 'unknown_channel'
+  | 'unknown_user'
+  | 'invalid_channel'
+  | 'invalid_payload'
+  | 'payload_too_large'
+  | 'missing_attachment'
+  | 'rejected'
+  | 'rate_limited'
+  | 'server_error'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+export type DeliveryMode = 'channel' | 'dm';
+
+export type DedupeAction = 'drop' | 'count';
+
+export type NotificationActionStyle = 'primary' | 'secondary' | 'success' | 'danger';
+
+/**
+ * Button shown on a notification; exactly one of automation, service or url is set
+ */
+export interface NotificationAction {
+  label: string;
+  style?: NotificationActionStyle; // Default: 'secondary'
+  automation?: string; // Home Assistant automation to trigger (e.g., "automation.close_garage")
+  service?: string; // Home Assistant service to call (e.g., "cover.close_cover")
+  data?: Record<string, any>; // Service data (e.g., { "entity_id": "cover.garage" })
+  url?: string; // Webhook callback URL to POST the click to
+}
+
+export type NotificationActionResult = 'succeeded' | 'failed' | 'denied';
+
+export interface NotificationActionLogEntry {
+  id?: number;
+  createdAt?: Date;
+  notificationId: number;
+  actionIndex: number;
+  label: string;
+  userId: string;
+  username?: string;
+  result: NotificationActionResult;
+  error?: string;
+}
+
+export type AttemptOutcome = 'sent' | 'failed';
+
+/**
+ * One delivery attempt of a notification
+ */
+export interface NotificationAttempt {
+  id?: number;
+  notificationId: number;
+  attempt?: number; // 1 for the first attempt; assigned when recorded
+  startedAt?: Date; // Unset for attempts recorded before start times were kept
+  attemptedAt?: Date; // When the attempt finished
+  outcome: AttemptOutcome;
+  error?: string;
+  failureReason?: FailureCategory;
+  httpStatus?: number; // Status of Discord's error response
+}
+
+/**
+ * Selects failed notifications in the dead-letter queue (all of them when empty)
+ */
+export interface DeadLetterFilter {
+  source?: string;
+  failureReason?: FailureCategory;
+  since?: Date; // Failed at or after
+  until?: Date; // Failed before
+}
+
+export interface NotificationEmbedField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+/**
+ * Optional rich content of a notification's embed
+ */
+export interface NotificationEmbed {
+  fields?: NotificationEmbedField[];
+  url?: string; // Link on the title
+  imageUrl?: string;
+  thumbnailUrl?: string;
+  author?: { name: string; url?: string; iconUrl?: string };
+  footer?: string; // Replaces the source in the footer
+  color?: number; // Replaces the severity color
+}
+
+/**
+ * File stored under the data directory and attached to a notification's message
+ */
+export interface NotificationAttachment {
+  name: string; // File name shown in Discord (usable as attachment://<name> in the embed)
+  path: string; // Where the file is stored
+  contentType: string;
+  size: number; // Bytes
+}
+
+/**
+ * File uploaded with a notification, before it is stored
+ */
+export interface AttachmentUpload {
+  name: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface NotificationMentions {
+  users?: string[]; // Discord user IDs
+  roles?: string[]; // Discord role IDs
+}
+
 export interface NotificationInput {
   source: string;
   title?: string;
   message: string;
-  severity?: 'info' | 'warning' | 'error';
+  severity?: NotificationSeverity;
   scheduledFor?: Date | string;
   maxRetries?: number;
+  retryPolicy?: RetryPolicy; // Backoff of retries; the default policy when omitted
+  priority?: number; // Queue priority, 0-10; higher goes out first (default: from the severity level)
   metadata?: Record<string, any>;
+  channel?: string; // Discord channel ID or named route (DM fallback channel when delivery is 'dm')
+  mentions?: NotificationMentions;
+  delivery?: DeliveryMode;
+  recipientUserId?: string; // Required when delivery is 'dm'
+  recurrence?: string; // Cron expression or "every 1d at 08:00"; creates a notification series
+  timezone?: string; // IANA timezone for wall-clock scheduledFor and recurrence (default: BOT_TIMEZONE)
+  dedupeKey?: string; // Repeats with the same key within the window are coalesced
+  dedupeWindowSeconds?: number; // Window since the last repeat (default: 300)
+  dedupeAction?: DedupeAction; // 'count' bumps a counter on the existing message (default), 'drop' ignores repeats
+  actions?: NotificationAction[]; // Buttons shown on the Discord message
+  embed?: NotificationEmbed; // Fields, links, images, author, footer and color
+  attachments?: NotificationAttachment[]; // Files stored with storeAttachments()
+  template?: string; // Template the notification was rendered from
+  ackRequired?: boolean; // Escalate unless someone acknowledges the notification
+  escalationPolicy?: string; // Set internally to the escalation policy that applies
+  digest?: boolean; // Deliver in the next periodic digest instead of on its own
+  seriesId?: number; // Set internally for occurrences of a series
 }
 
 export interface QueuedNotification {
@@ -32,13 +180,106 @@ export interface QueuedNotification {
   source: string;
   title?: string;
   message: string;
-  severity: 'info' | 'warning' | 'error';
+  severity: NotificationSeverity;
   discordMessageId?: string;
   status: NotificationStatus;
   retryCount: number;
   maxRetries: number;
   lastError?: string;
+  failureReason?: FailureCategory; // Category of the last delivery failure
+  failedAt?: Date; // When the notification ran out of attempts
+  nextAttemptAt?: Date; // Earliest time of the next retry while backing off after a failure
+  retryPolicy?: RetryPolicy; // Retry policy chosen when the notification was created
+  priority: number; // Queue priority; higher goes out first
   metadata?: Record<string, any>;
+  channelId?: string;
+  mentions?: NotificationMentions;
+  deliveryMode: DeliveryMode;
+  recipientUserId?: string;
+  seriesId?: number;
+  quietDigest: boolean; // Held for a digest (quiet hours or periodic), delivered when due
+  heldUntil?: Date; // End of the latest quiet-hours or digest hold; scheduledFor keeps the original time
+  dedupeKey?: string;
+  repeatCount: number; // Repeats coalesced into this notification
+  lastSeenAt?: Date; // When the notification or its latest repeat arrived (deduplicated notifications only)
+  discordChannelId?: string; // Channel (or DM channel) the Discord message was posted in
+  resolvedAt?: Date; // When the alert was marked resolved
+  actions?: NotificationAction[];
+  embed?: NotificationEmbed;
+  attachments?: NotificationAttachment[];
+  template?: string;
+  ackRequired: boolean;
+  acknowledgedBy?: string; // Discord user ID
+  acknowledgedAt?: Date;
+  escalationPolicy?: string;
+  escalationLevel: number; // Escalations so far
+  escalateAt?: Date; // When to escalate next, if still unacknowledged
+  digest: boolean; // Delivered in the periodic digest
+  digestId?: number; // Digest that delivered the notification
+}
+
+export interface NotificationUpdate {
+  title?: string;
+  message?: string;
+  severity?: NotificationSeverity;
+}
+
+export type SeriesStatus = 'active' | 'paused' | 'ended';
+
+export interface NotificationSeries {
+  id: number;
+  createdAt: Date;
+  recurrence: string;
+  timezone?: string; // IANA timezone the recurrence is evaluated in (default: BOT_TIMEZONE)
+  status: SeriesStatus;
+  endedAt?: Date;
+  // Taken from the series' occurrences
+  source?: string;
+  title?: string;
+  nextRunAt?: Date;
+}
+
+export type QuietHoursMode = 'defer' | 'digest';
+
+export type DigestKind = 'quiet_hours' | 'periodic';
+
+/**
+ * A summary message that delivered several held notifications at once
+ */
+export interface NotificationDigest {
+  id: number;
+  createdAt: Date;
+  kind: DigestKind;
+  channelId: string;
+  discordMessageId: string;
+  discordChannelId?: string;
+  notificationCount: number;
+}
+
+export interface QuietHours {
+  channelId: string | null; // null = global window
+  start: string; // "HH:MM"
+  end: string; // "HH:MM"; before start for windows that span midnight
+  mode: QuietHoursMode;
+  timezone: string;
+  updatedBy?: string;
+  updatedAt?: Date;
+}
+
+/**
+ * Reusable notification layout with Handlebars-style placeholders ({{name}})
+ */
+export interface NotificationTemplate {
+  name: string; // Lowercase letters, digits, "-" and "_"
+  source?: string; // Default: the template name
+  title?: string;
+  message: string;
+  severity?: NotificationSeverity;
+  embed?: Record<string, unknown>; // Embed options as in the webhook (fields, url, image_url, ...)
+  channel?: string; // Default channel ID or named route
+  createdBy?: string; // Discord user ID, or undefined when saved through the webhook
+  createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export interface QueueStats {
@@ -94,6 +335,99 @@ export class Database {
       )
     `);
 
+    // Clicks on notification action buttons
+    await run(`
+      CREATE TABLE IF NOT EXISTS notification_action_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        notification_id INTEGER NOT NULL,
+        action_index INTEGER NOT NULL,
+        label TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        username TEXT,
+        result TEXT NOT NULL,
+        error TEXT,
+        FOREIGN KEY (notification_id) REFERENCES notifications(id)
+      )
+    `);
+
+    // Every delivery attempt of a notification
+    await run(`
+      CREATE TABLE IF NOT EXISTS notification_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        notification_id INTEGER NOT NULL,
+        attempt INTEGER NOT NULL,
+        attempted_at DATETIME NOT NULL,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        failure_reason TEXT,
+        FOREIGN KEY (notification_id) REFERENCES notifications(id)
+      )
+    `);
+    await run('CREATE INDEX IF NOT EXISTS idx_notification_attempts_notification_id ON notification_attempts(notification_id)');
+
+    // Digest messages (the notifications they delivered have digest_id set)
+    await run(`
+      CREATE TABLE IF NOT EXISTS notification_digests (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        kind TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        discord_message_id TEXT NOT NULL,
+        discord_channel_id TEXT,
+        notification_count INTEGER NOT NULL
+      )
+    `);
+
+    // Notification templates
+    await run(`
+      CREATE TABLE IF NOT EXISTS notification_templates (
+        name TEXT PRIMARY KEY,
+        source TEXT,
+        title TEXT,
+        message TEXT NOT NULL,
+        severity TEXT,
+        embed TEXT,
+        channel TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Quiet-hours windows ('global' or a Discord channel ID)
+    await run(`
+      CREATE TABLE IF NOT EXISTS quiet_hours (
+        scope TEXT PRIMARY KEY,
+        start_time TEXT NOT NULL,
+        end_time TEXT NOT NULL,
+        mode TEXT DEFAULT 'defer',
+        timezone TEXT NOT NULL,
+        updated_by TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Per-user preferences (one row per Discord user)
+    await run(`
+      CREATE TABLE IF NOT EXISTS user_preferences (
+        user_id TEXT PRIMARY KEY,
+        timezone TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Recurring notification series (occurrences live in notifications.series_id)
+    await run(`
+      CREATE TABLE IF NOT EXISTS notification_series (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        recurrence TEXT NOT NULL,
+        status TEXT DEFAULT 'active',
+        ended_at DATETIME
+      )
+    `);
+
     // Home Assistant entity tracking (optional - for future use)
     await run(`
       CREATE TABLE IF NOT EXISTS ha_entities (
@@ -124,12 +458,57 @@ export class Database {
       )
     `);
 
+    // Recurring automation trigger series (occurrences live in ha_automation_triggers.series_id)
+    await run(`
+      CREATE TABLE IF NOT EXISTS ha_trigger_series (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        automation_id TEXT NOT NULL,
+        automation_name TEXT,
+        triggered_by TEXT NOT NULL,
+        recurrence TEXT NOT NULL,
+        notify_on_complete BOOLEAN DEFAULT 0,
+        max_retries INTEGER DEFAULT 3,
+        ends_at DATETIME,
+        max_occurrences INTEGER,
+        occurrences INTEGER DEFAULT 0,
+        status TEXT DEFAULT 'active'
+      )
+    `);
+
+    // Every attempt to trigger an automation
+    await run(`
+      CREATE TABLE IF NOT EXISTS ha_trigger_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        trigger_id INTEGER NOT NULL,
+        attempt INTEGER NOT NULL,
+        started_at DATETIME NOT NULL,
+        attempted_at DATETIME NOT NULL,
+        outcome TEXT NOT NULL,
+        error TEXT,
+        http_status INTEGER,
+        FOREIGN KEY (trigger_id) REFERENCES ha_automation_triggers(id)
+      )
+    `);
+    await run('CREATE INDEX IF NOT EXISTS idx_ha_trigger_attempts_trigger_id ON ha_trigger_attempts(trigger_id)');
+
+    // Columns added after the initial schema
+    await this.ensureColumn('ha_automation_triggers', 'series_id', 'INTEGER');
+    await this.ensureColumn('ha_automation_triggers', 'next_attempt_at', 'DATETIME');
+    await this.ensureColumn('ha_automation_triggers', 'retry_policy', 'TEXT');
+    await this.ensureColumn('ha_trigger_series', 'retry_policy', 'TEXT');
+    await this.ensureColumn('notification_series', 'timezone', 'TEXT');
+    await this.ensureColumn('ha_trigger_series', 'timezone', 'TEXT');
+    await this.ensureColumn('notification_attempts', 'started_at', 'DATETIME');
+    await this.ensureColumn('notification_attempts', 'http_status', 'INTEGER');
+
     // Create indexes for efficient querying of automation triggers
     await run('CREATE INDEX IF NOT EXISTS idx_ha_triggers_status ON ha_automation_triggers(status)');
     await run('CREATE INDEX IF NOT EXISTS idx_ha_triggers_scheduled_for ON ha_automation_triggers(scheduled_for)');
     await run('CREATE INDEX IF NOT EXISTS idx_ha_triggers_status_scheduled ON ha_automation_triggers(status, scheduled_for)');
     await run('CREATE INDEX IF NOT EXISTS idx_ha_triggers_automation_id ON ha_automation_triggers(automation_id)');
     await run('CREATE INDEX IF NOT EXISTS idx_ha_triggers_triggered_by ON ha_automation_triggers(triggered_by)');
+    await run('CREATE INDEX IF NOT EXISTS idx_ha_triggers_series_id ON ha_automation_triggers(series_id)');
   }
 
   private async migrateNotificationsTable(): Promise<void> {
@@ -199,10 +578,70 @@ export class Database {
       )
     `);
 
+    // Columns added after the initial schema
+    await this.ensureColumn('notifications', 'channel_id', 'TEXT');
+    await this.ensureColumn('notifications', 'mentions', 'TEXT');
+    await this.ensureColumn('notifications', 'delivery_mode', "TEXT DEFAULT 'channel'");
+    await this.ensureColumn('notifications', 'recipient_user_id', 'TEXT');
+    await this.ensureColumn('notifications', 'series_id', 'INTEGER');
+    await this.ensureColumn('notifications', 'quiet_digest', 'BOOLEAN DEFAULT 0');
+    await this.ensureColumn('notifications', 'dedupe_key', 'TEXT');
+    await this.ensureColumn('notifications', 'repeat_count', 'INTEGER DEFAULT 0');
+    await this.ensureColumn('notifications', 'last_seen_at', 'DATETIME');
+    await this.ensureColumn('notifications', 'discord_channel_id', 'TEXT');
+    await this.ensureColumn('notifications', 'resolved_at', 'DATETIME');
+    await this.ensureColumn('notifications', 'actions', 'TEXT');
+    await this.ensureColumn('notifications', 'ack_required', 'BOOLEAN DEFAULT 0');
+    await this.ensureColumn('notifications', 'acknowledged_by', 'TEXT');
+    await this.ensureColumn('notifications', 'acknowledged_at', 'DATETIME');
+    await this.ensureColumn('notifications', 'escalation_policy', 'TEXT');
+    await this.ensureColumn('notifications', 'escalation_level', 'INTEGER DEFAULT 0');
+    await this.ensureColumn('notifications', 'escalate_at', 'DATETIME');
+    await this.ensureColumn('notifications', 'digest', 'BOOLEAN DEFAULT 0');
+    await this.ensureColumn('notifications', 'digest_id', 'INTEGER');
+    await this.ensureColumn('notifications', 'embed', 'TEXT');
+    await this.ensureColumn('notifications', 'attachments', 'TEXT');
+    await this.ensureColumn('notifications', 'template', 'TEXT');
+    await this.ensureColumn('notifications', 'failure_reason', 'TEXT');
+    await this.ensureColumn('notifications', 'failed_at', 'DATETIME');
+    await this.ensureColumn('notifications', 'next_attempt_at', 'DATETIME');
+    await this.ensureColumn('notifications', 'retry_policy', 'TEXT');
+    await this.ensureColumn('notifications', 'priority', 'INTEGER DEFAULT 0');
+    await this.ensureColumn('notifications', 'held_until', 'DATETIME');
+
     // Create indexes for efficient querying
     await run('CREATE INDEX IF NOT EXISTS idx_notifications_status ON notifications(status)');
     await run('CREATE INDEX IF NOT EXISTS idx_notifications_scheduled_for ON notifications(scheduled_for)');
     await run('CREATE INDEX IF NOT EXISTS idx_notifications_status_scheduled ON notifications(status, scheduled_for)');
+    await run('CREATE INDEX IF NOT EXISTS idx_notifications_series_id ON notifications(series_id)');
+    await run('CREATE INDEX IF NOT EXISTS idx_notifications_dedupe_key ON notifications(dedupe_key)');
+    await run('CREATE INDEX IF NOT EXISTS idx_notifications_escalate_at ON notifications(escalate_at)');
+    await run('CREATE INDEX IF NOT EXISTS idx_notifications_digest_id ON notifications(digest_id)');
+  }
+
+  /**
+   * Add a column to an existing table if it is missing (schema upgrades)
+   */
+  private async ensureColumn(table: string, column: string, definition: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const columns = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(`PRAGMA table_info(${table})`, (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows);
+      });
+    });
+
+    if (columns.some(c => c.name === column)) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      this.db!.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, (err) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
   }
 
   // ============================================================================
@@ -219,20 +658,43 @@ export class Database {
       : new Date().toISOString();
 
     const metadata = notification.metadata ? JSON.stringify(notification.metadata) : null;
+    const mentions = notification.mentions ? JSON.stringify(notification.mentions) : null;
+    const actions = notification.actions?.length ? JSON.stringify(notification.actions) : null;
+    const embed = notification.embed ? JSON.stringify(notification.embed) : null;
+    const attachments = notification.attachments?.length ? JSON.stringify(notification.attachments) : null;
+    const retryPolicy = notification.retryPolicy ? JSON.stringify(notification.retryPolicy) : null;
 
     return new Promise((resolve, reject) => {
       this.db!.run(
         `INSERT INTO notifications (
-          source, title, message, severity, scheduled_for, max_retries, metadata, status
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')`,
+          source, title, message, severity, scheduled_for, max_retries, retry_policy, priority, metadata, channel_id,
+          mentions, delivery_mode, recipient_user_id, series_id, dedupe_key, last_seen_at, actions,
+          ack_required, escalation_policy, digest, embed, attachments, template, status
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
         [
           notification.source,
           notification.title || null,
           notification.message,
           notification.severity || 'info',
           scheduledFor,
-          notification.maxRetries || 3,
+          notification.maxRetries ?? 3,
+          retryPolicy,
+          notification.priority ?? 0,
           metadata,
+          notification.channel || null,
+          mentions,
+          notification.delivery || 'channel',
+          notification.recipientUserId || null,
+          notification.seriesId ?? null,
+          notification.dedupeKey || null,
+          notification.dedupeKey ? new Date().toISOString() : null,
+          actions,
+          notification.ackRequired ? 1 : 0,
+          notification.escalationPolicy || null,
+          notification.digest ? 1 : 0,
+          embed,
+          attachments,
+          notification.template || null,
         ],
         function (err) {
           if (err) reject(err);
@@ -261,7 +723,8 @@ export class Database {
   async updateNotificationStatus(
     id: number,
     status: NotificationStatus,
-    error?: string
+    error?: string,
+    failureReason?: FailureCategory
   ): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -270,12 +733,15 @@ export class Database {
         this.db!.run('BEGIN TRANSACTION');
 
         const sentAt = status === 'sent' ? new Date().toISOString() : null;
+        const failedAt = status === 'failed' ? new Date().toISOString() : null;
 
+        // Leaving 'pending' means the retry the backoff was waiting for has started
         this.db!.run(
           `UPDATE notifications
-           SET status = ?, last_error = ?, sent_at = ?
+           SET status = ?, last_error = ?, failure_reason = ?, sent_at = ?, failed_at = ?,
+               next_attempt_at = CASE WHEN ? = 'pending' THEN next_attempt_at END
            WHERE id = ?`,
-          [status, error || null, sentAt, id],
+          [status, error || null, failureReason || null, sentAt, failedAt, status, id],
           (err) => {
             if (err) {
               this.db!.run('ROLLBACK');
@@ -292,13 +758,13 @@ export class Database {
     });
   }
 
-  async updateNotificationDiscordId(id: number, discordMessageId: string): Promise<void> {
+  async updateNotificationDiscordId(id: number, discordMessageId: string, discordChannelId?: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       this.db!.run(
-        'UPDATE notifications SET discord_message_id = ? WHERE id = ?',
-        [discordMessageId, id],
+        'UPDATE notifications SET discord_message_id = ?, discord_channel_id = COALESCE(?, discord_channel_id) WHERE id = ?',
+        [discordMessageId, discordChannelId || null, id],
         (err) => {
           if (err) reject(err);
           else resolve();
@@ -307,16 +773,33 @@ export class Database {
     });
   }
 
-  async incrementRetryCount(id: number): Promise<void> {
+  /**
+   * Put a notification whose delivery failed back to 'pending' until its next retry
+   *
+   * The scheduler leaves it alone until nextAttemptAt, so the backoff survives
+   * restarts. Only a notification still in 'processing' is rescheduled, so a
+   * notification cancelled meanwhile stays cancelled.
+   *
+   * @returns True if the retry was scheduled
+   */
+  async scheduleNotificationRetry(
+    id: number,
+    nextAttemptAt: Date,
+    error: string,
+    failureReason: FailureCategory
+  ): Promise<boolean> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       this.db!.run(
-        'UPDATE notifications SET retry_count = retry_count + 1 WHERE id = ?',
-        [id],
-        (err) => {
+        `UPDATE notifications
+         SET status = 'pending', retry_count = retry_count + 1, next_attempt_at = ?,
+             last_error = ?, failure_reason = ?
+         WHERE id = ? AND status = 'processing'`,
+        [nextAttemptAt.toISOString(), error, failureReason, id],
+        function (err) {
           if (err) reject(err);
-          else resolve();
+          else resolve(this.changes > 0);
         }
       );
     });
@@ -351,8 +834,10 @@ export class Database {
       this.db!.all(
         `SELECT * FROM notifications
          WHERE status = 'pending' AND scheduled_for <= ?
-         ORDER BY scheduled_for ASC`,
-        [cutoffTime],
+         AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+         AND (held_until IS NULL OR held_until <= ?)
+         ORDER BY priority DESC, scheduled_for ASC`,
+        [cutoffTime, cutoffTime, cutoffTime],
         (err, rows: any[]) => {
           if (err) reject(err);
           else resolve(rows.map(row => this.rowToQueuedNotification(row)));
@@ -369,8 +854,8 @@ export class Database {
     return new Promise((resolve, reject) => {
       this.db!.all(
         `SELECT * FROM notifications
-         WHERE status = 'pending' AND scheduled_for > ?
-         ORDER BY scheduled_for ASC
+         WHERE status = 'pending' AND COALESCE(held_until, scheduled_for) > ?
+         ORDER BY COALESCE(held_until, scheduled_for) ASC
          LIMIT ?`,
         [now, limit],
         (err, rows: any[]) => {
@@ -417,13 +902,57 @@ export class Database {
     });
   }
 
+  /**
+   * Change the content of a notification that is not cancelled or failed
+   *
+   * @returns True if updated, false if not found or not editable
+   */
+  async updateNotificationContent(id: number, changes: NotificationUpdate): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications
+         SET title = COALESCE(?, title), message = COALESCE(?, message), severity = COALESCE(?, severity)
+         WHERE id = ? AND status IN ('pending', 'processing', 'sent')`,
+        [changes.title ?? null, changes.message ?? null, changes.severity ?? null, id],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * Mark a notification resolved; resolving again keeps the original time
+   *
+   * @returns True if resolved, false if not found or not editable
+   */
+  async resolveNotification(id: number, resolvedAt: Date = new Date()): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET resolved_at = COALESCE(resolved_at, ?)
+         WHERE id = ? AND status IN ('pending', 'processing', 'sent')`,
+        [resolvedAt.toISOString(), id],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
   async retryFailedNotification(id: number): Promise<boolean> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       this.db!.run(
         `UPDATE notifications
-         SET status = 'pending', retry_count = 0, last_error = NULL
+         SET status = 'pending', retry_count = 0, last_error = NULL, failure_reason = NULL, failed_at = NULL,
+             next_attempt_at = NULL
          WHERE id = ? AND status = 'failed'`,
         [id],
         function (err) {
@@ -452,6 +981,12 @@ export class Database {
     });
   }
 
+  /**
+   * Delete sent notifications older than a number of days, along with
+   * attachment files no remaining notification uses
+   *
+   * @returns Number of notifications deleted
+   */
   async cleanupOldNotifications(olderThanDays: number): Promise<number> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -459,7 +994,19 @@ export class Database {
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
     const cutoffDateStr = cutoffDate.toISOString();
 
-    return new Promise((resolve, reject) => {
+    const attachmentRows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT attachments FROM notifications
+         WHERE status = 'sent' AND sent_at < ? AND attachments IS NOT NULL`,
+        [cutoffDateStr],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    const deleted = await new Promise<number>((resolve, reject) => {
       this.db!.run(
         `DELETE FROM notifications
          WHERE status = 'sent' AND sent_at < ?`,
@@ -470,167 +1017,1067 @@ export class Database {
         }
       );
     });
+
+    await this.deleteOrphanedAttempts();
+    await this.deleteUnusedAttachments(attachmentRows.flatMap((row) => JSON.parse(row.attachments)));
+
+    return deleted;
   }
 
   // ============================================================================
-  // Statistics
+  // Delivery Attempts and Dead Letters
   // ============================================================================
 
-  async getQueueStats(): Promise<QueueStats> {
+  /**
+   * Record a delivery attempt, numbered after the notification's earlier attempts
+   */
+  async recordNotificationAttempt(attempt: NotificationAttempt): Promise<number> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
-      const stats: QueueStats = {
-        pending: 0,
-        processing: 0,
-        scheduled: 0,
-        failed: 0,
-        sent24h: 0,
-      };
-
-      const now = new Date().toISOString();
-      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-
-      // Get status counts
-      this.db!.get(
-        `SELECT
-          SUM(CASE WHEN status = 'pending' AND scheduled_for <= ? THEN 1 ELSE 0 END) as pending,
-          SUM(CASE WHEN status = 'pending' AND scheduled_for > ? THEN 1 ELSE 0 END) as scheduled,
-          SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing,
-          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
-          SUM(CASE WHEN status = 'sent' AND sent_at > ? THEN 1 ELSE 0 END) as sent24h
-         FROM notifications`,
-        [now, now, yesterday],
-        (err, row: any) => {
+      this.db!.run(
+        `INSERT INTO notification_attempts (
+          notification_id, attempt, started_at, attempted_at, outcome, error, failure_reason, http_status
+        )
+         SELECT ?, COALESCE(MAX(attempt), 0) + 1, ?, ?, ?, ?, ?, ?
+         FROM notification_attempts WHERE notification_id = ?`,
+        [
+          attempt.notificationId,
+          attempt.startedAt?.toISOString() || null,
+          (attempt.attemptedAt ?? new Date()).toISOString(),
+          attempt.outcome,
+          attempt.error || null,
+          attempt.failureReason || null,
+          attempt.httpStatus ?? null,
+          attempt.notificationId,
+        ],
+        function (err) {
           if (err) reject(err);
-          else {
-            stats.pending = row.pending || 0;
-            stats.scheduled = row.scheduled || 0;
-            stats.processing = row.processing || 0;
-            stats.failed = row.failed || 0;
-            stats.sent24h = row.sent24h || 0;
-            resolve(stats);
-          }
+          else resolve(this.lastID);
         }
       );
     });
   }
 
-  async getNotificationHistory(limit: number = 50, status?: NotificationStatus): Promise<QueuedNotification[]> {
+  /**
+   * Delivery attempts of a notification, oldest first
+   */
+  async getNotificationAttempts(notificationId: number): Promise<NotificationAttempt[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    let query = 'SELECT * FROM notifications';
-    const params: any[] = [];
-
-    if (status) {
-      query += ' WHERE status = ?';
-      params.push(status);
-    }
-
-    query += ' ORDER BY created_at DESC LIMIT ?';
-    params.push(limit);
-
     return new Promise((resolve, reject) => {
-      this.db!.all(query, params, (err, rows: any[]) => {
-        if (err) reject(err);
-        else resolve(rows.map(row => this.rowToQueuedNotification(row)));
-      });
+      this.db!.all(
+        'SELECT * FROM notification_attempts WHERE notification_id = ? ORDER BY attempt ASC',
+        [notificationId],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else
+            resolve(
+              rows.map((row) => ({
+                id: row.id,
+                notificationId: row.notification_id,
+                attempt: row.attempt,
+                startedAt: row.started_at ? new Date(row.started_at) : undefined,
+                attemptedAt: new Date(row.attempted_at),
+                outcome: row.outcome as AttemptOutcome,
+                error: row.error || undefined,
+                failureReason: (row.failure_reason || undefined) as FailureCategory | undefined,
+                httpStatus: row.http_status ?? undefined,
+              }))
+            );
+        }
+      );
     });
   }
 
-  async queryNotifications(options: {
-    status?: string;
-    source?: string;
-    search?: string;
-    limit: number;
-    offset: number;
-    sort?: string;
-    order?: 'ASC' | 'DESC';
-  }): Promise<{ notifications: QueuedNotification[]; total: number; page: number; limit: number }> {
+  /**
+   * Failed notifications matching a filter, most recently failed first
+   */
+  async getDeadLetters(
+    filter: DeadLetterFilter = {},
+    limit: number = 25,
+    offset: number = 0
+  ): Promise<{ notifications: QueuedNotification[]; total: number }> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const { status, source, search, limit, offset, sort = 'created_at', order = 'DESC' } = options;
+    const { where, params } = this.buildDeadLetterWhere(filter);
 
-    let query = 'SELECT * FROM notifications WHERE 1=1';
-    const params: any[] = [];
-
-    if (status) {
-      query += ' AND status = ?';
-      params.push(status);
-    }
-
-    if (source) {
-      query += ' AND source = ?';
-      params.push(source);
-    }
-
-    if (search) {
-      query += ' AND (message LIKE ? OR title LIKE ?)';
-      params.push(`%${search}%`, `%${search}%`);
-    }
-
-    // Count query for total
-    const countQuery = query.replace('SELECT *', 'SELECT COUNT(*) as count');
-
-    // Get total count
     const total = await new Promise<number>((resolve, reject) => {
-      this.db!.get(countQuery, params, (err, row: any) => {
+      this.db!.get(`SELECT COUNT(*) as count FROM notifications WHERE ${where}`, params, (err, row: any) => {
         if (err) reject(err);
         else resolve(row.count);
       });
     });
 
-    // Add sorting and pagination
-    const sortColumn = ['created_at', 'scheduled_for', 'sent_at', 'status'].includes(sort) ? sort : 'created_at';
-    query += ` ORDER BY ${sortColumn} ${order} LIMIT ? OFFSET ?`;
-    params.push(limit, offset);
-
-    // Get notifications
     const notifications = await new Promise<QueuedNotification[]>((resolve, reject) => {
-      this.db!.all(query, params, (err, rows: any[]) => {
-        if (err) reject(err);
-        else resolve(rows.map(row => this.rowToQueuedNotification(row)));
+      this.db!.all(
+        `SELECT * FROM notifications WHERE ${where}
+         ORDER BY ${DEAD_LETTER_TIME} DESC, id DESC
+         LIMIT ? OFFSET ?`,
+        [...params, limit, offset],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map((row) => this.rowToQueuedNotification(row)));
+        }
+      );
+    });
+
+    return { notifications, total };
+  }
+
+  /**
+   * IDs of the failed notifications matching a filter, oldest failure first
+   */
+  async getDeadLetterIds(filter: DeadLetterFilter = {}): Promise<number[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { where, params } = this.buildDeadLetterWhere(filter);
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT id FROM notifications WHERE ${where} ORDER BY ${DEAD_LETTER_TIME} ASC, id ASC`,
+        params,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map((row) => row.id));
+        }
+      );
+    });
+  }
+
+  /**
+   * Delete the failed notifications matching a filter, with their attempts
+   * and attachment files no remaining notification uses
+   *
+   * @returns Number of notifications deleted
+   */
+  async purgeDeadLetters(filter: DeadLetterFilter = {}): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { where, params } = this.buildDeadLetterWhere(filter);
+
+    const attachmentRows = await new Promise<any[]>((resolve, reject) => {
+      this.db!.all(
+        `SELECT attachments FROM notifications WHERE ${where} AND attachments IS NOT NULL`,
+        params,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows);
+        }
+      );
+    });
+
+    const deleted = await new Promise<number>((resolve, reject) => {
+      this.db!.run(`DELETE FROM notifications WHERE ${where}`, params, function (err) {
+        if (err) reject(err);
+        else resolve(this.changes);
+      });
+    });
+
+    await this.deleteOrphanedAttempts();
+    await this.deleteUnusedAttachments(attachmentRows.flatMap((row) => JSON.parse(row.attachments)));
+
+    return deleted;
+  }
+
+  /**
+   * Build the WHERE clause selecting dead letters
+   */
+  private buildDeadLetterWhere(filter: DeadLetterFilter): { where: string; params: any[] } {
+    const conditions = ["status = 'failed'"];
+    const params: any[] = [];
+
+    if (filter.source) {
+      conditions.push('source = ?');
+      params.push(filter.source);
+    }
+    if (filter.failureReason) {
+      conditions.push('failure_reason = ?');
+      params.push(filter.failureReason);
+    }
+    if (filter.since) {
+      conditions.push(`${DEAD_LETTER_TIME} >= datetime(?)`);
+      params.push(filter.since.toISOString());
+    }
+    if (filter.until) {
+      conditions.push(`${DEAD_LETTER_TIME} < datetime(?)`);
+      params.push(filter.until.toISOString());
+    }
+
+    return { where: conditions.join(' AND '), params };
+  }
+
+  /**
+   * Delete attempts of notifications that no longer exist
+   */
+  private async deleteOrphanedAttempts(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        'DELETE FROM notification_attempts WHERE notification_id NOT IN (SELECT id FROM notifications)',
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  // ============================================================================
+  // Attachments
+  // ============================================================================
+
+  /**
+   * Directory attachment files are stored in (next to the database file)
+   */
+  getAttachmentsDir(): string {
+    return path.join(path.dirname(this.dbPath), 'attachments');
+  }
+
+  /**
+   * Write uploaded files to the attachments directory
+   *
+   * @returns The stored attachments, to be saved with the notification
+   */
+  async storeAttachments(uploads: AttachmentUpload[]): Promise<NotificationAttachment[]> {
+    const dir = this.getAttachmentsDir();
+    await fs.mkdir(dir, { recursive: true });
+
+    const attachments: NotificationAttachment[] = [];
+    for (const upload of uploads) {
+      const filePath = path.join(dir, `${crypto.randomUUID()}-${path.basename(upload.name)}`);
+      await fs.writeFile(filePath, upload.data);
+      attachments.push({
+        name: upload.name,
+        path: filePath,
+        contentType: upload.contentType,
+        size: upload.data.length,
+      });
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Delete attachment files that no notification references anymore
+   * (occurrences of a series and fanned-out copies share their files)
+   */
+  async deleteUnusedAttachments(attachments: NotificationAttachment[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    for (const attachment of attachments) {
+      const inUse = await new Promise<boolean>((resolve, reject) => {
+        this.db!.get(
+          'SELECT 1 FROM notifications WHERE instr(attachments, ?) > 0 LIMIT 1',
+          [JSON.stringify(attachment.path)],
+          (err, row) => {
+            if (err) reject(err);
+            else resolve(!!row);
+          }
+        );
+      });
+
+      if (!inUse) {
+        await fs.rm(attachment.path, { force: true });
+      }
+    }
+  }
+
+  // ============================================================================
+  // Deduplication
+  // ============================================================================
+
+  /**
+   * Rows of the latest notification with a dedupe key seen since a point in
+   * time (one per channel when fanned out). Cancelled, failed and resolved
+   * notifications are ignored so a repeat can take their place.
+   */
+  async findDuplicateNotifications(dedupeKey: string, seenSince: Date): Promise<QueuedNotification[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM notifications
+         WHERE dedupe_key = ?
+           AND status IN ('pending', 'processing', 'sent')
+           AND last_seen_at >= ?
+           AND resolved_at IS NULL
+           AND created_at = (
+             SELECT MAX(created_at) FROM notifications
+             WHERE dedupe_key = ? AND status IN ('pending', 'processing', 'sent')
+           )
+         ORDER BY id ASC`,
+        [dedupeKey, seenSince.toISOString(), dedupeKey],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToQueuedNotification(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Count a repeat of a deduplicated notification
+   */
+  async recordNotificationRepeat(id: number, seenAt: Date = new Date()): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET repeat_count = repeat_count + 1, last_seen_at = ? WHERE id = ?`,
+        [seenAt.toISOString(), id],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  // ============================================================================
+  // Acknowledgement and Escalation
+  // ============================================================================
+
+  /**
+   * Set when an unacknowledged notification escalates next (null = never)
+   */
+  async scheduleEscalation(id: number, escalateAt: Date | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET escalate_at = ? WHERE id = ?`,
+        [escalateAt ? escalateAt.toISOString() : null, id],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * Sent notifications that still need acknowledgement and are due to escalate
+   */
+  async getDueEscalations(now: Date = new Date()): Promise<QueuedNotification[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM notifications
+         WHERE status = 'sent' AND ack_required = 1 AND acknowledged_at IS NULL AND resolved_at IS NULL
+           AND escalate_at IS NOT NULL AND escalate_at <= ?
+         ORDER BY escalate_at ASC`,
+        [now.toISOString()],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToQueuedNotification(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Record an escalation and when the next one is due (null = no more)
+   */
+  async recordEscalation(id: number, level: number, nextEscalateAt: Date | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET escalation_level = ?, escalate_at = ? WHERE id = ?`,
+        [level, nextEscalateAt ? nextEscalateAt.toISOString() : null, id],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * Acknowledge a notification and stop its escalation
+   *
+   * @returns True if acknowledged, false if not found, not awaiting acknowledgement or already acknowledged
+   */
+  async acknowledgeNotification(id: number, userId: string, acknowledgedAt: Date = new Date()): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET acknowledged_by = ?, acknowledged_at = ?, escalate_at = NULL
+         WHERE id = ? AND ack_required = 1 AND acknowledged_at IS NULL`,
+        [userId, acknowledgedAt.toISOString(), id],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  // ============================================================================
+  // Notification Actions
+  // ============================================================================
+
+  /**
+   * Record a click on a notification action button
+   */
+  async logNotificationAction(entry: NotificationActionLogEntry): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO notification_action_log (
+          notification_id, action_index, label, user_id, username, result, error
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          entry.notificationId,
+          entry.actionIndex,
+          entry.label,
+          entry.userId,
+          entry.username || null,
+          entry.result,
+          entry.error || null,
+        ],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  /**
+   * Clicks on a notification's action buttons, oldest first
+   */
+  async getNotificationActionLog(notificationId: number): Promise<NotificationActionLogEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM notification_action_log WHERE notification_id = ? ORDER BY id ASC`,
+        [notificationId],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else
+            resolve(
+              rows.map((row) => ({
+                id: row.id,
+                createdAt: new Date(row.created_at),
+                notificationId: row.notification_id,
+                actionIndex: row.action_index,
+                label: row.label,
+                userId: row.user_id,
+                username: row.username || undefined,
+                result: row.result as NotificationActionResult,
+                error: row.error || undefined,
+              }))
+            );
+        }
+      );
+    });
+  }
+
+  // ============================================================================
+  // Recurring Series Operations
+  // ============================================================================
+
+  async createNotificationSeries(recurrence: string, timezone?: string): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO notification_series (recurrence, timezone, status) VALUES (?, ?, 'active')`,
+        [recurrence, timezone || null],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  async getNotificationSeries(id: number): Promise<NotificationSeries | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        `${this.seriesSelect()} WHERE s.id = ?`,
+        [id],
+        (err, row: any) => {
+          if (err) reject(err);
+          else if (!row) resolve(null);
+          else resolve(this.rowToNotificationSeries(row));
+        }
+      );
+    });
+  }
+
+  async listNotificationSeries(status?: SeriesStatus, limit: number = 25): Promise<NotificationSeries[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const where = status ? 'WHERE s.status = ?' : '';
+    const params: any[] = status ? [status, limit] : [limit];
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `${this.seriesSelect()} ${where} ORDER BY s.created_at DESC LIMIT ?`,
+        params,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToNotificationSeries(row)));
+        }
+      );
+    });
+  }
+
+  async updateNotificationSeriesStatus(id: number, status: SeriesStatus): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const endedAt = status === 'ended' ? new Date().toISOString() : null;
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notification_series SET status = ?, ended_at = ?
+         WHERE id = ? AND status != 'ended'`,
+        [status, endedAt, id],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * Active series with no pending or processing occurrence, i.e. whose next
+   * occurrence has not been materialized yet
+   */
+  async getSeriesAwaitingNextOccurrence(): Promise<NotificationSeries[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `${this.seriesSelect()}
+         WHERE s.status = 'active'
+           AND NOT EXISTS (
+             SELECT 1 FROM notifications n
+             WHERE n.series_id = s.id AND n.status IN ('pending', 'processing')
+           )`,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToNotificationSeries(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Rows of a series' most recent occurrence (one per channel when fanned out)
+   */
+  async getLatestSeriesOccurrence(seriesId: number): Promise<QueuedNotification[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM notifications
+         WHERE series_id = ?
+           AND scheduled_for = (SELECT MAX(scheduled_for) FROM notifications WHERE series_id = ?)
+         ORDER BY id ASC`,
+        [seriesId, seriesId],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToQueuedNotification(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Cancel the not-yet-sent occurrences of a series
+   *
+   * @returns Number of occurrences cancelled
+   */
+  async cancelPendingSeriesNotifications(seriesId: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET status = 'cancelled'
+         WHERE series_id = ? AND status = 'pending'`,
+        [seriesId],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  private seriesSelect(): string {
+    return `SELECT s.*,
+        (SELECT n.source FROM notifications n WHERE n.series_id = s.id ORDER BY n.scheduled_for DESC LIMIT 1) AS source,
+        (SELECT n.title FROM notifications n WHERE n.series_id = s.id ORDER BY n.scheduled_for DESC LIMIT 1) AS title,
+        (SELECT MIN(COALESCE(n.held_until, n.scheduled_for)) FROM notifications n
+         WHERE n.series_id = s.id AND n.status = 'pending') AS next_run_at
+      FROM notification_series s`;
+  }
+
+  private rowToNotificationSeries(row: any): NotificationSeries {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      recurrence: row.recurrence,
+      timezone: row.timezone || undefined,
+      status: row.status as SeriesStatus,
+      endedAt: row.ended_at ? new Date(row.ended_at) : undefined,
+      source: row.source || undefined,
+      title: row.title || undefined,
+      nextRunAt: row.next_run_at ? new Date(row.next_run_at) : undefined,
+    };
+  }
+
+  // ============================================================================
+  // Statistics
+  // ============================================================================
+
+  async getQueueStats(): Promise<QueueStats> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const stats: QueueStats = {
+        pending: 0,
+        processing: 0,
+        scheduled: 0,
+        failed: 0,
+        sent24h: 0,
+      };
+
+      const now = new Date().toISOString();
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+      // Get status counts
+      this.db!.get(
+        `SELECT
+          SUM(CASE WHEN status = 'pending' AND COALESCE(held_until, scheduled_for) <= ? THEN 1 ELSE 0 END) as pending,
+          SUM(CASE WHEN status = 'pending' AND COALESCE(held_until, scheduled_for) > ? THEN 1 ELSE 0 END) as scheduled,
+          SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing,
+          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+          SUM(CASE WHEN status = 'sent' AND sent_at > ? THEN 1 ELSE 0 END) as sent24h
+         FROM notifications`,
+        [now, now, yesterday],
+        (err, row: any) => {
+          if (err) reject(err);
+          else {
+            stats.pending = row.pending || 0;
+            stats.scheduled = row.scheduled || 0;
+            stats.processing = row.processing || 0;
+            stats.failed = row.failed || 0;
+            stats.sent24h = row.sent24h || 0;
+            resolve(stats);
+          }
+        }
+      );
+    });
+  }
+
+  async getNotificationHistory(limit: number = 50, status?: NotificationStatus): Promise<QueuedNotification[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    let query = 'SELECT * FROM notifications';
+    const params: any[] = [];
+
+    if (status) {
+      query += ' WHERE status = ?';
+      params.push(status);
+    }
+
+    query += ' ORDER BY created_at DESC LIMIT ?';
+    params.push(limit);
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(query, params, (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows.map(row => this.rowToQueuedNotification(row)));
+      });
+    });
+  }
+
+  async queryNotifications(options: {
+    status?: string;
+    source?: string;
+    severity?: string;
+    search?: string;
+    limit: number;
+    offset: number;
+    sort?: string;
+    order?: 'ASC' | 'DESC';
+  }): Promise<{ notifications: QueuedNotification[]; total: number; page: number; limit: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const { status, source, severity, search, limit, offset, sort = 'created_at', order = 'DESC' } = options;
+
+    let query = 'SELECT * FROM notifications WHERE 1=1';
+    const params: any[] = [];
+
+    if (status) {
+      query += ' AND status = ?';
+      params.push(status);
+    }
+
+    if (source) {
+      query += ' AND source = ?';
+      params.push(source);
+    }
+
+    if (severity) {
+      query += ' AND severity = ?';
+      params.push(severity);
+    }
+
+    if (search) {
+      query += ' AND (message LIKE ? OR title LIKE ?)';
+      params.push(`%${search}%`, `%${search}%`);
+    }
+
+    // Count query for total
+    const countQuery = query.replace('SELECT *', 'SELECT COUNT(*) as count');
+
+    // Get total count
+    const total = await new Promise<number>((resolve, reject) => {
+      this.db!.get(countQuery, params, (err, row: any) => {
+        if (err) reject(err);
+        else resolve(row.count);
+      });
+    });
+
+    // Add sorting and pagination
+    const sortColumn = ['created_at', 'scheduled_for', 'sent_at', 'status'].includes(sort) ? sort : 'created_at';
+    query += ` ORDER BY ${sortColumn} ${order} LIMIT ? OFFSET ?`;
+    params.push(limit, offset);
+
+    // Get notifications
+    const notifications = await new Promise<QueuedNotification[]>((resolve, reject) => {
+      this.db!.all(query, params, (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows.map(row => this.rowToQueuedNotification(row)));
       });
     });
 
-    return {
-      notifications,
-      total,
-      page: Math.floor(offset / limit) + 1,
-      limit,
-    };
+    return {
+      notifications,
+      total,
+      page: Math.floor(offset / limit) + 1,
+      limit,
+    };
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  private rowToQueuedNotification(row: any): QueuedNotification {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      scheduledFor: new Date(row.scheduled_for),
+      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+      source: row.source,
+      title: row.title,
+      message: row.message,
+      severity: row.severity as NotificationSeverity,
+      discordMessageId: row.discord_message_id,
+      status: row.status as NotificationStatus,
+      retryCount: row.retry_count,
+      maxRetries: row.max_retries,
+      lastError: row.last_error,
+      failureReason: (row.failure_reason || undefined) as FailureCategory | undefined,
+      failedAt: row.failed_at ? new Date(row.failed_at) : undefined,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+      retryPolicy: row.retry_policy ? JSON.parse(row.retry_policy) : undefined,
+      priority: row.priority ?? 0,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      channelId: row.channel_id || undefined,
+      mentions: row.mentions ? JSON.parse(row.mentions) : undefined,
+      deliveryMode: (row.delivery_mode || 'channel') as DeliveryMode,
+      recipientUserId: row.recipient_user_id || undefined,
+      seriesId: row.series_id ?? undefined,
+      quietDigest: row.quiet_digest === 1,
+      heldUntil: row.held_until ? new Date(row.held_until) : undefined,
+      dedupeKey: row.dedupe_key || undefined,
+      repeatCount: row.repeat_count ?? 0,
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : undefined,
+      discordChannelId: row.discord_channel_id || undefined,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      actions: row.actions ? JSON.parse(row.actions) : undefined,
+      embed: row.embed ? JSON.parse(row.embed) : undefined,
+      attachments: row.attachments ? JSON.parse(row.attachments) : undefined,
+      template: row.template || undefined,
+      ackRequired: row.ack_required === 1,
+      acknowledgedBy: row.acknowledged_by || undefined,
+      acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined,
+      escalationPolicy: row.escalation_policy || undefined,
+      escalationLevel: row.escalation_level ?? 0,
+      escalateAt: row.escalate_at ? new Date(row.escalate_at) : undefined,
+      digest: row.digest === 1,
+      digestId: row.digest_id ?? undefined,
+    };
+  }
+
+  async setState(key: string, value: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO bot_state (key, value) VALUES (?, ?)`,
+        [key, value],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async getState(key: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        `SELECT value FROM bot_state WHERE key = ?`,
+        [key],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row ? row.value : null);
+        }
+      );
+    });
+  }
+
+  // ============================================================================
+  // Quiet Hours
+  // ============================================================================
+
+  async getQuietHours(): Promise<QuietHours[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM quiet_hours ORDER BY scope = 'global' DESC, scope ASC`,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToQuietHours(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Create or replace the quiet-hours window of a channel (or the global one)
+   */
+  async setQuietHours(window: QuietHours): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT OR REPLACE INTO quiet_hours (scope, start_time, end_time, mode, timezone, updated_by, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)`,
+        [
+          window.channelId ?? 'global',
+          window.start,
+          window.end,
+          window.mode,
+          window.timezone,
+          window.updatedBy || null,
+        ],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  /**
+   * Remove the quiet-hours window of a channel (or the global one)
+   *
+   * @returns True if a window was removed
+   */
+  async clearQuietHours(channelId: string | null): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `DELETE FROM quiet_hours WHERE scope = ?`,
+        [channelId ?? 'global'],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * Hold a pending notification until quiet hours end or the next periodic digest
+   *
+   * The hold goes in held_until so scheduled_for keeps the original time, which
+   * recurring series calculate their next occurrence from.
+   *
+   * @param id - Notification ID
+   * @param until - When the notification becomes due again
+   * @param digest - Deliver it in a digest instead of on its own
+   */
+  async deferNotification(id: number, until: Date, digest: boolean): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET held_until = ?, quiet_digest = ?
+         WHERE id = ? AND status = 'pending'`,
+        [until.toISOString(), digest ? 1 : 0, id],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  private rowToQuietHours(row: any): QuietHours {
+    return {
+      channelId: row.scope === 'global' ? null : row.scope,
+      start: row.start_time,
+      end: row.end_time,
+      mode: row.mode as QuietHoursMode,
+      timezone: row.timezone,
+      updatedBy: row.updated_by || undefined,
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    };
+  }
+
+  // ============================================================================
+  // Digests
+  // ============================================================================
+
+  /**
+   * Due notifications held for the digest of a channel (quiet hours or periodic)
+   */
+  async getDueDigestNotifications(channelId: string, beforeTime?: Date): Promise<QueuedNotification[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const cutoffTime = (beforeTime || new Date()).toISOString();
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM notifications
+         WHERE status = 'pending' AND quiet_digest = 1 AND channel_id = ?
+           AND COALESCE(held_until, scheduled_for) <= ?
+         ORDER BY scheduled_for ASC, id ASC`,
+        [channelId, cutoffTime],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToQueuedNotification(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Record a digest message and link the notifications it delivered to it
+   *
+   * @returns Digest ID
+   */
+  async recordDigest(
+    digest: Omit<NotificationDigest, 'id' | 'createdAt' | 'notificationCount'>,
+    notificationIds: number[]
+  ): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const digestId = await new Promise<number>((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO notification_digests (kind, channel_id, discord_message_id, discord_channel_id, notification_count)
+         VALUES (?, ?, ?, ?, ?)`,
+        [digest.kind, digest.channelId, digest.discordMessageId, digest.discordChannelId || null, notificationIds.length],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+
+    const placeholders = notificationIds.map(() => '?').join(', ');
+    await new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        `UPDATE notifications SET digest_id = ?, discord_message_id = ?, discord_channel_id = COALESCE(?, discord_channel_id)
+         WHERE id IN (${placeholders})`,
+        [digestId, digest.discordMessageId, digest.discordChannelId || null, ...notificationIds],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+
+    return digestId;
+  }
+
+  async getNotificationDigest(id: number): Promise<NotificationDigest | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        'SELECT * FROM notification_digests WHERE id = ?',
+        [id],
+        (err, row: any) => {
+          if (err) reject(err);
+          else if (!row) resolve(null);
+          else resolve({
+            id: row.id,
+            createdAt: new Date(row.created_at),
+            kind: row.kind as DigestKind,
+            channelId: row.channel_id,
+            discordMessageId: row.discord_message_id,
+            discordChannelId: row.discord_channel_id || undefined,
+            notificationCount: row.notification_count,
+          });
+        }
+      );
+    });
   }
 
   // ============================================================================
-  // Helper Methods
+  // User Preferences
   // ============================================================================
 
-  private rowToQueuedNotification(row: any): QueuedNotification {
-    return {
-      id: row.id,
-      createdAt: new Date(row.created_at),
-      scheduledFor: new Date(row.scheduled_for),
-      sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
-      source: row.source,
-      title: row.title,
-      message: row.message,
-      severity: row.severity as 'info' | 'warning' | 'error',
-      discordMessageId: row.discord_message_id,
-      status: row.status as NotificationStatus,
-      retryCount: row.retry_count,
-      maxRetries: row.max_retries,
-      lastError: row.last_error,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-    };
+  async getUserTimezone(userId: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        `SELECT timezone FROM user_preferences WHERE user_id = ?`,
+        [userId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else resolve(row?.timezone ?? null);
+        }
+      );
+    });
   }
 
-  async setState(key: string, value: string): Promise<void> {
+  /**
+   * Set or clear (null) a user's timezone
+   */
+  async setUserTimezone(userId: string, timezone: string | null): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     return new Promise((resolve, reject) => {
       this.db!.run(
-        `INSERT OR REPLACE INTO bot_state (key, value) VALUES (?, ?)`,
-        [key, value],
+        `INSERT INTO user_preferences (user_id, timezone, updated_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+         ON CONFLICT(user_id) DO UPDATE SET timezone = excluded.timezone, updated_at = excluded.updated_at`,
+        [userId, timezone],
         (err) => {
           if (err) reject(err);
           else resolve();
@@ -639,19 +2086,97 @@ export class Database {
     });
   }
 
-  async getState(key: string): Promise<string | null> {
+  // ============================================================================
+  // Templates
+  // ============================================================================
+
+  /**
+   * Create a template, or replace the one with the same name
+   *
+   * @returns True if the template is new
+   */
+  async saveTemplate(template: NotificationTemplate): Promise<boolean> {
     if (!this.db) throw new Error('Database not initialized');
 
-    return new Promise((resolve, reject) => {
-      this.db!.get(
-        `SELECT value FROM bot_state WHERE key = ?`,
-        [key],
-        (err, row: any) => {
+    const existing = await this.getTemplate(template.name);
+
+    await new Promise<void>((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO notification_templates (name, source, title, message, severity, embed, channel, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET
+           source = excluded.source, title = excluded.title, message = excluded.message,
+           severity = excluded.severity, embed = excluded.embed, channel = excluded.channel,
+           updated_at = CURRENT_TIMESTAMP`,
+        [
+          template.name,
+          template.source || null,
+          template.title || null,
+          template.message,
+          template.severity || null,
+          template.embed ? JSON.stringify(template.embed) : null,
+          template.channel || null,
+          template.createdBy || null,
+        ],
+        (err) => {
           if (err) reject(err);
-          else resolve(row ? row.value : null);
+          else resolve();
         }
       );
     });
+
+    return existing === null;
+  }
+
+  async getTemplate(name: string): Promise<NotificationTemplate | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get('SELECT * FROM notification_templates WHERE name = ?', [name], (err, row: any) => {
+        if (err) reject(err);
+        else resolve(row ? this.rowToTemplate(row) : null);
+      });
+    });
+  }
+
+  async listTemplates(): Promise<NotificationTemplate[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all('SELECT * FROM notification_templates ORDER BY name', (err, rows: any[]) => {
+        if (err) reject(err);
+        else resolve(rows.map((row) => this.rowToTemplate(row)));
+      });
+    });
+  }
+
+  /**
+   * @returns True if the template existed
+   */
+  async deleteTemplate(name: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run('DELETE FROM notification_templates WHERE name = ?', [name], function (err) {
+        if (err) reject(err);
+        else resolve(this.changes > 0);
+      });
+    });
+  }
+
+  private rowToTemplate(row: any): NotificationTemplate {
+    return {
+      name: row.name,
+      source: row.source || undefined,
+      title: row.title || undefined,
+      message: row.message,
+      severity: row.severity || undefined,
+      embed: row.embed ? JSON.parse(row.embed) : undefined,
+      channel: row.channel || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
   }
 
   // ============================================================================
@@ -682,8 +2207,10 @@ export class Database {
           scheduled_for,
           triggered_by,
           max_retries,
-          notify_on_complete
-        ) VALUES (?, ?, ?, ?, ?, ?)`,
+          notify_on_complete,
+          series_id,
+          retry_policy
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
         [
           trigger.automationId,
           trigger.automationName || null,
@@ -691,6 +2218,8 @@ export class Database {
           trigger.triggeredBy,
           maxRetries,
           notifyOnComplete ? 1 : 0,
+          trigger.seriesId ?? null,
+          trigger.retryPolicy ? JSON.stringify(trigger.retryPolicy) : null,
         ],
         function (err) {
           if (err) reject(err);
@@ -725,6 +2254,11 @@ export class Database {
     const updates: string[] = ['status = ?'];
     const params: any[] = [status];
 
+    // Leaving 'pending' means the retry the backoff was waiting for has started
+    if (status !== 'pending') {
+      updates.push('next_attempt_at = NULL');
+    }
+
     if (status === 'triggered') {
       updates.push('triggered_at = ?');
       params.push(new Date().toISOString());
@@ -764,6 +2298,89 @@ export class Database {
     });
   }
 
+  /**
+   * Put a trigger whose automation call failed back to 'pending' until its next retry
+   *
+   * The scheduler leaves it alone until nextAttemptAt, so the backoff survives
+   * restarts. Only a trigger still in 'processing' is rescheduled.
+   *
+   * @returns True if the retry was scheduled
+   */
+  async scheduleAutomationTriggerRetry(id: number, nextAttemptAt: Date, error: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE ha_automation_triggers
+         SET status = 'pending', next_attempt_at = ?, last_error = ?
+         WHERE id = ? AND status = 'processing'`,
+        [nextAttemptAt.toISOString(), error, id],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * Record an attempt to trigger an automation, numbered after the trigger's earlier attempts
+   */
+  async recordAutomationTriggerAttempt(attempt: AutomationTriggerAttempt): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO ha_trigger_attempts (trigger_id, attempt, started_at, attempted_at, outcome, error, http_status)
+         SELECT ?, COALESCE(MAX(attempt), 0) + 1, ?, ?, ?, ?, ?
+         FROM ha_trigger_attempts WHERE trigger_id = ?`,
+        [
+          attempt.triggerId,
+          attempt.startedAt.toISOString(),
+          (attempt.attemptedAt ?? new Date()).toISOString(),
+          attempt.outcome,
+          attempt.error || null,
+          attempt.httpStatus ?? null,
+          attempt.triggerId,
+        ],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  /**
+   * Attempts of an automation trigger, oldest first
+   */
+  async getAutomationTriggerAttempts(triggerId: number): Promise<AutomationTriggerAttempt[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        'SELECT * FROM ha_trigger_attempts WHERE trigger_id = ? ORDER BY attempt ASC',
+        [triggerId],
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else
+            resolve(
+              rows.map((row) => ({
+                id: row.id,
+                triggerId: row.trigger_id,
+                attempt: row.attempt,
+                startedAt: new Date(row.started_at),
+                attemptedAt: new Date(row.attempted_at),
+                outcome: row.outcome,
+                error: row.error || undefined,
+                httpStatus: row.http_status ?? undefined,
+              }))
+            );
+        }
+      );
+    });
+  }
+
   async getDueAutomationTriggers(): Promise<AutomationTrigger[]> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -774,8 +2391,9 @@ export class Database {
         `SELECT * FROM ha_automation_triggers
          WHERE status = 'pending'
          AND scheduled_for <= ?
+         AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
          ORDER BY scheduled_for ASC`,
-        [now],
+        [now, now],
         (err, rows: any[]) => {
           if (err) reject(err);
           else resolve(rows.map(row => this.rowToAutomationTrigger(row)));
@@ -871,6 +2489,194 @@ export class Database {
       lastError: row.last_error,
       notificationId: row.notification_id,
       notifyOnComplete: row.notify_on_complete === 1,
+      seriesId: row.series_id ?? null,
+      nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : null,
+      retryPolicy: row.retry_policy ? JSON.parse(row.retry_policy) : null,
+    };
+  }
+
+  async createAutomationTriggerSeries(
+    series: Omit<AutomationTriggerSeries, 'id' | 'createdAt' | 'occurrences' | 'status'>
+  ): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `INSERT INTO ha_trigger_series (
+          automation_id,
+          automation_name,
+          triggered_by,
+          recurrence,
+          notify_on_complete,
+          max_retries,
+          ends_at,
+          max_occurrences,
+          timezone,
+          retry_policy
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          series.automationId,
+          series.automationName,
+          series.triggeredBy,
+          series.recurrence,
+          series.notifyOnComplete ? 1 : 0,
+          series.maxRetries,
+          series.endsAt ? series.endsAt.toISOString() : null,
+          series.maxOccurrences,
+          series.timezone,
+          series.retryPolicy ? JSON.stringify(series.retryPolicy) : null,
+        ],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.lastID);
+        }
+      );
+    });
+  }
+
+  async getAutomationTriggerSeries(id: number): Promise<AutomationTriggerSeries | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        'SELECT * FROM ha_trigger_series WHERE id = ?',
+        [id],
+        (err, row: any) => {
+          if (err) reject(err);
+          else if (!row) resolve(null);
+          else resolve(this.rowToAutomationTriggerSeries(row));
+        }
+      );
+    });
+  }
+
+  async getAutomationTriggerSeriesByIds(ids: number[]): Promise<AutomationTriggerSeries[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (ids.length === 0) return [];
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM ha_trigger_series WHERE id IN (${ids.map(() => '?').join(', ')})`,
+        ids,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToAutomationTriggerSeries(row)));
+        }
+      );
+    });
+  }
+
+  /**
+   * Active trigger series with no pending or processing occurrence
+   */
+  async getAutomationSeriesAwaitingNextTrigger(): Promise<AutomationTriggerSeries[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.all(
+        `SELECT * FROM ha_trigger_series s
+         WHERE s.status = 'active'
+           AND NOT EXISTS (
+             SELECT 1 FROM ha_automation_triggers t
+             WHERE t.series_id = s.id AND t.status IN ('pending', 'processing')
+           )`,
+        (err, rows: any[]) => {
+          if (err) reject(err);
+          else resolve(rows.map(row => this.rowToAutomationTriggerSeries(row)));
+        }
+      );
+    });
+  }
+
+  async getLatestAutomationSeriesTrigger(seriesId: number): Promise<AutomationTrigger | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.get(
+        `SELECT * FROM ha_automation_triggers
+         WHERE series_id = ?
+         ORDER BY scheduled_for DESC, id DESC
+         LIMIT 1`,
+        [seriesId],
+        (err, row: any) => {
+          if (err) reject(err);
+          else if (!row) resolve(null);
+          else resolve(this.rowToAutomationTrigger(row));
+        }
+      );
+    });
+  }
+
+  async incrementAutomationSeriesOccurrences(id: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE ha_trigger_series SET occurrences = occurrences + 1 WHERE id = ?`,
+        [id],
+        (err) => {
+          if (err) reject(err);
+          else resolve();
+        }
+      );
+    });
+  }
+
+  async updateAutomationTriggerSeriesStatus(
+    id: number,
+    status: AutomationTriggerSeriesStatus
+  ): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE ha_trigger_series SET status = ? WHERE id = ? AND status != ?`,
+        [status, id, status],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes > 0);
+        }
+      );
+    });
+  }
+
+  /**
+   * Cancel the not-yet-run occurrences of a trigger series
+   *
+   * @returns Number of triggers cancelled
+   */
+  async cancelPendingAutomationSeriesTriggers(seriesId: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      this.db!.run(
+        `UPDATE ha_automation_triggers SET status = 'cancelled'
+         WHERE series_id = ? AND status = 'pending'`,
+        [seriesId],
+        function (err) {
+          if (err) reject(err);
+          else resolve(this.changes);
+        }
+      );
+    });
+  }
+
+  private rowToAutomationTriggerSeries(row: any): AutomationTriggerSeries {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      automationId: row.automation_id,
+      automationName: row.automation_name,
+      triggeredBy: row.triggered_by,
+      recurrence: row.recurrence,
+      notifyOnComplete: row.notify_on_complete === 1,
+      maxRetries: row.max_retries,
+      endsAt: row.ends_at ? new Date(row.ends_at) : null,
+      maxOccurrences: row.max_occurrences ?? null,
+      timezone: row.timezone ?? null,
+      retryPolicy: row.retry_policy ? JSON.parse(row.retry_policy) : null,
+      occurrences: row.occurrences,
+      status: row.status as AutomationTriggerSeriesStatus,
     };
   }
 
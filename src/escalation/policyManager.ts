@@ -0,0 +1,178 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { EscalationConfig, EscalationMatch, EscalationPolicy } from './types.js';
+
+/**
+ * Policy used for notifications that need acknowledgement but match no configured policy
+ */
+export const DEFAULT_ESCALATION_POLICY: EscalationPolicy = {
+  name: 'default',
+  timeoutMinutes: 15,
+  maxEscalations: 1,
+  repost: true,
+};
+
+/**
+ * Manages escalation policies for notifications that need acknowledgement.
+ * Policies are evaluated in file order and the first matching policy wins.
+ */
+export class EscalationPolicyManager {
+  private policies: EscalationPolicy[] = [];
+  private configPath: string;
+  private fileWatcher: fs.FSWatcher | null = null;
+
+  /**
+   * Creates a new EscalationPolicyManager instance
+   * @param configPath Path to the escalation policy config file
+   * @param enableFileWatching Enable automatic config reload on file changes
+   */
+  constructor(configPath: string, enableFileWatching = true) {
+    this.configPath = configPath;
+    this.loadConfig();
+
+    if (enableFileWatching) {
+      this.setupFileWatcher();
+    }
+  }
+
+  /**
+   * Finds the first policy matching a notification
+   * @param notification Source and severity of the notification
+   * @returns Matching policy, or null if no policy matches
+   */
+  public evaluate(notification: { source: string; severity?: string }): EscalationPolicy | null {
+    const match = (policy: EscalationPolicy): boolean => {
+      const conditions: EscalationMatch = policy.match ?? {};
+
+      if (conditions.source !== undefined && !this.matchesValue(conditions.source, notification.source)) {
+        return false;
+      }
+
+      return conditions.severity === undefined || this.matchesValue(conditions.severity, notification.severity || 'info');
+    };
+
+    return this.policies.find(match) ?? null;
+  }
+
+  /**
+   * Gets a policy by name
+   * @returns The policy, or null if no policy has that name (e.g., it was removed)
+   */
+  public getPolicy(name: string): EscalationPolicy | null {
+    return this.policies.find((policy) => policy.name === name) ?? null;
+  }
+
+  /**
+   * Loads the escalation policies from file
+   */
+  public loadConfig(): void {
+    try {
+      // Check if config file exists
+      if (!fs.existsSync(this.configPath)) {
+        console.log(`[Escalation] No escalation config at ${this.configPath}, using the default policy`);
+        this.policies = [];
+        return;
+      }
+
+      // Read and parse config file
+      const fileContent = fs.readFileSync(this.configPath, 'utf-8');
+      const config: EscalationConfig = JSON.parse(fileContent);
+
+      // Validate config structure
+      if (!config.policies || !Array.isArray(config.policies)) {
+        console.error('[Escalation] Invalid config format: policies must be an array');
+        this.policies = [];
+        return;
+      }
+
+      this.policies = config.policies.filter((policy) => this.validatePolicy(policy));
+      console.log(`[Escalation] Loaded ${this.policies.length} escalation policy(ies)`);
+    } catch (error) {
+      console.error('[Escalation] Error loading config:', error);
+      console.error('[Escalation] Using the default policy until the config is fixed');
+      this.policies = [];
+    }
+  }
+
+  /**
+   * Validates a policy
+   * @returns True if the policy can be used
+   */
+  private validatePolicy(policy: EscalationPolicy): boolean {
+    if (!policy || typeof policy.name !== 'string' || policy.name.trim() === '') {
+      console.error('[Escalation] Skipping policy without a name');
+      return false;
+    }
+
+    if (
+      policy.timeoutMinutes !== undefined &&
+      (typeof policy.timeoutMinutes !== 'number' || !(policy.timeoutMinutes > 0))
+    ) {
+      console.error(`[Escalation] Skipping policy "${policy.name}": timeoutMinutes must be a positive number`);
+      return false;
+    }
+
+    if (
+      policy.maxEscalations !== undefined &&
+      (!Number.isInteger(policy.maxEscalations) || policy.maxEscalations < 1)
+    ) {
+      console.error(`[Escalation] Skipping policy "${policy.name}": maxEscalations must be a positive integer`);
+      return false;
+    }
+
+    if (policy.dmUsers !== undefined && !Array.isArray(policy.dmUsers)) {
+      console.error(`[Escalation] Skipping policy "${policy.name}": dmUsers must be an array`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Case-insensitive comparison against a single value or a list of values
+   */
+  private matchesValue(expected: string | string[], actual: string): boolean {
+    const candidates = Array.isArray(expected) ? expected : [expected];
+    return candidates.some((candidate) => candidate.toLowerCase() === actual.toLowerCase());
+  }
+
+  /**
+   * Sets up file watcher for automatic config reload
+   */
+  private setupFileWatcher(): void {
+    try {
+      const configDir = path.dirname(this.configPath);
+
+      // Watch the config directory for changes
+      this.fileWatcher = fs.watch(configDir, (eventType, filename) => {
+        // Only reload if our config file changed
+        if (filename === path.basename(this.configPath)) {
+          console.log('[Escalation] Config file changed, reloading...');
+          this.loadConfig();
+        }
+      });
+
+      console.log('[Escalation] File watching enabled for config updates');
+    } catch (error) {
+      console.error('[Escalation] Error setting up file watcher:', error);
+    }
+  }
+
+  /**
+   * Stops the file watcher and cleans up resources
+   */
+  public destroy(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.close();
+      this.fileWatcher = null;
+      console.log('[Escalation] File watcher stopped');
+    }
+  }
+
+  /**
+   * Gets the names of the loaded policies, in evaluation order
+   */
+  public getPolicyNames(): string[] {
+    return this.policies.map((policy) => policy.name);
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Escalation Policy Types
+ */
+
+import type { NotificationMentions } from '../database.js';
+
+/**
+ * Conditions a notification must satisfy for a policy to apply.
+ * All specified conditions must match; omitted conditions are ignored.
+ */
+export interface EscalationMatch {
+  source?: string | string[]; // Exact match, case-insensitive
+  severity?: string | string[];
+}
+
+/**
+ * What happens when a notification that needs acknowledgement is not
+ * acknowledged in time, as written in the config file
+ */
+export interface EscalationPolicy {
+  name: string;
+  match?: EscalationMatch;
+  requireAck?: boolean; // Require acknowledgement of every matching notification
+  timeoutMinutes?: number; // Time to wait for an acknowledgement (default: 15)
+  maxEscalations?: number; // Escalations before giving up (default: 1)
+  repost?: boolean; // Re-post the notification in its channel (default: true)
+  mentions?: NotificationMentions; // Pinged with the re-post
+  dmUsers?: string[]; // On-call Discord user IDs to DM
+  raiseSeverity?: boolean; // Raise the severity one level per escalation
+}
+
+/**
+ * Escalation config file structure
+ */
+export interface EscalationConfig {
+  policies: EscalationPolicy[];
+}
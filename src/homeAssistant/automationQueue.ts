@@ -9,10 +9,16 @@ import PQueue from 'p-queue';
 import { Client, TextChannel, EmbedBuilder } from 'discord.js';
 import { Database } from '../database.js';
 import { parseScheduledTime } from '../utils/dateParser.js';
+import { getDefaultTimezone, isValidTimezone } from '../utils/timezone.js';
+import { parseRecurrence, getFirstOccurrence, getNextOccurrence, Recurrence } from '../utils/recurrence.js';
+import { getRetryDelay } from '../retry/policyManager.js';
+import type { RetryPolicyManager } from '../retry/policyManager.js';
+import type { RetryPolicy } from '../retry/types.js';
 import { HomeAssistantClient } from './client.js';
 import type {
   AutomationTrigger,
   AutomationTriggerInput,
+  AutomationTriggerSeries,
   AutomationTriggerStatus,
 } from './types.js';
 
@@ -22,18 +28,21 @@ export class AutomationTriggerQueue {
   private database: Database;
   private haClient: HomeAssistantClient;
   private channelId: string;
+  private retryPolicies: RetryPolicyManager | null;
   private isShuttingDown: boolean = false;
 
   constructor(
     client: Client,
     database: Database,
     haClient: HomeAssistantClient,
-    channelId: string
+    channelId: string,
+    retryPolicies?: RetryPolicyManager
   ) {
     this.client = client;
     this.database = database;
     this.haClient = haClient;
     this.channelId = channelId;
+    this.retryPolicies = retryPolicies || null;
     // Concurrency of 1 ensures triggers are processed sequentially
     this.queue = new PQueue({ concurrency: 1 });
   }
@@ -70,22 +79,41 @@ export class AutomationTriggerQueue {
    * @returns Trigger ID
    */
   async enqueue(input: AutomationTriggerInput): Promise<number> {
-    // Parse scheduled time
+    // Validate timezone and recurrence before anything is stored
+    if (input.timezone !== undefined && !isValidTimezone(input.timezone)) {
+      throw new Error(`Invalid timezone "${input.timezone}"`);
+    }
+    const timezone = input.timezone ?? getDefaultTimezone();
+    const recurrence: Recurrence | null = input.recurrence ? parseRecurrence(input.recurrence) : null;
+
+    // A trigger gives up once its failed attempts reach maxRetries, so the policy's maxAttempts carries over as is
+    input = { ...input, maxRetries: input.maxRetries ?? input.retryPolicy?.maxAttempts ?? 3 };
+
+    // Parse scheduled time (recurring triggers without a time start at their first occurrence)
     let scheduledFor: Date;
-    if (typeof input.scheduledFor === 'string') {
-      scheduledFor = parseScheduledTime(input.scheduledFor);
+    if (input.scheduledFor === undefined) {
+      scheduledFor = recurrence ? getFirstOccurrence(recurrence, new Date(), timezone) : new Date();
+    } else if (typeof input.scheduledFor === 'string') {
+      scheduledFor = parseScheduledTime(input.scheduledFor, { timezone });
     } else {
       scheduledFor = input.scheduledFor;
     }
 
+    let seriesId: number | undefined;
+    if (recurrence) {
+      seriesId = await this.createSeries(input, recurrence, scheduledFor, timezone);
+    }
+
     // Save to database
     const triggerId = await this.database.saveAutomationTrigger({
       ...input,
       scheduledFor,
+      seriesId,
     });
 
     console.log(
-      `[HA Queue] Trigger ${triggerId} enqueued for automation "${input.automationId}" - scheduled for ${scheduledFor.toISOString()}`
+      `[HA Queue] Trigger ${triggerId} enqueued for automation "${input.automationId}" - scheduled for ${scheduledFor.toISOString()}` +
+        (seriesId ? ` (series ${seriesId})` : '')
     );
 
     // If scheduled for immediate execution (now or in the past), process it
@@ -96,6 +124,126 @@ export class AutomationTriggerQueue {
     return triggerId;
   }
 
+  /**
+   * Validate the limits of a recurring trigger and store its series
+   *
+   * @returns Series ID
+   * @throws Error if the end date or occurrence limit is invalid
+   */
+  private async createSeries(
+    input: AutomationTriggerInput,
+    recurrence: Recurrence,
+    firstRun: Date,
+    timezone: string
+  ): Promise<number> {
+    let endsAt: Date | null = null;
+    if (input.endsAt !== undefined) {
+      endsAt = typeof input.endsAt === 'string' ? parseScheduledTime(input.endsAt, { timezone }) : input.endsAt;
+      if (endsAt.getTime() < firstRun.getTime()) {
+        throw new Error('End date must be after the first run');
+      }
+    }
+
+    if (input.maxOccurrences !== undefined && (!Number.isInteger(input.maxOccurrences) || input.maxOccurrences < 1)) {
+      throw new Error('Max occurrences must be a positive integer');
+    }
+
+    const seriesId = await this.database.createAutomationTriggerSeries({
+      automationId: input.automationId,
+      automationName: input.automationName || null,
+      triggeredBy: input.triggeredBy,
+      recurrence: recurrence.expression,
+      notifyOnComplete: input.notifyOnComplete ?? false,
+      maxRetries: input.maxRetries ?? 3,
+      endsAt,
+      maxOccurrences: input.maxOccurrences ?? null,
+      timezone,
+      retryPolicy: input.retryPolicy ?? null,
+    });
+
+    // The first trigger counts as an occurrence
+    await this.database.incrementAutomationSeriesOccurrences(seriesId);
+
+    return seriesId;
+  }
+
+  /**
+   * Create the next trigger of a recurring series, or end the series once its
+   * end date or occurrence limit is reached
+   *
+   * @param series - Active series with no pending trigger
+   * @returns ID of the new trigger, or null if the series ended
+   */
+  async scheduleNextTrigger(series: AutomationTriggerSeries): Promise<number | null> {
+    const latest = await this.database.getLatestAutomationSeriesTrigger(series.id);
+
+    if (series.maxOccurrences !== null && series.occurrences >= series.maxOccurrences) {
+      await this.endSeries(series.id, `reached ${series.maxOccurrences} occurrence(s)`);
+      return null;
+    }
+
+    let scheduledFor: Date;
+    try {
+      const recurrence = parseRecurrence(series.recurrence);
+      const timezone = series.timezone ?? getDefaultTimezone();
+      scheduledFor = latest
+        ? getNextOccurrence(recurrence, latest.scheduledFor, new Date(), timezone)
+        : getFirstOccurrence(recurrence, new Date(), timezone);
+    } catch (error) {
+      console.error(`[HA Queue] Series ${series.id} has an invalid recurrence:`, error);
+      await this.endSeries(series.id, 'invalid recurrence');
+      return null;
+    }
+
+    if (series.endsAt && scheduledFor.getTime() > series.endsAt.getTime()) {
+      await this.endSeries(series.id, 'reached its end date');
+      return null;
+    }
+
+    const triggerId = await this.database.saveAutomationTrigger({
+      automationId: series.automationId,
+      automationName: series.automationName || undefined,
+      scheduledFor,
+      triggeredBy: series.triggeredBy,
+      notifyOnComplete: series.notifyOnComplete,
+      maxRetries: series.maxRetries,
+      retryPolicy: series.retryPolicy ?? undefined,
+      seriesId: series.id,
+    });
+    await this.database.incrementAutomationSeriesOccurrences(series.id);
+
+    console.log(
+      `[HA Queue] Series ${series.id}: trigger ${triggerId} scheduled for ${scheduledFor.toISOString()}`
+    );
+
+    return triggerId;
+  }
+
+  /**
+   * Stop a recurring trigger series and cancel its pending trigger
+   *
+   * @param seriesId - Series ID
+   */
+  async cancelSeries(seriesId: number): Promise<void> {
+    const series = await this.database.getAutomationTriggerSeries(seriesId);
+
+    if (!series) {
+      throw new Error(`Series ${seriesId} not found`);
+    }
+
+    if (series.status !== 'active') {
+      throw new Error(`Series ${seriesId} has already ended`);
+    }
+
+    await this.database.cancelPendingAutomationSeriesTriggers(seriesId);
+    await this.endSeries(seriesId, 'cancelled');
+  }
+
+  private async endSeries(seriesId: number, reason: string): Promise<void> {
+    await this.database.updateAutomationTriggerSeriesStatus(seriesId, 'ended');
+    console.log(`[HA Queue] Series ${seriesId} ended: ${reason}`);
+  }
+
   /**
    * Process an automation trigger by ID
    *
@@ -124,9 +272,16 @@ export class AutomationTriggerQueue {
         return;
       }
 
+      // Skip while backing off after a failed attempt
+      if (trigger.nextAttemptAt && trigger.nextAttemptAt.getTime() > Date.now()) {
+        console.log(`[HA Queue] Trigger ${id} is backing off until ${trigger.nextAttemptAt.toISOString()}, skipping`);
+        return;
+      }
+
       // Mark as processing
       await this.database.updateAutomationTriggerStatus(id, 'processing');
 
+      const startedAt = new Date();
       try {
         console.log(`[HA Queue] Processing trigger ${id} for automation ${trigger.automationId}...`);
 
@@ -135,6 +290,7 @@ export class AutomationTriggerQueue {
 
         // Mark as triggered
         await this.database.updateAutomationTriggerStatus(id, 'triggered');
+        await this.recordAttempt(id, startedAt);
 
         console.log(`[HA Queue] ✓ Trigger ${id} completed successfully`);
 
@@ -144,6 +300,7 @@ export class AutomationTriggerQueue {
         }
       } catch (error: any) {
         console.error(`[HA Queue] ✗ Trigger ${id} failed:`, error.message);
+        await this.recordAttempt(id, startedAt, error);
 
         // Update retry count
         await this.database.incrementAutomationTriggerRetry(id);
@@ -166,26 +323,48 @@ export class AutomationTriggerQueue {
             await this.sendFailureNotification(updatedTrigger, error.message);
           }
         } else {
-          // Calculate retry delay
-          const delay = this.calculateRetryDelay(updatedTrigger.retryCount);
+          // A named policy's first retry waits its base delay (retryCount counts failed attempts);
+          // triggers without one keep the fixed backoff
+          const delay = updatedTrigger.retryPolicy
+            ? getRetryDelay(updatedTrigger.retryPolicy, updatedTrigger.retryCount - 1)
+            : this.calculateRetryDelay(updatedTrigger.retryCount);
+
+          // Back to pending; the scheduler picks it up once the backoff has passed, even after a restart
+          const nextAttemptAt = new Date(Date.now() + delay * 1000);
+          if (!(await this.database.scheduleAutomationTriggerRetry(id, nextAttemptAt, error.message))) {
+            console.log(`[HA Queue] Trigger ${id} changed status during the attempt, not retrying`);
+            return;
+          }
+
           console.log(
             `[HA Queue] Trigger ${id} will retry in ${delay}s (attempt ${updatedTrigger.retryCount + 1}/${updatedTrigger.maxRetries + 1})`
           );
-
-          // Reset to pending for retry
-          await this.database.updateAutomationTriggerStatus(id, 'pending', error.message);
-
-          // Schedule retry
-          setTimeout(() => {
-            this.processTrigger(id).catch(err =>
-              console.error(`[HA Queue] Retry of trigger ${id} failed:`, err)
-            );
-          }, delay * 1000);
         }
       }
     });
   }
 
+  /**
+   * Record an attempt in the trigger's history (errors are logged, not thrown)
+   *
+   * @param id - Trigger ID
+   * @param startedAt - When the attempt started; it ends now
+   * @param error - Error of a failed attempt
+   */
+  private async recordAttempt(id: number, startedAt: Date, error?: any): Promise<void> {
+    try {
+      await this.database.recordAutomationTriggerAttempt({
+        triggerId: id,
+        startedAt,
+        outcome: error ? 'failed' : 'triggered',
+        error: error?.message,
+        httpStatus: error?.statusCode,
+      });
+    } catch (recordError) {
+      console.error(`[HA Queue] Failed to record attempt of trigger ${id}:`, recordError);
+    }
+  }
+
   /**
    * Cancel a pending automation trigger
    *
@@ -230,6 +409,28 @@ export class AutomationTriggerQueue {
     await this.processTrigger(id);
   }
 
+  /**
+   * Look up a configured retry policy for a trigger
+   *
+   * @param name - Policy name
+   * @returns The policy's settings, stored with the trigger
+   * @throws Error if no policy has that name
+   */
+  resolveRetryPolicy(name: string): RetryPolicy {
+    const policy = this.retryPolicies?.getPolicy(name);
+    if (!policy) {
+      throw new Error(`Unknown retry policy "${name}"`);
+    }
+    return policy;
+  }
+
+  /**
+   * Names of the configured retry policies
+   */
+  getRetryPolicyNames(): string[] {
+    return this.retryPolicies?.getPolicyNames() ?? [];
+  }
+
   /**
    * Calculate retry delay with exponential backoff
    */
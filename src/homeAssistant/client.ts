@@ -3,6 +3,7 @@
  *
  * Handles communication with Home Assistant REST API including:
  * - Triggering automations
+ * - Calling services
  * - Listing automations (with caching for autocomplete)
  * - Connection validation
  */
@@ -48,7 +49,28 @@ export class HomeAssistantClient {
 
     if (!response.ok) {
       const error = await this.parseError(response);
-      throw new Error(`Failed to trigger automation ${automationId}: ${error.message}`);
+      // Keep the status so the trigger's attempt history can show it
+      throw Object.assign(new Error(`Failed to trigger automation ${automationId}: ${error.message}`), {
+        statusCode: error.statusCode,
+      });
+    }
+  }
+
+  /**
+   * Call a Home Assistant service (e.g., "cover" / "close_cover")
+   */
+  async callService(domain: string, service: string, data: Record<string, any> = {}): Promise<void> {
+    const response = await this.fetch(`/api/services/${domain}/${service}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      const error = await this.parseError(response);
+      throw new Error(`Failed to call service ${domain}.${service}: ${error.message}`);
     }
   }
 
@@ -2,6 +2,8 @@
  * Home Assistant Integration Types
  */
 
+import type { RetryPolicy } from '../retry/types.js';
+
 /**
  * Home Assistant automation entity from API
  */
@@ -41,10 +43,16 @@ export type AutomationTriggerStatus =
 export interface AutomationTriggerInput {
   automationId: string;
   automationName?: string;
-  scheduledFor: string | Date;
+  scheduledFor?: string | Date; // Default: now, or the first occurrence of a recurring trigger
   triggeredBy: string; // Discord user ID
   notifyOnComplete?: boolean;
   maxRetries?: number;
+  retryPolicy?: RetryPolicy; // Backoff of retries; the default policy when omitted
+  recurrence?: string; // Cron expression or "every 1d at 08:00"; creates a trigger series
+  endsAt?: string | Date; // Last time a recurring trigger may run
+  maxOccurrences?: number; // Total runs of a recurring trigger, including the first
+  timezone?: string; // IANA timezone for wall-clock times and recurrence (default: BOT_TIMEZONE)
+  seriesId?: number; // Set internally for occurrences of a series
 }
 
 /**
@@ -64,6 +72,49 @@ export interface AutomationTrigger {
   lastError: string | null;
   notificationId: number | null;
   notifyOnComplete: boolean;
+  seriesId: number | null;
+  nextAttemptAt: Date | null; // Earliest time of the next retry while backing off after a failure
+  retryPolicy: RetryPolicy | null; // Retry policy chosen when the trigger was created (null = default)
+}
+
+/**
+ * One attempt to trigger an automation
+ */
+export interface AutomationTriggerAttempt {
+  id?: number;
+  triggerId: number;
+  attempt?: number; // 1 for the first attempt; assigned when recorded
+  startedAt: Date;
+  attemptedAt?: Date; // When the attempt finished
+  outcome: 'triggered' | 'failed';
+  error?: string;
+  httpStatus?: number; // Status of Home Assistant's error response
+}
+
+/**
+ * Trigger series status
+ */
+export type AutomationTriggerSeriesStatus = 'active' | 'ended';
+
+/**
+ * Database record for a recurring automation trigger series.
+ * Each occurrence is a row in ha_automation_triggers linked by series_id.
+ */
+export interface AutomationTriggerSeries {
+  id: number;
+  createdAt: Date;
+  automationId: string;
+  automationName: string | null;
+  triggeredBy: string;
+  recurrence: string;
+  notifyOnComplete: boolean;
+  maxRetries: number;
+  endsAt: Date | null;
+  maxOccurrences: number | null;
+  timezone: string | null; // null = BOT_TIMEZONE
+  retryPolicy: RetryPolicy | null; // Copied to each trigger
+  occurrences: number; // Occurrences created so far
+  status: AutomationTriggerSeriesStatus;
 }
 
 /**
@@ -8,6 +8,13 @@ import { CommandHandler } from './commands.js';
 import { createHAClientFromEnv } from './homeAssistant/client.js';
 import { AutomationTriggerQueue } from './homeAssistant/automationQueue.js';
 import { PermissionManager } from './permissions.js';
+import { createChannelRouterFromEnv } from './routing/channelRouter.js';
+import { RoutingRulesManager } from './routing/rulesManager.js';
+import { EscalationPolicyManager } from './escalation/policyManager.js';
+import { MentionManager } from './mentions/mentionManager.js';
+import { SeverityConfigManager } from './severity/severityManager.js';
+import { RetryPolicyManager } from './retry/policyManager.js';
+import { getDefaultTimezone } from './utils/timezone.js';
 import * as path from 'path';
 
 dotenv.config();
@@ -19,6 +26,11 @@ const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
 const DATABASE_PATH = process.env.DATABASE_PATH || './data/bot.db';
 const SCHEDULER_INTERVAL = parseInt(process.env.QUEUE_SCHEDULER_INTERVAL || '30');
 const HA_PERMISSIONS_CONFIG = process.env.HA_PERMISSIONS_CONFIG || './config/ha-permissions.json';
+const NOTIFICATION_ROUTING_CONFIG = process.env.NOTIFICATION_ROUTING_CONFIG || './config/notification-routing.json';
+const ESCALATION_POLICY_CONFIG = process.env.ESCALATION_POLICY_CONFIG || './config/escalation-policies.json';
+const MENTION_CONFIG = process.env.MENTION_CONFIG || './config/mentions.json';
+const SEVERITY_CONFIG = process.env.SEVERITY_CONFIG || './config/severity-levels.json';
+const RETRY_POLICY_CONFIG = process.env.RETRY_POLICY_CONFIG || './config/retry-policies.json';
 
 if (!TOKEN || !CHANNEL_ID) {
   console.error('Missing required environment variables: DISCORD_TOKEN and DISCORD_CHANNEL_ID');
@@ -53,6 +65,21 @@ let haQueue: AutomationTriggerQueue | undefined;
 // Initialize permission manager
 let permissionManager: PermissionManager | undefined;
 
+// Initialize routing rules
+let routingRules: RoutingRulesManager | undefined;
+
+// Initialize escalation policies
+let escalationPolicies: EscalationPolicyManager | undefined;
+
+// Initialize mention groups and allowlist
+let mentionManager: MentionManager | undefined;
+
+// Initialize per-severity behavior
+let severityLevels: SeverityConfigManager | undefined;
+
+// Initialize named retry policies
+let retryPolicies: RetryPolicyManager | undefined;
+
 // Event: Bot ready
 client.on(Events.ClientReady, async () => {
   console.log(`✅ Bot logged in as ${client.user?.tag}`);
@@ -135,12 +162,32 @@ process.on('SIGTERM', async () => {
 
 async function main() {
   try {
+    // Validate BOT_TIMEZONE early; wall-clock times like "tomorrow 7am" resolve in it
+    console.log(`Using timezone ${getDefaultTimezone()}`);
+
     // Initialize database
     console.log('Initializing database...');
     await database.initialize();
 
-    // Initialize persistent queue
-    queue = new PersistentNotificationQueue(client, database, CHANNEL_ID!);
+    // Initialize persistent queue (with optional named channel routes, routing rules, escalation policies,
+    // mention config, severity levels and retry policies)
+    const channelRouter = createChannelRouterFromEnv(CHANNEL_ID!);
+    routingRules = new RoutingRulesManager(path.resolve(NOTIFICATION_ROUTING_CONFIG));
+    escalationPolicies = new EscalationPolicyManager(path.resolve(ESCALATION_POLICY_CONFIG));
+    mentionManager = new MentionManager(path.resolve(MENTION_CONFIG));
+    severityLevels = new SeverityConfigManager(path.resolve(SEVERITY_CONFIG));
+    retryPolicies = new RetryPolicyManager(path.resolve(RETRY_POLICY_CONFIG));
+    queue = new PersistentNotificationQueue(
+      client,
+      database,
+      CHANNEL_ID!,
+      channelRouter,
+      routingRules,
+      escalationPolicies,
+      mentionManager,
+      severityLevels,
+      retryPolicies
+    );
     await queue.initialize();
 
     // Initialize Home Assistant integration (optional)
@@ -154,7 +201,7 @@ async function main() {
         console.log('✅ Home Assistant connection validated');
 
         // Initialize automation queue
-        haQueue = new AutomationTriggerQueue(client, database, haClient, CHANNEL_ID!);
+        haQueue = new AutomationTriggerQueue(client, database, haClient, CHANNEL_ID!, retryPolicies);
         await haQueue.initialize();
       } else {
         console.warn('⚠️  Failed to connect to Home Assistant - integration disabled');
@@ -0,0 +1,222 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NotificationMentions } from '../database.js';
+import type { MentionConfig, MentionRequest } from './types.js';
+
+// Discord snowflake IDs
+const ID_PATTERN = /^\d{17,20}$/;
+
+/**
+ * Validate mentions as received from a caller
+ *
+ * @param input - Object with optional `users`, `roles` and `groups` lists
+ * @returns Validated mention request
+ * @throws Error describing the first invalid field
+ */
+export function parseMentionRequest(input: unknown): MentionRequest {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('mentions must be an object with users, roles and/or groups');
+  }
+
+  const { users, roles, groups } = input as Record<string, unknown>;
+  const request: MentionRequest = {};
+
+  for (const [field, value] of [['users', users], ['roles', roles]] as const) {
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || !value.every((id) => typeof id === 'string' && ID_PATTERN.test(id))) {
+      throw new Error(`mentions.${field} must be a list of Discord IDs`);
+    }
+    request[field] = value;
+  }
+
+  if (groups !== undefined) {
+    if (!Array.isArray(groups) || !groups.every((name) => typeof name === 'string' && name.trim() !== '')) {
+      throw new Error('mentions.groups must be a list of group names');
+    }
+    request.groups = groups;
+  }
+
+  return request;
+}
+
+/**
+ * Manages named mention groups, the allowlist of mentions webhook callers may
+ * ping and the role pinged on error notifications
+ */
+export class MentionManager {
+  private config: MentionConfig = {};
+  private configPath: string;
+  private fileWatcher: fs.FSWatcher | null = null;
+
+  /**
+   * Creates a new MentionManager instance
+   * @param configPath Path to the mention config file
+   * @param enableFileWatching Enable automatic config reload on file changes
+   */
+  constructor(configPath: string, enableFileWatching = true) {
+    this.configPath = configPath;
+    this.loadConfig();
+
+    if (enableFileWatching) {
+      this.setupFileWatcher();
+    }
+  }
+
+  /**
+   * Expands groups and combines them with the requested users and roles
+   * @param request Requested mentions
+   * @param enforceAllowlist Reject users and roles that are not on the allowlist
+   * @returns Mentions to ping, or undefined if there are none
+   * @throws Error for unknown groups and mentions that are not allowed
+   */
+  public resolve(request: MentionRequest, enforceAllowlist = false): NotificationMentions | undefined {
+    const users = new Set<string>();
+    const roles = new Set<string>();
+
+    for (const id of request.users ?? []) {
+      if (enforceAllowlist && !this.config.allowlist?.users?.includes(id)) {
+        throw new Error(`user ${id} is not on the mention allowlist`);
+      }
+      users.add(id);
+    }
+
+    for (const id of request.roles ?? []) {
+      if (enforceAllowlist && !this.config.allowlist?.roles?.includes(id)) {
+        throw new Error(`role ${id} is not on the mention allowlist`);
+      }
+      roles.add(id);
+    }
+
+    // Groups are defined by the admin, so their members are always allowed
+    for (const name of request.groups ?? []) {
+      const group = this.config.groups?.[name];
+      if (!group) {
+        throw new Error(`unknown mention group "${name}"`);
+      }
+      group.users?.forEach((id) => users.add(id));
+      group.roles?.forEach((id) => roles.add(id));
+    }
+
+    if (users.size === 0 && roles.size === 0) {
+      return undefined;
+    }
+
+    return { users: Array.from(users), roles: Array.from(roles) };
+  }
+
+  /**
+   * Gets the mentions added to every error notification
+   * @returns The configured error role, or undefined if none is configured
+   */
+  public getErrorMentions(): NotificationMentions | undefined {
+    return this.config.errorRole ? { roles: [this.config.errorRole] } : undefined;
+  }
+
+  /**
+   * Loads the mention config from file
+   */
+  public loadConfig(): void {
+    try {
+      // Check if config file exists
+      if (!fs.existsSync(this.configPath)) {
+        console.log(`[Mentions] No mention config at ${this.configPath}, mention groups and allowlist are empty`);
+        this.config = {};
+        return;
+      }
+
+      // Read and parse config file
+      const fileContent = fs.readFileSync(this.configPath, 'utf-8');
+      const config: MentionConfig = JSON.parse(fileContent);
+
+      const error = this.validateConfig(config);
+      if (error) {
+        console.error(`[Mentions] Invalid config format: ${error}`);
+        this.config = {};
+        return;
+      }
+
+      this.config = config;
+      console.log(`[Mentions] Loaded ${this.getGroupNames().length} mention group(s)`);
+    } catch (error) {
+      console.error('[Mentions] Error loading config:', error);
+      console.error('[Mentions] Mention groups and allowlist are empty until the config is fixed');
+      this.config = {};
+    }
+  }
+
+  /**
+   * Validates the config structure
+   * @returns Description of the first problem, or null if the config is valid
+   */
+  private validateConfig(config: MentionConfig): string | null {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return 'config must be an object';
+    }
+
+    const isIdList = (value: unknown) =>
+      value === undefined || (Array.isArray(value) && value.every((id) => typeof id === 'string' && ID_PATTERN.test(id)));
+    const isMentions = (value: NotificationMentions | undefined) =>
+      value !== null && typeof value === 'object' && isIdList(value.users) && isIdList(value.roles);
+
+    if (config.groups !== undefined) {
+      if (typeof config.groups !== 'object' || config.groups === null || Array.isArray(config.groups)) {
+        return 'groups must be an object';
+      }
+      for (const [name, group] of Object.entries(config.groups)) {
+        if (!isMentions(group)) {
+          return `group "${name}" must have users and/or roles lists of Discord IDs`;
+        }
+      }
+    }
+
+    if (config.allowlist !== undefined && !isMentions(config.allowlist)) {
+      return 'allowlist must have users and/or roles lists of Discord IDs';
+    }
+
+    if (config.errorRole !== undefined && (typeof config.errorRole !== 'string' || !ID_PATTERN.test(config.errorRole))) {
+      return 'errorRole must be a Discord role ID';
+    }
+
+    return null;
+  }
+
+  /**
+   * Sets up file watcher for automatic config reload
+   */
+  private setupFileWatcher(): void {
+    try {
+      const configDir = path.dirname(this.configPath);
+
+      // Watch the config directory for changes
+      this.fileWatcher = fs.watch(configDir, (eventType, filename) => {
+        // Only reload if our config file changed
+        if (filename === path.basename(this.configPath)) {
+          console.log('[Mentions] Config file changed, reloading...');
+          this.loadConfig();
+        }
+      });
+
+      console.log('[Mentions] File watching enabled for config updates');
+    } catch (error) {
+      console.error('[Mentions] Error setting up file watcher:', error);
+    }
+  }
+
+  /**
+   * Stops the file watcher and cleans up resources
+   */
+  public destroy(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.close();
+      this.fileWatcher = null;
+      console.log('[Mentions] File watcher stopped');
+    }
+  }
+
+  /**
+   * Gets the names of the configured mention groups
+   */
+  public getGroupNames(): string[] {
+    return Object.keys(this.config.groups ?? {});
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Mention Types
+ */
+
+import type { NotificationMentions } from '../database.js';
+
+/**
+ * Mentions requested for a notification: user and role IDs, plus named groups
+ * from the mention config
+ */
+export interface MentionRequest {
+  users?: string[]; // Discord user IDs
+  roles?: string[]; // Discord role IDs
+  groups?: string[]; // Names of groups in the mention config
+}
+
+/**
+ * Mention config file structure
+ */
+export interface MentionConfig {
+  groups?: Record<string, NotificationMentions>; // Named sets of users and roles
+  allowlist?: NotificationMentions; // Users and roles webhook callers may ping directly
+  errorRole?: string; // Role pinged on every error notification
+}
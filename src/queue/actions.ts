@@ -0,0 +1,204 @@
+/**
+ * Notification Actions
+ *
+ * Validates the buttons attached to a notification and runs them when
+ * clicked. An action either triggers a Home Assistant automation, calls a
+ * Home Assistant service or POSTs to a webhook callback URL. Notifications
+ * that need acknowledgement also get an Acknowledge button.
+ */
+
+import type { NotificationAction, NotificationActionStyle } from '../database.js';
+import type { HomeAssistantClient } from '../homeAssistant/client.js';
+
+// Discord allows 5 buttons per row; one row keeps the alert compact
+export const MAX_ACTIONS = 5;
+
+const MAX_LABEL_LENGTH = 80;
+const CALLBACK_TIMEOUT_MS = 10000;
+const CUSTOM_ID_PREFIX = 'notif-action';
+const ACK_CUSTOM_ID_PREFIX = 'notif-ack';
+
+const STYLES: NotificationActionStyle[] = ['primary', 'secondary', 'success', 'danger'];
+
+/**
+ * Details sent to a webhook callback when its button is clicked
+ */
+export interface ActionCallbackPayload {
+  notificationId: number;
+  action: string; // Button label
+  userId: string;
+  username: string;
+}
+
+/**
+ * Validate and normalize the actions of a notification
+ *
+ * @param input - Actions as received from the caller
+ * @returns Validated actions
+ * @throws Error describing the first invalid action
+ */
+export function parseNotificationActions(input: unknown): NotificationAction[] {
+  if (!Array.isArray(input)) {
+    throw new Error('actions must be an array');
+  }
+
+  if (input.length > MAX_ACTIONS) {
+    throw new Error(`at most ${MAX_ACTIONS} actions are allowed`);
+  }
+
+  return input.map((raw, index) => {
+    const where = `action ${index + 1}`;
+
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`${where} must be an object`);
+    }
+
+    const { label, style, automation, service, data, url } = raw as Record<string, unknown>;
+
+    if (typeof label !== 'string' || label.trim() === '' || label.length > MAX_LABEL_LENGTH) {
+      throw new Error(`${where} needs a label of at most ${MAX_LABEL_LENGTH} characters`);
+    }
+
+    if (style !== undefined && !STYLES.includes(style as NotificationActionStyle)) {
+      throw new Error(`${where} has an invalid style (use ${STYLES.join(', ')})`);
+    }
+
+    const targets = [automation, service, url].filter((target) => target !== undefined);
+    if (targets.length !== 1) {
+      throw new Error(`${where} needs exactly one of automation, service or url`);
+    }
+
+    const action: NotificationAction = { label, style: (style as NotificationActionStyle) ?? 'secondary' };
+
+    if (automation !== undefined) {
+      if (typeof automation !== 'string' || !/^automation\.[a-z0-9_]+$/.test(automation)) {
+        throw new Error(`${where} has an invalid automation (e.g., "automation.close_garage")`);
+      }
+      action.automation = automation;
+    } else if (service !== undefined) {
+      if (typeof service !== 'string' || !/^[a-z0-9_]+\.[a-z0-9_]+$/.test(service)) {
+        throw new Error(`${where} has an invalid service (e.g., "cover.close_cover")`);
+      }
+      if (data !== undefined && (data === null || typeof data !== 'object' || Array.isArray(data))) {
+        throw new Error(`${where} has invalid service data: must be an object`);
+      }
+      action.service = service;
+      if (data !== undefined) {
+        action.data = data as Record<string, any>;
+      }
+    } else {
+      if (typeof url !== 'string' || !/^https?:\/\/\S+$/.test(url)) {
+        throw new Error(`${where} has an invalid url: must be an http(s) URL`);
+      }
+      action.url = url;
+    }
+
+    return action;
+  });
+}
+
+/**
+ * Build the custom ID of a notification's action button
+ */
+export function buildActionCustomId(notificationId: number, index: number): string {
+  return `${CUSTOM_ID_PREFIX}:${notificationId}:${index}`;
+}
+
+/**
+ * Parse the custom ID of an action button
+ *
+ * @returns Notification ID and action index, or null if the ID is not an action button
+ */
+export function parseActionCustomId(customId: string): { notificationId: number; index: number } | null {
+  const parts = customId.split(':');
+  if (parts.length !== 3 || parts[0] !== CUSTOM_ID_PREFIX || !/^\d+$/.test(parts[1]) || !/^\d+$/.test(parts[2])) {
+    return null;
+  }
+
+  return { notificationId: parseInt(parts[1], 10), index: parseInt(parts[2], 10) };
+}
+
+/**
+ * Build the custom ID of a notification's Acknowledge button
+ */
+export function buildAckCustomId(notificationId: number): string {
+  return `${ACK_CUSTOM_ID_PREFIX}:${notificationId}`;
+}
+
+/**
+ * Parse the custom ID of an Acknowledge button
+ *
+ * @returns Notification ID, or null if the ID is not an Acknowledge button
+ */
+export function parseAckCustomId(customId: string): number | null {
+  const parts = customId.split(':');
+  if (parts.length !== 2 || parts[0] !== ACK_CUSTOM_ID_PREFIX || !/^\d+$/.test(parts[1])) {
+    return null;
+  }
+
+  return parseInt(parts[1], 10);
+}
+
+/**
+ * Run an action
+ *
+ * @param action - Action to run
+ * @param haClient - Home Assistant client (required for automation and service actions)
+ * @param payload - Details sent to webhook callbacks
+ * @throws Error if the action fails
+ */
+export async function runNotificationAction(
+  action: NotificationAction,
+  haClient: HomeAssistantClient | null,
+  payload: ActionCallbackPayload
+): Promise<void> {
+  if (action.url) {
+    await postCallback(action.url, payload);
+    return;
+  }
+
+  if (!haClient) {
+    throw new Error('Home Assistant integration is not configured');
+  }
+
+  if (action.automation) {
+    await haClient.triggerAutomation(action.automation);
+    return;
+  }
+
+  const [domain, service] = action.service!.split('.');
+  await haClient.callService(domain, service, action.data);
+}
+
+/**
+ * POST a click to a webhook callback URL
+ */
+async function postCallback(url: string, payload: ActionCallbackPayload): Promise<void> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        notification_id: payload.notificationId,
+        action: payload.action,
+        user_id: payload.userId,
+        username: payload.username,
+      }),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Callback returned ${response.status} ${response.statusText}`);
+    }
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(`Callback timed out after ${CALLBACK_TIMEOUT_MS}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
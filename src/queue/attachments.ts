@@ -0,0 +1,160 @@
+/**
+ * Notification Attachments
+ *
+ * Parses multipart webhook requests into the notification payload and the
+ * uploaded files, enforcing the configured count, size and type limits. The
+ * files are stored under the data directory by the database and attached to
+ * the Discord message when the notification is sent.
+ */
+
+import type { AttachmentUpload } from '../database.js';
+
+/**
+ * Limits applied to uploaded attachments
+ */
+export interface AttachmentLimits {
+  maxFiles: number;
+  maxFileBytes: number;
+  allowedTypes: string[]; // MIME types; "image/*" allows every image type
+}
+
+// Discord accepts 10 files per message and 10 MB per file without boosts
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxFiles: 10,
+  maxFileBytes: 8 * 1024 * 1024,
+  allowedTypes: ['image/*', 'video/mp4', 'application/pdf', 'text/plain', 'text/csv', 'application/json'],
+};
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Read the attachment limits from the environment
+ *
+ * ATTACHMENT_MAX_FILES, ATTACHMENT_MAX_SIZE_MB and ATTACHMENT_ALLOWED_TYPES
+ * (comma-separated MIME types) override the defaults; invalid values are
+ * ignored with a warning.
+ */
+export function getAttachmentLimitsFromEnv(): AttachmentLimits {
+  const limits = { ...DEFAULT_ATTACHMENT_LIMITS };
+
+  const maxFiles = process.env.ATTACHMENT_MAX_FILES;
+  if (maxFiles) {
+    const parsed = Number(maxFiles);
+    if (Number.isInteger(parsed) && parsed >= 0 && parsed <= 10) {
+      limits.maxFiles = parsed;
+    } else {
+      console.warn(`[Attachments] Invalid ATTACHMENT_MAX_FILES "${maxFiles}" (0-10), using ${limits.maxFiles}`);
+    }
+  }
+
+  const maxSize = process.env.ATTACHMENT_MAX_SIZE_MB;
+  if (maxSize) {
+    const parsed = Number(maxSize);
+    if (parsed > 0) {
+      limits.maxFileBytes = Math.floor(parsed * 1024 * 1024);
+    } else {
+      console.warn(`[Attachments] Invalid ATTACHMENT_MAX_SIZE_MB "${maxSize}", using ${limits.maxFileBytes / 1024 / 1024}`);
+    }
+  }
+
+  const allowedTypes = process.env.ATTACHMENT_ALLOWED_TYPES;
+  if (allowedTypes) {
+    limits.allowedTypes = allowedTypes.split(',').map((type) => type.trim().toLowerCase()).filter(Boolean);
+  }
+
+  return limits;
+}
+
+/**
+ * Parse a multipart/form-data webhook request
+ *
+ * The notification is read from the `payload_json` field (like Discord's own
+ * API) or, without it, from the plain form fields. Every file part is an
+ * attachment, whatever its field name.
+ *
+ * @param raw - Raw request body
+ * @param contentType - Content-Type header, including the boundary
+ * @param limits - Attachment limits
+ * @returns Notification payload and uploaded files
+ * @throws Error describing the first problem found
+ */
+export async function parseMultipartNotification(
+  raw: Buffer,
+  contentType: string,
+  limits: AttachmentLimits
+): Promise<{ body: Record<string, unknown>; uploads: AttachmentUpload[] }> {
+  let form: FormData;
+  try {
+    form = await new Response(raw, { headers: { 'content-type': contentType } }).formData();
+  } catch {
+    throw new Error('malformed multipart body');
+  }
+
+  let body: Record<string, unknown> = {};
+  const files: File[] = [];
+
+  const payload = form.get('payload_json');
+  if (payload !== null) {
+    if (typeof payload !== 'string') {
+      throw new Error('payload_json must be a JSON string');
+    }
+    try {
+      body = JSON.parse(payload);
+    } catch {
+      throw new Error('payload_json is not valid JSON');
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('payload_json must be a JSON object');
+    }
+  }
+
+  for (const [key, value] of form.entries()) {
+    if (typeof value !== 'string') {
+      files.push(value);
+    } else if (payload === null) {
+      body[key] = value;
+    }
+  }
+
+  if (files.length > limits.maxFiles) {
+    throw new Error(`${files.length} files given (max ${limits.maxFiles})`);
+  }
+
+  const uploads: AttachmentUpload[] = [];
+  for (const file of files) {
+    const name = sanitizeFileName(file.name);
+    const contentType = (file.type || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+
+    if (file.size === 0) {
+      throw new Error(`file "${name}" is empty`);
+    }
+    if (file.size > limits.maxFileBytes) {
+      throw new Error(`file "${name}" is ${file.size} bytes (max ${limits.maxFileBytes})`);
+    }
+    if (!isAllowedType(contentType, limits.allowedTypes)) {
+      throw new Error(`file "${name}" has type ${contentType}, which is not allowed`);
+    }
+    if (uploads.some((upload) => upload.name === name)) {
+      throw new Error(`file "${name}" was uploaded twice`);
+    }
+
+    uploads.push({ name, contentType, data: Buffer.from(await file.arrayBuffer()) });
+  }
+
+  return { body, uploads };
+}
+
+/**
+ * Reduce a file name to characters that are safe on disk and in attachment:// URLs
+ */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const safe = base.replace(/[^A-Za-z0-9._-]/g, '_').replace(/^\.+/, '').slice(-MAX_NAME_LENGTH);
+  return safe || 'file';
+}
+
+function isAllowedType(contentType: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith('/*') ? contentType.startsWith(allowed.slice(0, -1)) : contentType === allowed
+  );
+}
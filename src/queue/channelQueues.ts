@@ -0,0 +1,140 @@
+/**
+ * Per-channel delivery queues
+ *
+ * Each Discord channel (or DM recipient) gets its own queue with a
+ * concurrency of 1, so notifications stay in order within a channel while
+ * different channels deliver in parallel. A channel that hits a rate limit is
+ * paused until Discord's retry-after passes without holding up the others.
+ */
+
+import PQueue from 'p-queue';
+import type { ChannelQueueDepth } from './types.js';
+
+export class ChannelQueues {
+  private queues = new Map<string, PQueue>();
+  private pausedUntil = new Map<string, { until: Date; timer: NodeJS.Timeout }>();
+
+  /**
+   * Add a task to a channel's queue
+   *
+   * @param key - Channel ID, or "dm:<userId>" for direct messages
+   * @param task - Task to run once every earlier task of the channel finished
+   * @param priority - Tasks with a higher priority run before waiting tasks with a lower one
+   */
+  async add(key: string, task: () => Promise<void>, priority = 0): Promise<void> {
+    await this.getQueue(key).add(task, { priority });
+  }
+
+  /**
+   * Stop starting tasks of a channel for a while (tasks already running finish)
+   *
+   * @param key - Channel key
+   * @param ms - How long to pause
+   */
+  pause(key: string, ms: number): void {
+    const queue = this.getQueue(key);
+    const until = new Date(Date.now() + ms);
+
+    const current = this.pausedUntil.get(key);
+    if (current && current.until.getTime() >= until.getTime()) {
+      return;
+    }
+    if (current) {
+      clearTimeout(current.timer);
+    }
+
+    queue.pause();
+    const timer = setTimeout(() => this.resume(key), ms);
+    timer.unref?.();
+    this.pausedUntil.set(key, { until, timer });
+  }
+
+  /**
+   * Pause every channel that has a queue (e.g. on a global rate limit)
+   */
+  pauseAll(ms: number): void {
+    for (const key of this.queues.keys()) {
+      this.pause(key, ms);
+    }
+  }
+
+  /**
+   * Restart every paused channel now
+   */
+  resumeAll(): void {
+    for (const key of [...this.pausedUntil.keys()]) {
+      this.resume(key);
+    }
+  }
+
+  /**
+   * Depth of every channel with waiting or running tasks, deepest first
+   */
+  getDepths(): ChannelQueueDepth[] {
+    const depths: ChannelQueueDepth[] = [];
+    for (const [key, queue] of this.queues) {
+      if (queue.size === 0 && queue.pending === 0) continue;
+      depths.push({
+        key,
+        waiting: queue.size,
+        inFlight: queue.pending,
+        pausedUntil: this.pausedUntil.get(key)?.until,
+      });
+    }
+    return depths.sort((a, b) => b.waiting + b.inFlight - (a.waiting + a.inFlight));
+  }
+
+  /**
+   * Number of waiting and running tasks across all channels
+   */
+  getSize(): number {
+    let size = 0;
+    for (const queue of this.queues.values()) {
+      size += queue.size + queue.pending;
+    }
+    return size;
+  }
+
+  /**
+   * Wait until every channel's queue is empty
+   */
+  async onIdle(): Promise<void> {
+    // Tasks may add more tasks while we wait, so check again until nothing is left
+    while (this.getSize() > 0) {
+      await Promise.all([...this.queues.values()].map((queue) => queue.onIdle()));
+    }
+  }
+
+  private getQueue(key: string): PQueue {
+    let queue = this.queues.get(key);
+    if (!queue) {
+      // Concurrency of 1 keeps a channel's notifications in order
+      const created = new PQueue({ concurrency: 1 });
+      created.on('idle', () => {
+        // Drop idle channels so the map does not grow with every channel ever used
+        if (created.size === 0 && created.pending === 0 && !this.pausedUntil.has(key)) {
+          this.queues.delete(key);
+        }
+      });
+      this.queues.set(key, created);
+      queue = created;
+    }
+    return queue;
+  }
+
+  private resume(key: string): void {
+    const paused = this.pausedUntil.get(key);
+    if (paused) {
+      clearTimeout(paused.timer);
+      this.pausedUntil.delete(key);
+    }
+
+    const queue = this.queues.get(key);
+    if (!queue) return;
+
+    queue.start();
+    if (queue.size === 0 && queue.pending === 0) {
+      this.queues.delete(key);
+    }
+  }
+}
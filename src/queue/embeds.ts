@@ -0,0 +1,221 @@
+/**
+ * Rich Embeds
+ *
+ * Validates the optional embed content of a notification (fields, links,
+ * images, author, footer and color) against Discord's embed limits, so
+ * oversized notifications are rejected up front instead of failing on send.
+ */
+
+import type { NotificationEmbed, NotificationEmbedField } from '../database.js';
+
+// Discord embed limits (https://discord.com/developers/docs/resources/message#embed-object-embed-limits)
+export const EMBED_LIMITS = {
+  TITLE: 256,
+  DESCRIPTION: 4096,
+  FIELD_NAME: 256,
+  FIELD_VALUE: 1024,
+  FOOTER: 2048,
+  AUTHOR_NAME: 256,
+  URL: 2048,
+  TOTAL: 6000,
+  // Discord allows 25 fields; the bot adds up to 3 of its own (acknowledged, resolved, repeats)
+  FIELDS: 22,
+};
+
+const ATTACHMENT_SCHEME = 'attachment://';
+
+/**
+ * Embed content as received by the webhook
+ */
+export interface EmbedRequest {
+  source?: unknown;
+  title?: unknown;
+  message?: unknown;
+  fields?: unknown;
+  url?: unknown;
+  image_url?: unknown;
+  thumbnail_url?: unknown;
+  author?: unknown;
+  footer?: unknown;
+  color?: unknown;
+}
+
+/**
+ * Validate the embed content of a webhook request
+ *
+ * @param input - Request body
+ * @param attachmentNames - Names of the uploaded files, which image_url and
+ *                          thumbnail_url may show as attachment://<name>
+ * @returns The embed (undefined if no embed options were given) and every problem found
+ */
+export function parseEmbedRequest(
+  input: EmbedRequest,
+  attachmentNames: string[] = []
+): { embed?: NotificationEmbed; errors: string[] } {
+  const errors: string[] = [];
+  const embed: NotificationEmbed = {};
+
+  if (input.fields !== undefined) {
+    if (!Array.isArray(input.fields)) {
+      errors.push('fields must be an array');
+    } else {
+      embed.fields = [];
+      input.fields.forEach((raw, index) => {
+        const { name, value, inline } = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+        if (typeof name !== 'string' || name.trim() === '' || typeof value !== 'string' || value.trim() === '') {
+          errors.push(`field ${index + 1} needs a non-empty name and value`);
+          return;
+        }
+        if (inline !== undefined && typeof inline !== 'boolean') {
+          errors.push(`field ${index + 1} has an invalid inline flag: must be a boolean`);
+          return;
+        }
+        const field: NotificationEmbedField = { name, value };
+        if (inline !== undefined) field.inline = inline;
+        embed.fields!.push(field);
+      });
+    }
+  }
+
+  for (const [key, target] of [['url', 'url'], ['image_url', 'imageUrl'], ['thumbnail_url', 'thumbnailUrl']] as const) {
+    const value = input[key];
+    if (value === undefined) continue;
+    if (key !== 'url' && typeof value === 'string' && value.startsWith(ATTACHMENT_SCHEME)) {
+      const name = value.slice(ATTACHMENT_SCHEME.length);
+      if (!attachmentNames.includes(name)) {
+        errors.push(`${key} refers to attachment "${name}", which was not uploaded`);
+      } else {
+        embed[target] = value;
+      }
+    } else if (!isHttpUrl(value)) {
+      errors.push(`${key} must be an http(s) URL`);
+    } else {
+      embed[target] = value;
+    }
+  }
+
+  if (input.author !== undefined) {
+    const { name, url, icon_url } = (input.author && typeof input.author === 'object' ? input.author : {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || name.trim() === '') {
+      errors.push('author needs a non-empty name');
+    } else if (url !== undefined && !isHttpUrl(url)) {
+      errors.push('author.url must be an http(s) URL');
+    } else if (icon_url !== undefined && !isHttpUrl(icon_url)) {
+      errors.push('author.icon_url must be an http(s) URL');
+    } else {
+      embed.author = { name };
+      if (url !== undefined) embed.author.url = url as string;
+      if (icon_url !== undefined) embed.author.iconUrl = icon_url as string;
+    }
+  }
+
+  if (input.footer !== undefined) {
+    if (typeof input.footer !== 'string' || input.footer.trim() === '') {
+      errors.push('footer must be a non-empty string');
+    } else {
+      embed.footer = input.footer;
+    }
+  }
+
+  if (input.color !== undefined) {
+    const color = parseColor(input.color);
+    if (color === null) {
+      errors.push('color must be a hex color like "#ff8800" or a number from 0 to 16777215');
+    } else {
+      embed.color = color;
+    }
+  }
+
+  const hasEmbed = Object.keys(embed).length > 0;
+  errors.push(
+    ...checkEmbedLimits({
+      source: typeof input.source === 'string' ? input.source : '',
+      title: typeof input.title === 'string' ? input.title : undefined,
+      message: typeof input.message === 'string' ? input.message : '',
+      embed: hasEmbed ? embed : undefined,
+    })
+  );
+
+  return { embed: hasEmbed ? embed : undefined, errors };
+}
+
+/**
+ * Check a notification against Discord's embed size limits
+ *
+ * @returns A description of every limit exceeded (empty if the notification fits)
+ */
+export function checkEmbedLimits(notification: {
+  source: string;
+  title?: string;
+  message: string;
+  embed?: NotificationEmbed;
+}): string[] {
+  const errors: string[] = [];
+  const { embed } = notification;
+  const check = (what: string, text: string | undefined, max: number) => {
+    if (text !== undefined && text.length > max) {
+      errors.push(`${what} is ${text.length} characters (max ${max})`);
+    }
+  };
+
+  // The title falls back to the source, and the footer to the source
+  const title = notification.title || notification.source;
+  const footer = embed?.footer ?? notification.source;
+
+  check('title', title, EMBED_LIMITS.TITLE);
+  check('message', notification.message, EMBED_LIMITS.DESCRIPTION);
+  check('footer', footer, EMBED_LIMITS.FOOTER);
+  check('author name', embed?.author?.name, EMBED_LIMITS.AUTHOR_NAME);
+
+  for (const [what, url] of [
+    ['url', embed?.url],
+    ['image_url', embed?.imageUrl],
+    ['thumbnail_url', embed?.thumbnailUrl],
+    ['author.url', embed?.author?.url],
+    ['author.icon_url', embed?.author?.iconUrl],
+  ] as const) {
+    check(what, url, EMBED_LIMITS.URL);
+  }
+
+  const fields = embed?.fields ?? [];
+  if (fields.length > EMBED_LIMITS.FIELDS) {
+    errors.push(`${fields.length} fields given (max ${EMBED_LIMITS.FIELDS})`);
+  }
+  fields.forEach((field, index) => {
+    check(`field ${index + 1} name`, field.name, EMBED_LIMITS.FIELD_NAME);
+    check(`field ${index + 1} value`, field.value, EMBED_LIMITS.FIELD_VALUE);
+  });
+
+  const total =
+    title.length +
+    notification.message.length +
+    footer.length +
+    (embed?.author?.name.length ?? 0) +
+    fields.reduce((sum, field) => sum + field.name.length + field.value.length, 0);
+  if (total > EMBED_LIMITS.TOTAL) {
+    errors.push(`embed text totals ${total} characters (max ${EMBED_LIMITS.TOTAL})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a color given as "#rrggbb" or as a number
+ *
+ * @returns The color, or null if it is invalid
+ */
+export function parseColor(input: unknown): number | null {
+  if (typeof input === 'number') {
+    return Number.isInteger(input) && input >= 0 && input <= 0xffffff ? input : null;
+  }
+
+  if (typeof input === 'string' && /^#?[0-9a-f]{6}$/i.test(input)) {
+    return parseInt(input.replace('#', ''), 16);
+  }
+
+  return null;
+}
+
+function isHttpUrl(value: unknown): value is string {
+  return typeof value === 'string' && /^https?:\/\/\S+$/.test(value);
+}
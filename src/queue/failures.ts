@@ -0,0 +1,159 @@
+/**
+ * Delivery failure classification
+ *
+ * Sorts errors thrown while delivering a notification into categories, and
+ * decides whether retrying can help: a channel the bot cannot see or an
+ * embed Discord rejects fails the same way every time, while server errors,
+ * timeouts and rate limits usually pass.
+ */
+
+import { DiscordAPIError, HTTPError, RateLimitError, RESTJSONErrorCodes } from 'discord.js';
+import type { FailureCategory } from '../database.js';
+
+// Thrown when a channel is missing or cannot hold messages
+export const INVALID_CHANNEL_ERROR = 'Invalid notification channel';
+
+/**
+ * Every failure category, permanent ones first
+ */
+export const FAILURE_CATEGORIES: FailureCategory[] = [
+  'missing_access',
+  'missing_permissions',
+  'unknown_channel',
+  'unknown_user',
+  'invalid_channel',
+  'invalid_payload',
+  'payload_too_large',
+  'missing_attachment',
+  'rejected',
+  'rate_limited',
+  'server_error',
+  'timeout',
+  'network',
+  'unknown',
+];
+
+// Categories that fail again on every retry
+const PERMANENT_FAILURES: ReadonlySet<FailureCategory> = new Set<FailureCategory>([
+  'missing_access',
+  'missing_permissions',
+  'unknown_channel',
+  'unknown_user',
+  'invalid_channel',
+  'invalid_payload',
+  'payload_too_large',
+  'missing_attachment',
+  'rejected',
+]);
+
+// Discord error codes with their own category
+const DISCORD_ERROR_CATEGORIES: Partial<Record<number, FailureCategory>> = {
+  [RESTJSONErrorCodes.MissingAccess]: 'missing_access',
+  [RESTJSONErrorCodes.MissingPermissions]: 'missing_permissions',
+  [RESTJSONErrorCodes.UnknownChannel]: 'unknown_channel',
+  [RESTJSONErrorCodes.UnknownUser]: 'unknown_user',
+  [RESTJSONErrorCodes.InvalidFormBodyOrContentType]: 'invalid_payload',
+  [RESTJSONErrorCodes.CannotSendAnEmptyMessage]: 'invalid_payload',
+  [RESTJSONErrorCodes.RequestEntityTooLarge]: 'payload_too_large',
+};
+
+// Socket error codes of requests that timed out or never reached Discord
+const TIMEOUT_CODES = new Set(['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT']);
+const NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Category of a failed delivery and whether it is worth retrying
+ */
+export interface DeliveryFailure {
+  category: FailureCategory;
+  permanent: boolean;
+}
+
+/**
+ * Check whether a value is a known failure category
+ */
+export function isFailureCategory(value: unknown): value is FailureCategory {
+  return typeof value === 'string' && FAILURE_CATEGORIES.includes(value as FailureCategory);
+}
+
+/**
+ * Check whether a failure category fails again on every retry
+ */
+export function isPermanentFailure(category: FailureCategory): boolean {
+  return PERMANENT_FAILURES.has(category);
+}
+
+/**
+ * Classify an error thrown while delivering a notification
+ *
+ * Unrecognized errors are treated as transient so they are still retried.
+ *
+ * @param error - Error from discord.js or the queue
+ */
+export function classifyDeliveryError(error: unknown): DeliveryFailure {
+  const category = getFailureCategory(error);
+  return { category, permanent: isPermanentFailure(category) };
+}
+
+/**
+ * HTTP status of Discord's response to a failed request, if it got that far
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  if (error instanceof RateLimitError) {
+    return 429;
+  }
+  if (error instanceof DiscordAPIError || error instanceof HTTPError) {
+    return error.status;
+  }
+  return undefined;
+}
+
+function getFailureCategory(error: unknown): FailureCategory {
+  if (error instanceof RateLimitError) {
+    return 'rate_limited';
+  }
+
+  if (error instanceof DiscordAPIError || error instanceof HTTPError) {
+    const code = error instanceof DiscordAPIError ? error.code : undefined;
+    const category = typeof code === 'number' ? DISCORD_ERROR_CATEGORIES[code] : undefined;
+    if (category) return category;
+
+    if (error.status === 429) return 'rate_limited';
+    if (error.status >= 500) return 'server_error';
+    if (error.status === 413) return 'payload_too_large';
+    if (error.status === 403) return 'missing_permissions';
+    if (error.status >= 400) return 'rejected';
+    return 'unknown';
+  }
+
+  if (!(error instanceof Error)) {
+    return 'unknown';
+  }
+
+  if (error.message === INVALID_CHANNEL_ERROR) {
+    return 'invalid_channel';
+  }
+  if (/^Attachment ".*" is missing from /.test(error.message)) {
+    return 'missing_attachment';
+  }
+
+  // discord.js aborts requests that take too long
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return 'timeout';
+  }
+
+  // Node and undici put the socket error code on the error or its cause
+  const codes = [(error as NodeJS.ErrnoException).code, (error as Error & { cause?: NodeJS.ErrnoException }).cause?.code];
+  if (codes.some((code) => code && TIMEOUT_CODES.has(code))) return 'timeout';
+  if (codes.some((code) => code && NETWORK_CODES.has(code))) return 'network';
+
+  return 'unknown';
+}
@@ -5,165 +5,1334 @@
  * All notifications are persisted to the database before processing.
  */
 
-import PQueue from 'p-queue';
-import { Client, TextChannel, EmbedBuilder } from 'discord.js';
-import { Database, NotificationInput, QueuedNotification, QueueStats } from '../database.js';
+import fs from 'fs/promises';
+import {
+  Client,
+  TextChannel,
+  EmbedBuilder,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ChannelType,
+  DiscordAPIError,
+  RateLimitError,
+  RESTEvents,
+  RESTJSONErrorCodes,
+} from 'discord.js';
+import type { RateLimitData } from 'discord.js';
+import {
+  AttemptOutcome,
+  Database,
+  DeadLetterFilter,
+  DigestKind,
+  NotificationActionStyle,
+  NotificationInput,
+  NotificationMentions,
+  NotificationSeries,
+  NotificationSeverity,
+  NotificationUpdate,
+  QueuedNotification,
+  QueueStats,
+  QuietHours,
+} from '../database.js';
 import { parseScheduledTime } from '../utils/dateParser.js';
+import { getDefaultTimezone, isValidTimezone } from '../utils/timezone.js';
+import { parseRecurrence, getFirstOccurrence, getNextOccurrence, Recurrence } from '../utils/recurrence.js';
+import { getQuietHoursEnd, selectQuietHours } from './quietHours.js';
+import { parseNotificationActions, buildActionCustomId, buildAckCustomId } from './actions.js';
+import { checkEmbedLimits } from './embeds.js';
+import { ChannelQueues } from './channelQueues.js';
+import { classifyDeliveryError, getHttpStatus, INVALID_CHANNEL_ERROR } from './failures.js';
+import { ChannelRouter } from '../routing/channelRouter.js';
+import type { RoutingRulesManager } from '../routing/rulesManager.js';
+import type { RoutingDecision } from '../routing/types.js';
+import { DEFAULT_ESCALATION_POLICY } from '../escalation/policyManager.js';
+import type { EscalationPolicyManager } from '../escalation/policyManager.js';
+import type { EscalationPolicy } from '../escalation/types.js';
+import type { MentionManager } from '../mentions/mentionManager.js';
+import type { MentionRequest } from '../mentions/types.js';
+import { DEFAULT_SEVERITY_LEVELS, MAX_PRIORITY, getSeverityRank, isSeverity, isValidPriority } from '../severity/severityManager.js';
+import type { SeverityConfigManager } from '../severity/severityManager.js';
+import type { SeverityLevel } from '../severity/types.js';
+import { getDefaultRetryPolicy, getRetryDelay } from '../retry/policyManager.js';
+import type { RetryPolicyManager } from '../retry/policyManager.js';
+import type { RetryPolicy } from '../retry/types.js';
+import type { EnqueueResult, ActiveQuietHours, ChannelQueueDepth } from './types.js';
+
+// Most notifications listed in a digest embed (every source still shows its count)
+const MAX_DIGEST_LINES = 20;
+
+// When periodic digests are sent unless DIGEST_SCHEDULE says otherwise
+const DEFAULT_DIGEST_SCHEDULE = 'every 1d at 08:00';
+
+// bot_state key holding the schedule and time of the next periodic digest
+const DIGEST_STATE_KEY = 'digest_next_run';
+
+// How long after the last repeat a dedupe key stays active (seconds)
+const DEFAULT_DEDUPE_WINDOW_SECONDS = 300;
+
+// Added to the priority of a notification re-queued after a rate limit, so it goes out
+// before later ones of the same priority but not before more urgent ones
+const RATE_LIMITED_BOOST = 0.5;
+
+// Severity an escalation raises each level to
+const RAISED_SEVERITY: Record<NotificationSeverity, NotificationSeverity> = {
+  debug: 'info',
+  info: 'warning',
+  success: 'warning',
+  warning: 'error',
+  error: 'critical',
+  critical: 'critical',
+};
+
+const BUTTON_STYLES: Record<NotificationActionStyle, ButtonStyle> = {
+  primary: ButtonStyle.Primary,
+  secondary: ButtonStyle.Secondary,
+  success: ButtonStyle.Success,
+  danger: ButtonStyle.Danger,
+};
 
 export class PersistentNotificationQueue {
-  private queue: PQueue;
+  private deliveries: ChannelQueues;
   private client: Client;
   private database: Database;
-  private channelId: string;
+  private router: ChannelRouter;
+  private rules: RoutingRulesManager | null;
+  private escalation: EscalationPolicyManager | null;
+  private mentionManager: MentionManager | null;
+  private severities: SeverityConfigManager | null;
+  private retryPolicies: RetryPolicyManager | null;
   private isShuttingDown: boolean = false;
+  // Tail of the submissions waiting on each dedupe key
+  private dedupeLocks = new Map<string, Promise<void>>();
 
-  constructor(client: Client, database: Database, channelId: string) {
+  constructor(
+    client: Client,
+    database: Database,
+    channelId: string,
+    router?: ChannelRouter,
+    rules?: RoutingRulesManager,
+    escalation?: EscalationPolicyManager,
+    mentions?: MentionManager,
+    severities?: SeverityConfigManager,
+    retryPolicies?: RetryPolicyManager
+  ) {
     this.client = client;
     this.database = database;
-    this.channelId = channelId;
-    // Concurrency of 1 ensures notifications are sent sequentially
-    this.queue = new PQueue({ concurrency: 1 });
+    this.router = router || new ChannelRouter(channelId);
+    this.rules = rules || null;
+    this.escalation = escalation || null;
+    this.mentionManager = mentions || null;
+    this.severities = severities || null;
+    this.retryPolicies = retryPolicies || null;
+    // One queue per channel: in order within a channel, in parallel across channels
+    this.deliveries = new ChannelQueues();
+
+    // discord.js waits out rate limits itself; pause the channel so its other notifications wait here meanwhile
+    this.client.rest?.on(RESTEvents.RateLimited, (info) => this.pauseForRateLimit(info));
+  }
+
+  /**
+   * Initialize the queue by recovering notifications left in 'processing' state
+   * This handles notifications that were being sent when the bot shut down
+   */
+  async initialize(): Promise<void> {
+    console.log('[Queue] Initializing persistent notification queue...');
+
+    // Find notifications stuck in 'processing' state and reset them to 'pending'
+    const processingNotifications = await this.database.getProcessingNotifications();
+
+    if (processingNotifications.length > 0) {
+      console.log(
+        `[Queue] Found ${processingNotifications.length} notification(s) in processing state, resetting to pending...`
+      );
+
+      for (const notification of processingNotifications) {
+        await this.database.updateNotificationStatus(notification.id, 'pending');
+      }
+    }
+
+    console.log('[Queue] Queue initialized successfully');
   }
 
-  /**
-   * Initialize the queue by recovering notifications left in 'processing' state
-   * This handles notifications that were being sent when the bot shut down
-   */
-  async initialize(): Promise<void> {
-    console.log('[Queue] Initializing persistent notification queue...');
+  /**
+   * Enqueue a notification for processing
+   *
+   * @param notification - Notification input
+   * @returns Notification ID (the first one if routing fans out to several channels)
+   */
+  async enqueue(notification: NotificationInput): Promise<number> {
+    const result = await this.submit(notification);
+    return result.notificationId;
+  }
+
+  /**
+   * Apply routing rules and enqueue a notification for each destination channel
+   *
+   * @param notification - Notification input
+   * @returns IDs of the created notifications and the routing outcome
+   */
+  async submit(notification: NotificationInput): Promise<EnqueueResult> {
+    if (notification.delivery === 'dm' && !notification.recipientUserId) {
+      throw new Error('recipientUserId is required for DM delivery');
+    }
+    if (notification.severity !== undefined && !isSeverity(notification.severity)) {
+      throw new Error(`Invalid severity "${notification.severity}"`);
+    }
+    if (notification.priority !== undefined && !isValidPriority(notification.priority)) {
+      throw new Error(`priority must be an integer from 0 to ${MAX_PRIORITY}`);
+    }
+
+    // Validate timezone and recurrence before anything is stored
+    if (notification.timezone !== undefined && !isValidTimezone(notification.timezone)) {
+      throw new Error(`Invalid timezone "${notification.timezone}"`);
+    }
+    const timezone = notification.timezone ?? getDefaultTimezone();
+    const recurrence: Recurrence | null = notification.recurrence
+      ? parseRecurrence(notification.recurrence)
+      : null;
+
+    if (notification.dedupeKey && recurrence) {
+      throw new Error('dedupeKey cannot be combined with recurrence');
+    }
+    if (
+      notification.dedupeWindowSeconds !== undefined &&
+      (!Number.isInteger(notification.dedupeWindowSeconds) || notification.dedupeWindowSeconds < 1)
+    ) {
+      throw new Error('dedupeWindowSeconds must be a positive integer');
+    }
+    if (notification.actions) {
+      notification = { ...notification, actions: parseNotificationActions(notification.actions) };
+    }
+    const embedProblems = checkEmbedLimits(notification);
+    if (embedProblems.length > 0) {
+      throw new Error(`Notification exceeds Discord's embed limits: ${embedProblems.join('; ')}`);
+    }
+    if (notification.digest && notification.ackRequired) {
+      throw new Error('digest cannot be combined with ackRequired');
+    }
+    if (notification.digest && notification.delivery === 'dm') {
+      throw new Error('digest cannot be used with DM delivery');
+    }
+    if (notification.digest && notification.attachments?.length) {
+      throw new Error('digest cannot be combined with attachments');
+    }
+
+    // Escalation policies may require acknowledgement of matching notifications; such
+    // notifications are sent on their own, so a requested digest is dropped
+    const escalationPolicy = this.escalation?.evaluate(notification) ?? null;
+    if (notification.ackRequired || escalationPolicy?.requireAck) {
+      notification = { ...notification, ackRequired: true, escalationPolicy: escalationPolicy?.name, digest: false };
+    }
+
+    const decision = this.rules ? this.rules.evaluate(notification) : null;
+
+    // A retry policy picked by the caller wins over the matching rule's
+    if (!notification.retryPolicy && decision?.retryPolicy) {
+      const policy = this.retryPolicies?.getPolicy(decision.retryPolicy);
+      if (policy) {
+        notification = { ...notification, retryPolicy: policy };
+      } else {
+        console.error(
+          `[Queue] Routing rule "${decision.ruleName}" references unknown retry policy "${decision.retryPolicy}", using the default`
+        );
+      }
+    }
+
+    // The retry policy, then the severity level supply the retry budget unless the caller set one;
+    // the severity level also supplies the queue priority
+    const level = this.getSeverityLevel(notification.severity);
+    const policyRetries =
+      notification.retryPolicy?.maxAttempts !== undefined ? notification.retryPolicy.maxAttempts - 1 : undefined;
+    notification = {
+      ...notification,
+      maxRetries: notification.maxRetries ?? policyRetries ?? level.maxRetries,
+      priority: notification.priority ?? level.priority,
+    };
+
+    // Routing rules can batch notifications into the periodic digest, unless they need acknowledgement
+    // or carry files (digests are a single summary message)
+    if (
+      decision?.digest &&
+      !notification.ackRequired &&
+      notification.delivery !== 'dm' &&
+      !notification.attachments?.length
+    ) {
+      notification = { ...notification, digest: true };
+    }
+
+    // Resolve target channels up front so unknown routes are rejected
+    const channelIds = this.resolveTargets(notification, decision, level);
+    const mentions = this.mergeMentions(
+      notification.mentions,
+      decision?.mentions,
+      level.mentions,
+      // Errors and critical alerts can ping a configured role by default
+      getSeverityRank(level.name) >= getSeverityRank('error') ? this.mentionManager?.getErrorMentions() : undefined
+    );
+
+    // Parse scheduled time if provided
+    let scheduledFor: Date;
+    if (notification.scheduledFor) {
+      if (typeof notification.scheduledFor === 'string') {
+        scheduledFor = parseScheduledTime(notification.scheduledFor, { timezone });
+      } else {
+        scheduledFor = notification.scheduledFor;
+      }
+    } else if (recurrence) {
+      scheduledFor = getFirstOccurrence(recurrence, new Date(), timezone);
+    } else {
+      scheduledFor = new Date(); // Immediate delivery
+    }
+
+    // Dropped notifications are recorded as cancelled so they still show up in history
+    // (without their files, which are never sent)
+    if (decision?.drop) {
+      const notificationId = await this.database.saveNotificationToQueue({
+        ...notification,
+        scheduledFor,
+        channel: channelIds[0],
+        mentions,
+        attachments: undefined,
+      });
+      await this.database.updateNotificationStatus(
+        notificationId,
+        'cancelled',
+        `Dropped by routing rule "${decision.ruleName}"`
+      );
+
+      console.log(
+        `[Queue] Notification ${notificationId} from "${notification.source}" dropped by routing rule "${decision.ruleName}"`
+      );
+
+      return {
+        notificationId,
+        notificationIds: [notificationId],
+        dropped: true,
+        ruleName: decision.ruleName,
+      };
+    }
+
+    // The duplicate lookup and the insert run one submission at a time per dedupe key,
+    // otherwise simultaneous repeats would all miss each other and each create a row
+    const release = notification.dedupeKey ? await this.lockDedupeKey(notification.dedupeKey) : null;
+    let seriesId: number | undefined;
+    const notificationIds: number[] = [];
+    try {
+      // Repeats of a deduplicated notification update the existing one instead of creating new rows
+      if (notification.dedupeKey) {
+        const coalesced = await this.coalesceDuplicate(notification);
+        if (coalesced) {
+          return coalesced;
+        }
+      }
+
+      // Recurring notifications belong to a series; the scheduler materializes later occurrences
+      seriesId = recurrence
+        ? await this.database.createNotificationSeries(recurrence.expression, timezone)
+        : undefined;
+
+      // Save to database (one row per destination channel)
+      for (const channelId of channelIds) {
+        const notificationId = await this.database.saveNotificationToQueue({
+          ...notification,
+          scheduledFor,
+          channel: channelId,
+          mentions,
+          seriesId,
+        });
+        notificationIds.push(notificationId);
+
+        const target = notification.delivery === 'dm'
+          ? `user ${notification.recipientUserId} (DM)`
+          : `channel ${channelId}`;
+
+        console.log(
+          `[Queue] Notification ${notificationId} enqueued from "${notification.source}" to ${target} - scheduled for ${scheduledFor.toISOString()}` +
+            (decision ? ` (rule "${decision.ruleName}")` : '') +
+            (seriesId ? ` (series ${seriesId})` : '')
+        );
+      }
+    } finally {
+      release?.();
+    }
+
+    // If scheduled for immediate delivery (now or in the past), process it
+    if (scheduledFor.getTime() <= Date.now()) {
+      for (const notificationId of notificationIds) {
+        await this.processNotification(notificationId);
+      }
+    }
+
+    return {
+      notificationId: notificationIds[0],
+      notificationIds,
+      dropped: false,
+      coalesced: false,
+      ruleName: decision?.ruleName,
+      scheduledFor,
+      seriesId,
+    };
+  }
+
+  /**
+   * Wait until earlier submissions with the same dedupe key have been saved
+   *
+   * @returns Function to call once this submission is saved, letting the next one through
+   */
+  private async lockDedupeKey(key: string): Promise<() => void> {
+    const previous = this.dedupeLocks.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const tail = previous.then(() => current);
+    this.dedupeLocks.set(key, tail);
+
+    await previous;
+
+    return () => {
+      release();
+      if (this.dedupeLocks.get(key) === tail) {
+        this.dedupeLocks.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Coalesce a notification into an earlier one with the same dedupe key
+   *
+   * With the 'count' action the earlier notification's repeat counter is
+   * bumped (extending the window) and its Discord message is updated; with
+   * 'drop' the repeat is ignored.
+   *
+   * @returns Result pointing at the earlier notification, or null if there is
+   *          no earlier notification within the window
+   */
+  private async coalesceDuplicate(notification: NotificationInput): Promise<EnqueueResult | null> {
+    const windowSeconds = notification.dedupeWindowSeconds ?? DEFAULT_DEDUPE_WINDOW_SECONDS;
+    const now = new Date();
+    const existing = await this.database.findDuplicateNotifications(
+      notification.dedupeKey!,
+      new Date(now.getTime() - windowSeconds * 1000)
+    );
+
+    if (existing.length === 0) {
+      return null;
+    }
+
+    const action = notification.dedupeAction ?? 'count';
+    if (action === 'count') {
+      for (const duplicate of existing) {
+        await this.database.recordNotificationRepeat(duplicate.id, now);
+        if (duplicate.discordMessageId) {
+          await this.refreshDiscordMessage(duplicate.id);
+        }
+      }
+    }
+
+    const repeatCount = action === 'count' ? existing[0].repeatCount + 1 : existing[0].repeatCount;
+    console.log(
+      `[Queue] Notification from "${notification.source}" with dedupe key "${notification.dedupeKey}" ` +
+        `${action === 'count' ? 'coalesced into' : 'dropped as a repeat of'} notification ${existing[0].id}`
+    );
+
+    return {
+      notificationId: existing[0].id,
+      notificationIds: existing.map((duplicate) => duplicate.id),
+      dropped: false,
+      coalesced: true,
+      repeatCount,
+      scheduledFor: existing[0].scheduledFor,
+    };
+  }
+
+  /**
+   * Re-render the Discord message of a sent notification from its current row
+   *
+   * Failures are logged but not thrown: the notification itself was delivered.
+   *
+   * @param id - Notification ID
+   */
+  private async refreshDiscordMessage(id: number): Promise<void> {
+    const queued = await this.database.getNotificationById(id);
+    if (!queued) {
+      return;
+    }
+
+    // Run in the channel's delivery queue so the edit cannot race the initial send
+    await this.deliveries.add(this.getDeliveryKey(queued), async () => {
+      const notification = await this.database.getNotificationById(id);
+      if (notification) {
+        await this.editDiscordMessage(notification);
+      }
+    });
+  }
+
+  /**
+   * Edit a notification's Discord message to match the notification
+   *
+   * Must run inside the delivery queue. Failures are logged but not thrown.
+   */
+  private async editDiscordMessage(notification: QueuedNotification): Promise<void> {
+    if (!notification.discordMessageId) {
+      return;
+    }
+
+    // The message lists several notifications; editing it would replace the others
+    if (notification.quietDigest) {
+      console.log(`[Queue] Notification ${notification.id} was sent in a digest, not updating its message`);
+      return;
+    }
+
+    try {
+      const channelId =
+        notification.discordChannelId || notification.channelId || this.router.getDefaultChannelId();
+      const channel = await this.client.channels.fetch(channelId);
+
+      if (!channel || !channel.isTextBased()) {
+        throw new Error(INVALID_CHANNEL_ERROR);
+      }
+
+      await (channel as TextChannel).messages.edit(notification.discordMessageId, {
+        embeds: [this.buildEmbed(notification)],
+        components: this.buildActionRows(notification),
+      });
+    } catch (error) {
+      console.error(`[Queue] Failed to update Discord message of notification ${notification.id}:`, error);
+    }
+  }
+
+  /**
+   * Materialize the next occurrence of a recurring series
+   *
+   * The latest occurrence is copied (one row per channel it was sent to) and
+   * scheduled for the next time the recurrence fires after now.
+   *
+   * @param series - Active series with no pending occurrence
+   * @returns IDs of the created notifications (empty if the series was ended)
+   */
+  async scheduleNextOccurrence(series: NotificationSeries): Promise<number[]> {
+    const latest = await this.database.getLatestSeriesOccurrence(series.id);
+
+    if (latest.length === 0) {
+      console.log(`[Queue] Series ${series.id} has no occurrences left, ending it`);
+      await this.database.updateNotificationSeriesStatus(series.id, 'ended');
+      return [];
+    }
+
+    let recurrence: Recurrence;
+    try {
+      recurrence = parseRecurrence(series.recurrence);
+    } catch (error) {
+      console.error(`[Queue] Series ${series.id} has an invalid recurrence, ending it:`, error);
+      await this.database.updateNotificationSeriesStatus(series.id, 'ended');
+      return [];
+    }
+
+    const scheduledFor = getNextOccurrence(
+      recurrence,
+      latest[0].scheduledFor,
+      new Date(),
+      series.timezone ?? getDefaultTimezone()
+    );
+    const notificationIds = await this.saveOccurrence(series.id, latest, scheduledFor);
+
+    console.log(
+      `[Queue] Series ${series.id}: next occurrence scheduled for ${scheduledFor.toISOString()} (notification ${notificationIds.join(', ')})`
+    );
+
+    return notificationIds;
+  }
+
+  /**
+   * Copy an occurrence's rows into a new pending occurrence of the series
+   */
+  private async saveOccurrence(
+    seriesId: number,
+    previousRows: QueuedNotification[],
+    scheduledFor: Date
+  ): Promise<number[]> {
+    const notificationIds: number[] = [];
+    for (const previous of previousRows) {
+      const notificationId = await this.database.saveNotificationToQueue({
+        source: previous.source,
+        title: previous.title,
+        message: previous.message,
+        severity: previous.severity,
+        scheduledFor,
+        maxRetries: previous.maxRetries,
+        retryPolicy: previous.retryPolicy,
+        priority: previous.priority,
+        metadata: previous.metadata,
+        channel: previous.channelId,
+        mentions: previous.mentions,
+        delivery: previous.deliveryMode,
+        recipientUserId: previous.recipientUserId,
+        actions: previous.actions,
+        embed: previous.embed,
+        attachments: previous.attachments,
+        template: previous.template,
+        ackRequired: previous.ackRequired,
+        escalationPolicy: previous.escalationPolicy,
+        digest: previous.digest,
+        seriesId,
+      });
+      notificationIds.push(notificationId);
+    }
+
+    return notificationIds;
+  }
+
+  /**
+   * Pause a recurring series and cancel its pending occurrence
+   *
+   * @param seriesId - Series ID
+   * @returns True if the series was paused
+   */
+  async pauseSeries(seriesId: number): Promise<boolean> {
+    const series = await this.database.getNotificationSeries(seriesId);
+    if (!series || series.status !== 'active') {
+      return false;
+    }
+
+    await this.database.updateNotificationSeriesStatus(seriesId, 'paused');
+    await this.database.cancelPendingSeriesNotifications(seriesId);
+    console.log(`[Queue] Series ${seriesId} paused`);
+    return true;
+  }
+
+  /**
+   * Resume a paused series
+   *
+   * An occurrence cancelled by the pause that is still in the future is restored;
+   * otherwise the next occurrence is scheduled on the next scheduler check.
+   *
+   * @param seriesId - Series ID
+   * @returns True if the series was resumed
+   */
+  async resumeSeries(seriesId: number): Promise<boolean> {
+    const series = await this.database.getNotificationSeries(seriesId);
+    if (!series || series.status !== 'paused') {
+      return false;
+    }
+
+    await this.database.updateNotificationSeriesStatus(seriesId, 'active');
+
+    const latest = await this.database.getLatestSeriesOccurrence(seriesId);
+    if (latest.length > 0 && latest[0].status === 'cancelled' && latest[0].scheduledFor.getTime() > Date.now()) {
+      await this.saveOccurrence(seriesId, latest, latest[0].scheduledFor);
+    }
+
+    console.log(`[Queue] Series ${seriesId} resumed`);
+    return true;
+  }
+
+  /**
+   * End a recurring series permanently and cancel its pending occurrence
+   *
+   * @param seriesId - Series ID
+   * @returns True if the series was ended
+   */
+  async endSeries(seriesId: number): Promise<boolean> {
+    const ended = await this.database.updateNotificationSeriesStatus(seriesId, 'ended');
+    if (!ended) {
+      return false;
+    }
+
+    await this.database.cancelPendingSeriesNotifications(seriesId);
+    console.log(`[Queue] Series ${seriesId} ended`);
+    return true;
+  }
+
+  /**
+   * Determine destination channels for a notification
+   *
+   * An explicit channel on the notification always wins; otherwise the matching
+   * rule's channels are used, then the severity level's channel, falling back to
+   * the default channel. DMs are never
+   * fanned out: their channel is only used as the fallback destination.
+   *
+   * @throws Error if an explicit channel is unknown or not allowed
+   */
+  private resolveTargets(
+    notification: NotificationInput,
+    decision: RoutingDecision | null,
+    level: SeverityLevel
+  ): string[] {
+    if (notification.channel || notification.delivery === 'dm') {
+      return [this.router.resolve(notification.channel)];
+    }
+
+    if (!decision || decision.channels.length === 0) {
+      if (!level.channel) {
+        return [this.router.getDefaultChannelId()];
+      }
+
+      try {
+        return [this.router.resolve(level.channel)];
+      } catch (error) {
+        console.error(`[Queue] Severity "${level.name}" references invalid channel "${level.channel}", using the default`);
+        return [this.router.getDefaultChannelId()];
+      }
+    }
+
+    const channelIds: string[] = [];
+    for (const target of decision.channels) {
+      try {
+        const channelId = this.router.resolve(target);
+        if (!channelIds.includes(channelId)) {
+          channelIds.push(channelId);
+        }
+      } catch (error) {
+        console.error(
+          `[Queue] Routing rule "${decision.ruleName}" references invalid channel "${target}", skipping`
+        );
+      }
+    }
+
+    return channelIds.length > 0 ? channelIds : [this.router.getDefaultChannelId()];
+  }
+
+  /**
+   * Get the configured behavior of a severity level
+   */
+  getSeverityLevel(severity: string | undefined): SeverityLevel {
+    return this.severities
+      ? this.severities.getLevel(severity)
+      : DEFAULT_SEVERITY_LEVELS[isSeverity(severity) ? severity : 'info'];
+  }
+
+  /**
+   * Combine mentions from the notification, the matching rule and the severity level
+   */
+  private mergeMentions(
+    ...sources: (NotificationMentions | undefined)[]
+  ): NotificationMentions | undefined {
+    const users = new Set<string>();
+    const roles = new Set<string>();
+
+    for (const source of sources) {
+      source?.users?.forEach((id) => users.add(id));
+      source?.roles?.forEach((id) => roles.add(id));
+    }
+
+    if (users.size === 0 && roles.size === 0) {
+      return undefined;
+    }
+
+    return { users: Array.from(users), roles: Array.from(roles) };
+  }
+
+  /**
+   * Resolve requested mentions to the users and roles to ping
+   *
+   * @param request - Users, roles and named mention groups
+   * @param enforceAllowlist - Reject users and roles that are not on the mention allowlist (webhook callers)
+   * @returns Mentions to ping, or undefined if there are none
+   * @throws Error for unknown groups and mentions that are not allowed
+   */
+  resolveMentions(request: MentionRequest, enforceAllowlist = false): NotificationMentions | undefined {
+    if (this.mentionManager) {
+      return this.mentionManager.resolve(request, enforceAllowlist);
+    }
+
+    // Without a mention config there are no groups and the allowlist is empty
+    if (request.groups?.length) {
+      throw new Error(`unknown mention group "${request.groups[0]}"`);
+    }
+    if (enforceAllowlist && (request.users?.length || request.roles?.length)) {
+      throw new Error('no mention allowlist is configured');
+    }
+
+    return this.mergeMentions({ users: request.users, roles: request.roles });
+  }
+
+  /**
+   * Resolve a channel ID or route name to the Discord channel ID it targets
+   *
+   * @param target - Channel ID or route name (default channel if omitted)
+   * @returns Discord channel ID
+   * @throws Error if the target is unknown or not allowed
+   */
+  resolveChannel(target?: string): string {
+    return this.router.resolve(target);
+  }
+
+  /**
+   * Look up a configured retry policy
+   *
+   * @param name - Policy name
+   * @returns The policy's settings, stored with the notification
+   * @throws Error if no policy has that name
+   */
+  resolveRetryPolicy(name: string): RetryPolicy {
+    const policy = this.retryPolicies?.getPolicy(name);
+    if (!policy) {
+      throw new Error(`unknown retry policy "${name}"`);
+    }
+    return policy;
+  }
+
+  /**
+   * Process a notification by ID
+   *
+   * @param id - Notification ID
+   */
+  async processNotification(id: number): Promise<void> {
+    await this.deliver(id);
+  }
+
+  /**
+   * Run a notification through its channel's delivery queue
+   *
+   * Waiting notifications with a higher priority are delivered first, so an
+   * error is not stuck behind a burst of info messages to the same channel.
+   *
+   * @param id - Notification ID
+   * @param boost - Added to the notification's priority (rate-limited notifications go first)
+   */
+  private async deliver(id: number, boost = 0): Promise<void> {
+    const queued = await this.database.getNotificationById(id);
+    if (!queued) {
+      console.error(`[Queue] Notification ${id} not found in database`);
+      return;
+    }
+
+    const key = this.getDeliveryKey(queued);
+
+    // Sequential within the channel; other channels are not held up
+    await this.deliveries.add(key, async () => {
+      // Skip if shutting down
+      if (this.isShuttingDown) {
+        console.log(`[Queue] Skipping notification ${id} due to shutdown`);
+        return;
+      }
+
+      const startedAt = new Date();
+      try {
+        // Load notification from database
+        const notification = await this.database.getNotificationById(id);
+
+        if (!notification) {
+          console.error(`[Queue] Notification ${id} not found in database`);
+          return;
+        }
+
+        // Check if already processed or cancelled
+        if (notification.status !== 'pending') {
+          console.log(
+            `[Queue] Notification ${id} has status "${notification.status}", skipping processing`
+          );
+          return;
+        }
+
+        // Check if scheduled for the future
+        if (notification.scheduledFor.getTime() > Date.now()) {
+          console.log(
+            `[Queue] Notification ${id} is scheduled for ${notification.scheduledFor.toISOString()}, skipping for now`
+          );
+          return;
+        }
+
+        // Still backing off after a failed attempt
+        if (notification.nextAttemptAt && notification.nextAttemptAt.getTime() > Date.now()) {
+          console.log(
+            `[Queue] Notification ${id} is backing off until ${notification.nextAttemptAt.toISOString()}, skipping for now`
+          );
+          return;
+        }
+
+        // Still held for quiet hours or the periodic digest
+        if (notification.heldUntil && notification.heldUntil.getTime() > Date.now()) {
+          console.log(
+            `[Queue] Notification ${id} is held until ${notification.heldUntil.toISOString()}, skipping for now`
+          );
+          return;
+        }
+
+        // Hold info and warning notifications during quiet hours
+        if (await this.holdForQuietHours(notification)) {
+          return;
+        }
+
+        if (notification.quietDigest) {
+          await this.sendDigest(notification);
+          return;
+        }
+
+        // Hold notifications marked for the periodic digest until it is due
+        if (await this.holdForDigest(notification)) {
+          return;
+        }
+
+        // Update status to 'processing'
+        await this.database.updateNotificationStatus(id, 'processing');
+
+        console.log(
+          `[Queue] Processing notification ${id} from "${notification.source}" (retry ${notification.retryCount}/${notification.maxRetries})`
+        );
+
+        // Try to send to Discord
+        await this.sendToDiscord(notification);
+
+        // Mark as sent
+        await this.database.updateNotificationStatus(id, 'sent');
+        await this.recordAttempt(id, 'sent', startedAt);
+
+        // Start the acknowledgement timer
+        if (notification.ackRequired) {
+          const policy = this.getEscalationPolicy(notification);
+          await this.database.scheduleEscalation(id, new Date(Date.now() + this.getEscalationTimeoutMs(policy)));
+        }
+
+        console.log(`[Queue] ✅ Notification ${id} sent successfully`);
+      } catch (error) {
+        await this.recordAttempt(id, 'failed', startedAt, error);
+
+        if (error instanceof RateLimitError) {
+          await this.handleRateLimit(id, key, error);
+          return;
+        }
+
+        console.error(`[Queue] ❌ Failed to send notification ${id}:`, error);
+
+        // Handle failure with retry logic
+        await this.handleFailure(id, error);
+      }
+    }, queued.priority + boost);
+  }
+
+  /**
+   * Record a delivery attempt in the notification's history
+   *
+   * Failures are logged but not thrown: the history must not get in the way of delivery.
+   *
+   * @param id - Notification ID
+   * @param outcome - Whether the attempt delivered the notification
+   * @param startedAt - When the attempt started; it ends now
+   * @param error - Error of a failed attempt
+   */
+  private async recordAttempt(
+    id: number,
+    outcome: AttemptOutcome,
+    startedAt: Date,
+    error?: unknown
+  ): Promise<void> {
+    try {
+      await this.database.recordNotificationAttempt({
+        notificationId: id,
+        outcome,
+        startedAt,
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+        failureReason: error === undefined ? undefined : classifyDeliveryError(error).category,
+        httpStatus: getHttpStatus(error),
+      });
+    } catch (recordError) {
+      console.error(`[Queue] Failed to record delivery attempt of notification ${id}:`, recordError);
+    }
+  }
+
+  /**
+   * Delivery queue of a notification: its recipient for DMs, otherwise its channel
+   */
+  private getDeliveryKey(notification: QueuedNotification): string {
+    if (notification.deliveryMode === 'dm' && notification.recipientUserId) {
+      return `dm:${notification.recipientUserId}`;
+    }
+    return notification.channelId || this.router.getDefaultChannelId();
+  }
+
+  /**
+   * Pause the delivery queue a rate limit applies to until its retry-after
+   * passes: the channel for per-route limits, every channel for the global limit
+   */
+  private pauseForRateLimit(info: RateLimitData): void {
+    if (info.global) {
+      this.deliveries.pauseAll(info.retryAfter);
+    } else if (info.route.startsWith('/channels/')) {
+      this.deliveries.pause(this.getRateLimitKey(info.majorParameter), info.retryAfter);
+    }
+  }
+
+  /**
+   * Delivery queue a rate-limited channel belongs to: DM channels map to
+   * their recipient's queue, like getDeliveryKey
+   *
+   * @param channelId - Channel ID from the rate-limited route
+   */
+  private getRateLimitKey(channelId: string): string {
+    // discord.js caches the DM channels it opens to send direct messages
+    const channel = this.client.channels.cache?.get(channelId);
+    if (channel?.type === ChannelType.DM && channel.recipientId) {
+      return `dm:${channel.recipientId}`;
+    }
+    return channelId;
+  }
+
+  /**
+   * Handle a send rejected by a rate limit (when the REST client is set to
+   * reject instead of wait): pause the channel until retry-after passes, then
+   * send the notification again ahead of the channel's other notifications.
+   * Rate limits do not use up a retry.
+   *
+   * @param id - Notification ID
+   * @param key - Delivery queue of the notification
+   * @param error - Rate limit reported by Discord
+   */
+  private async handleRateLimit(id: number, key: string, error: RateLimitError): Promise<void> {
+    await this.database.updateNotificationStatus(id, 'pending');
+
+    if (error.global) {
+      this.deliveries.pauseAll(error.retryAfter);
+    } else {
+      this.deliveries.pause(key, error.retryAfter);
+    }
+
+    console.log(
+      `[Queue] ⏳ Rate limited on ${error.route}${error.global ? ' (global)' : ''}, ` +
+        `notification ${id} will be sent again in ${Math.ceil(error.retryAfter / 1000)}s`
+    );
+
+    // Not awaited: the channel's queue is paused and this task still holds it
+    this.deliver(id, RATE_LIMITED_BOOST).catch((err) => {
+      console.error(`[Queue] Error re-queueing rate-limited notification ${id}:`, err);
+    });
+  }
+
+  /**
+   * Get the quiet-hours window currently in effect for a channel
+   *
+   * @param channelId - Discord channel ID (default channel if omitted)
+   * @param now - Reference time (default: now)
+   * @returns The active window and when it ends, or null outside quiet hours
+   */
+  async getActiveQuietHours(channelId?: string, now: Date = new Date()): Promise<ActiveQuietHours | null> {
+    const windows = await this.database.getQuietHours();
+    const window = selectQuietHours(windows, channelId || this.router.getDefaultChannelId());
+    if (!window) {
+      return null;
+    }
+
+    const endsAt = getQuietHoursEnd(window, now);
+    return endsAt ? { window, endsAt } : null;
+  }
+
+  /**
+   * Defer a notification to the end of quiet hours if its channel is in a
+   * quiet-hours window. Severity levels that bypass quiet hours (errors and
+   * critical alerts by default) always go out, and DMs (reminders the user
+   * asked for) are never held.
+   *
+   * @returns True if the notification was held
+   */
+  private async holdForQuietHours(notification: QueuedNotification): Promise<boolean> {
+    if (
+      this.getSeverityLevel(notification.severity).bypassQuietHours ||
+      notification.deliveryMode === 'dm' ||
+      notification.ackRequired
+    ) {
+      return false;
+    }
+
+    const active = await this.getActiveQuietHours(notification.channelId);
+    if (!active) {
+      return false;
+    }
+
+    // Notifications already held for a periodic digest stay in a digest; files cannot go in a digest
+    const digest =
+      (active.window.mode === 'digest' && !notification.attachments?.length) || notification.quietDigest;
+    await this.database.deferNotification(notification.id, active.endsAt, digest);
+
+    console.log(
+      `[Queue] Notification ${notification.id} held for quiet hours until ${active.endsAt.toISOString()}` +
+        (digest ? ' (digest)' : '')
+    );
+    return true;
+  }
+
+  /**
+   * Hold a notification marked for the periodic digest until the next digest
+   *
+   * @returns True if the notification was held
+   */
+  private async holdForDigest(notification: QueuedNotification): Promise<boolean> {
+    if (!notification.digest) {
+      return false;
+    }
+
+    const nextRun = await this.getNextDigestRun();
+    await this.database.deferNotification(notification.id, nextRun, true);
+
+    console.log(`[Queue] Notification ${notification.id} held for the digest at ${nextRun.toISOString()}`);
+    return true;
+  }
+
+  /**
+   * Get the time of the next periodic digest
+   *
+   * The time is stored so every notification held before it is due lands in
+   * the same digest, and is recomputed once it passes or DIGEST_SCHEDULE changes.
+   */
+  private async getNextDigestRun(now: Date = new Date()): Promise<Date> {
+    const schedule = this.getDigestSchedule();
+    const stored = await this.database.getState(DIGEST_STATE_KEY);
+    const state: { schedule: string; nextRun: string } | null = stored ? JSON.parse(stored) : null;
+
+    const previous = state?.schedule === schedule.expression ? new Date(state.nextRun) : null;
+    if (previous && previous.getTime() > now.getTime()) {
+      return previous;
+    }
+
+    const nextRun = previous
+      ? getNextOccurrence(schedule, previous, now)
+      : getFirstOccurrence(schedule, now);
+    await this.database.setState(
+      DIGEST_STATE_KEY,
+      JSON.stringify({ schedule: schedule.expression, nextRun: nextRun.toISOString() })
+    );
+
+    return nextRun;
+  }
+
+  /**
+   * Parse DIGEST_SCHEDULE, falling back to the default schedule if it is invalid
+   */
+  private getDigestSchedule(): Recurrence {
+    const expression = process.env.DIGEST_SCHEDULE?.trim() || DEFAULT_DIGEST_SCHEDULE;
+
+    try {
+      return parseRecurrence(expression);
+    } catch (error) {
+      console.error(`[Queue] Invalid DIGEST_SCHEDULE "${expression}", using "${DEFAULT_DIGEST_SCHEDULE}":`, error);
+      return parseRecurrence(DEFAULT_DIGEST_SCHEDULE);
+    }
+  }
+
+  /**
+   * Deliver every due notification held for a channel's digest (quiet hours or
+   * periodic) as a single message
+   *
+   * @param notification - Held notification that became due
+   */
+  private async sendDigest(notification: QueuedNotification): Promise<void> {
+    const channelId = notification.channelId || this.router.getDefaultChannelId();
+    const held = await this.database.getDueDigestNotifications(channelId);
+    if (held.length === 0) {
+      return;
+    }
+
+    const kind: DigestKind = held.some((item) => item.digest) ? 'periodic' : 'quiet_hours';
+    const startedAt = new Date();
+
+    for (const item of held) {
+      await this.database.updateNotificationStatus(item.id, 'processing');
+    }
+
+    try {
+      const channel = await this.client.channels.fetch(channelId);
+      if (!channel || !channel.isTextBased()) {
+        throw new Error(INVALID_CHANNEL_ERROR);
+      }
 
-    // Find notifications stuck in 'processing' state and reset them to 'pending'
-    const processingNotifications = await this.database.getProcessingNotifications();
+      const message = await (channel as TextChannel).send({ embeds: [this.buildDigestEmbed(held, kind)] });
 
-    if (processingNotifications.length > 0) {
-      console.log(
-        `[Queue] Found ${processingNotifications.length} notification(s) in processing state, resetting to pending...`
+      const digestId = await this.database.recordDigest(
+        { kind, channelId, discordMessageId: message.id, discordChannelId: message.channelId },
+        held.map((item) => item.id)
       );
+      for (const item of held) {
+        await this.database.updateNotificationStatus(item.id, 'sent');
+        await this.recordAttempt(item.id, 'sent', startedAt);
+      }
 
-      for (const notification of processingNotifications) {
-        await this.database.updateNotificationStatus(notification.id, 'pending');
+      console.log(`[Queue] ✅ Digest ${digestId} with ${held.length} notification(s) sent to channel ${channelId}`);
+    } catch (error) {
+      // Put the others back; the notification that triggered the digest goes through retry handling
+      for (const item of held) {
+        if (item.id !== notification.id) {
+          await this.database.updateNotificationStatus(item.id, 'pending');
+        }
       }
+      throw error;
     }
-
-    console.log('[Queue] Queue initialized successfully');
   }
 
   /**
-   * Enqueue a notification for processing
-   *
-   * @param notification - Notification input
-   * @returns Notification ID
+   * Build the embed summarizing held notifications, grouped by source
    */
-  async enqueue(notification: NotificationInput): Promise<number> {
-    // Parse scheduled time if provided
-    let scheduledFor: Date;
-    if (notification.scheduledFor) {
-      if (typeof notification.scheduledFor === 'string') {
-        scheduledFor = parseScheduledTime(notification.scheduledFor);
-      } else {
-        scheduledFor = notification.scheduledFor;
+  private buildDigestEmbed(notifications: QueuedNotification[], kind: DigestKind): EmbedBuilder {
+    const bySource = new Map<string, QueuedNotification[]>();
+    for (const n of notifications) {
+      bySource.set(n.source, [...(bySource.get(n.source) ?? []), n]);
+    }
+
+    // Every source gets a heading with its count; individual lines stop at MAX_DIGEST_LINES
+    const lines: string[] = [];
+    let listed = 0;
+    for (const [source, items] of bySource) {
+      lines.push(`**${source}** (${items.length})`);
+      for (const n of items.slice(0, Math.max(0, MAX_DIGEST_LINES - listed))) {
+        const text = n.title ? `${n.title}: ${n.message}` : n.message;
+        lines.push(`${this.getSeverityLevel(n.severity).emoji} ${text.length > 150 ? `${text.substring(0, 150)}...` : text}`);
+        listed++;
       }
-    } else {
-      scheduledFor = new Date(); // Immediate delivery
     }
 
-    // Save to database
-    const notificationId = await this.database.saveNotificationToQueue({
-      ...notification,
-      scheduledFor,
-    });
+    if (notifications.length > listed) {
+      lines.push(`...and ${notifications.length - listed} more`);
+    }
 
-    console.log(
-      `[Queue] Notification ${notificationId} enqueued from "${notification.source}" - scheduled for ${scheduledFor.toISOString()}`
+    let description = lines.join('\n');
+    if (description.length > 4096) {
+      description = `${description.substring(0, 4093)}...`;
+    }
+
+    // Colored like the most severe notification, but never below info
+    const mostSevere = notifications.reduce(
+      (max, n) => (getSeverityRank(n.severity) > getSeverityRank(max) ? n.severity : max),
+      'info' as NotificationSeverity
     );
+    const color = this.getSeverityLevel(mostSevere).color;
 
-    // If scheduled for immediate delivery (now or in the past), process it
-    if (scheduledFor.getTime() <= Date.now()) {
-      await this.processNotification(notificationId);
-    }
+    const footer = kind === 'periodic'
+      ? `${notifications.length} notification(s) from ${bySource.size} source(s)`
+      : `${notifications.length} notification(s) held during quiet hours`;
 
-    return notificationId;
+    return new EmbedBuilder()
+      .setColor(color)
+      .setTitle(kind === 'periodic' ? '📋 Notification Digest' : '🌙 Quiet Hours Digest')
+      .setDescription(description)
+      .setFooter({ text: footer })
+      .setTimestamp();
   }
 
   /**
-   * Process a notification by ID
+   * Send notification to Discord
    *
-   * @param id - Notification ID
+   * @param notification - Queued notification
    */
-  async processNotification(id: number): Promise<void> {
-    // Add to queue to ensure sequential processing
-    await this.queue.add(async () => {
-      // Skip if shutting down
-      if (this.isShuttingDown) {
-        console.log(`[Queue] Skipping notification ${id} due to shutdown`);
-        return;
-      }
+  private async sendToDiscord(notification: QueuedNotification): Promise<void> {
+    const embed = this.buildEmbed(notification);
+    const components = this.buildActionRows(notification);
+    const files = await this.buildFiles(notification);
+    let mentions = notification.mentions;
 
+    // Direct messages go to the recipient, falling back to the channel if their DMs are closed
+    if (notification.deliveryMode === 'dm' && notification.recipientUserId) {
       try {
-        // Load notification from database
-        const notification = await this.database.getNotificationById(id);
-
-        if (!notification) {
-          console.error(`[Queue] Notification ${id} not found in database`);
-          return;
-        }
-
-        // Check if already processed or cancelled
-        if (notification.status !== 'pending') {
-          console.log(
-            `[Queue] Notification ${id} has status "${notification.status}", skipping processing`
-          );
-          return;
-        }
+        const user = await this.client.users.fetch(notification.recipientUserId);
+        const message = await user.send({ embeds: [embed], components, files });
 
-        // Check if scheduled for the future
-        if (notification.scheduledFor.getTime() > Date.now()) {
-          console.log(
-            `[Queue] Notification ${id} is scheduled for ${notification.scheduledFor.toISOString()}, skipping for now`
-          );
-          return;
+        await this.database.updateNotificationDiscordId(notification.id, message.id, message.channelId);
+        return;
+      } catch (error) {
+        if (!this.isDirectMessageBlocked(error)) {
+          throw error;
         }
 
-        // Update status to 'processing'
-        await this.database.updateNotificationStatus(id, 'processing');
-
         console.log(
-          `[Queue] Processing notification ${id} from "${notification.source}" (retry ${notification.retryCount}/${notification.maxRetries})`
+          `[Queue] Cannot DM user ${notification.recipientUserId} for notification ${notification.id}, falling back to channel`
         );
+        mentions = this.mergeMentions(mentions, { users: [notification.recipientUserId] });
+      }
+    }
 
-        // Try to send to Discord
-        await this.sendToDiscord(notification);
+    const channelId = notification.channelId || this.router.getDefaultChannelId();
+    const channel = await this.client.channels.fetch(channelId);
 
-        // Mark as sent
-        await this.database.updateNotificationStatus(id, 'sent');
+    if (!channel || !channel.isTextBased()) {
+      throw new Error(INVALID_CHANNEL_ERROR);
+    }
 
-        console.log(`[Queue] ✅ Notification ${id} sent successfully`);
-      } catch (error) {
-        console.error(`[Queue] ❌ Failed to send notification ${id}:`, error);
+    const message = await (channel as TextChannel).send({
+      content: this.formatMentions(mentions),
+      embeds: [embed],
+      components,
+      files,
+      allowedMentions: {
+        users: mentions?.users ?? [],
+        roles: mentions?.roles ?? [],
+      },
+    });
 
-        // Handle failure with retry logic
-        await this.handleFailure(id, error);
+    // Save Discord message ID
+    await this.database.updateNotificationDiscordId(notification.id, message.id, message.channelId);
+  }
+
+  /**
+   * Files to upload with a notification's message (read from disk on every attempt)
+   *
+   * @throws Error if a stored file is missing
+   */
+  private async buildFiles(notification: QueuedNotification): Promise<{ attachment: string; name: string }[]> {
+    const files: { attachment: string; name: string }[] = [];
+    for (const attachment of notification.attachments ?? []) {
+      try {
+        await fs.access(attachment.path);
+      } catch {
+        throw new Error(`Attachment "${attachment.name}" is missing from ${attachment.path}`);
       }
-    });
+      files.push({ attachment: attachment.path, name: attachment.name });
+    }
+    return files;
   }
 
   /**
-   * Send notification to Discord
+   * Check whether an error means the user does not accept DMs from the bot
+   */
+  private isDirectMessageBlocked(error: unknown): boolean {
+    return (
+      error instanceof DiscordAPIError &&
+      error.code === RESTJSONErrorCodes.CannotSendMessagesToThisUser
+    );
+  }
+
+  /**
+   * Format mentions as message content (embeds cannot ping)
    *
-   * @param notification - Queued notification
+   * @param mentions - Users and roles to mention
+   * @returns Message content, or undefined if nobody is mentioned
    */
-  private async sendToDiscord(notification: QueuedNotification): Promise<void> {
-    const channel = await this.client.channels.fetch(this.channelId);
+  private formatMentions(mentions?: NotificationMentions): string | undefined {
+    if (!mentions) return undefined;
 
-    if (!channel || !channel.isTextBased()) {
-      throw new Error('Invalid notification channel');
-    }
+    const parts = [
+      ...(mentions.users ?? []).map((id) => `<@${id}>`),
+      ...(mentions.roles ?? []).map((id) => `<@&${id}>`),
+    ];
 
-    const embed = this.buildEmbed(notification);
-    const message = await (channel as TextChannel).send({ embeds: [embed] });
+    return parts.length > 0 ? parts.join(' ') : undefined;
+  }
 
-    // Save Discord message ID
-    await this.database.updateNotificationDiscordId(notification.id, message.id);
+  /**
+   * Build the embed a notification would be sent with, without queuing it (template previews)
+   */
+  buildPreviewEmbed(
+    notification: Pick<NotificationInput, 'source' | 'title' | 'message' | 'severity' | 'embed'>
+  ): EmbedBuilder {
+    const now = new Date();
+    return this.buildEmbed({
+      id: 0,
+      createdAt: now,
+      scheduledFor: now,
+      source: notification.source,
+      title: notification.title,
+      message: notification.message,
+      severity: notification.severity || 'info',
+      status: 'pending',
+      retryCount: 0,
+      maxRetries: 0,
+      priority: 0,
+      deliveryMode: 'channel',
+      quietDigest: false,
+      repeatCount: 0,
+      embed: notification.embed,
+      ackRequired: false,
+      escalationLevel: 0,
+      digest: false,
+    });
   }
 
   /**
@@ -173,21 +1342,62 @@ export class PersistentNotificationQueue {
    * @returns Discord embed
    */
   private buildEmbed(notification: QueuedNotification): EmbedBuilder {
-    const colors: Record<string, number> = {
-      info: 0x3498db,
-      warning: 0xf39c12,
-      error: 0xe74c3c,
-    };
+    const content = notification.embed;
 
-    const color = colors[notification.severity || 'info'];
+    // Resolved alerts turn green
+    const color = notification.resolvedAt
+      ? 0x2ecc71
+      : content?.color ?? this.getSeverityLevel(notification.severity).color;
 
     const embed = new EmbedBuilder()
       .setColor(color)
       .setTitle(notification.title || notification.source)
       .setDescription(notification.message)
-      .setFooter({ text: notification.source })
+      .setFooter({ text: content?.footer ?? notification.source })
       .setTimestamp(notification.createdAt);
 
+    if (content?.url) embed.setURL(content.url);
+    if (content?.imageUrl) embed.setImage(content.imageUrl);
+    if (content?.thumbnailUrl) embed.setThumbnail(content.thumbnailUrl);
+    if (content?.author) {
+      embed.setAuthor({ name: content.author.name, url: content.author.url, iconURL: content.author.iconUrl });
+    }
+    if (content?.fields?.length) {
+      embed.addFields(content.fields);
+    }
+
+    if (notification.ackRequired) {
+      let status: string;
+      if (notification.acknowledgedAt) {
+        status = `✅ <@${notification.acknowledgedBy}> <t:${Math.floor(notification.acknowledgedAt.getTime() / 1000)}:R>`;
+      } else {
+        status = '⏳ Awaiting acknowledgement';
+        if (notification.escalationLevel > 0) {
+          status += ` (escalated ${notification.escalationLevel} time${notification.escalationLevel === 1 ? '' : 's'})`;
+        }
+      }
+
+      embed.addFields({ name: 'Acknowledged', value: status, inline: true });
+    }
+
+    if (notification.resolvedAt) {
+      embed.addFields({
+        name: '✅ Resolved',
+        value: `<t:${Math.floor(notification.resolvedAt.getTime() / 1000)}:f>`,
+        inline: true,
+      });
+    }
+
+    // Show how often a deduplicated notification repeated
+    if (notification.repeatCount > 0) {
+      const lastSeen = Math.floor((notification.lastSeenAt ?? notification.createdAt).getTime() / 1000);
+      embed.addFields({
+        name: 'Repeats',
+        value: `Seen ${notification.repeatCount + 1} times, last <t:${lastSeen}:R>`,
+        inline: true,
+      });
+    }
+
     // Add retry info if retried
     if (notification.retryCount > 0) {
       embed.addFields({
@@ -200,9 +1410,52 @@ export class PersistentNotificationQueue {
     return embed;
   }
 
+  /**
+   * Build the rows of action and Acknowledge buttons for a notification
+   *
+   * Buttons are disabled once the notification is resolved.
+   *
+   * @param notification - Queued notification
+   * @returns Action rows (empty if the notification has no actions)
+   */
+  private buildActionRows(notification: QueuedNotification): ActionRowBuilder<ButtonBuilder>[] {
+    const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+
+    if (notification.actions?.length) {
+      const buttons = notification.actions.map((action, index) =>
+        new ButtonBuilder()
+          .setCustomId(buildActionCustomId(notification.id, index))
+          .setLabel(action.label)
+          .setStyle(BUTTON_STYLES[action.style ?? 'secondary'])
+          .setDisabled(notification.resolvedAt !== undefined)
+      );
+      rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons));
+    }
+
+    // Own row, so an Acknowledge button fits next to a full row of actions
+    if (notification.ackRequired) {
+      rows.push(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder()
+            .setCustomId(buildAckCustomId(notification.id))
+            .setLabel(notification.acknowledgedAt ? 'Acknowledged' : 'Acknowledge')
+            .setStyle(ButtonStyle.Success)
+            .setDisabled(notification.acknowledgedAt !== undefined || notification.resolvedAt !== undefined)
+        )
+      );
+    }
+
+    return rows;
+  }
+
   /**
    * Handle notification failure with retry logic
    *
+   * Permanent failures (missing access, unknown channel, invalid embed...)
+   * fail right away; transient ones are retried with backoff until maxRetries.
+   * The time of the next retry is stored with the notification, so the
+   * scheduler honors the backoff even across restarts.
+   *
    * @param id - Notification ID
    * @param error - Error that occurred
    */
@@ -215,49 +1468,47 @@ export class PersistentNotificationQueue {
     }
 
     const errorMessage = error instanceof Error ? error.message : String(error);
+    const failure = classifyDeliveryError(error);
+
+    if (failure.permanent) {
+      await this.database.updateNotificationStatus(id, 'failed', errorMessage, failure.category);
+
+      console.error(`[Queue] Notification ${id} failed permanently (${failure.category}), not retrying: ${errorMessage}`);
+      return;
+    }
 
     // Check if we should retry
     if (notification.retryCount < notification.maxRetries) {
-      // Increment retry count
-      await this.database.incrementRetryCount(id);
-
-      // Calculate retry delay with exponential backoff
-      const retryDelay = this.calculateRetryDelay(notification.retryCount);
+      // Calculate retry delay with the backoff of the notification's retry policy
+      const retryDelay = getRetryDelay(notification.retryPolicy ?? getDefaultRetryPolicy(), notification.retryCount);
+      const nextAttemptAt = new Date(Date.now() + retryDelay * 1000);
 
-      // Update status back to pending (will be picked up by scheduler)
-      await this.database.updateNotificationStatus(id, 'pending', errorMessage);
+      // Back to pending; the scheduler picks it up once the backoff has passed
+      const scheduled = await this.database.scheduleNotificationRetry(
+        id,
+        nextAttemptAt,
+        errorMessage,
+        failure.category
+      );
+      if (!scheduled) {
+        console.log(`[Queue] Notification ${id} changed status during delivery, not retrying`);
+        return;
+      }
 
       console.log(
-        `[Queue] Notification ${id} will be retried in ${retryDelay}s (attempt ${notification.retryCount + 1}/${notification.maxRetries})`
+        `[Queue] Notification ${id} will be retried in ${retryDelay}s after a transient failure (${failure.category}) ` +
+          `(attempt ${notification.retryCount + 1}/${notification.maxRetries})`
       );
-
-      // Schedule retry
-      setTimeout(() => {
-        this.processNotification(id).catch((err) => {
-          console.error(`[Queue] Error during retry of notification ${id}:`, err);
-        });
-      }, retryDelay * 1000);
     } else {
       // Max retries reached, mark as failed
-      await this.database.updateNotificationStatus(id, 'failed', errorMessage);
+      await this.database.updateNotificationStatus(id, 'failed', errorMessage, failure.category);
 
       console.error(
-        `[Queue] Notification ${id} permanently failed after ${notification.retryCount} retries: ${errorMessage}`
+        `[Queue] Notification ${id} permanently failed after ${notification.retryCount} retries (${failure.category}): ${errorMessage}`
       );
     }
   }
 
-  /**
-   * Calculate retry delay with exponential backoff
-   *
-   * @param retryCount - Current retry count
-   * @returns Delay in seconds
-   */
-  private calculateRetryDelay(retryCount: number): number {
-    const baseDelay = parseInt(process.env.QUEUE_RETRY_BASE_DELAY || '60', 10);
-    return baseDelay * Math.pow(2, retryCount);
-  }
-
   /**
    * Cancel a notification
    *
@@ -291,6 +1542,197 @@ export class PersistentNotificationQueue {
     return retried;
   }
 
+  /**
+   * Replay failed notifications from the dead-letter queue
+   *
+   * Each notification gets a fresh retry budget and is queued for delivery
+   * right away; the replay does not wait for the deliveries.
+   *
+   * @param filter - Which failed notifications to replay (all when empty)
+   * @returns IDs of the replayed notifications
+   */
+  async replayDeadLetters(filter: DeadLetterFilter = {}): Promise<number[]> {
+    const replayed: number[] = [];
+
+    for (const id of await this.database.getDeadLetterIds(filter)) {
+      if (!(await this.database.retryFailedNotification(id))) {
+        continue;
+      }
+
+      replayed.push(id);
+      this.processNotification(id).catch((err) => {
+        console.error(`[Queue] Error replaying notification ${id}:`, err);
+      });
+    }
+
+    console.log(`[Queue] Replaying ${replayed.length} notification(s) from the dead-letter queue`);
+    return replayed;
+  }
+
+  /**
+   * Change the title, message or severity of a notification
+   *
+   * Notifications that were already sent have their Discord message edited in place.
+   *
+   * @param id - Notification ID
+   * @param changes - Fields to change
+   * @returns Updated notification, or null if not found, cancelled or failed
+   */
+  async update(id: number, changes: NotificationUpdate): Promise<QueuedNotification | null> {
+    const updated = await this.database.updateNotificationContent(id, changes);
+    if (!updated) {
+      return null;
+    }
+
+    console.log(`[Queue] Notification ${id} updated`);
+    await this.refreshDiscordMessage(id);
+
+    return await this.database.getNotificationById(id);
+  }
+
+  /**
+   * Mark a notification resolved, optionally changing its content
+   *
+   * The Discord message turns green and shows when the alert was resolved.
+   *
+   * @param id - Notification ID
+   * @param changes - Fields to change along with resolving
+   * @returns Resolved notification, or null if not found, cancelled or failed
+   */
+  async resolve(id: number, changes: NotificationUpdate = {}): Promise<QueuedNotification | null> {
+    const resolved =
+      (await this.database.updateNotificationContent(id, changes)) &&
+      (await this.database.resolveNotification(id));
+    if (!resolved) {
+      return null;
+    }
+
+    console.log(`[Queue] Notification ${id} resolved`);
+    await this.refreshDiscordMessage(id);
+
+    return await this.database.getNotificationById(id);
+  }
+
+  /**
+   * Acknowledge a notification, stopping its escalation
+   *
+   * @param id - Notification ID
+   * @param userId - Discord user who acknowledged it
+   * @returns True if acknowledged, false if not found, not awaiting acknowledgement or already acknowledged
+   */
+  async acknowledge(id: number, userId: string): Promise<boolean> {
+    const acknowledged = await this.database.acknowledgeNotification(id, userId);
+
+    if (acknowledged) {
+      console.log(`[Queue] Notification ${id} acknowledged by user ${userId}`);
+      await this.refreshDiscordMessage(id);
+    }
+
+    return acknowledged;
+  }
+
+  /**
+   * Escalate a notification nobody acknowledged in time
+   *
+   * Depending on its escalation policy, the notification is re-posted with
+   * mentions, sent to on-call users by DM and raised in severity. Another
+   * escalation is scheduled until the policy's limit is reached.
+   *
+   * @param id - Notification ID
+   */
+  async escalate(id: number): Promise<void> {
+    const queued = await this.database.getNotificationById(id);
+    if (!queued) {
+      return;
+    }
+
+    await this.deliveries.add(this.getDeliveryKey(queued), async () => {
+      const pending = await this.database.getNotificationById(id);
+      if (!pending?.ackRequired || pending.acknowledgedAt || pending.resolvedAt || pending.status !== 'sent') {
+        return;
+      }
+
+      const policy = this.getEscalationPolicy(pending);
+      const level = pending.escalationLevel + 1;
+      const nextEscalateAt = level < (policy.maxEscalations ?? 1)
+        ? new Date(Date.now() + this.getEscalationTimeoutMs(policy))
+        : null;
+
+      await this.database.recordEscalation(id, level, nextEscalateAt);
+      const raised = RAISED_SEVERITY[pending.severity];
+      if (policy.raiseSeverity && raised && raised !== pending.severity) {
+        await this.database.updateNotificationContent(id, { severity: raised });
+      }
+
+      const notification = await this.database.getNotificationById(id);
+      if (!notification) {
+        return;
+      }
+      console.log(`[Queue] Escalating notification ${id} (level ${level}, policy "${policy.name}")`);
+
+      // Keep the original message in sync with the new severity and escalation level
+      await this.editDiscordMessage(notification);
+
+      const sentAt = notification.sentAt ?? notification.createdAt;
+      const minutes = Math.max(1, Math.round((Date.now() - sentAt.getTime()) / 60000));
+      const alert = `🚨 Not acknowledged after ${minutes} minute${minutes === 1 ? '' : 's'}`;
+      const embed = this.buildEmbed(notification);
+      const components = this.buildActionRows(notification);
+      // Re-posts are standalone messages, so an embed image on attachment:// needs the files again
+      const files = await this.buildFiles(notification).catch(() => []);
+
+      if (policy.repost !== false) {
+        try {
+          const channel = await this.client.channels.fetch(notification.channelId || this.router.getDefaultChannelId());
+          if (!channel || !channel.isTextBased()) {
+            throw new Error(INVALID_CHANNEL_ERROR);
+          }
+
+          const mentions = this.formatMentions(policy.mentions);
+          await (channel as TextChannel).send({
+            content: mentions ? `${mentions} ${alert}` : alert,
+            embeds: [embed],
+            components,
+            files,
+            allowedMentions: {
+              users: policy.mentions?.users ?? [],
+              roles: policy.mentions?.roles ?? [],
+            },
+          });
+        } catch (error) {
+          console.error(`[Queue] Failed to re-post escalated notification ${id}:`, error);
+        }
+      }
+
+      for (const userId of policy.dmUsers ?? []) {
+        try {
+          const user = await this.client.users.fetch(userId);
+          await user.send({ content: alert, embeds: [embed], components, files });
+        } catch (error) {
+          console.error(`[Queue] Failed to DM user ${userId} about escalated notification ${id}:`, error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Get the escalation policy of a notification (the default policy if it has none or it was removed)
+   */
+  private getEscalationPolicy(notification: QueuedNotification): EscalationPolicy {
+    const policy = notification.escalationPolicy
+      ? this.escalation?.getPolicy(notification.escalationPolicy)
+      : null;
+
+    return policy ?? DEFAULT_ESCALATION_POLICY;
+  }
+
+  /**
+   * How long a notification waits for acknowledgement before (each) escalation
+   */
+  private getEscalationTimeoutMs(policy: EscalationPolicy): number {
+    return (policy.timeoutMinutes ?? DEFAULT_ESCALATION_POLICY.timeoutMinutes!) * 60 * 1000;
+  }
+
   /**
    * Get queue statistics
    *
@@ -307,8 +1749,11 @@ export class PersistentNotificationQueue {
     console.log('[Queue] Shutting down queue gracefully...');
     this.isShuttingDown = true;
 
+    // Rate-limited channels skip their remaining tasks now instead of waiting out the limit
+    this.deliveries.resumeAll();
+
     // Wait for all queued tasks to complete
-    await this.queue.onIdle();
+    await this.deliveries.onIdle();
 
     console.log('[Queue] Queue shutdown complete');
   }
@@ -319,6 +1764,15 @@ export class PersistentNotificationQueue {
    * @returns Number of notifications being processed
    */
   getQueueSize(): number {
-    return this.queue.size + this.queue.pending;
+    return this.deliveries.getSize();
+  }
+
+  /**
+   * Get the depth of each channel's delivery queue (in-memory)
+   *
+   * @returns Channels with waiting or in-flight notifications, deepest first
+   */
+  getChannelQueueDepths(): ChannelQueueDepth[] {
+    return this.deliveries.getDepths();
   }
 }
@@ -0,0 +1,84 @@
+/**
+ * Quiet Hours
+ *
+ * Evaluates quiet-hours windows such as 23:00-07:00. Windows are wall-clock
+ * times in their own timezone and may wrap past midnight.
+ */
+
+import type { QuietHours } from '../database.js';
+import { getZonedParts, zonedTimeToUtc, addDays } from '../utils/timezone.js';
+
+export interface ClockTime {
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Parse a 24-hour "HH:MM" time
+ *
+ * @throws Error if the time is not a valid 24-hour time
+ */
+export function parseClockTime(input: string): ClockTime {
+  const match = input.trim().match(/^(\d{1,2}):(\d{2})$/);
+  const hour = match ? parseInt(match[1], 10) : NaN;
+  const minute = match ? parseInt(match[2], 10) : NaN;
+
+  if (!match || hour > 23 || minute > 59) {
+    throw new Error(`Invalid time "${input}": use 24-hour "HH:MM" (e.g., "23:00")`);
+  }
+
+  return { hour, minute };
+}
+
+/**
+ * Format a clock time as "HH:MM"
+ */
+export function formatClockTime(time: ClockTime): string {
+  return `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}`;
+}
+
+/**
+ * Get the end of a quiet-hours window if it is active
+ *
+ * @param window - Quiet-hours window
+ * @param now - Reference time (default: now)
+ * @returns When the active window ends, or null if it is not active
+ */
+export function getQuietHoursEnd(window: QuietHours, now: Date = new Date()): Date | null {
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  const today = getZonedParts(now, window.timezone);
+
+  const current = today.hour * 60 + today.minute;
+  const startMinutes = start.hour * 60 + start.minute;
+  const endMinutes = end.hour * 60 + end.minute;
+
+  let endDay: { year: number; month: number; day: number };
+  if (startMinutes < endMinutes) {
+    // Same-day window (e.g., 13:00-15:00)
+    if (current < startMinutes || current >= endMinutes) return null;
+    endDay = today;
+  } else if (current >= startMinutes) {
+    // Overnight window, before midnight (e.g., 23:30 in 23:00-07:00)
+    endDay = addDays(today, 1);
+  } else if (current < endMinutes) {
+    // Overnight window, after midnight (e.g., 02:00 in 23:00-07:00)
+    endDay = today;
+  } else {
+    return null;
+  }
+
+  return zonedTimeToUtc({ ...endDay, ...end }, window.timezone);
+}
+
+/**
+ * Pick the window that applies to a channel: its own window if it has one,
+ * otherwise the global window
+ */
+export function selectQuietHours(windows: QuietHours[], channelId: string): QuietHours | null {
+  return (
+    windows.find((window) => window.channelId === channelId) ??
+    windows.find((window) => window.channelId === null) ??
+    null
+  );
+}
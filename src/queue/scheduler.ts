@@ -2,7 +2,9 @@
  * Notification Scheduler
  *
  * Periodically checks the database for due notifications and automation triggers,
- * queuing them for processing. Handles scheduled notifications and automations (future delivery).
+ * queuing them for processing. Handles scheduled notifications and automations (future delivery),
+ * materializes the next occurrence of recurring notification series, and escalates
+ * notifications nobody acknowledged in time.
  */
 
 import { Database } from '../database.js';
@@ -73,18 +75,78 @@ export class NotificationScheduler {
   /**
    * Check for due items (notifications and automation triggers) and queue them for processing
    *
-   * @returns Object with counts of notifications and automations queued
+   * @returns Object with counts of notifications and automations queued, series rescheduled
+   *          and notifications escalated
    */
-  async checkDueItems(): Promise<{ notifications: number; automations: number }> {
+  async checkDueItems(): Promise<{ notifications: number; automations: number; series: number; escalations: number }> {
+    const seriesCount = await this.checkRecurringSeries();
     const notificationCount = await this.checkDueNotifications();
     const automationCount = await this.checkDueAutomationTriggers();
+    const escalationCount = await this.checkEscalations();
 
     return {
       notifications: notificationCount,
       automations: automationCount,
+      series: seriesCount,
+      escalations: escalationCount,
     };
   }
 
+  /**
+   * Escalate sent notifications that are still waiting for acknowledgement
+   *
+   * @returns Number of notifications escalated
+   */
+  async checkEscalations(): Promise<number> {
+    try {
+      const due = await this.database.getDueEscalations();
+
+      for (const notification of due) {
+        try {
+          await this.queue.escalate(notification.id);
+        } catch (error) {
+          console.error(`[Scheduler] Error escalating notification ${notification.id}:`, error);
+          // Continue with other notifications even if one fails
+        }
+      }
+
+      return due.length;
+    } catch (error) {
+      console.error('[Scheduler] Error checking for escalations:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Schedule the next occurrence of every active series whose previous occurrence
+   * has been sent, failed or cancelled
+   *
+   * @returns Number of series rescheduled
+   */
+  async checkRecurringSeries(): Promise<number> {
+    try {
+      const awaiting = await this.database.getSeriesAwaitingNextOccurrence();
+      let scheduled = 0;
+
+      for (const series of awaiting) {
+        try {
+          const ids = await this.queue.scheduleNextOccurrence(series);
+          if (ids.length > 0) {
+            scheduled++;
+          }
+        } catch (error) {
+          console.error(`[Scheduler] Error scheduling next occurrence of series ${series.id}:`, error);
+          // Continue with other series even if one fails
+        }
+      }
+
+      return scheduled;
+    } catch (error) {
+      console.error('[Scheduler] Error checking recurring series:', error);
+      return 0;
+    }
+  }
+
   /**
    * Check for due notifications and queue them for processing
    *
@@ -98,18 +160,18 @@ export class NotificationScheduler {
       if (dueNotifications.length > 0) {
         console.log(`[Scheduler] Found ${dueNotifications.length} due notification(s)`);
 
-        // Process each due notification
-        for (const notification of dueNotifications) {
-          try {
-            await this.queue.processNotification(notification.id);
-          } catch (error) {
+        // Start every delivery before waiting, so a paused or slow channel does not hold up the others
+        const results = await Promise.allSettled(
+          dueNotifications.map((notification) => this.queue.processNotification(notification.id))
+        );
+        results.forEach((result, index) => {
+          if (result.status === 'rejected') {
             console.error(
-              `[Scheduler] Error processing notification ${notification.id}:`,
-              error
+              `[Scheduler] Error processing notification ${dueNotifications[index].id}:`,
+              result.reason
             );
-            // Continue processing other notifications even if one fails
           }
-        }
+        });
       }
 
       return dueNotifications.length;
@@ -151,6 +213,9 @@ export class NotificationScheduler {
         }
       }
 
+      // Spawn the next trigger of recurring series whose latest run has finished
+      await this.checkAutomationTriggerSeries();
+
       return dueTriggers.length;
     } catch (error) {
       console.error('[Scheduler] Error checking for due automation triggers:', error);
@@ -158,6 +223,35 @@ export class NotificationScheduler {
     }
   }
 
+  /**
+   * Schedule the next trigger of every active automation series that has no
+   * pending trigger (its last run succeeded, failed or was cancelled)
+   *
+   * @returns Number of triggers scheduled
+   */
+  async checkAutomationTriggerSeries(): Promise<number> {
+    if (!this.automationQueue) {
+      return 0;
+    }
+
+    const awaiting = await this.database.getAutomationSeriesAwaitingNextTrigger();
+    let scheduled = 0;
+
+    for (const series of awaiting) {
+      try {
+        const triggerId = await this.automationQueue.scheduleNextTrigger(series);
+        if (triggerId !== null) {
+          scheduled++;
+        }
+      } catch (error) {
+        console.error(`[Scheduler] Error scheduling next trigger of series ${series.id}:`, error);
+        // Continue with other series even if one fails
+      }
+    }
+
+    return scheduled;
+  }
+
   /**
    * Get scheduler status
    *
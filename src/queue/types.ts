@@ -7,7 +7,61 @@
 
 export type {
   NotificationStatus,
+  NotificationSeverity,
+  FailureCategory,
+  AttemptOutcome,
+  NotificationAttempt,
+  DeadLetterFilter,
+  DeliveryMode,
+  DedupeAction,
   NotificationInput,
+  NotificationMentions,
+  NotificationEmbed,
+  NotificationEmbedField,
+  NotificationAttachment,
+  AttachmentUpload,
+  NotificationTemplate,
+  NotificationUpdate,
   QueuedNotification,
   QueueStats,
+  SeriesStatus,
+  NotificationSeries,
+  QuietHoursMode,
+  QuietHours,
+  DigestKind,
+  NotificationDigest,
 } from '../database.js';
+
+import type { QuietHours } from '../database.js';
+
+/**
+ * Outcome of submitting a notification to the queue
+ */
+export interface EnqueueResult {
+  notificationId: number; // First (or only) notification created
+  notificationIds: number[]; // One per destination channel
+  dropped: boolean; // True if a routing rule dropped the notification
+  ruleName?: string; // Routing rule that matched, if any
+  scheduledFor?: Date; // When the notification will be sent
+  seriesId?: number; // Set when the notification recurs
+  coalesced?: boolean; // True if the notification was folded into an earlier one with the same dedupe key
+  repeatCount?: number; // Repeats of the earlier notification, when coalesced
+}
+
+/**
+ * Quiet-hours window currently in effect for a channel
+ */
+export interface ActiveQuietHours {
+  window: QuietHours;
+  endsAt: Date;
+}
+
+/**
+ * Notifications waiting in one channel's delivery queue
+ */
+export interface ChannelQueueDepth {
+  key: string; // Channel ID, or "dm:<userId>" for direct messages
+  waiting: number; // Queued behind the one being sent
+  inFlight: number; // Being sent right now (0 or 1)
+  pausedUntil?: Date; // Set while the channel waits out a rate limit
+}
@@ -0,0 +1,198 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RetryConfig, RetryPolicy, RetryPolicyConfig } from './types.js';
+
+// Most attempts a policy may allow (the first plus at most 10 retries)
+const MAX_ATTEMPTS = 11;
+
+/**
+ * Policy used when neither the request nor a routing rule picks one: exponential
+ * backoff from QUEUE_RETRY_BASE_DELAY (60s by default) with 20% jitter
+ */
+export function getDefaultRetryPolicy(): RetryPolicy {
+  return {
+    name: 'default',
+    baseDelaySeconds: parseInt(process.env.QUEUE_RETRY_BASE_DELAY || '60', 10),
+    multiplier: 2,
+    jitter: 0.2,
+  };
+}
+
+/**
+ * Delay before a retry under a policy
+ *
+ * @param policy Retry policy
+ * @param retryCount Retries made so far (0 before the first retry)
+ * @returns Delay in seconds
+ */
+export function getRetryDelay(policy: RetryPolicy, retryCount: number): number {
+  let delay = policy.baseDelaySeconds * Math.pow(policy.multiplier, retryCount);
+  if (policy.maxDelaySeconds !== undefined) {
+    delay = Math.min(delay, policy.maxDelaySeconds);
+  }
+
+  // Vary by up to the jitter fraction either way, so failures at the same time do not retry together
+  const jitter = 1 + (Math.random() * 2 - 1) * policy.jitter;
+  return Math.round(delay * jitter * 1000) / 1000;
+}
+
+/**
+ * Manages the named retry policies that notifications, automation triggers
+ * and routing rules can pick
+ */
+export class RetryPolicyManager {
+  private policies: RetryPolicy[] = [];
+  private configPath: string;
+  private fileWatcher: fs.FSWatcher | null = null;
+
+  /**
+   * Creates a new RetryPolicyManager instance
+   * @param configPath Path to the retry policy config file
+   * @param enableFileWatching Enable automatic config reload on file changes
+   */
+  constructor(configPath: string, enableFileWatching = true) {
+    this.configPath = configPath;
+    this.loadConfig();
+
+    if (enableFileWatching) {
+      this.setupFileWatcher();
+    }
+  }
+
+  /**
+   * Gets a policy by name, with omitted settings filled in from the default policy
+   * @returns The policy, or null if no policy has that name
+   */
+  public getPolicy(name: string): RetryPolicy | null {
+    const policy = this.policies.find((candidate) => candidate.name === name);
+    return policy ? { ...policy } : null;
+  }
+
+  /**
+   * Loads the retry policies from file
+   */
+  public loadConfig(): void {
+    try {
+      // Check if config file exists
+      if (!fs.existsSync(this.configPath)) {
+        console.log(`[Retry] No retry policy config at ${this.configPath}, using the default policy`);
+        this.policies = [];
+        return;
+      }
+
+      // Read and parse config file
+      const fileContent = fs.readFileSync(this.configPath, 'utf-8');
+      const config: RetryConfig = JSON.parse(fileContent);
+
+      // Validate config structure
+      if (!config.policies || !Array.isArray(config.policies)) {
+        console.error('[Retry] Invalid config format: policies must be an array');
+        this.policies = [];
+        return;
+      }
+
+      const defaults = getDefaultRetryPolicy();
+      this.policies = config.policies
+        .filter((policy) => this.validatePolicy(policy))
+        .map((policy) => ({
+          name: policy.name,
+          baseDelaySeconds: policy.baseDelaySeconds ?? defaults.baseDelaySeconds,
+          multiplier: policy.multiplier ?? defaults.multiplier,
+          maxDelaySeconds: policy.maxDelaySeconds,
+          jitter: policy.jitter ?? defaults.jitter,
+          maxAttempts: policy.maxAttempts,
+        }));
+      console.log(`[Retry] Loaded ${this.policies.length} retry policy(ies)`);
+    } catch (error) {
+      console.error('[Retry] Error loading config:', error);
+      console.error('[Retry] Using the default policy until the config is fixed');
+      this.policies = [];
+    }
+  }
+
+  /**
+   * Validates a policy
+   * @returns True if the policy can be used
+   */
+  private validatePolicy(policy: RetryPolicyConfig): boolean {
+    if (!policy || typeof policy.name !== 'string' || policy.name.trim() === '') {
+      console.error('[Retry] Skipping policy without a name');
+      return false;
+    }
+
+    const positive = (value: unknown) => value === undefined || (typeof value === 'number' && value > 0);
+
+    if (!positive(policy.baseDelaySeconds)) {
+      console.error(`[Retry] Skipping policy "${policy.name}": baseDelaySeconds must be a positive number`);
+      return false;
+    }
+
+    if (policy.multiplier !== undefined && (typeof policy.multiplier !== 'number' || !(policy.multiplier >= 1))) {
+      console.error(`[Retry] Skipping policy "${policy.name}": multiplier must be at least 1`);
+      return false;
+    }
+
+    if (!positive(policy.maxDelaySeconds)) {
+      console.error(`[Retry] Skipping policy "${policy.name}": maxDelaySeconds must be a positive number`);
+      return false;
+    }
+
+    if (
+      policy.jitter !== undefined &&
+      (typeof policy.jitter !== 'number' || !(policy.jitter >= 0 && policy.jitter <= 1))
+    ) {
+      console.error(`[Retry] Skipping policy "${policy.name}": jitter must be between 0 and 1`);
+      return false;
+    }
+
+    if (
+      policy.maxAttempts !== undefined &&
+      (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > MAX_ATTEMPTS)
+    ) {
+      console.error(`[Retry] Skipping policy "${policy.name}": maxAttempts must be an integer from 1 to ${MAX_ATTEMPTS}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Sets up file watcher for automatic config reload
+   */
+  private setupFileWatcher(): void {
+    try {
+      const configDir = path.dirname(this.configPath);
+
+      // Watch the config directory for changes
+      this.fileWatcher = fs.watch(configDir, (eventType, filename) => {
+        // Only reload if our config file changed
+        if (filename === path.basename(this.configPath)) {
+          console.log('[Retry] Config file changed, reloading...');
+          this.loadConfig();
+        }
+      });
+
+      console.log('[Retry] File watching enabled for config updates');
+    } catch (error) {
+      console.error('[Retry] Error setting up file watcher:', error);
+    }
+  }
+
+  /**
+   * Stops the file watcher and cleans up resources
+   */
+  public destroy(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.close();
+      this.fileWatcher = null;
+      console.log('[Retry] File watcher stopped');
+    }
+  }
+
+  /**
+   * Gets the names of the loaded policies
+   */
+  public getPolicyNames(): string[] {
+    return this.policies.map((policy) => policy.name);
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Retry Policy Types
+ */
+
+/**
+ * A named retry policy as written in the config file.
+ * Omitted settings keep the default policy's value.
+ */
+export interface RetryPolicyConfig {
+  name: string;
+  baseDelaySeconds?: number; // Delay before the first retry (default: QUEUE_RETRY_BASE_DELAY or 60)
+  multiplier?: number; // Factor the delay grows by with each retry (default: 2)
+  maxDelaySeconds?: number; // Upper bound of a single delay (default: none)
+  jitter?: number; // Fraction each delay varies by either way, 0-1 (default: 0.2)
+  maxAttempts?: number; // Attempts including the first, 1-11 (default: from the severity level or request)
+}
+
+/**
+ * Resolved retry policy, stored with each notification and automation trigger
+ * that uses it so later config changes do not affect retries already scheduled
+ */
+export interface RetryPolicy {
+  name: string;
+  baseDelaySeconds: number;
+  multiplier: number;
+  maxDelaySeconds?: number;
+  jitter: number;
+  maxAttempts?: number;
+}
+
+/**
+ * Retry policy config file structure
+ */
+export interface RetryConfig {
+  policies: RetryPolicyConfig[];
+}
@@ -0,0 +1,128 @@
+/**
+ * Channel Router
+ *
+ * Resolves notification targets to Discord channel IDs. A target can be a raw
+ * channel ID or a named route (e.g. "security", "garage"). Only the default
+ * channel and channels configured as routes are accepted, so callers cannot
+ * post into arbitrary channels the bot happens to have access to.
+ */
+
+export class ChannelRouter {
+  private defaultChannelId: string;
+  private routes: Map<string, string>;
+
+  /**
+   * @param defaultChannelId Channel used when no target is given
+   * @param routes Map of route name to Discord channel ID
+   */
+  constructor(defaultChannelId: string, routes: Record<string, string> = {}) {
+    this.defaultChannelId = defaultChannelId;
+    this.routes = new Map(
+      Object.entries(routes).map(([name, channelId]) => [name.toLowerCase(), channelId])
+    );
+  }
+
+  /**
+   * Resolve a channel ID or route name to a Discord channel ID
+   * @param target Channel ID or route name (default channel if omitted)
+   * @returns Discord channel ID
+   * @throws Error if the target is not a known route or allowed channel
+   */
+  resolve(target?: string | null): string {
+    if (target === undefined || target === null || target.trim() === '') {
+      return this.defaultChannelId;
+    }
+
+    const normalized = target.trim();
+
+    const routed = this.routes.get(normalized.toLowerCase());
+    if (routed) {
+      return routed;
+    }
+
+    if (this.getAllowedChannelIds().includes(normalized)) {
+      return normalized;
+    }
+
+    throw new Error(`Unknown or unauthorized channel "${normalized}"`);
+  }
+
+  /**
+   * Check whether a target resolves to an allowed channel
+   */
+  isAllowed(target: string): boolean {
+    try {
+      this.resolve(target);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get the default channel ID
+   */
+  getDefaultChannelId(): string {
+    return this.defaultChannelId;
+  }
+
+  /**
+   * Get all configured routes (name → channel ID)
+   */
+  getRoutes(): Record<string, string> {
+    return Object.fromEntries(this.routes);
+  }
+
+  /**
+   * Get every channel ID notifications may be delivered to
+   */
+  getAllowedChannelIds(): string[] {
+    return Array.from(new Set([this.defaultChannelId, ...this.routes.values()]));
+  }
+}
+
+/**
+ * Parse a route list in the form "security:123,garage:456"
+ * @param value Raw route list
+ * @returns Map of route name to channel ID
+ * @throws Error if an entry is malformed
+ */
+export function parseChannelRoutes(value: string | undefined): Record<string, string> {
+  const routes: Record<string, string> = {};
+
+  if (!value || value.trim() === '') {
+    return routes;
+  }
+
+  for (const entry of value.split(',')) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const separator = trimmed.indexOf(':');
+    const name = separator > 0 ? trimmed.substring(0, separator).trim() : '';
+    const channelId = separator > 0 ? trimmed.substring(separator + 1).trim() : '';
+
+    if (!name || !/^\d+$/.test(channelId)) {
+      throw new Error(`Invalid channel route "${trimmed}" (expected name:channelId)`);
+    }
+
+    routes[name] = channelId;
+  }
+
+  return routes;
+}
+
+/**
+ * Create a channel router from environment variables
+ * @param defaultChannelId Default channel (DISCORD_CHANNEL_ID)
+ */
+export function createChannelRouterFromEnv(defaultChannelId: string): ChannelRouter {
+  const routes = parseChannelRoutes(process.env.DISCORD_CHANNEL_ROUTES);
+  const routeCount = Object.keys(routes).length;
+
+  if (routeCount > 0) {
+    console.log(`Loaded ${routeCount} named channel route(s): ${Object.keys(routes).join(', ')}`);
+  }
+
+  return new ChannelRouter(defaultChannelId, routes);
+}
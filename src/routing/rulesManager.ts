@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NotificationInput } from '../database.js';
+import type { RoutingConfig, RoutingDecision, RoutingMatch, RoutingRule } from './types.js';
+
+/**
+ * Rule with its title pattern compiled once at load time
+ */
+interface CompiledRule {
+  rule: RoutingRule;
+  titleRegex: RegExp | null;
+}
+
+/**
+ * Manages declarative routing rules that decide where notifications go.
+ * Rules are evaluated in file order and the first matching rule wins.
+ */
+export class RoutingRulesManager {
+  private rules: CompiledRule[] = [];
+  private configPath: string;
+  private fileWatcher: fs.FSWatcher | null = null;
+
+  /**
+   * Creates a new RoutingRulesManager instance
+   * @param configPath Path to the routing rules config file
+   * @param enableFileWatching Enable automatic config reload on file changes
+   */
+  constructor(configPath: string, enableFileWatching = true) {
+    this.configPath = configPath;
+    this.loadConfig();
+
+    if (enableFileWatching) {
+      this.setupFileWatcher();
+    }
+  }
+
+  /**
+   * Finds the first rule matching a notification
+   * @param notification Notification being enqueued
+   * @returns Routing decision, or null if no rule matches
+   */
+  public evaluate(notification: NotificationInput): RoutingDecision | null {
+    for (const compiled of this.rules) {
+      if (this.matches(compiled, notification)) {
+        return {
+          ruleName: compiled.rule.name,
+          channels: compiled.rule.channels ?? [],
+          mentions: compiled.rule.mentions,
+          drop: compiled.rule.drop === true,
+          digest: compiled.rule.digest === true,
+          retryPolicy: compiled.rule.retryPolicy,
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Loads the routing rules from file
+   */
+  public loadConfig(): void {
+    try {
+      // Check if config file exists
+      if (!fs.existsSync(this.configPath)) {
+        console.log(`[RoutingRules] No routing config at ${this.configPath}, using default channel for everything`);
+        this.rules = [];
+        return;
+      }
+
+      // Read and parse config file
+      const fileContent = fs.readFileSync(this.configPath, 'utf-8');
+      const config: RoutingConfig = JSON.parse(fileContent);
+
+      // Validate config structure
+      if (!config.rules || !Array.isArray(config.rules)) {
+        console.error('[RoutingRules] Invalid config format: rules must be an array');
+        this.rules = [];
+        return;
+      }
+
+      const compiled: CompiledRule[] = [];
+      for (const rule of config.rules) {
+        const result = this.compileRule(rule);
+        if (result) {
+          compiled.push(result);
+        }
+      }
+
+      this.rules = compiled;
+      console.log(`[RoutingRules] Loaded ${this.rules.length} routing rule(s)`);
+    } catch (error) {
+      console.error('[RoutingRules] Error loading config:', error);
+      console.error('[RoutingRules] Routing rules disabled until the config is fixed');
+      this.rules = [];
+    }
+  }
+
+  /**
+   * Validates a rule and compiles its title pattern
+   * @returns Compiled rule, or null if the rule is invalid
+   */
+  private compileRule(rule: RoutingRule): CompiledRule | null {
+    if (!rule || typeof rule.name !== 'string' || rule.name.trim() === '') {
+      console.error('[RoutingRules] Skipping rule without a name');
+      return null;
+    }
+
+    if (rule.channels !== undefined && !Array.isArray(rule.channels)) {
+      console.error(`[RoutingRules] Skipping rule "${rule.name}": channels must be an array`);
+      return null;
+    }
+
+    if (rule.retryPolicy !== undefined && typeof rule.retryPolicy !== 'string') {
+      console.error(`[RoutingRules] Skipping rule "${rule.name}": retryPolicy must be a policy name`);
+      return null;
+    }
+
+    let titleRegex: RegExp | null = null;
+    if (rule.match?.titlePattern) {
+      try {
+        titleRegex = new RegExp(rule.match.titlePattern, 'i');
+      } catch (error) {
+        console.error(`[RoutingRules] Skipping rule "${rule.name}": invalid titlePattern`, error);
+        return null;
+      }
+    }
+
+    return { rule, titleRegex };
+  }
+
+  /**
+   * Checks whether a compiled rule matches a notification
+   */
+  private matches(compiled: CompiledRule, notification: NotificationInput): boolean {
+    const match: RoutingMatch = compiled.rule.match ?? {};
+
+    if (match.source !== undefined && !this.matchesValue(match.source, notification.source)) {
+      return false;
+    }
+
+    if (match.severity !== undefined && !this.matchesValue(match.severity, notification.severity || 'info')) {
+      return false;
+    }
+
+    if (compiled.titleRegex && !compiled.titleRegex.test(notification.title || '')) {
+      return false;
+    }
+
+    const metadata = notification.metadata ?? {};
+
+    if (match.metadataKeys && !match.metadataKeys.every((key) => key in metadata)) {
+      return false;
+    }
+
+    if (match.metadata) {
+      for (const [key, value] of Object.entries(match.metadata)) {
+        if (metadata[key] !== value) {
+          return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Case-insensitive comparison against a single value or a list of values
+   */
+  private matchesValue(expected: string | string[], actual: string): boolean {
+    const candidates = Array.isArray(expected) ? expected : [expected];
+    return candidates.some((candidate) => candidate.toLowerCase() === actual.toLowerCase());
+  }
+
+  /**
+   * Sets up file watcher for automatic config reload
+   */
+  private setupFileWatcher(): void {
+    try {
+      const configDir = path.dirname(this.configPath);
+
+      // Watch the config directory for changes
+      this.fileWatcher = fs.watch(configDir, (eventType, filename) => {
+        // Only reload if our config file changed
+        if (filename === path.basename(this.configPath)) {
+          console.log('[RoutingRules] Config file changed, reloading...');
+          this.loadConfig();
+        }
+      });
+
+      console.log('[RoutingRules] File watching enabled for config updates');
+    } catch (error) {
+      console.error('[RoutingRules] Error setting up file watcher:', error);
+    }
+  }
+
+  /**
+   * Stops the file watcher and cleans up resources
+   */
+  public destroy(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.close();
+      this.fileWatcher = null;
+      console.log('[RoutingRules] File watcher stopped');
+    }
+  }
+
+  /**
+   * Gets the names of the loaded rules, in evaluation order
+   */
+  public getRuleNames(): string[] {
+    return this.rules.map((compiled) => compiled.rule.name);
+  }
+
+  /**
+   * Gets the count of loaded rules
+   */
+  public getRuleCount(): number {
+    return this.rules.length;
+  }
+}
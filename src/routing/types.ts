@@ -0,0 +1,49 @@
+/**
+ * Notification Routing Types
+ */
+
+import type { NotificationMentions } from '../database.js';
+
+/**
+ * Conditions a notification must satisfy for a rule to apply.
+ * All specified conditions must match; omitted conditions are ignored.
+ */
+export interface RoutingMatch {
+  source?: string | string[]; // Exact match, case-insensitive
+  severity?: string | string[];
+  titlePattern?: string; // Regular expression, case-insensitive
+  metadataKeys?: string[]; // Keys that must be present in metadata
+  metadata?: Record<string, string | number | boolean>; // Exact metadata values
+}
+
+/**
+ * A single routing rule as written in the config file
+ */
+export interface RoutingRule {
+  name: string;
+  match?: RoutingMatch;
+  channels?: string[]; // Channel IDs or named routes
+  mentions?: NotificationMentions;
+  drop?: boolean;
+  digest?: boolean; // Deliver in the periodic digest instead of on its own
+  retryPolicy?: string; // Name of the retry policy for notifications that did not pick one
+}
+
+/**
+ * Routing config file structure
+ */
+export interface RoutingConfig {
+  rules: RoutingRule[];
+}
+
+/**
+ * Result of evaluating the rules against a notification
+ */
+export interface RoutingDecision {
+  ruleName: string;
+  channels: string[];
+  mentions?: NotificationMentions;
+  drop: boolean;
+  digest: boolean;
+  retryPolicy?: string;
+}
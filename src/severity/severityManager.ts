@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NotificationSeverity } from '../database.js';
+import { parseColor } from '../queue/embeds.js';
+import type { SeverityBehaviorConfig, SeverityConfig, SeverityLevel } from './types.js';
+
+/**
+ * Severity levels from least to most severe
+ */
+export const SEVERITY_LEVELS: NotificationSeverity[] = ['debug', 'info', 'success', 'warning', 'error', 'critical'];
+
+/**
+ * Behavior of each level when the config file does not override it.
+ * Errors and critical alerts are never held by quiet hours and jump the
+ * queue ahead of less severe notifications.
+ */
+export const DEFAULT_SEVERITY_LEVELS: Record<NotificationSeverity, SeverityLevel> = {
+  debug: { name: 'debug', color: 0x95a5a6, emoji: '🐛', maxRetries: 1, priority: 0, bypassQuietHours: false },
+  info: { name: 'info', color: 0x3498db, emoji: 'ℹ️', maxRetries: 3, priority: 1, bypassQuietHours: false },
+  success: { name: 'success', color: 0x2ecc71, emoji: '✅', maxRetries: 3, priority: 1, bypassQuietHours: false },
+  warning: { name: 'warning', color: 0xf39c12, emoji: '⚠️', maxRetries: 3, priority: 2, bypassQuietHours: false },
+  error: { name: 'error', color: 0xe74c3c, emoji: '❌', maxRetries: 3, priority: 3, bypassQuietHours: true },
+  critical: { name: 'critical', color: 0x992d22, emoji: '🚨', maxRetries: 5, priority: 4, bypassQuietHours: true },
+};
+
+/**
+ * Highest queue priority a level or notification may have
+ */
+export const MAX_PRIORITY = 10;
+
+/**
+ * Check whether a value is a valid queue priority (an integer from 0 to MAX_PRIORITY)
+ */
+export function isValidPriority(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_PRIORITY;
+}
+
+// Discord snowflake IDs
+const ID_PATTERN = /^\d{17,20}$/;
+
+/**
+ * Check whether a value is a known severity level
+ */
+export function isSeverity(value: unknown): value is NotificationSeverity {
+  return typeof value === 'string' && SEVERITY_LEVELS.includes(value as NotificationSeverity);
+}
+
+/**
+ * Rank of a severity level (0 = debug); unknown values rank as info
+ */
+export function getSeverityRank(severity: string | undefined): number {
+  return isSeverity(severity) ? SEVERITY_LEVELS.indexOf(severity) : SEVERITY_LEVELS.indexOf('info');
+}
+
+/**
+ * Manages the per-level behavior of notification severities: color, emoji,
+ * mentions, default channel, retry budget and quiet-hours bypass
+ */
+export class SeverityConfigManager {
+  private levels: Record<NotificationSeverity, SeverityLevel> = { ...DEFAULT_SEVERITY_LEVELS };
+  private configPath: string;
+  private fileWatcher: fs.FSWatcher | null = null;
+
+  /**
+   * Creates a new SeverityConfigManager instance
+   * @param configPath Path to the severity config file
+   * @param enableFileWatching Enable automatic config reload on file changes
+   */
+  constructor(configPath: string, enableFileWatching = true) {
+    this.configPath = configPath;
+    this.loadConfig();
+
+    if (enableFileWatching) {
+      this.setupFileWatcher();
+    }
+  }
+
+  /**
+   * Gets the behavior of a severity level
+   * @param severity Level name; unknown or missing levels are treated as info
+   */
+  public getLevel(severity: string | undefined): SeverityLevel {
+    return this.levels[isSeverity(severity) ? severity : 'info'];
+  }
+
+  /**
+   * Loads the severity config from file
+   */
+  public loadConfig(): void {
+    this.levels = { ...DEFAULT_SEVERITY_LEVELS };
+
+    try {
+      // Check if config file exists
+      if (!fs.existsSync(this.configPath)) {
+        console.log(`[Severity] No severity config at ${this.configPath}, using the default levels`);
+        return;
+      }
+
+      // Read and parse config file
+      const fileContent = fs.readFileSync(this.configPath, 'utf-8');
+      const config: SeverityConfig = JSON.parse(fileContent);
+
+      // Validate config structure
+      if (!config || typeof config.levels !== 'object' || config.levels === null || Array.isArray(config.levels)) {
+        console.error('[Severity] Invalid config format: levels must be an object');
+        return;
+      }
+
+      let configured = 0;
+      for (const [name, behavior] of Object.entries(config.levels)) {
+        if (!isSeverity(name)) {
+          console.error(`[Severity] Skipping unknown level "${name}" (use ${SEVERITY_LEVELS.join(', ')})`);
+          continue;
+        }
+
+        const level = this.parseLevel(name, behavior);
+        if (level) {
+          this.levels[name] = level;
+          configured++;
+        }
+      }
+
+      console.log(`[Severity] Loaded behavior for ${configured} severity level(s)`);
+    } catch (error) {
+      console.error('[Severity] Error loading config:', error);
+      console.error('[Severity] Using the default levels until the config is fixed');
+      this.levels = { ...DEFAULT_SEVERITY_LEVELS };
+    }
+  }
+
+  /**
+   * Validates a level's behavior and merges it with the defaults
+   * @returns The level, or null if it is invalid (the defaults stay in place)
+   */
+  private parseLevel(name: NotificationSeverity, behavior: SeverityBehaviorConfig): SeverityLevel | null {
+    if (!behavior || typeof behavior !== 'object' || Array.isArray(behavior)) {
+      console.error(`[Severity] Skipping level "${name}": behavior must be an object`);
+      return null;
+    }
+
+    const level: SeverityLevel = { ...DEFAULT_SEVERITY_LEVELS[name] };
+
+    if (behavior.color !== undefined) {
+      const color = parseColor(behavior.color);
+      if (color === null) {
+        console.error(`[Severity] Skipping level "${name}": color must be "#rrggbb" or a number`);
+        return null;
+      }
+      level.color = color;
+    }
+
+    if (behavior.emoji !== undefined) {
+      if (typeof behavior.emoji !== 'string') {
+        console.error(`[Severity] Skipping level "${name}": emoji must be a string`);
+        return null;
+      }
+      level.emoji = behavior.emoji;
+    }
+
+    if (behavior.mentions !== undefined) {
+      const isIdList = (value: unknown) =>
+        value === undefined || (Array.isArray(value) && value.every((id) => typeof id === 'string' && ID_PATTERN.test(id)));
+      const mentions = behavior.mentions;
+      if (!mentions || typeof mentions !== 'object' || !isIdList(mentions.users) || !isIdList(mentions.roles)) {
+        console.error(`[Severity] Skipping level "${name}": mentions must have users and/or roles lists of Discord IDs`);
+        return null;
+      }
+      level.mentions = mentions;
+    }
+
+    if (behavior.channel !== undefined) {
+      if (typeof behavior.channel !== 'string' || behavior.channel.trim() === '') {
+        console.error(`[Severity] Skipping level "${name}": channel must be a channel ID or route name`);
+        return null;
+      }
+      level.channel = behavior.channel;
+    }
+
+    if (behavior.maxRetries !== undefined) {
+      if (!Number.isInteger(behavior.maxRetries) || behavior.maxRetries < 0 || behavior.maxRetries > 10) {
+        console.error(`[Severity] Skipping level "${name}": maxRetries must be an integer from 0 to 10`);
+        return null;
+      }
+      level.maxRetries = behavior.maxRetries;
+    }
+
+    if (behavior.priority !== undefined) {
+      if (!isValidPriority(behavior.priority)) {
+        console.error(`[Severity] Skipping level "${name}": priority must be an integer from 0 to ${MAX_PRIORITY}`);
+        return null;
+      }
+      level.priority = behavior.priority;
+    }
+
+    if (behavior.bypassQuietHours !== undefined) {
+      if (typeof behavior.bypassQuietHours !== 'boolean') {
+        console.error(`[Severity] Skipping level "${name}": bypassQuietHours must be true or false`);
+        return null;
+      }
+      level.bypassQuietHours = behavior.bypassQuietHours;
+    }
+
+    return level;
+  }
+
+  /**
+   * Sets up file watcher for automatic config reload
+   */
+  private setupFileWatcher(): void {
+    try {
+      const configDir = path.dirname(this.configPath);
+
+      // Watch the config directory for changes
+      this.fileWatcher = fs.watch(configDir, (eventType, filename) => {
+        // Only reload if our config file changed
+        if (filename === path.basename(this.configPath)) {
+          console.log('[Severity] Config file changed, reloading...');
+          this.loadConfig();
+        }
+      });
+
+      console.log('[Severity] File watching enabled for config updates');
+    } catch (error) {
+      console.error('[Severity] Error setting up file watcher:', error);
+    }
+  }
+
+  /**
+   * Stops the file watcher and cleans up resources
+   */
+  public destroy(): void {
+    if (this.fileWatcher) {
+      this.fileWatcher.close();
+      this.fileWatcher = null;
+      console.log('[Severity] File watcher stopped');
+    }
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Severity Level Types
+ */
+
+import type { NotificationMentions, NotificationSeverity } from '../database.js';
+
+/**
+ * Behavior of a severity level as written in the config file.
+ * Omitted settings keep the level's default.
+ */
+export interface SeverityBehaviorConfig {
+  color?: number | string; // "#rrggbb" or a number
+  emoji?: string; // Shown in digests
+  mentions?: NotificationMentions; // Pinged with every notification of this level
+  channel?: string; // Channel ID or named route for notifications without a channel or routing rule
+  maxRetries?: number; // Retries after a failed send
+  priority?: number; // Queue priority, 0-10; higher goes out first
+  bypassQuietHours?: boolean; // Send during quiet hours instead of holding
+}
+
+/**
+ * Resolved behavior of a severity level
+ */
+export interface SeverityLevel {
+  name: NotificationSeverity;
+  color: number;
+  emoji: string;
+  mentions?: NotificationMentions;
+  channel?: string;
+  maxRetries: number;
+  priority: number;
+  bypassQuietHours: boolean;
+}
+
+/**
+ * Severity config file structure
+ */
+export interface SeverityConfig {
+  levels: Partial<Record<NotificationSeverity, SeverityBehaviorConfig>>;
+}
@@ -0,0 +1,254 @@
+/**
+ * Template Rendering
+ *
+ * Renders notification templates with Handlebars-style placeholders:
+ * `{{name}}` and dotted paths such as `{{sensor.state}}` insert values from
+ * the request's `data`, and `{{#if path}}...{{else}}...{{/if}}` shows text
+ * conditionally. Values are inserted as-is (Discord markdown, no HTML
+ * escaping). A placeholder without a value is an error, so a typo in an
+ * automation is reported instead of sent as an empty string.
+ */
+
+import type { NotificationTemplate } from '../database.js';
+import { SEVERITY_LEVELS, isSeverity } from '../severity/severityManager.js';
+
+const NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,49}$/;
+const PATH_PATTERN = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+const TAG_PATTERN = /{{\s*([^{}]*?)\s*}}/g;
+// Embed options a template may set, as in the webhook request
+const EMBED_OPTIONS = ['fields', 'url', 'image_url', 'thumbnail_url', 'author', 'footer', 'color'];
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * Check a template before it is saved
+ *
+ * @throws Error describing the first problem (invalid name, severity or placeholder syntax)
+ */
+export function validateTemplate(template: NotificationTemplate): void {
+  if (!NAME_PATTERN.test(template.name)) {
+    throw new Error('name must be 1-50 lowercase letters, digits, "-" or "_"');
+  }
+
+  if (typeof template.message !== 'string' || template.message.trim() === '') {
+    throw new Error('message is required');
+  }
+
+  if (template.severity !== undefined && !isSeverity(template.severity)) {
+    throw new Error(`severity must be one of ${SEVERITY_LEVELS.join(', ')}`);
+  }
+
+  if (template.embed !== undefined && (!template.embed || typeof template.embed !== 'object' || Array.isArray(template.embed))) {
+    throw new Error('embed must be an object of embed options');
+  }
+
+  const unknownOption = Object.keys(template.embed ?? {}).find((key) => !EMBED_OPTIONS.includes(key));
+  if (unknownOption) {
+    throw new Error(`embed has an unknown option "${unknownOption}" (use ${EMBED_OPTIONS.join(', ')})`);
+  }
+
+  for (const [where, text] of templateStrings(template)) {
+    try {
+      parseTemplateText(text);
+    } catch (error) {
+      throw new Error(`${where}: ${error instanceof Error ? error.message : 'invalid placeholder'}`);
+    }
+  }
+}
+
+/**
+ * Render a template into a webhook request body
+ *
+ * @param template - Saved template
+ * @param data - Values for the placeholders
+ * @returns Body with source, title, message, severity, channel and embed options
+ * @throws Error listing the placeholders that have no value in data
+ */
+export function renderTemplate(template: NotificationTemplate, data: Record<string, unknown>): Record<string, unknown> {
+  const missing = new Set<string>();
+  const render = (text: string | undefined) =>
+    text === undefined ? undefined : renderNodes(parseTemplateText(text), data, missing);
+
+  const body: Record<string, unknown> = {
+    source: render(template.source) ?? template.name,
+    title: render(template.title),
+    message: render(template.message),
+    severity: template.severity,
+    channel: template.channel,
+    ...renderValue(template.embed ?? {}, (text) => render(text)!),
+  };
+
+  if (missing.size > 0) {
+    throw new Error(`missing data for ${Array.from(missing).map((path) => `{{${path}}}`).join(', ')}`);
+  }
+
+  // Leave out unset options so they do not override anything
+  return Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * List the data paths a template uses, in order of first use
+ */
+export function getTemplateVariables(template: NotificationTemplate): string[] {
+  const variables = new Set<string>();
+  const collect = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'value') {
+        variables.add(node.path);
+      } else if (node.type === 'if') {
+        variables.add(node.path);
+        collect(node.then);
+        collect(node.otherwise);
+      }
+    }
+  };
+
+  for (const [, text] of templateStrings(template)) {
+    try {
+      collect(parseTemplateText(text));
+    } catch {
+      // Invalid templates are rejected when saved
+    }
+  }
+
+  return Array.from(variables);
+}
+
+/**
+ * Parse text with placeholders into nodes
+ *
+ * @throws Error for empty or invalid placeholders and unbalanced {{#if}} blocks
+ */
+function parseTemplateText(text: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open {{#if}} blocks; nodes are added to the innermost branch
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const target = () => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.node.otherwise : open.node.then) : root;
+  };
+
+  let last = 0;
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    if (match.index! > last) {
+      target().push({ type: 'text', text: text.slice(last, match.index) });
+    }
+    last = match.index! + match[0].length;
+
+    const tag = match[1];
+    if (/^#if(\s|$)/.test(tag)) {
+      const path = tag.slice(3).trim();
+      checkPath(path, match[0]);
+      const node: TemplateNode = { type: 'if', path, then: [], otherwise: [] };
+      target().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        throw new Error('{{else}} without a matching {{#if}}');
+      }
+      open.inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        throw new Error('{{/if}} without a matching {{#if}}');
+      }
+    } else {
+      checkPath(tag, match[0]);
+      target().push({ type: 'value', path: tag });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`{{#if ${stack[stack.length - 1].node.path}}} is not closed with {{/if}}`);
+  }
+
+  if (last < text.length) {
+    target().push({ type: 'text', text: text.slice(last) });
+  }
+
+  return root;
+}
+
+function checkPath(path: string, tag: string): void {
+  if (!PATH_PATTERN.test(path)) {
+    throw new Error(`invalid placeholder ${tag} (use a name or dotted path such as {{sensor.state}})`);
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], data: Record<string, unknown>, missing: Set<string>): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text') {
+        return node.text;
+      }
+
+      const value = lookup(data, node.path);
+      if (node.type === 'if') {
+        return renderNodes(isTruthy(value) ? node.then : node.otherwise, data, missing);
+      }
+
+      if (value === undefined || value === null) {
+        missing.add(node.path);
+        return '';
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    })
+    .join('');
+}
+
+function lookup(data: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    data
+  );
+}
+
+/**
+ * Handlebars truthiness: empty strings, 0, false, null and empty lists are false
+ */
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Render every string inside embed options (field names and values, URLs, footer, ...)
+ */
+function renderValue(value: any, render: (text: string) => string): any {
+  if (typeof value === 'string') {
+    return render(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, render));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, render)]));
+  }
+  return value;
+}
+
+/**
+ * Every text of a template that may contain placeholders, with where it is
+ */
+function templateStrings(template: NotificationTemplate): [string, string][] {
+  const strings: [string, string][] = [];
+  const visit = (value: unknown, where: string) => {
+    if (typeof value === 'string') {
+      strings.push([where, value]);
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${where}[${index}]`));
+    } else if (value && typeof value === 'object') {
+      for (const [key, item] of Object.entries(value)) {
+        visit(item, where ? `${where}.${key}` : key);
+      }
+    }
+  };
+
+  visit(template.source, 'source');
+  visit(template.title, 'title');
+  visit(template.message, 'message');
+  visit(template.embed ?? {}, '');
+  return strings;
+}
@@ -5,81 +5,307 @@
  *
  * Supported formats:
  * - "now" or "immediate" → current time
- * - "5m" or "5 minutes" → 5 minutes from now
- * - "2h" or "2 hours" → 2 hours from now
- * - "1d" or "1 day" → 1 day from now
+ * - "5m", "5 minutes", "1h30m", "in 2 hours 15 minutes", "1w" → duration from now
+ * - "at 18:30", "7am", "7:15pm", "noon" → next time the clock shows that time
+ * - "tomorrow 7am", "today at 18:00", "friday", "next monday 9:00" → day and optional time (default 09:00)
+ * - "2024-12-25 10:00" → wall-clock date and time
  * - "2024-12-25T10:00:00Z" → ISO 8601 date string
  * - Date object → returned as-is
+ *
+ * Wall-clock times resolve in the given timezone (default: BOT_TIMEZONE).
  */
 
+import {
+  getDefaultTimezone,
+  getZonedParts,
+  zonedTimeToUtc,
+  addDays,
+  getWeekday,
+  LocalDateTime,
+} from './timezone.js';
+
 // Time conversion constants (in milliseconds)
 const TIME_MS = {
   MINUTE: 60 * 1000,
   HOUR: 60 * 60 * 1000,
   DAY: 24 * 60 * 60 * 1000,
+  WEEK: 7 * 24 * 60 * 60 * 1000,
 } as const;
 
+// Time of day used when only a day is given ("friday", "tomorrow")
+const DEFAULT_TIME_OF_DAY = { hour: 9, minute: 0 } as const;
+
+const DURATION_UNITS: Record<string, number> = {
+  m: TIME_MS.MINUTE,
+  min: TIME_MS.MINUTE,
+  mins: TIME_MS.MINUTE,
+  minute: TIME_MS.MINUTE,
+  minutes: TIME_MS.MINUTE,
+  h: TIME_MS.HOUR,
+  hr: TIME_MS.HOUR,
+  hrs: TIME_MS.HOUR,
+  hour: TIME_MS.HOUR,
+  hours: TIME_MS.HOUR,
+  d: TIME_MS.DAY,
+  day: TIME_MS.DAY,
+  days: TIME_MS.DAY,
+  w: TIME_MS.WEEK,
+  week: TIME_MS.WEEK,
+  weeks: TIME_MS.WEEK,
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const FORMAT_HINT =
+  'Try "5m", "in 1h30m", "at 18:30", "tomorrow 7am", "next monday 9:00" or an ISO 8601 date';
+
+export interface ParseTimeOptions {
+  timezone?: string; // IANA timezone for wall-clock input (default: BOT_TIMEZONE)
+  now?: Date; // Reference time (default: now)
+}
+
 /**
  * Parse a scheduled time input into a Date object
  *
  * @param input - Time string or Date object
+ * @param options - Timezone and reference time
  * @returns Parsed Date object
- * @throws Error if the input format is invalid
+ * @throws Error if the input format is invalid or ambiguous
  */
-export function parseScheduledTime(input: string | Date): Date {
+export function parseScheduledTime(input: string | Date, options: ParseTimeOptions = {}): Date {
   // If already a Date object, return it
   if (input instanceof Date) {
     return input;
   }
 
-  const now = new Date();
+  const now = options.now ?? new Date();
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
 
   // Handle "now" or "immediate"
-  if (input === 'now' || input === 'immediate') {
+  if (text === 'now' || text === 'immediate') {
     return now;
   }
 
-  // Handle relative time formats: "5m", "2h", "1d"
-  const shortRelativeMatch = input.match(/^(\d+)(m|h|d)$/);
-  if (shortRelativeMatch) {
-    const value = parseInt(shortRelativeMatch[1], 10);
-    const unit = shortRelativeMatch[2];
+  // Bare numbers could mean minutes, hours or a time of day
+  if (/^\d+$/.test(text)) {
+    throw new Error(
+      `Ambiguous time "${input}": add a unit ("${text}m", "${text}h") or a time of day ("${text}am", "${text.padStart(2, '0')}:00")`
+    );
+  }
 
-    switch (unit) {
-      case 'm':
-        return new Date(now.getTime() + value * TIME_MS.MINUTE);
-      case 'h':
-        return new Date(now.getTime() + value * TIME_MS.HOUR);
-      case 'd':
-        return new Date(now.getTime() + value * TIME_MS.DAY);
-    }
+  // Handle durations: "5m", "2 hours", "1h30m", "in 1 hour and 30 minutes"
+  const durationMs = parseDuration(text);
+  if (durationMs !== null) {
+    return new Date(now.getTime() + durationMs);
   }
 
-  // Handle long-form relative time: "5 minutes", "2 hours", "1 day"
-  const longRelativeMatch = input.match(/^(\d+)\s+(minute|minutes|hour|hours|day|days)$/i);
-  if (longRelativeMatch) {
-    const value = parseInt(longRelativeMatch[1], 10);
-    const unit = longRelativeMatch[2].toLowerCase();
+  const timezone = options.timezone ?? getDefaultTimezone();
 
-    if (unit.startsWith('minute')) {
-      return new Date(now.getTime() + value * TIME_MS.MINUTE);
-    } else if (unit.startsWith('hour')) {
-      return new Date(now.getTime() + value * TIME_MS.HOUR);
-    } else if (unit.startsWith('day')) {
-      return new Date(now.getTime() + value * TIME_MS.DAY);
+  // Handle day and/or time of day: "tomorrow 7am", "at 18:30", "next monday 9:00", "friday"
+  const dayTime = parseDayAndTime(input, text, now, timezone);
+  if (dayTime) {
+    return dayTime;
+  }
+
+  // Handle wall-clock dates without a timezone: "2024-12-25" or "2024-12-25 10:00"
+  const localDateMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ t](\d{1,2}):(\d{2})(?::00)?)?$/);
+  if (localDateMatch) {
+    const local: LocalDateTime = {
+      year: parseInt(localDateMatch[1], 10),
+      month: parseInt(localDateMatch[2], 10),
+      day: parseInt(localDateMatch[3], 10),
+      hour: localDateMatch[4] ? parseInt(localDateMatch[4], 10) : DEFAULT_TIME_OF_DAY.hour,
+      minute: localDateMatch[5] ? parseInt(localDateMatch[5], 10) : DEFAULT_TIME_OF_DAY.minute,
+    };
+
+    if (
+      local.month < 1 ||
+      local.month > 12 ||
+      local.day < 1 ||
+      local.day > daysInMonth(local.year, local.month) ||
+      local.hour > 23 ||
+      local.minute > 59
+    ) {
+      throw new Error(`Unable to parse date: "${input}" is not a valid date and time`);
+    }
+
+    return zonedTimeToUtc(local, timezone);
+  }
+
+  // Date rolls days past the end of the month over into the next one ("2024-02-31" becomes March 2nd)
+  const isoDateMatch = text.match(/^(\d{4})-(\d{2})-(\d{2})t/);
+  if (isoDateMatch) {
+    const month = parseInt(isoDateMatch[2], 10);
+    const day = parseInt(isoDateMatch[3], 10);
+    if (month < 1 || month > 12 || day < 1 || day > daysInMonth(parseInt(isoDateMatch[1], 10), month)) {
+      throw new Error(`Unable to parse date: "${input}" is not a valid date and time`);
     }
   }
 
   // Handle ISO string or other date formats
-  try {
-    const parsed = new Date(input);
-    if (isNaN(parsed.getTime())) {
-      throw new Error(`Invalid date format: ${input}`);
+  const parsed = new Date(input);
+  if (isNaN(parsed.getTime())) {
+    throw new Error(`Unable to parse date: "${input}". ${FORMAT_HINT}`);
+  }
+
+  // Without an explicit offset, Date parses in the server's timezone; re-read the wall-clock fields in ours
+  if (!/(z|[+-]\d{2}:?\d{2}|gmt|utc)$/i.test(input.trim())) {
+    return zonedTimeToUtc(
+      {
+        year: parsed.getFullYear(),
+        month: parsed.getMonth() + 1,
+        day: parsed.getDate(),
+        hour: parsed.getHours(),
+        minute: parsed.getMinutes(),
+      },
+      timezone
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse the start or end of a time range in the past
+ *
+ * Durations count back from now ("24h" and "2 days ago" mean that long ago);
+ * anything else is read like a scheduled time, e.g. "2024-12-25 10:00".
+ *
+ * @param input - Time string
+ * @param options - Timezone and reference time
+ * @throws Error if the input format is invalid
+ */
+export function parsePastTime(input: string, options: ParseTimeOptions = {}): Date {
+  const now = options.now ?? new Date();
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ').replace(/ ago$/, '');
+
+  const durationMs = /^in /.test(text) ? null : parseDuration(text);
+  if (durationMs !== null) {
+    return new Date(now.getTime() - durationMs);
+  }
+
+  return parseScheduledTime(input, options);
+}
+
+/**
+ * Parse a duration made of one or more "<number><unit>" parts
+ *
+ * @returns Duration in milliseconds, or null if the text is not a duration
+ */
+function parseDuration(text: string): number | null {
+  const body = text.replace(/^in /, '');
+  if (!/^(\d+ ?[a-z]+)(( |, | and )?\d+ ?[a-z]+)*$/.test(body)) {
+    return null;
+  }
+
+  let total = 0;
+  for (const [, amount, unit] of body.matchAll(/(\d+) ?([a-z]+)/g)) {
+    const unitMs = DURATION_UNITS[unit];
+    if (unitMs === undefined) {
+      return null;
     }
-    return parsed;
-  } catch (error) {
-    throw new Error(`Unable to parse date: ${input}`);
+    total += parseInt(amount, 10) * unitMs;
   }
+
+  return total;
+}
+
+/**
+ * Parse "[today|tomorrow|[next] <weekday>] [at] [<time>]"
+ *
+ * @returns Resolved Date, or null if the text is not a day/time expression
+ * @throws Error if the expression is recognised but ambiguous or invalid
+ */
+function parseDayAndTime(input: string, text: string, now: Date, timezone: string): Date | null {
+  const match = text.match(
+    /^(?:(today|tomorrow|(next )?(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)[a-z]*))?(?: ?(?:at )?(noon|midnight|\d{1,2}(?::\d{2})? ?(?:am|pm)?))?$/
+  );
+
+  if (!match || (!match[1] && !match[4])) {
+    return null;
+  }
+
+  const [, dayWord, nextWord, weekdayPrefix, timeText] = match;
+
+  let weekday: number | null = null;
+  if (weekdayPrefix) {
+    weekday = WEEKDAYS.findIndex((name) => name.startsWith(weekdayPrefix));
+    const fullName = dayWord.replace(/^next /, '');
+    if (!WEEKDAYS[weekday].startsWith(fullName)) {
+      return null; // e.g. "monkey"
+    }
+  }
+
+  const time = timeText ? parseTimeOfDay(input, timeText) : DEFAULT_TIME_OF_DAY;
+  const today = getZonedParts(now, timezone);
+  const at = (offsetDays: number): Date =>
+    zonedTimeToUtc({ ...addDays(today, offsetDays), hour: time.hour, minute: time.minute }, timezone);
+
+  if (!dayWord) {
+    // Time only: the next time the clock shows it
+    const todayAt = at(0);
+    return todayAt.getTime() > now.getTime() ? todayAt : at(1);
+  }
+
+  if (dayWord === 'today') {
+    const todayAt = at(0);
+    if (todayAt.getTime() <= now.getTime()) {
+      throw new Error(`Time "${input}" is already in the past`);
+    }
+    return todayAt;
+  }
+
+  if (dayWord === 'tomorrow') {
+    return at(1);
+  }
+
+  // Weekday: the coming one (today if the time is still ahead); "next" always skips today
+  let offset = (weekday! - getWeekday(today) + 7) % 7;
+  if (offset === 0 && (nextWord || at(0).getTime() <= now.getTime())) {
+    offset = 7;
+  }
+  return at(offset);
+}
+
+/**
+ * Parse "7am", "7:15pm", "18:30", "noon" or "midnight"
+ *
+ * @throws Error if the time is ambiguous (no minutes and no am/pm) or out of range
+ */
+function parseTimeOfDay(input: string, text: string): { hour: number; minute: number } {
+  if (text === 'noon') return { hour: 12, minute: 0 };
+  if (text === 'midnight') return { hour: 0, minute: 0 };
+
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))? ?(am|pm)?$/)!;
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3];
+
+  if (!match[2] && !meridiem) {
+    throw new Error(
+      `Ambiguous time "${input}": use 24-hour time ("${String(hour).padStart(2, '0')}:00") or add am/pm ("${hour}am", "${hour}pm")`
+    );
+  }
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      throw new Error(`Invalid time "${input}": hours must be 1-12 with am/pm`);
+    }
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+
+  if (hour > 23 || minute > 59) {
+    throw new Error(`Invalid time "${input}": use a time between 00:00 and 23:59`);
+  }
+
+  return { hour, minute };
+}
+
+/**
+ * Number of days in a month (1-12), counting leap years
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
 }
 
 /**
@@ -110,3 +336,37 @@ export function formatRelativeTime(date: Date): string {
     return `in ${diffDays} day${diffDays === 1 ? '' : 's'}`;
   }
 }
+
+/**
+ * Format a date as wall-clock time in a timezone
+ *
+ * @param date - Date to format
+ * @param timezone - IANA timezone (default: BOT_TIMEZONE)
+ * @returns Absolute time (e.g., "Tue 7 Jan, 07:00 CET"); the year is included when it differs from the current one
+ */
+export function formatAbsoluteTime(date: Date, timezone: string = getDefaultTimezone()): string {
+  const showYear = getZonedParts(date, timezone).year !== getZonedParts(new Date(), timezone).year;
+
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: showYear ? 'numeric' : undefined,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+/**
+ * Format a date as relative time followed by its wall-clock time in a timezone
+ *
+ * @param date - Date to format
+ * @param timezone - IANA timezone (default: BOT_TIMEZONE)
+ * @returns Formatted time (e.g., "in 2 hours (Tue 7 Jan, 07:00 CET)")
+ */
+export function formatScheduledTime(date: Date, timezone: string = getDefaultTimezone()): string {
+  return `${formatRelativeTime(date)} (${formatAbsoluteTime(date, timezone)})`;
+}
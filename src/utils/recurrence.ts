@@ -0,0 +1,385 @@
+/**
+ * Recurrence Utility
+ *
+ * Parses recurrence expressions for repeating notifications and computes their
+ * next occurrence.
+ *
+ * Supported formats:
+ * - "every 30m", "every 2h" → fixed interval
+ * - "every day at 08:00", "every 1d at 08:00", "every 2w at 18:30" → calendar interval at a time of day
+ * - "0 8 * * 1" → 5-field cron expression (minute hour day-of-month month day-of-week)
+ *
+ * Times of day and cron fields are evaluated as wall-clock time in a timezone
+ * (BOT_TIMEZONE by default), so "every 1d at 08:00" stays at 08:00 across DST
+ * transitions.
+ */
+
+import { LocalDateTime, getDefaultTimezone, getZonedParts, zonedTimeToUtc, addDays } from './timezone.js';
+
+// Time conversion constants (in milliseconds)
+const TIME_MS = {
+  MINUTE: 60 * 1000,
+  HOUR: 60 * 60 * 1000,
+} as const;
+
+// Upper bound on cron search steps (about 4 years of day jumps plus hour/minute steps)
+const MAX_CRON_ITERATIONS = 100000;
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export type IntervalUnit = 'minute' | 'hour' | 'day' | 'week';
+
+export interface IntervalRecurrence {
+  kind: 'interval';
+  expression: string;
+  amount: number;
+  unit: IntervalUnit;
+  at?: { hour: number; minute: number };
+}
+
+export interface CronRecurrence {
+  kind: 'cron';
+  expression: string;
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[]; // 1-12
+  daysOfWeek: number[]; // 0-6, Sunday = 0
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+export type Recurrence = IntervalRecurrence | CronRecurrence;
+
+/**
+ * Parse a recurrence expression
+ *
+ * @param input - Interval ("every 1d at 08:00") or cron ("0 8 * * 1") expression
+ * @returns Parsed recurrence
+ * @throws Error if the expression is invalid
+ */
+export function parseRecurrence(input: string): Recurrence {
+  const expression = input.trim();
+
+  if (/^every\b/i.test(expression)) {
+    return parseInterval(expression);
+  }
+
+  const fields = expression.split(/\s+/);
+  if (fields.length === 5) {
+    return parseCron(expression, fields);
+  }
+
+  throw new Error(
+    `Invalid recurrence "${input}": use "every <n><m|h|d|w> [at HH:MM]" or a 5-field cron expression`
+  );
+}
+
+/**
+ * Compute the first occurrence of a recurrence after a point in time
+ *
+ * @param recurrence - Parsed recurrence
+ * @param now - Reference time (default: now)
+ * @param timezone - IANA timezone for times of day and cron fields (default: BOT_TIMEZONE)
+ * @returns First occurrence strictly after `now`
+ */
+export function getFirstOccurrence(
+  recurrence: Recurrence,
+  now: Date = new Date(),
+  timezone: string = getDefaultTimezone()
+): Date {
+  if (recurrence.kind === 'cron') {
+    return nextCronMatch(recurrence, now, timezone);
+  }
+
+  if (recurrence.at) {
+    // Today at the given time if it hasn't passed yet, otherwise the next day
+    const today = getZonedParts(now, timezone);
+    const candidate = zonedTimeToUtc({ ...today, ...recurrence.at }, timezone);
+    if (candidate.getTime() > now.getTime()) {
+      return candidate;
+    }
+    return zonedTimeToUtc({ ...addDays(today, 1), ...recurrence.at }, timezone);
+  }
+
+  return getNextOccurrence(recurrence, now, now, timezone);
+}
+
+/**
+ * Compute the occurrence following a previous one
+ *
+ * Occurrences missed while the bot was offline are skipped: the result is
+ * always strictly after `now`.
+ *
+ * @param recurrence - Parsed recurrence
+ * @param previous - Previous occurrence
+ * @param now - Reference time (default: now)
+ * @param timezone - IANA timezone for times of day and cron fields (default: BOT_TIMEZONE)
+ * @returns Next occurrence
+ */
+export function getNextOccurrence(
+  recurrence: Recurrence,
+  previous: Date,
+  now: Date = new Date(),
+  timezone: string = getDefaultTimezone()
+): Date {
+  if (recurrence.kind === 'cron') {
+    const from = previous.getTime() > now.getTime() ? previous : now;
+    return nextCronMatch(recurrence, from, timezone);
+  }
+
+  // Minute and hour intervals are fixed durations
+  if (recurrence.unit === 'minute' || recurrence.unit === 'hour') {
+    const step = recurrence.amount * (recurrence.unit === 'minute' ? TIME_MS.MINUTE : TIME_MS.HOUR);
+    let next = previous.getTime() + step;
+    if (next <= now.getTime()) {
+      const missed = Math.floor((now.getTime() - previous.getTime()) / step);
+      next = previous.getTime() + (missed + 1) * step;
+    }
+    return new Date(next);
+  }
+
+  // Day and week intervals step by calendar days so the wall-clock time stays fixed
+  const days = recurrence.amount * (recurrence.unit === 'week' ? 7 : 1);
+  const last = getZonedParts(previous, timezone);
+  const time = recurrence.at ?? { hour: last.hour, minute: last.minute };
+
+  let date = addDays(last, days);
+  let candidate = zonedTimeToUtc({ ...date, ...time }, timezone);
+  while (candidate.getTime() <= now.getTime()) {
+    date = addDays(date, days);
+    candidate = zonedTimeToUtc({ ...date, ...time }, timezone);
+  }
+  return candidate;
+}
+
+/**
+ * Format a recurrence for display
+ *
+ * @param recurrence - Parsed recurrence or raw expression
+ * @returns Human-readable description (e.g., "every 2 days at 08:00", "cron 0 8 * * 1")
+ */
+export function describeRecurrence(recurrence: Recurrence | string): string {
+  const parsed = typeof recurrence === 'string' ? parseRecurrence(recurrence) : recurrence;
+
+  if (parsed.kind === 'cron') {
+    return `cron \`${parsed.expression}\``;
+  }
+
+  const unit = parsed.amount === 1 ? parsed.unit : `${parsed.amount} ${parsed.unit}s`;
+  const at = parsed.at
+    ? ` at ${String(parsed.at.hour).padStart(2, '0')}:${String(parsed.at.minute).padStart(2, '0')}`
+    : '';
+  return `every ${unit}${at}`;
+}
+
+/**
+ * Parse "every <n><unit> [at HH:MM]"
+ */
+function parseInterval(expression: string): IntervalRecurrence {
+  const match = expression.match(
+    /^every\s+(\d+)?\s*(m|min|mins|minutes?|h|hours?|d|days?|w|weeks?)(?:\s+at\s+(\d{1,2}):(\d{2}))?$/i
+  );
+
+  if (!match) {
+    throw new Error(
+      `Invalid recurrence "${expression}": expected e.g. "every 30m", "every 2h" or "every 1d at 08:00"`
+    );
+  }
+
+  const amount = match[1] ? parseInt(match[1], 10) : 1;
+  const unitText = match[2].toLowerCase();
+  const unit: IntervalUnit = unitText.startsWith('m')
+    ? 'minute'
+    : unitText.startsWith('h')
+      ? 'hour'
+      : unitText.startsWith('d')
+        ? 'day'
+        : 'week';
+
+  if (amount < 1) {
+    throw new Error(`Invalid recurrence "${expression}": interval must be at least 1`);
+  }
+
+  const recurrence: IntervalRecurrence = { kind: 'interval', expression, amount, unit };
+
+  if (match[3] !== undefined) {
+    if (unit === 'minute' || unit === 'hour') {
+      throw new Error(`Invalid recurrence "${expression}": "at HH:MM" only applies to day or week intervals`);
+    }
+
+    const hour = parseInt(match[3], 10);
+    const minute = parseInt(match[4], 10);
+    if (hour > 23 || minute > 59) {
+      throw new Error(`Invalid recurrence "${expression}": time of day must be between 00:00 and 23:59`);
+    }
+
+    recurrence.at = { hour, minute };
+  }
+
+  return recurrence;
+}
+
+/**
+ * Parse a 5-field cron expression
+ */
+function parseCron(expression: string, fields: string[]): CronRecurrence {
+  const [minuteField, hourField, domField, monthField, dowField] = fields;
+
+  try {
+    const daysOfWeek = parseCronField(dowField, 0, 7, DAY_NAMES).map((day) => (day === 7 ? 0 : day));
+
+    return {
+      kind: 'cron',
+      expression,
+      minutes: parseCronField(minuteField, 0, 59),
+      hours: parseCronField(hourField, 0, 23),
+      daysOfMonth: parseCronField(domField, 1, 31),
+      months: parseCronField(monthField, 1, 12, MONTH_NAMES, 1),
+      daysOfWeek: Array.from(new Set(daysOfWeek)).sort((a, b) => a - b),
+      dayOfMonthRestricted: domField !== '*',
+      dayOfWeekRestricted: dowField !== '*',
+    };
+  } catch (error) {
+    throw new Error(
+      `Invalid cron expression "${expression}": ${error instanceof Error ? error.message : 'unknown error'}`
+    );
+  }
+}
+
+/**
+ * Parse one cron field into the sorted list of values it allows
+ *
+ * @param field - Field text (e.g., "*", "1-5", "*\/15", "mon,wed")
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param names - Optional names mapped to values starting at `nameOffset`
+ * @param nameOffset - Value of the first name
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset: number = 0
+): number[] {
+  const values = new Set<number>();
+
+  const toNumber = (text: string): number => {
+    const nameIndex = names.indexOf(text.toLowerCase());
+    if (nameIndex !== -1) {
+      return nameIndex + nameOffset;
+    }
+    if (!/^\d+$/.test(text)) {
+      throw new Error(`"${text}" is not a valid value`);
+    }
+    const value = parseInt(text, 10);
+    if (value < min || value > max) {
+      throw new Error(`${value} is out of range ${min}-${max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [rangeText, stepText] = part.split('/');
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`"${part}" has an invalid step`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (rangeText === '*') {
+      start = min;
+      end = max;
+    } else if (rangeText.includes('-')) {
+      const [startText, endText] = rangeText.split('-');
+      start = toNumber(startText);
+      end = toNumber(endText);
+      if (start > end) {
+        throw new Error(`"${part}" is an empty range`);
+      }
+    } else {
+      start = toNumber(rangeText);
+      end = stepText !== undefined ? max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Find the first minute strictly after `from` that matches a cron recurrence
+ *
+ * The search walks wall-clock time in the timezone (held in a UTC-based Date so
+ * the walk itself is unaffected by DST). Matches skipped by a spring-forward
+ * gap fire just after the gap; matches repeated by a fall-back fire once.
+ */
+function nextCronMatch(cron: CronRecurrence, from: Date, timezone: string): Date {
+  const start = getZonedParts(from, timezone);
+  const wall = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute + 1));
+
+  for (let i = 0; i < MAX_CRON_ITERATIONS; i++) {
+    if (!cron.months.includes(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cronDayMatches(cron, wall)) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.hours.includes(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+
+    if (!cron.minutes.includes(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const candidate = zonedTimeToUtc(toLocalDateTime(wall), timezone);
+    if (candidate.getTime() > from.getTime()) {
+      return candidate;
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  throw new Error(`Cron expression "${cron.expression}" never matches`);
+}
+
+function toLocalDateTime(wall: Date): LocalDateTime {
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth() + 1,
+    day: wall.getUTCDate(),
+    hour: wall.getUTCHours(),
+    minute: wall.getUTCMinutes(),
+  };
+}
+
+/**
+ * Standard cron day semantics: if both day-of-month and day-of-week are
+ * restricted, a day matching either one is accepted.
+ */
+function cronDayMatches(cron: CronRecurrence, wall: Date): boolean {
+  const domMatch = cron.daysOfMonth.includes(wall.getUTCDate());
+  const dowMatch = cron.daysOfWeek.includes(wall.getUTCDay());
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+
+  return domMatch && dowMatch;
+}
@@ -0,0 +1,160 @@
+/**
+ * Timezone Utility
+ *
+ * Converts between instants and wall-clock times in IANA timezones using the
+ * built-in Intl API, so schedules like "tomorrow 7am" resolve in the bot's
+ * configured timezone rather than the server's.
+ *
+ * The bot-wide default comes from BOT_TIMEZONE (e.g., "Europe/Berlin") and
+ * falls back to the server's timezone.
+ */
+
+/**
+ * A calendar date and wall-clock time in some timezone (month is 1-12)
+ */
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+/**
+ * Wall-clock parts of an instant, including the day of the week (0 = Sunday)
+ */
+export interface ZonedParts extends LocalDateTime {
+  second: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the bot-wide default timezone
+ *
+ * @returns IANA timezone name from BOT_TIMEZONE, or the server's timezone
+ * @throws Error if BOT_TIMEZONE is not a valid IANA timezone
+ */
+export function getDefaultTimezone(): string {
+  const configured = process.env.BOT_TIMEZONE?.trim();
+
+  if (configured) {
+    if (!isValidTimezone(configured)) {
+      throw new Error(`Invalid BOT_TIMEZONE "${configured}": expected an IANA timezone such as "Europe/Berlin"`);
+    }
+    return configured;
+  }
+
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Check whether a string is a valid IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock parts of an instant in a timezone
+ *
+ * @param date - Instant
+ * @param timezone - IANA timezone name
+ */
+export function getZonedParts(date: Date, timezone: string): ZonedParts {
+  const values: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+
+  const year = parseInt(values.year, 10);
+  const month = parseInt(values.month, 10);
+  const day = parseInt(values.day, 10);
+
+  return {
+    year,
+    month,
+    day,
+    hour: parseInt(values.hour, 10),
+    minute: parseInt(values.minute, 10),
+    second: parseInt(values.second, 10),
+    weekday: getWeekday({ year, month, day }),
+  };
+}
+
+/**
+ * Convert a wall-clock time in a timezone to an instant
+ *
+ * Times skipped by a DST transition are moved forward by the length of the gap
+ * (02:30 on a spring-forward night becomes 03:30). Times repeated by a DST
+ * transition resolve to the later of the two instants.
+ *
+ * @param local - Wall-clock date and time
+ * @param timezone - IANA timezone name
+ */
+export function zonedTimeToUtc(local: LocalDateTime, timezone: string): Date {
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+
+  const firstOffset = getTimezoneOffsetMs(new Date(asUtc), timezone);
+  const candidate = asUtc - firstOffset;
+  const secondOffset = getTimezoneOffsetMs(new Date(candidate), timezone);
+
+  return new Date(secondOffset === firstOffset ? candidate : asUtc - secondOffset);
+}
+
+/**
+ * Get a timezone's offset from UTC at an instant
+ *
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+export function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Add calendar days to a date (handles month and year boundaries)
+ */
+export function addDays<T extends { year: number; month: number; day: number }>(date: T, days: number): T {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    ...date,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Day of the week of a calendar date (0 = Sunday)
+ */
+export function getWeekday(date: { year: number; month: number; day: number }): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  return formatter;
+}
@@ -1,7 +1,17 @@
 import express, { Request, Response } from 'express';
 import { PersistentNotificationQueue } from './queue/persistentQueue.js';
-import { Database } from './database.js';
-import { parseScheduledTime, formatRelativeTime } from './utils/dateParser.js';
+import { Database, DeadLetterFilter, NotificationAttempt, NotificationUpdate } from './database.js';
+import { parseScheduledTime, parsePastTime, formatRelativeTime } from './utils/dateParser.js';
+import { getDefaultTimezone, isValidTimezone } from './utils/timezone.js';
+import { getFirstOccurrence, parseRecurrence } from './utils/recurrence.js';
+import { parseNotificationActions } from './queue/actions.js';
+import { parseEmbedRequest, EMBED_LIMITS } from './queue/embeds.js';
+import { parseMentionRequest } from './mentions/mentionManager.js';
+import { parseMultipartNotification, getAttachmentLimitsFromEnv, AttachmentLimits } from './queue/attachments.js';
+import type { AttachmentUpload, NotificationAttachment, NotificationTemplate } from './queue/types.js';
+import { validateTemplate, renderTemplate, getTemplateVariables } from './templates/renderer.js';
+import { MAX_PRIORITY, SEVERITY_LEVELS, isSeverity, isValidPriority } from './severity/severityManager.js';
+import { FAILURE_CATEGORIES, isFailureCategory } from './queue/failures.js';
 import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -21,12 +31,19 @@ export class WebhookServer {
   private queue: PersistentNotificationQueue;
   private database: Database;
   private webhookSecret: string;
+  private attachmentLimits: AttachmentLimits;
 
-  constructor(queue: PersistentNotificationQueue, database: Database, webhookSecret: string) {
+  constructor(
+    queue: PersistentNotificationQueue,
+    database: Database,
+    webhookSecret: string,
+    attachmentLimits: AttachmentLimits = getAttachmentLimitsFromEnv()
+  ) {
     this.app = express();
     this.queue = queue;
     this.database = database;
     this.webhookSecret = webhookSecret;
+    this.attachmentLimits = attachmentLimits;
 
     this.setupMiddleware();
     this.setupRoutes();
@@ -42,13 +59,70 @@ export class WebhookServer {
       res.status(200).json({ status: 'ok' });
     });
 
-    // Webhook endpoint for notifications (with scheduling support)
-    this.app.post('/webhook/notify', async (req: Request, res: Response) => {
+    // Webhook endpoint for notifications (with scheduling support). Notifications with
+    // attachments are sent as multipart/form-data, which arrives here as a raw buffer
+    const multipartBody = express.raw({
+      type: 'multipart/form-data',
+      // Room for every file at the maximum size plus the payload and part headers
+      limit: this.attachmentLimits.maxFiles * this.attachmentLimits.maxFileBytes + 1024 * 1024,
+    });
+
+    this.app.post('/webhook/notify', multipartBody, async (req: Request, res: Response) => {
       // Verify webhook secret if provided
       if (!this.checkSignature(req, res)) return;
 
+      let uploads: AttachmentUpload[] = [];
+      if (Buffer.isBuffer(req.body)) {
+        try {
+          ({ body: req.body, uploads } = await parseMultipartNotification(
+            req.body,
+            req.headers['content-type'] ?? '',
+            this.attachmentLimits
+          ));
+        } catch (error) {
+          return res.status(400).json({
+            error: `Invalid attachments: ${error instanceof Error ? error.message : 'unknown error'}`,
+          });
+        }
+      }
+
+      // Templates fill in the notification from data; fields given in the request win
+      if (req.body.template !== undefined) {
+        try {
+          req.body = await this.applyTemplate(req.body);
+        } catch (error) {
+          return res.status(400).json({
+            error: `Invalid template: ${error instanceof Error ? error.message : 'unknown error'}`,
+          });
+        }
+      }
+
+      let attachments: NotificationAttachment[] | undefined;
+
       try {
-        const { source, title, message, severity, scheduled_for } = req.body;
+        const {
+          source,
+          title,
+          message,
+          severity,
+          scheduled_for,
+          channel,
+          delivery,
+          recipient_user_id,
+          recurrence,
+          timezone,
+          dedupe_key,
+          dedupe_window,
+          dedupe_action,
+          actions,
+          ack_required,
+          digest,
+          mentions,
+          template,
+          retry_policy,
+          priority,
+          metadata,
+        } = req.body;
 
         if (!source || !message) {
           return res.status(400).json({
@@ -56,11 +130,171 @@ export class WebhookServer {
           });
         }
 
+        if (severity !== undefined && !isSeverity(severity)) {
+          return res.status(400).json({ error: `Invalid severity: must be one of ${SEVERITY_LEVELS.join(', ')}` });
+        }
+
+        if (priority !== undefined && !isValidPriority(priority)) {
+          return res.status(400).json({ error: `Invalid priority: must be an integer from 0 to ${MAX_PRIORITY}` });
+        }
+
+        // Metadata is matched by routing rules and stored with the notification
+        if (metadata !== undefined && (!metadata || typeof metadata !== 'object' || Array.isArray(metadata))) {
+          return res.status(400).json({ error: 'Invalid metadata: must be an object' });
+        }
+
+        // Validate target channel or named route if provided
+        if (channel !== undefined) {
+          if (typeof channel !== 'string') {
+            return res.status(400).json({ error: 'Invalid channel: must be a channel ID or route name' });
+          }
+
+          try {
+            this.queue.resolveChannel(channel);
+          } catch (error) {
+            return res.status(400).json({
+              error: `Invalid channel: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+          }
+        }
+
+        // Validate delivery mode (DMs need a recipient)
+        if (delivery !== undefined && delivery !== 'channel' && delivery !== 'dm') {
+          return res.status(400).json({ error: "Invalid delivery: must be 'channel' or 'dm'" });
+        }
+
+        if (
+          delivery === 'dm' &&
+          (typeof recipient_user_id !== 'string' || !/^\d+$/.test(recipient_user_id))
+        ) {
+          return res.status(400).json({
+            error: 'recipient_user_id (Discord user ID) is required for DM delivery',
+          });
+        }
+
+        // Validate timezone used for wall-clock times and recurrence
+        if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimezone(timezone))) {
+          return res.status(400).json({
+            error: 'Invalid timezone: must be an IANA timezone such as "Europe/Berlin"',
+          });
+        }
+
+        // Validate recurrence (cron expression or "every 1d at 08:00")
+        if (recurrence !== undefined) {
+          try {
+            if (typeof recurrence !== 'string') {
+              throw new Error('must be a string');
+            }
+            // Expressions that parse but never fire (e.g. February 31st) have no first occurrence
+            getFirstOccurrence(parseRecurrence(recurrence), new Date(), timezone ?? getDefaultTimezone());
+          } catch (error) {
+            return res.status(400).json({
+              error: `Invalid recurrence: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+          }
+        }
+
+        // Validate deduplication (repeats within the window are coalesced)
+        if (dedupe_key !== undefined) {
+          if (typeof dedupe_key !== 'string' || dedupe_key.trim() === '' || dedupe_key.length > 200) {
+            return res.status(400).json({
+              error: 'Invalid dedupe_key: must be a non-empty string of at most 200 characters',
+            });
+          }
+
+          if (recurrence !== undefined) {
+            return res.status(400).json({ error: 'dedupe_key cannot be combined with recurrence' });
+          }
+        }
+
+        if (
+          dedupe_window !== undefined &&
+          (typeof dedupe_window !== 'number' || !Number.isInteger(dedupe_window) || dedupe_window < 1)
+        ) {
+          return res.status(400).json({ error: 'Invalid dedupe_window: must be a positive number of seconds' });
+        }
+
+        if (dedupe_action !== undefined && dedupe_action !== 'drop' && dedupe_action !== 'count') {
+          return res.status(400).json({ error: "Invalid dedupe_action: must be 'drop' or 'count'" });
+        }
+
+        // Validate action buttons
+        let parsedActions;
+        if (actions !== undefined) {
+          try {
+            parsedActions = parseNotificationActions(actions);
+          } catch (error) {
+            return res.status(400).json({
+              error: `Invalid actions: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+          }
+        }
+
+        if (ack_required !== undefined && typeof ack_required !== 'boolean') {
+          return res.status(400).json({ error: 'Invalid ack_required: must be a boolean' });
+        }
+
+        // Validate rich embed content and Discord's size limits
+        const { embed, errors: embedErrors } = parseEmbedRequest(
+          req.body,
+          uploads.map((upload) => upload.name)
+        );
+        if (embedErrors.length > 0) {
+          return res.status(400).json({ error: `Invalid embed: ${embedErrors[0]}`, details: embedErrors });
+        }
+
+        // Validate mentions (callers may only ping allowlisted users and roles, and configured groups)
+        let resolvedMentions;
+        if (mentions !== undefined) {
+          try {
+            resolvedMentions = this.queue.resolveMentions(parseMentionRequest(mentions), true);
+          } catch (error) {
+            return res.status(400).json({
+              error: `Invalid mentions: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+          }
+        }
+
+        // Validate the retry policy; its settings are stored with the notification
+        let retryPolicy;
+        if (retry_policy !== undefined) {
+          if (typeof retry_policy !== 'string') {
+            return res.status(400).json({ error: 'Invalid retry_policy: must be a policy name' });
+          }
+
+          try {
+            retryPolicy = this.queue.resolveRetryPolicy(retry_policy);
+          } catch (error) {
+            return res.status(400).json({
+              error: `Invalid retry_policy: ${error instanceof Error ? error.message : 'unknown error'}`,
+            });
+          }
+        }
+
+        // Validate periodic digest batching
+        if (digest !== undefined) {
+          if (typeof digest !== 'boolean') {
+            return res.status(400).json({ error: 'Invalid digest: must be a boolean' });
+          }
+
+          if (digest && ack_required) {
+            return res.status(400).json({ error: 'digest cannot be combined with ack_required' });
+          }
+
+          if (digest && delivery === 'dm') {
+            return res.status(400).json({ error: 'digest cannot be used with DM delivery' });
+          }
+
+          if (digest && uploads.length > 0) {
+            return res.status(400).json({ error: 'digest cannot be combined with attachments' });
+          }
+        }
+
         // Parse scheduled_for if provided
         let scheduledFor: Date | undefined;
         if (scheduled_for) {
           try {
-            scheduledFor = parseScheduledTime(scheduled_for);
+            scheduledFor = parseScheduledTime(scheduled_for, { timezone });
           } catch (error) {
             return res.status(400).json({
               error: `Invalid scheduled_for format: ${error instanceof Error ? error.message : 'unknown error'}`,
@@ -68,29 +302,92 @@ export class WebhookServer {
           }
         }
 
-        // Add to queue
-        const notificationId = await this.queue.enqueue({
+        // Store files under the data directory; retries read them from there
+        if (uploads.length > 0) {
+          attachments = await this.database.storeAttachments(uploads);
+        }
+
+        // Add to queue (routing rules may fan out or drop the notification)
+        const result = await this.queue.submit({
           source,
           title,
           message,
           severity: severity || 'info',
           scheduledFor,
+          channel,
+          delivery,
+          recipientUserId: recipient_user_id,
+          recurrence,
+          timezone,
+          dedupeKey: dedupe_key,
+          dedupeWindowSeconds: dedupe_window,
+          dedupeAction: dedupe_action,
+          actions: parsedActions,
+          ackRequired: ack_required,
+          digest,
+          mentions: resolvedMentions,
+          embed,
+          attachments,
+          template,
+          retryPolicy,
+          priority,
+          metadata,
         });
 
+        // Dropped and coalesced notifications do not keep their files
+        if (attachments && (result.dropped || result.coalesced)) {
+          await this.database.deleteUnusedAttachments(attachments);
+        }
+
+        if (result.dropped) {
+          return res.status(200).json({
+            status: 'dropped',
+            notification_id: result.notificationId,
+            rule: result.ruleName,
+          });
+        }
+
+        // Repeat of a recent notification with the same dedupe key
+        if (result.coalesced) {
+          return res.status(200).json({
+            status: 'coalesced',
+            coalesced: true,
+            notification_id: result.notificationId,
+            repeat_count: result.repeatCount,
+          });
+        }
+
         const responseData: any = {
           status: 'queued',
-          notification_id: notificationId,
+          coalesced: false,
+          notification_id: result.notificationId,
           queue_size: this.queue.getQueueSize(),
         };
 
-        if (scheduledFor) {
-          responseData.scheduled_for = scheduledFor.toISOString();
-          responseData.scheduled_in = formatRelativeTime(scheduledFor);
+        if (result.notificationIds.length > 1) {
+          responseData.notification_ids = result.notificationIds;
+        }
+
+        // Recurring notifications without scheduled_for start at the first occurrence
+        const firstRun = scheduledFor || (result.seriesId ? result.scheduledFor : undefined);
+        if (firstRun) {
+          responseData.scheduled_for = firstRun.toISOString();
+          responseData.scheduled_in = formatRelativeTime(firstRun);
+        }
+
+        if (result.seriesId) {
+          responseData.series_id = result.seriesId;
+          responseData.recurrence = recurrence;
         }
 
         res.status(202).json(responseData);
       } catch (error) {
         console.error('Webhook error:', error);
+        if (attachments) {
+          await this.database.deleteUnusedAttachments(attachments).catch((cleanupError) => {
+            console.error('Failed to delete attachments of rejected notification:', cleanupError);
+          });
+        }
         res.status(500).json({ error: 'Internal server error' });
       }
     });
@@ -110,6 +407,8 @@ export class WebhookServer {
           return res.status(404).json({ error: 'Notification not found' });
         }
 
+        const attempts = await this.database.getNotificationAttempts(id);
+
         res.status(200).json({
           id: notification.id,
           source: notification.source,
@@ -123,7 +422,47 @@ export class WebhookServer {
           retry_count: notification.retryCount,
           max_retries: notification.maxRetries,
           last_error: notification.lastError,
+          failure_reason: notification.failureReason,
+          failed_at: notification.failedAt?.toISOString(),
+          next_attempt_at: notification.nextAttemptAt?.toISOString(),
+          held_until: notification.heldUntil?.toISOString(),
+          retry_policy: notification.retryPolicy?.name,
+          priority: notification.priority,
           discord_message_id: notification.discordMessageId,
+          channel_id: notification.channelId,
+          mentions: notification.mentions,
+          delivery_mode: notification.deliveryMode,
+          recipient_user_id: notification.recipientUserId,
+          series_id: notification.seriesId,
+          dedupe_key: notification.dedupeKey,
+          repeat_count: notification.repeatCount,
+          last_seen_at: notification.lastSeenAt?.toISOString(),
+          resolved_at: notification.resolvedAt?.toISOString(),
+          actions: notification.actions,
+          fields: notification.embed?.fields,
+          url: notification.embed?.url,
+          image_url: notification.embed?.imageUrl,
+          thumbnail_url: notification.embed?.thumbnailUrl,
+          author: notification.embed?.author && {
+            name: notification.embed.author.name,
+            url: notification.embed.author.url,
+            icon_url: notification.embed.author.iconUrl,
+          },
+          footer: notification.embed?.footer,
+          color: notification.embed?.color,
+          template: notification.template,
+          attachments: notification.attachments?.map((attachment) => ({
+            name: attachment.name,
+            content_type: attachment.contentType,
+            size: attachment.size,
+          })),
+          ack_required: notification.ackRequired,
+          acknowledged_by: notification.acknowledgedBy,
+          acknowledged_at: notification.acknowledgedAt?.toISOString(),
+          escalation_level: notification.escalationLevel,
+          digest: notification.digest,
+          digest_id: notification.digestId,
+          attempts: attempts.map((attempt) => this.toAttemptResponse(attempt)),
         });
       } catch (error) {
         console.error('Error fetching notification:', error);
@@ -185,6 +524,82 @@ export class WebhookServer {
       }
     });
 
+    // Edit a notification (sent notifications have their Discord message edited in place)
+    this.app.patch('/webhook/notify/:id', async (req: Request, res: Response) => {
+      if (!this.checkSignature(req, res)) return;
+
+      try {
+        const id = parseInt(req.params.id, 10);
+
+        if (isNaN(id)) {
+          return res.status(400).json({ error: 'Invalid notification ID' });
+        }
+
+        const { changes, error } = this.parseNotificationUpdate(req.body);
+        if (error) {
+          return res.status(400).json({ error });
+        }
+
+        if (Object.keys(changes!).length === 0) {
+          return res.status(400).json({ error: 'Nothing to update: provide title, message or severity' });
+        }
+
+        const notification = await this.queue.update(id, changes!);
+
+        if (!notification) {
+          return res.status(404).json({
+            error: 'Notification not found, cancelled or failed',
+          });
+        }
+
+        res.status(200).json({
+          status: 'updated',
+          notification_id: id,
+          notification_status: notification.status,
+          discord_message_id: notification.discordMessageId,
+        });
+      } catch (error) {
+        console.error('Error updating notification:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Mark a notification resolved (optionally changing its content)
+    this.app.post('/webhook/notify/:id/resolve', async (req: Request, res: Response) => {
+      if (!this.checkSignature(req, res)) return;
+
+      try {
+        const id = parseInt(req.params.id, 10);
+
+        if (isNaN(id)) {
+          return res.status(400).json({ error: 'Invalid notification ID' });
+        }
+
+        const { changes, error } = this.parseNotificationUpdate(req.body ?? {});
+        if (error) {
+          return res.status(400).json({ error });
+        }
+
+        const notification = await this.queue.resolve(id, changes);
+
+        if (!notification) {
+          return res.status(404).json({
+            error: 'Notification not found, cancelled or failed',
+          });
+        }
+
+        res.status(200).json({
+          status: 'resolved',
+          notification_id: id,
+          resolved_at: notification.resolvedAt?.toISOString(),
+          discord_message_id: notification.discordMessageId,
+        });
+      } catch (error) {
+        console.error('Error resolving notification:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // Endpoint to send direct message (for testing - kept for backward compatibility)
     this.app.post('/webhook/message', async (req: Request, res: Response) => {
       if (!this.checkSignature(req, res)) return;
@@ -243,6 +658,7 @@ export class WebhookServer {
         const {
           status,
           source,
+          severity,
           search,
           limit = String(PAGINATION_DEFAULTS.LIMIT),
           offset = String(PAGINATION_DEFAULTS.OFFSET),
@@ -253,6 +669,7 @@ export class WebhookServer {
         const result = await this.database.queryNotifications({
           status: status as string,
           source: source as string,
+          severity: severity as string,
           search: search as string,
           limit: parseInt(limit as string, 10),
           offset: parseInt(offset as string, 10),
@@ -274,7 +691,17 @@ export class WebhookServer {
           retry_count: notification.retryCount,
           max_retries: notification.maxRetries,
           last_error: notification.lastError,
+          failure_reason: notification.failureReason,
+          failed_at: notification.failedAt?.toISOString(),
+          next_attempt_at: notification.nextAttemptAt?.toISOString(),
+          held_until: notification.heldUntil?.toISOString(),
+          retry_policy: notification.retryPolicy?.name,
+          priority: notification.priority,
           discord_message_id: notification.discordMessageId,
+          channel_id: notification.channelId,
+          delivery_mode: notification.deliveryMode,
+          recipient_user_id: notification.recipientUserId,
+          series_id: notification.seriesId,
         }));
 
         res.status(200).json({
@@ -289,6 +716,189 @@ export class WebhookServer {
       }
     });
 
+    // List failed notifications in the dead-letter queue with their delivery attempts
+    this.app.get('/webhook/dead-letters', async (req: Request, res: Response) => {
+      try {
+        const { filter, error } = this.parseDeadLetterFilter(req.query);
+        if (!filter) {
+          return res.status(400).json({ error });
+        }
+
+        const limit = parseInt((req.query.limit as string) ?? String(PAGINATION_DEFAULTS.LIMIT), 10);
+        const offset = parseInt((req.query.offset as string) ?? String(PAGINATION_DEFAULTS.OFFSET), 10);
+        if (isNaN(limit) || limit < 1 || isNaN(offset) || offset < 0) {
+          return res.status(400).json({ error: 'Invalid limit or offset' });
+        }
+
+        const result = await this.database.getDeadLetters(filter, limit, offset);
+        const notifications = await Promise.all(
+          result.notifications.map(async (notification) => ({
+            id: notification.id,
+            source: notification.source,
+            title: notification.title,
+            message: notification.message,
+            severity: notification.severity,
+            status: notification.status,
+            created_at: notification.createdAt.toISOString(),
+            failed_at: notification.failedAt?.toISOString(),
+            retry_count: notification.retryCount,
+            max_retries: notification.maxRetries,
+            last_error: notification.lastError,
+            failure_reason: notification.failureReason,
+            channel_id: notification.channelId,
+            delivery_mode: notification.deliveryMode,
+            recipient_user_id: notification.recipientUserId,
+            attempts: (await this.database.getNotificationAttempts(notification.id)).map((attempt) =>
+              this.toAttemptResponse(attempt)
+            ),
+          }))
+        );
+
+        res.status(200).json({ notifications, total: result.total, limit, offset });
+      } catch (error) {
+        console.error('Error listing dead letters:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Replay failed notifications matching a filter
+    this.app.post('/webhook/dead-letters/replay', async (req: Request, res: Response) => {
+      if (!this.checkSignature(req, res)) return;
+
+      try {
+        const { filter, error } = this.parseDeadLetterFilter(req.body ?? {});
+        if (!filter) {
+          return res.status(400).json({ error });
+        }
+
+        const replayed = await this.queue.replayDeadLetters(filter);
+        res.status(200).json({ replayed: replayed.length, notification_ids: replayed });
+      } catch (error) {
+        console.error('Error replaying dead letters:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Delete failed notifications matching a filter
+    this.app.post('/webhook/dead-letters/purge', async (req: Request, res: Response) => {
+      if (!this.checkSignature(req, res)) return;
+
+      try {
+        const body = req.body ?? {};
+        const { filter, error } = this.parseDeadLetterFilter(body);
+        if (!filter) {
+          return res.status(400).json({ error });
+        }
+
+        // Purging is permanent, so emptying the whole queue has to be asked for
+        if (Object.keys(filter).length === 0 && body.all !== true) {
+          return res.status(400).json({ error: 'Add a filter or set "all": true to purge every failed notification' });
+        }
+
+        const purged = await this.database.purgeDeadLetters(filter);
+        console.log(`Purged ${purged} notification(s) from the dead-letter queue`);
+        res.status(200).json({ purged });
+      } catch (error) {
+        console.error('Error purging dead letters:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // List notification templates
+    this.app.get('/webhook/templates', async (req: Request, res: Response) => {
+      try {
+        const templates = await this.database.listTemplates();
+        res.status(200).json({ templates: templates.map((template) => this.toTemplateResponse(template)) });
+      } catch (error) {
+        console.error('Error listing templates:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Get a notification template
+    this.app.get('/webhook/templates/:name', async (req: Request, res: Response) => {
+      try {
+        const template = await this.database.getTemplate(req.params.name);
+        if (!template) {
+          return res.status(404).json({ error: 'Template not found' });
+        }
+
+        res.status(200).json(this.toTemplateResponse(template));
+      } catch (error) {
+        console.error('Error fetching template:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Create or replace a notification template
+    this.app.put('/webhook/templates/:name', async (req: Request, res: Response) => {
+      if (!this.checkSignature(req, res)) return;
+
+      try {
+        const { template, error } = this.parseTemplateRequest(req.params.name, req.body);
+        if (!template) {
+          return res.status(400).json({ error: `Invalid template: ${error}` });
+        }
+
+        const created = await this.database.saveTemplate(template);
+        const saved = (await this.database.getTemplate(template.name))!;
+        res.status(created ? 201 : 200).json(this.toTemplateResponse(saved));
+      } catch (error) {
+        console.error('Error saving template:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Delete a notification template
+    this.app.delete('/webhook/templates/:name', async (req: Request, res: Response) => {
+      if (!this.checkSignature(req, res)) return;
+
+      try {
+        if (!(await this.database.deleteTemplate(req.params.name))) {
+          return res.status(404).json({ error: 'Template not found' });
+        }
+
+        res.status(200).json({ status: 'deleted', name: req.params.name });
+      } catch (error) {
+        console.error('Error deleting template:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    // Render a (possibly unsaved) template with sample data, without sending anything
+    this.app.post('/webhook/templates/preview', async (req: Request, res: Response) => {
+      try {
+        const { template: input, data } = req.body ?? {};
+        const { template, error } = this.parseTemplateRequest(input?.name ?? 'preview', input);
+        if (!template) {
+          return res.status(400).json({ error: `Invalid template: ${error}` });
+        }
+
+        if (data !== undefined && (!data || typeof data !== 'object' || Array.isArray(data))) {
+          return res.status(400).json({ error: 'Invalid data: must be an object' });
+        }
+
+        let notification: Record<string, unknown>;
+        try {
+          notification = renderTemplate(template, data ?? {});
+        } catch (renderError) {
+          return res.status(200).json({
+            variables: getTemplateVariables(template),
+            errors: [renderError instanceof Error ? renderError.message : 'unknown error'],
+          });
+        }
+
+        res.status(200).json({
+          notification,
+          variables: getTemplateVariables(template),
+          errors: parseEmbedRequest(notification).errors,
+        });
+      } catch (error) {
+        console.error('Error previewing template:', error);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
     // Serve sandbox frontend static files
     const sandboxPath = path.join(__dirname, '../sandbox-dist');
     if (fs.existsSync(sandboxPath)) {
@@ -317,15 +927,183 @@ export class WebhookServer {
     });
   }
 
-  private verifySignature(body: any, signature: string): boolean {
+  /**
+   * Render the template named in a notify request and merge it with the request
+   *
+   * @throws Error if the template does not exist or data is missing a placeholder
+   */
+  private async applyTemplate(body: Record<string, any>): Promise<Record<string, any>> {
+    const { template: name, data, ...overrides } = body;
+
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error('template must be a template name');
+    }
+
+    if (data !== undefined && (!data || typeof data !== 'object' || Array.isArray(data))) {
+      throw new Error('data must be an object');
+    }
+
+    const template = await this.database.getTemplate(name);
+    if (!template) {
+      throw new Error(`template "${name}" does not exist`);
+    }
+
+    return { ...renderTemplate(template, data ?? {}), ...overrides, template: template.name };
+  }
+
+  /**
+   * Validate a template sent to the template endpoints
+   */
+  private parseTemplateRequest(name: string, body: any): { template?: NotificationTemplate; error?: string } {
+    if (!body || typeof body !== 'object') {
+      return { error: 'body must be an object' };
+    }
+
+    const template: NotificationTemplate = {
+      name,
+      source: body.source || undefined,
+      title: body.title || undefined,
+      message: body.message,
+      severity: body.severity || undefined,
+      embed: body.embed ?? undefined,
+      channel: body.channel || undefined,
+    };
+
+    for (const key of ['source', 'title', 'channel'] as const) {
+      if (template[key] !== undefined && typeof template[key] !== 'string') {
+        return { error: `${key} must be a string` };
+      }
+    }
+
+    try {
+      validateTemplate(template);
+      if (template.channel) {
+        this.queue.resolveChannel(template.channel);
+      }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'unknown error' };
+    }
+
+    return { template };
+  }
+
+  private toTemplateResponse(template: NotificationTemplate) {
+    return {
+      name: template.name,
+      source: template.source ?? null,
+      title: template.title ?? null,
+      message: template.message,
+      severity: template.severity ?? null,
+      embed: template.embed ?? null,
+      channel: template.channel ?? null,
+      variables: getTemplateVariables(template),
+      created_by: template.createdBy ?? null,
+      created_at: template.createdAt?.toISOString(),
+      updated_at: template.updatedAt?.toISOString(),
+    };
+  }
+
+  private toAttemptResponse(attempt: NotificationAttempt) {
+    return {
+      attempt: attempt.attempt,
+      started_at: attempt.startedAt?.toISOString(),
+      attempted_at: attempt.attemptedAt?.toISOString(),
+      duration_ms:
+        attempt.startedAt && attempt.attemptedAt
+          ? attempt.attemptedAt.getTime() - attempt.startedAt.getTime()
+          : undefined,
+      outcome: attempt.outcome,
+      error: attempt.error,
+      failure_reason: attempt.failureReason,
+      http_status: attempt.httpStatus,
+    };
+  }
+
+  private verifySignature(payload: string | Buffer, signature: string): boolean {
     const hash = crypto
       .createHmac('sha256', this.webhookSecret)
-      .update(JSON.stringify(body))
+      .update(payload)
       .digest('hex');
 
     return hash === signature;
   }
 
+  /**
+   * Validate the title, message and severity fields of an edit request
+   */
+  private parseNotificationUpdate(body: any): { changes?: NotificationUpdate; error?: string } {
+    const { title, message, severity } = body;
+
+    if (title !== undefined && (typeof title !== 'string' || title.trim() === '')) {
+      return { error: 'Invalid title: must be a non-empty string' };
+    }
+
+    if (title !== undefined && title.length > EMBED_LIMITS.TITLE) {
+      return { error: `Invalid title: ${title.length} characters (max ${EMBED_LIMITS.TITLE})` };
+    }
+
+    if (message !== undefined && (typeof message !== 'string' || message.trim() === '')) {
+      return { error: 'Invalid message: must be a non-empty string' };
+    }
+
+    if (message !== undefined && message.length > EMBED_LIMITS.DESCRIPTION) {
+      return { error: `Invalid message: ${message.length} characters (max ${EMBED_LIMITS.DESCRIPTION})` };
+    }
+
+    if (severity !== undefined && !isSeverity(severity)) {
+      return { error: `Invalid severity: must be one of ${SEVERITY_LEVELS.join(', ')}` };
+    }
+
+    const changes: NotificationUpdate = {};
+    if (title !== undefined) changes.title = title;
+    if (message !== undefined) changes.message = message;
+    if (severity !== undefined) changes.severity = severity;
+
+    return { changes };
+  }
+
+  /**
+   * Validate the source, reason, since and until filters of a dead-letter request
+   *
+   * Times are durations back from now ("24h") or dates in the server's timezone.
+   */
+  private parseDeadLetterFilter(input: Record<string, any>): { filter?: DeadLetterFilter; error?: string } {
+    const { source, reason, since, until } = input;
+    const filter: DeadLetterFilter = {};
+
+    if (source !== undefined) {
+      if (typeof source !== 'string' || source.trim() === '') {
+        return { error: 'Invalid source: must be a non-empty string' };
+      }
+      filter.source = source;
+    }
+
+    if (reason !== undefined) {
+      if (!isFailureCategory(reason)) {
+        return { error: `Invalid reason: must be one of ${FAILURE_CATEGORIES.join(', ')}` };
+      }
+      filter.failureReason = reason;
+    }
+
+    for (const [key, value] of [['since', since], ['until', until]] as const) {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || value.trim() === '') {
+        return { error: `Invalid ${key}: must be a time such as "24h" or "2024-12-25 10:00"` };
+      }
+      try {
+        filter[key] = parsePastTime(value);
+      } catch (error) {
+        return { error: `Invalid ${key}: ${error instanceof Error ? error.message : 'unknown error'}` };
+      }
+    }
+
+    if (filter.since && filter.until && filter.since >= filter.until) {
+      return { error: 'Invalid time range: since must be before until' };
+    }
+
+    return { filter };
+  }
+
   /**
    * Verify webhook signature and return 401 if invalid
    * @returns true if signature is valid or no secret is set, false if invalid
@@ -333,7 +1111,9 @@ export class WebhookServer {
   private checkSignature(req: Request, res: Response): boolean {
     if (this.webhookSecret) {
       const signature = req.headers['x-webhook-signature'] as string;
-      if (!signature || !this.verifySignature(req.body, signature)) {
+      // Multipart requests are signed over the raw body, JSON requests over the parsed payload
+      const payload = Buffer.isBuffer(req.body) ? req.body : JSON.stringify(req.body);
+      if (!signature || !this.verifySignature(payload, signature)) {
         res.status(401).json({ error: 'Unauthorized' });
         return false;
       }